@@ -0,0 +1,104 @@
+// Regenerates src/data/airports.generated.ts from the OurAirports airport
+// list (https://ourairports.com/data/, released into the public domain).
+//
+//   npm run generate:airports              # download the latest airports.csv
+//   npm run generate:airports -- ./airports.csv
+//
+// Only large and medium airports with scheduled service and an IATA code are
+// kept; that covers the airports SerpAPI can search flights for without
+// pulling in tens of thousands of airstrips and heliports.
+import { readFile, writeFile } from 'node:fs/promises';
+
+const SOURCE_URL = 'https://davidmegginson.github.io/ourairports-data/airports.csv';
+const OUTPUT = new URL('../src/data/airports.generated.ts', import.meta.url);
+const AIRPORT_TYPES = new Set(['large_airport', 'medium_airport']);
+
+const parseCsv = text => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows;
+  return records
+    .filter(record => record.length === header.length)
+    .map(record => Object.fromEntries(header.map((name, index) => [name, record[index]])));
+};
+
+const load = async source => {
+  if (!/^https?:/.test(source)) {
+    return readFile(source, 'utf8');
+  }
+
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Downloading ${source} failed with ${response.status}`);
+  }
+  return response.text();
+};
+
+// "Changsha (Tianxin)" -> "Changsha"; airports without a municipality fall
+// back to their own name.
+const cityOf = record => record.municipality.replace(/\s*\(.*\)\s*$/, '').trim() || record.name;
+
+const source = process.argv[2] || SOURCE_URL;
+const records = parseCsv(await load(source));
+
+const seen = new Set();
+const rows = records
+  .filter(record => AIRPORT_TYPES.has(record.type) && record.scheduled_service === 'yes')
+  .filter(record => /^[A-Z]{3}$/.test(record.iata_code))
+  .sort((a, b) => a.iata_code.localeCompare(b.iata_code) || a.type.localeCompare(b.type))
+  .filter(record => !seen.has(record.iata_code) && seen.add(record.iata_code))
+  .map(record => [
+    record.iata_code,
+    record.name,
+    cityOf(record),
+    record.iso_country,
+    Number(Number(record.latitude_deg).toFixed(4)),
+    Number(Number(record.longitude_deg).toFixed(4)),
+  ]);
+
+const output = `// Generated by scripts/generate-airports.mjs from OurAirports
+// (https://ourairports.com/data/, public domain). Do not edit by hand; add
+// corrections to airports.data.ts, whose rows take precedence.
+import type { AirportRow } from './airports.data.js';
+
+export const GENERATED_AIRPORT_ROWS: AirportRow[] = [
+${rows.map(row => `  ${JSON.stringify(row)},`).join('\n')}
+];
+`;
+
+await writeFile(OUTPUT, output);
+console.log(`Wrote ${rows.length} airports to ${OUTPUT.pathname}`);
@@ -7,6 +7,83 @@ export const config = {
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || "7d",
   geminiApiKey: process.env.GEMINI_API_KEY,
   serpApiKey: process.env.SERP_API_KEY,
+  routing: {
+    strategy: process.env.ROUTER_STRATEGY || "keyword",
+    llmTimeoutMs: parseInt(process.env.ROUTER_LLM_TIMEOUT_MS || "3000", 10),
+  },
+  sessionCache: {
+    maxSize: parseInt(process.env.SESSION_CACHE_MAX_SIZE || "500", 10),
+    ttlMs: parseInt(process.env.SESSION_CACHE_TTL_MS || "1800000", 10),
+    historyWindow: parseInt(process.env.SESSION_HISTORY_WINDOW || "20", 10),
+  },
+  personalAgent: {
+    historyTurns: parseInt(process.env.PERSONAL_AGENT_HISTORY_TURNS || "12", 10),
+    persona: process.env.PERSONAL_AGENT_PERSONA,
+  },
+  summary: {
+    enabled: process.env.SUMMARY_ENABLED !== "false",
+    maxTurns: parseInt(process.env.SUMMARY_MAX_TURNS || "12", 10),
+    maxTokens: parseInt(process.env.SUMMARY_MAX_TOKENS || "3000", 10),
+    keepRecentTurns: parseInt(process.env.SUMMARY_KEEP_RECENT_TURNS || "6", 10),
+  },
+  flightSlots: {
+    llmEnabled: process.env.FLIGHT_SLOT_LLM_ENABLED !== "false",
+    confirmThreshold: parseFloat(process.env.FLIGHT_SLOT_CONFIRM_THRESHOLD || "0.6"),
+  },
+  flightCache: {
+    backend: process.env.FLIGHT_CACHE_BACKEND || "memory",
+    ttlMs: parseInt(process.env.FLIGHT_CACHE_TTL_MS || "900000", 10),
+    maxSize: parseInt(process.env.FLIGHT_CACHE_MAX_SIZE || "200", 10),
+  },
+  flexibleSearch: {
+    concurrency: parseInt(process.env.FLEX_SEARCH_CONCURRENCY || "3", 10),
+    maxDays: parseInt(process.env.FLEX_SEARCH_MAX_DAYS || "31", 10),
+    defaultFlexDays: parseInt(process.env.FLEX_SEARCH_DEFAULT_DAYS || "3", 10),
+  },
+  dates: {
+    defaultTimezone: process.env.DEFAULT_TIMEZONE || "UTC",
+    defaultDateOrder: process.env.DEFAULT_DATE_ORDER || "DMY",
+  },
+  fareWatch: {
+    enabled: process.env.FARE_WATCH_ENABLED !== "false",
+    pollIntervalMs: parseInt(process.env.FARE_WATCH_POLL_INTERVAL_MS || "60000", 10),
+    checkIntervalMs: parseInt(process.env.FARE_WATCH_CHECK_INTERVAL_MS || "21600000", 10),
+    batchSize: parseInt(process.env.FARE_WATCH_BATCH_SIZE || "20", 10),
+    maxPerUser: parseInt(process.env.FARE_WATCH_MAX_PER_USER || "20", 10),
+  },
+  llm: {
+    provider: process.env.LLM_PROVIDER || "gemini",
+    model: process.env.LLM_MODEL,
+    timeout: parseInt(process.env.LLM_TIMEOUT || "30000", 10),
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+    agents: {
+      personal: {
+        provider: process.env.PERSONAL_AGENT_LLM_PROVIDER,
+        model: process.env.PERSONAL_AGENT_LLM_MODEL,
+      },
+      flight: {
+        provider: process.env.FLIGHT_AGENT_LLM_PROVIDER,
+        model: process.env.FLIGHT_AGENT_LLM_MODEL,
+      },
+      hotel: {
+        provider: process.env.HOTEL_AGENT_LLM_PROVIDER,
+        model: process.env.HOTEL_AGENT_LLM_MODEL,
+      },
+      title: {
+        provider: process.env.TITLE_LLM_PROVIDER,
+        model: process.env.TITLE_LLM_MODEL,
+      },
+      router: {
+        provider: process.env.ROUTER_LLM_PROVIDER,
+        model: process.env.ROUTER_LLM_MODEL,
+      },
+      summary: {
+        provider: process.env.SUMMARY_LLM_PROVIDER,
+        model: process.env.SUMMARY_LLM_MODEL,
+      },
+    },
+  },
 };
 
 export default config;
@@ -0,0 +1,114 @@
+import { Request, Response } from "express";
+import { getAirportResolver } from "../utils/airportResolver.utils.js";
+import { nearbyAirportsSchema, searchAirportsSchema } from "../validations/airport.validation.js";
+
+export const searchAirports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = searchAirportsSchema.validate(req.query, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
+    const results = getAirportResolver().search(value.q, value.limit);
+
+    res.status(200).json({
+      success: true,
+      message: "Airports retrieved successfully",
+      data: {
+        query: value.q,
+        totalResults: results.length,
+        results: results,
+      },
+    });
+  } catch (error: any) {
+    console.error("Search airports error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error searching airports",
+      error: error.message,
+    });
+  }
+};
+
+export const getNearbyAirports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = nearbyAirportsSchema.validate(req.query, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
+    const resolver = getAirportResolver();
+
+    if (value.code && !resolver.isValidCode(value.code)) {
+      res.status(404).json({
+        success: false,
+        message: `Unknown airport code "${value.code.toUpperCase()}"`,
+      });
+      return;
+    }
+
+    const airports = value.code
+      ? resolver.nearbyAirports(value.code, value.limit, value.maxKm)
+      : resolver.nearest(value.lat, value.lon, { limit: value.limit, maxKm: value.maxKm });
+
+    res.status(200).json({
+      success: true,
+      message: "Nearby airports retrieved successfully",
+      data: {
+        totalResults: airports.length,
+        airports: airports,
+      },
+    });
+  } catch (error: any) {
+    console.error("Nearby airports error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error finding nearby airports",
+      error: error.message,
+    });
+  }
+};
+
+export const getAirportByCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const resolver = getAirportResolver();
+    const code = req.params.code.toUpperCase();
+
+    if (!/^[A-Z]{3}$/.test(code) || !resolver.isValidCode(code)) {
+      res.status(404).json({
+        success: false,
+        message: `Unknown airport code "${code}"`,
+      });
+      return;
+    }
+
+    const metro = resolver.getMetro(code);
+
+    res.status(200).json({
+      success: true,
+      message: "Airport retrieved successfully",
+      data: metro
+        ? { ...metro, type: "metro", airports: metro.airports.map((iata) => resolver.getAirport(iata)) }
+        : { ...resolver.getAirport(code), type: "airport" },
+    });
+  } catch (error: any) {
+    console.error("Get airport error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching airport",
+      error: error.message,
+    });
+  }
+};
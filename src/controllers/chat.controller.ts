@@ -1,27 +1,50 @@
 import { Response } from "express";
-import { GoogleGenAI } from "@google/genai";
-import { FlightPlanner, FlightSearchParams } from "../utils/flightPlanner.utils.js";
-import ChatSession from "../models/chatSession.model.js";
-import Message from "../models/message.model.js";
+import { FlightSearchParams } from "../utils/flightPlanner.utils.js";
+import ChatSession, { IChatSession } from "../models/chatSession.model.js";
+import Message, { IMessage } from "../models/message.model.js";
+import SessionContext from "../models/sessionContext.model.js";
+import FareWatch from "../models/fareWatch.model.js";
 import mongoose from "mongoose";
 import { AuthRequest } from "../middleware/auth.middleware.js";
-import { AgentRouterService } from "../services/agentRouter.service.js";
+import { AgentRouterService, ChatResponse } from "../services/agentRouter.service.js";
+import { DateParseOptions, isValidTimezone } from "../utils/dateParser.utils.js";
+import { LlmProvider, createLlmProvider, generateStructured } from "../services/llmProvider.service.js";
+import { LruCache } from "../utils/lruCache.utils.js";
+import config from "../config/index.js";
+import { editMessageSchema, exportSessionSchema, importSessionSchema, listMessagesSchema, listSessionsSchema, searchChatsSchema, updateSessionSchema } from "../validations/chat.validation.js";
+import { ChatImportError, ChatSessionService } from "../services/chatSession.service.js";
+import { UserMemoryService } from "../services/userMemory.service.js";
+import { sessionTitleJsonSchema, sessionTitleSchema } from "../validations/llmOutput.validation.js";
+import { ChatExportFormat, EXPORT_CONTENT_TYPES, exportFileName, renderHtml, renderMarkdown } from "../utils/chatExport.utils.js";
+import { InvalidCursorError } from "../utils/pagination.utils.js";
+
+// Agent metadata kept on stored replies. Anything else an agent returns is
+// only sent back with the response.
+const STORED_METADATA_FIELDS = [
+  "confidence",
+  "routing",
+  "processingTime",
+  "tripType",
+  "requiresMoreInfo",
+  "cache",
+  "refinement",
+  "watch",
+  "slots",
+  "awaitingConfirmation",
+  "usedFlightContext",
+];
 
 export class ChatController {
-  private client: GoogleGenAI;
-  private flightPlanner: FlightPlanner;
-  private agentRouter: AgentRouterService;
-  private sessionAgents: Map<string, AgentRouterService>; 
+  private llm: LlmProvider;
+  private sessionAgents: LruCache<string, AgentRouterService>;
+  private chatSessionService: ChatSessionService;
+  private userMemoryService: UserMemoryService;
 
   constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY environment variable is required");
-    }
-    this.client = new GoogleGenAI({ apiKey });
-    this.flightPlanner = new FlightPlanner();
-    this.agentRouter = new AgentRouterService();
-    this.sessionAgents = new Map();
+    this.llm = createLlmProvider("title");
+    this.sessionAgents = new LruCache(config.sessionCache.maxSize, config.sessionCache.ttlMs);
+    this.chatSessionService = new ChatSessionService();
+    this.userMemoryService = new UserMemoryService();
   }
 
   generateResponse = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -51,88 +74,17 @@ export class ChatController {
         return;
       }
 
-      let chatSession;
-      let isNewSession = false;
-
-      if (sessionId) {
-        if (!mongoose.Types.ObjectId.isValid(sessionId)) {
-          res.status(400).json({
-            success: false,
-            message: "Invalid session ID format"
-          });
-          return;
-        }
-
-        chatSession = await ChatSession.findById(sessionId);
-        if (!chatSession) {
-          res.status(404).json({
-            success: false,
-            message: "Chat session not found"
-          });
-          return;
-        }
-
-        if (chatSession.userId.toString() !== userId) {
-          res.status(403).json({
-            success: false,
-            message: "Unauthorized access to this chat session"
-          });
-          return;
-        }
-      } else {
-        const title = await this.generateSessionTitle(prompt);
-        chatSession = await ChatSession.create({
-          userId: userId,
-          title: title
-        });
-        isNewSession = true;
-      }
-
-      const sessionIdObj = chatSession._id as mongoose.Types.ObjectId;
-      const sessionIdStr = sessionIdObj.toString();
-      if (!this.sessionAgents.has(sessionIdStr) || isNewChat) {
-        this.sessionAgents.set(sessionIdStr, new AgentRouterService(sessionIdObj));
-      }
-      
-      const sessionAgent = this.sessionAgents.get(sessionIdStr)!;
-      
-      if (isNewChat) {
-        sessionAgent.clearHistory();
+      const resolved = await this.resolveChatSession(res, sessionId, userId, prompt);
+      if (!resolved) {
+        return;
       }
 
-      const result = await sessionAgent.chat(prompt);
-
-      console.log('=== MESSAGE STORAGE DEBUG ===');
-      console.log('Message Type:', result.metadata.type);
-      console.log('Agent:', result.metadata.agent);
-      
-      try {
-        console.log('Attempting to store user message...');
-        const userMessage = await Message.create({
-          chat_session_id: chatSession._id as mongoose.Types.ObjectId,
-          is_user_message: true,
-          message: prompt
-        });
-        console.log('User message stored:', userMessage._id);
+      const { chatSession, isNewSession } = resolved;
+      const sessionAgent = await this.getSessionAgent(chatSession._id as mongoose.Types.ObjectId, isNewChat);
 
-        console.log('Attempting to store AI response...');
-        const aiMessage = await Message.create({
-          chat_session_id: chatSession._id,
-          is_user_message: false,
-          message: result.response,
-          flightData: result.flightData,
-        });
-        console.log('AI response stored:', aiMessage._id);
+      const result = await sessionAgent.chat(prompt, { userId, dateOptions: this.getDateOptions(req) });
 
-        const messageCount = await Message.countDocuments({ chat_session_id: chatSession._id });
-        if (isNewSession || messageCount % 6 === 0) { 
-          console.log('Updating session title based on conversation...');
-          await this.updateSessionTitle(chatSession._id as mongoose.Types.ObjectId, userId);
-        }
-      } catch (messageError) {
-        console.error('ERROR STORING MESSAGES:', messageError);
-        throw messageError;
-      }
+      const stored = await this.persistExchange(chatSession._id as mongoose.Types.ObjectId, userId, prompt, result, isNewSession, sessionAgent);
 
       res.status(200).json({
         success: true,
@@ -140,9 +92,12 @@ export class ChatController {
         data: {
           sessionId: chatSession._id,
           isNewSession: isNewSession,
+          userMessageId: stored.userMessageId,
+          assistantMessageId: stored.assistantMessageId,
           prompt: prompt,
           response: result.response,
           flightData: result.flightData,
+          hotelData: result.hotelData,
           context: result.context,
           metadata: result.metadata,
           timestamp: new Date().toISOString(),
@@ -187,33 +142,390 @@ export class ChatController {
     }
   };
 
-  private async generateSessionTitle(prompt: string): Promise<string> {
+  generateResponseStream = async (req: AuthRequest, res: Response): Promise<void> => {
+    const { prompt, sessionId, isNewChat = false } = req.body;
+    const userId = req.user?.userId;
+
+    if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Prompt is required and must be a non-empty string"
+      });
+      return;
+    }
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User authentication required"
+      });
+      return;
+    }
+
+    let resolved;
     try {
-      const titlePrompt = `Based on this user message, generate a short, concise title (max 50 characters) that summarizes the conversation topic. Only return the title, nothing else.
+      resolved = await this.resolveChatSession(res, sessionId, userId, prompt);
+    } catch (error) {
+      console.error("Chat stream session error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to generate response",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+      return;
+    }
+
+    if (!resolved) {
+      return;
+    }
 
-User message: "${prompt}"
+    const { chatSession, isNewSession } = resolved;
+    const sessionIdObj = chatSession._id as mongoose.Types.ObjectId;
 
-Title:`;
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: titlePrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
+    let clientClosed = false;
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        clientClosed = true;
+        console.log(`Stream client disconnected for session ${sessionIdObj}`);
+      }
+    });
+
+    const sendEvent = (event: string, data: any) => {
+      if (clientClosed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    sendEvent('start', { sessionId: sessionIdObj, isNewSession: isNewSession });
+
+    try {
+      const sessionAgent = await this.getSessionAgent(sessionIdObj, isNewChat);
+
+      let streamedText = '';
+      const result = await sessionAgent.chat(prompt, {
+        onDelta: (delta) => {
+          streamedText += delta;
+          sendEvent('delta', { text: delta });
         },
+        userId,
+        dateOptions: this.getDateOptions(req),
       });
 
-      let title = response.text?.trim() || "New Chat";
-      
-      title = title.replace(/^["']|["']$/g, '');
-      
-      if (title.length > 50) {
-        title = title.substring(0, 47) + '...';
+      // Persist even if the client has gone away so the exchange is not lost on reload.
+      const stored = await this.persistExchange(sessionIdObj, userId, prompt, result, isNewSession, sessionAgent);
+
+      // An agent that fails mid-stream answers with fallback text instead;
+      // tell the client to drop what it has rendered so far.
+      if (streamedText && streamedText !== result.response) {
+        sendEvent('reset', { reason: 'response_replaced' });
+      }
+
+      sendEvent('done', {
+        sessionId: sessionIdObj,
+        isNewSession: isNewSession,
+        userMessageId: stored.userMessageId,
+        assistantMessageId: stored.assistantMessageId,
+        prompt: prompt,
+        response: result.response,
+        flightData: result.flightData,
+        hotelData: result.hotelData,
+        context: result.context,
+        metadata: result.metadata,
+        timestamp: new Date().toISOString(),
+        isNewChat: isNewChat
+      });
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      sendEvent('error', {
+        message: "Failed to generate response",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+
+    if (!clientClosed) {
+      res.end();
+    }
+  };
+
+  // Stored preferences win; otherwise fall back to what the client sends.
+  private getDateOptions(req: AuthRequest): DateParseOptions {
+    const preferences = req.user?.preferences || {};
+    const headerTimezone = req.get('X-Timezone');
+    const [headerLocale] = req.acceptsLanguages();
+
+    return {
+      locale: preferences.locale || (headerLocale && headerLocale !== '*' ? headerLocale : undefined),
+      timezone: preferences.timezone || (headerTimezone && isValidTimezone(headerTimezone) ? headerTimezone : undefined),
+      dateOrder: preferences.dateOrder,
+    };
+  }
+
+  private async resolveChatSession(
+    res: Response,
+    sessionId: string | undefined,
+    userId: string,
+    prompt: string
+  ): Promise<{ chatSession: IChatSession; isNewSession: boolean } | null> {
+    if (sessionId) {
+      if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid session ID format"
+        });
+        return null;
+      }
+
+      const chatSession = await ChatSession.findById(sessionId);
+      if (!chatSession) {
+        res.status(404).json({
+          success: false,
+          message: "Chat session not found"
+        });
+        return null;
+      }
+
+      if (chatSession.userId.toString() !== userId) {
+        res.status(403).json({
+          success: false,
+          message: "Unauthorized access to this chat session"
+        });
+        return null;
       }
 
-      return title;
+      return { chatSession, isNewSession: false };
+    }
+
+    const title = await this.generateSessionTitle(prompt);
+    const chatSession = await ChatSession.create({
+      userId: userId,
+      title: title
+    });
+
+    return { chatSession, isNewSession: true };
+  }
+
+  private async findOwnedSession(
+    res: Response,
+    sessionId: string | undefined,
+    userId: string
+  ): Promise<IChatSession | null> {
+    if (!sessionId || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      res.status(400).json({
+        success: false,
+        message: "Valid session ID is required"
+      });
+      return null;
+    }
+
+    const session = await ChatSession.findById(sessionId);
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: "Chat session not found"
+      });
+      return null;
+    }
+
+    if (session.userId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Unauthorized access to this chat session"
+      });
+      return null;
+    }
+
+    return session;
+  }
+
+  private async findSessionMessage(
+    res: Response,
+    session: IChatSession,
+    messageId: string | undefined
+  ): Promise<IMessage | null> {
+    if (!messageId || !mongoose.Types.ObjectId.isValid(messageId)) {
+      res.status(400).json({
+        success: false,
+        message: "Valid message ID is required"
+      });
+      return null;
+    }
+
+    const message = await this.chatSessionService.findMessage(
+      session._id as mongoose.Types.ObjectId,
+      new mongoose.Types.ObjectId(messageId)
+    );
+    if (!message) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found in this chat session"
+      });
+      return null;
+    }
+
+    return message;
+  }
+
+  // Answers `prompt` again with the agent history rewound to `historyLeafId`.
+  private async replayPrompt(
+    req: AuthRequest,
+    session: IChatSession,
+    userId: string,
+    prompt: string,
+    historyLeafId: mongoose.Types.ObjectId | null,
+    branch: { parentId?: mongoose.Types.ObjectId | null; userMessageId?: mongoose.Types.ObjectId }
+  ) {
+    const sessionIdObj = session._id as mongoose.Types.ObjectId;
+    const sessionAgent = await this.getSessionAgent(sessionIdObj, false);
+    await sessionAgent.hydrate(historyLeafId);
+
+    const result = await sessionAgent.chat(prompt, { userId, dateOptions: this.getDateOptions(req) });
+    const stored = await this.persistExchange(sessionIdObj, userId, prompt, result, false, sessionAgent, branch);
+
+    return {
+      sessionId: sessionIdObj,
+      userMessageId: stored.userMessageId,
+      assistantMessageId: stored.assistantMessageId,
+      prompt: prompt,
+      response: result.response,
+      flightData: result.flightData,
+      hotelData: result.hotelData,
+      context: result.context,
+      metadata: result.metadata,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private async getSessionAgent(sessionIdObj: mongoose.Types.ObjectId, isNewChat: boolean): Promise<AgentRouterService> {
+    const sessionIdStr = sessionIdObj.toString();
+
+    if (isNewChat) {
+      const sessionAgent = new AgentRouterService(sessionIdObj);
+      await sessionAgent.clearHistory();
+      this.sessionAgents.set(sessionIdStr, sessionAgent);
+      return sessionAgent;
+    }
+
+    let sessionAgent = this.sessionAgents.get(sessionIdStr);
+    if (sessionAgent) {
+      await sessionAgent.syncIfStale();
+    } else {
+      sessionAgent = new AgentRouterService(sessionIdObj);
+      await sessionAgent.hydrate();
+      this.sessionAgents.set(sessionIdStr, sessionAgent);
+    }
+
+    return sessionAgent;
+  }
+
+  // Stores the exchange on the session's message tree: by default the prompt
+  // continues the active branch; `parentId` forks an edit and `userMessageId`
+  // reuses an existing prompt for a regenerated answer.
+  private async persistExchange(
+    sessionIdObj: mongoose.Types.ObjectId,
+    userId: string,
+    prompt: string,
+    result: ChatResponse,
+    isNewSession: boolean,
+    sessionAgent: AgentRouterService,
+    branch: { parentId?: mongoose.Types.ObjectId | null; userMessageId?: mongoose.Types.ObjectId } = {}
+  ): Promise<{ userMessageId: mongoose.Types.ObjectId; assistantMessageId: mongoose.Types.ObjectId }> {
+    console.log('=== MESSAGE STORAGE DEBUG ===');
+    console.log('Message Type:', result.metadata.type);
+    console.log('Agent:', result.metadata.agent);
+
+    try {
+      let userMessageId = branch.userMessageId;
+      if (!userMessageId) {
+        const parentId = branch.parentId !== undefined
+          ? branch.parentId
+          : await this.chatSessionService.getActiveLeafId(sessionIdObj);
+
+        console.log('Attempting to store user message...');
+        const userMessage = await Message.create({
+          chat_session_id: sessionIdObj,
+          parent_message_id: parentId,
+          is_user_message: true,
+          message: prompt,
+          agent: result.metadata.type
+        });
+        userMessageId = userMessage._id as mongoose.Types.ObjectId;
+        console.log('User message stored:', userMessageId);
+      }
+
+      // What the personal agent picked out of the message includes personal
+      // details, so it is only kept for users who let the assistant remember.
+      const keepExtracted = !!result.metadata.contextExtracted && (await this.userMemoryService.getMemory(userId)).enabled;
+
+      console.log('Attempting to store AI response...');
+      const aiMessage = await Message.create({
+        chat_session_id: sessionIdObj,
+        parent_message_id: userMessageId,
+        is_user_message: false,
+        message: result.response,
+        agent: result.metadata.type,
+        ...this.responseDetails(result, keepExtracted),
+        flightData: result.flightData,
+        hotelData: result.hotelData,
+      });
+      const assistantMessageId = aiMessage._id as mongoose.Types.ObjectId;
+      console.log('AI response stored:', assistantMessageId);
+
+      await ChatSession.updateOne({ _id: sessionIdObj }, { $set: { activeLeafId: assistantMessageId } });
+
+      const messageCount = await Message.countDocuments({ chat_session_id: sessionIdObj });
+      sessionAgent.markSynced(assistantMessageId, messageCount, userMessageId);
+
+      if (isNewSession || messageCount % 6 === 0) {
+        console.log('Updating session title based on conversation...');
+        await this.updateSessionTitle(sessionIdObj, userId);
+      }
+
+      return { userMessageId, assistantMessageId };
+    } catch (messageError) {
+      console.error('ERROR STORING MESSAGES:', messageError);
+      throw messageError;
+    }
+  }
+
+  private responseDetails(
+    result: ChatResponse,
+    keepExtracted: boolean
+  ): Pick<IMessage, "metadata" | "searchParams" | "suggestions" | "tokenUsage"> {
+    const { agent, searchParams, suggestedQuestions, suggestedFollowUps, tokenUsage, contextExtracted } = result.metadata;
+    const suggestions = suggestedQuestions || suggestedFollowUps;
+
+    const metadata: Record<string, any> = { agentName: agent };
+    for (const field of STORED_METADATA_FIELDS) {
+      if (result.metadata[field] !== undefined) {
+        metadata[field] = result.metadata[field];
+      }
+    }
+    if (keepExtracted) {
+      metadata.contextExtracted = contextExtracted;
+    }
+
+    return {
+      metadata: metadata,
+      searchParams: searchParams || undefined,
+      suggestions: Array.isArray(suggestions) && suggestions.length > 0 ? suggestions : undefined,
+      tokenUsage: tokenUsage,
+    };
+  }
+
+  private async generateSessionTitle(prompt: string): Promise<string> {
+    try {
+      const titlePrompt = `Based on this user message, generate a short, concise title (max 50 characters) that summarizes the conversation topic.
+
+User message: "${prompt}"`;
+
+      return await this.requestTitle(titlePrompt);
     } catch (error: any) {
       if (error?.status === 429 || error?.message?.includes('quota') || error?.message?.includes('RESOURCE_EXHAUSTED')) {
         console.warn('Gemini API quota exceeded - using default title');
@@ -224,6 +536,16 @@ Title:`;
     }
   }
 
+  private async requestTitle(titlePrompt: string): Promise<string> {
+    const { title } = await generateStructured(this.llm, titlePrompt, {
+      schema: sessionTitleSchema,
+      responseSchema: sessionTitleJsonSchema,
+    });
+
+    const cleaned = title.replace(/^["']|["']$/g, '');
+    return cleaned.length > 50 ? cleaned.substring(0, 47) + '...' : cleaned;
+  }
+
   private async updateSessionTitle(sessionId: mongoose.Types.ObjectId, userId: string): Promise<void> {
     try {
       const session = await ChatSession.findOne({ _id: sessionId, userId: userId });
@@ -232,6 +554,10 @@ Title:`;
         return;
       }
 
+      if (session.titleLocked) {
+        return;
+      }
+
       const recentMessages = await Message.find({ chat_session_id: sessionId })
         .sort({ createdAt: -1 })
         .limit(10)
@@ -247,33 +573,15 @@ Title:`;
         .map(msg => `${msg.is_user_message ? 'User' : 'Assistant'}: ${msg.message}`)
         .join('\n');
 
-      const titlePrompt = `Based on this conversation, generate a short, concise title (max 50 characters) that best summarizes the main topic or purpose of this chat. Only return the title, nothing else.
+      const titlePrompt = `Based on this conversation, generate a short, concise title (max 50 characters) that best summarizes the main topic or purpose of this chat.
 
 Conversation:
-${conversationContext}
+${conversationContext}`;
 
-Title:`;
-
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: titlePrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
-
-      let newTitle = response.text?.trim() || session.title;
-      
-      newTitle = newTitle.replace(/^["']|["']$/g, '');
-      
-      if (newTitle.length > 50) {
-        newTitle = newTitle.substring(0, 47) + '...';
-      }
+      const newTitle = await this.requestTitle(titlePrompt);
 
       await ChatSession.updateOne(
-        { _id: sessionId },
+        { _id: sessionId, titleLocked: { $ne: true } },
         { $set: { title: newTitle, updatedAt: new Date() } }
       );
 
@@ -299,47 +607,38 @@ Title:`;
         return;
       }
 
-      const sessions = await ChatSession.find({ userId: userId })
-        .sort({ updatedAt: -1 })
-        .select('-__v');
+      const { error, value } = listSessionsSchema.validate(req.query, { abortEarly: false });
 
-      const sessionsWithCount = await Promise.all(
-        sessions.map(async (session) => {
-          const messageCount = await Message.countDocuments({ 
-            chat_session_id: session._id 
-          });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
+        });
+        return;
+      }
 
-          const lastMessage = await Message.findOne({ 
-            chat_session_id: session._id 
-          })
-            .sort({ createdAt: -1 })
-            .select('message createdAt is_user_message');
-
-          return {
-            sessionId: session._id,
-            title: session.title,
-            messageCount: messageCount,
-            lastMessage: lastMessage ? {
-              text: lastMessage.message.substring(0, 100) + (lastMessage.message.length > 100 ? '...' : ''),
-              isUserMessage: lastMessage.is_user_message,
-              timestamp: lastMessage.createdAt
-            } : null,
-            createdAt: session.createdAt,
-            updatedAt: session.updatedAt
-          };
-        })
-      );
+      const { sessions, totalSessions, pagination } = await this.chatSessionService.listSessions(userId, value);
 
       res.status(200).json({
         success: true,
         message: "Sessions retrieved successfully",
         data: {
-          totalSessions: sessionsWithCount.length,
-          sessions: sessionsWithCount
+          totalSessions: totalSessions,
+          sessions: sessions,
+          pagination: pagination
         }
       });
 
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
       console.error("Get all sessions error:", error);
       res.status(500).json({
         success: false,
@@ -349,9 +648,8 @@ Title:`;
     }
   };
 
-  getSessionMessages = async (req: AuthRequest, res: Response): Promise<void> => {
+  regenerateMessage = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
       const userId = req.user?.userId;
 
       if (!userId) {
@@ -362,53 +660,398 @@ Title:`;
         return;
       }
 
-      if (!sessionId || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
+      if (!session) {
+        return;
+      }
+
+      const target = await this.findSessionMessage(res, session, req.params.messageId);
+      if (!target) {
+        return;
+      }
+
+      // Regenerating either message of an exchange re-answers its prompt.
+      const promptMessage = target.is_user_message
+        ? target
+        : await Message.findOne({ _id: target.parent_message_id, chat_session_id: session._id });
+
+      if (!promptMessage || !promptMessage.is_user_message) {
+        res.status(409).json({
+          success: false,
+          message: "This message has no prompt to regenerate from"
+        });
+        return;
+      }
+
+      const data = await this.replayPrompt(req, session, userId, promptMessage.message, promptMessage.parent_message_id ?? null, {
+        userMessageId: promptMessage._id as mongoose.Types.ObjectId
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Response regenerated successfully",
+        data: data
+      });
+
+    } catch (error) {
+      console.error("Regenerate message error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to regenerate response",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  editMessage = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const { error, value } = editMessageSchema.validate(req.body, { abortEarly: false });
+
+      if (error) {
         res.status(400).json({
           success: false,
-          message: "Valid session ID is required"
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
         });
         return;
       }
 
-      const session = await ChatSession.findById(sessionId);
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
       if (!session) {
-        res.status(404).json({
+        return;
+      }
+
+      const target = await this.findSessionMessage(res, session, req.params.messageId);
+      if (!target) {
+        return;
+      }
+
+      if (!target.is_user_message) {
+        res.status(400).json({
           success: false,
-          message: "Chat session not found"
+          message: "Only your own messages can be edited"
         });
         return;
       }
 
-      if (session.userId.toString() !== userId) {
-        res.status(403).json({
+      // The edited prompt becomes a sibling of the original, forking the conversation there.
+      const parentId = target.parent_message_id ?? null;
+      const data = await this.replayPrompt(req, session, userId, value.prompt, parentId, { parentId });
+
+      res.status(200).json({
+        success: true,
+        message: "Message edited successfully",
+        data: data
+      });
+
+    } catch (error) {
+      console.error("Edit message error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to edit message",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  activateBranch = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
           success: false,
-          message: "Unauthorized access to this chat session"
+          message: "User authentication required"
         });
         return;
       }
 
-      const messages = await Message.find({ chat_session_id: sessionId })
-        .sort({ createdAt: -1 })
-        .select('-__v');
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
+      if (!session) {
+        return;
+      }
+
+      const target = await this.findSessionMessage(res, session, req.params.messageId);
+      if (!target) {
+        return;
+      }
+
+      const sessionIdObj = session._id as mongoose.Types.ObjectId;
+      const activeLeafId = await this.chatSessionService.activateBranch(sessionIdObj, target._id as mongoose.Types.ObjectId);
+
+      await this.sessionAgents.get(sessionIdObj.toString())?.hydrate();
+
+      res.status(200).json({
+        success: true,
+        message: "Branch activated successfully",
+        data: {
+          sessionId: sessionIdObj,
+          activeLeafId: activeLeafId
+        }
+      });
+
+    } catch (error) {
+      console.error("Activate branch error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to switch branch",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  searchChats = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const { error, value } = searchChatsSchema.validate(req.query, { abortEarly: false });
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
+        });
+        return;
+      }
+
+      const { sessions, messages, totalMessages } = await this.chatSessionService.search(userId, value);
+
+      res.status(200).json({
+        success: true,
+        message: "Search completed successfully",
+        data: {
+          query: value.q,
+          sessions: sessions,
+          messages: messages,
+          totalMessages: totalMessages,
+          limit: value.limit,
+          offset: value.offset
+        }
+      });
+
+    } catch (error) {
+      console.error("Search chats error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to search chats",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  updateSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const { error, value } = updateSessionSchema.validate(req.body, { abortEarly: false });
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
+        });
+        return;
+      }
+
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
+      if (!session) {
+        return;
+      }
+
+      if (value.title !== undefined) {
+        // A user-chosen title is never replaced by the automatic one.
+        session.title = value.title;
+        session.titleLocked = true;
+      }
+      if (value.pinned !== undefined) {
+        session.pinned = value.pinned;
+      }
+      if (value.archived !== undefined && value.archived !== session.archived) {
+        session.archived = value.archived;
+        session.archivedAt = value.archived ? new Date() : undefined;
+      }
+
+      // Renaming, pinning or archiving shouldn't move the chat to the top of the list.
+      await session.save({ timestamps: false });
+
+      res.status(200).json({
+        success: true,
+        message: "Session updated successfully",
+        data: {
+          sessionId: session._id,
+          title: session.title,
+          pinned: session.pinned,
+          archived: session.archived,
+          archivedAt: session.archivedAt,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt
+        }
+      });
+
+    } catch (error) {
+      console.error("Update session error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update session",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  deleteSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
+      if (!session) {
+        return;
+      }
+
+      const sessionIdObj = session._id as mongoose.Types.ObjectId;
+
+      const [messages] = await Promise.all([
+        Message.deleteMany({ chat_session_id: sessionIdObj }),
+        SessionContext.deleteMany({ chat_session_id: sessionIdObj }),
+        // Fare watches belong to the user and keep running without the chat.
+        FareWatch.updateMany({ chat_session_id: sessionIdObj }, { $unset: { chat_session_id: 1 } }),
+      ]);
+      await ChatSession.deleteOne({ _id: sessionIdObj });
+
+      this.sessionAgents.delete(sessionIdObj.toString());
+
+      console.log(`Chat session ${sessionIdObj} deleted with ${messages.deletedCount} messages`);
+
+      res.status(200).json({
+        success: true,
+        message: "Session deleted successfully",
+        data: {
+          sessionId: sessionIdObj,
+          deletedMessages: messages.deletedCount
+        }
+      });
+
+    } catch (error) {
+      console.error("Delete session error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to delete session",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  getSessionMessages = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const { error, value } = listMessagesSchema.validate(req.query, { abortEarly: false });
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
+        });
+        return;
+      }
+
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
+      if (!session) {
+        return;
+      }
+
+      const { messages, branches, messageCount, pagination } = await this.chatSessionService.listMessages(
+        session._id as mongoose.Types.ObjectId,
+        value
+      );
 
       res.status(200).json({
         success: true,
         message: "Messages retrieved successfully",
         data: {
-          sessionId: sessionId,
+          sessionId: session._id,
           sessionTitle: session.title,
-          messageCount: messages.length,
-          messages: messages.map(msg => ({
-            id: msg._id,
-            isUserMessage: msg.is_user_message,
-            message: msg.message,
-            createdAt: msg.createdAt,
-            updatedAt: msg.updatedAt
-          }))
+          messageCount: messageCount,
+          messages: messages.map(msg => {
+            const branch = branches.get(String(msg._id));
+            return {
+              id: msg._id,
+              parentId: branch?.parentId ?? null,
+              isUserMessage: msg.is_user_message,
+              message: msg.message,
+              agent: msg.agent,
+              metadata: msg.metadata,
+              searchParams: msg.searchParams,
+              suggestions: msg.suggestions,
+              tokenUsage: msg.tokenUsage,
+              flightData: msg.flightData,
+              hotelData: msg.hotelData,
+              alternatives: branch ? {
+                index: branch.index,
+                count: branch.count,
+                messageIds: branch.siblingIds
+              } : undefined,
+              createdAt: msg.createdAt,
+              updatedAt: msg.updatedAt
+            };
+          }),
+          pagination: pagination
         }
       });
 
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
       console.error("Get session messages error:", error);
       res.status(500).json({
         success: false,
@@ -417,4 +1060,115 @@ Title:`;
       });
     }
   };
+
+  exportSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const { error, value } = exportSessionSchema.validate(req.query, { abortEarly: false });
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
+        });
+        return;
+      }
+
+      const session = await this.findOwnedSession(res, req.params.sessionId, userId);
+      if (!session) {
+        return;
+      }
+
+      const format: ChatExportFormat = value.format;
+      const { data, activePath } = await this.chatSessionService.exportSession(session);
+
+      let body: string;
+      if (format === "md") {
+        body = renderMarkdown(data, activePath);
+      } else if (format === "html") {
+        body = renderHtml(data, activePath);
+      } else {
+        body = JSON.stringify(data, null, 2);
+      }
+
+      res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(session.title, format)}"`);
+      res.status(200).send(body);
+
+    } catch (error) {
+      console.error("Export session error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to export session",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
+
+  importSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication required"
+        });
+        return;
+      }
+
+      const { error, value } = importSessionSchema.validate(req.body, { abortEarly: false });
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.details.map((detail) => detail.message)
+        });
+        return;
+      }
+
+      const session = await this.chatSessionService.importSession(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: "Session imported successfully",
+        data: {
+          sessionId: session._id,
+          title: session.title,
+          pinned: session.pinned,
+          archived: session.archived,
+          messageCount: value.messages.length,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof ChatImportError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      console.error("Import session error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to import session",
+        error: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error"
+      });
+    }
+  };
 }
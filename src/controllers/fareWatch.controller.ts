@@ -0,0 +1,259 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import { AuthRequest } from "../middleware/auth.middleware.js";
+import ChatSession from "../models/chatSession.model.js";
+import FareWatch, { IFareWatch } from "../models/fareWatch.model.js";
+import { FareWatchError, FareWatchService } from "../services/fareWatch.service.js";
+import { createFareWatchSchema, updateFareWatchSchema } from "../validations/fareWatch.validation.js";
+
+const fareWatchService = new FareWatchService();
+
+const formatWatch = (watch: IFareWatch) => ({
+  id: watch._id,
+  sessionId: watch.chat_session_id,
+  searchParams: watch.searchParams,
+  threshold: watch.threshold,
+  currency: watch.currency,
+  status: watch.status,
+  lastPrice: watch.lastPrice,
+  lowestPrice: watch.lowestPrice,
+  lastCheckedAt: watch.lastCheckedAt,
+  nextCheckAt: watch.nextCheckAt,
+  lastNotifiedAt: watch.lastNotifiedAt,
+  lastError: watch.lastError,
+  history: watch.history,
+  createdAt: watch.createdAt,
+  updatedAt: watch.updatedAt,
+});
+
+const findUserWatch = async (req: AuthRequest, res: Response): Promise<IFareWatch | null> => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: "Invalid watch ID format",
+    });
+    return null;
+  }
+
+  const watch = await FareWatch.findOne({ _id: id, userId: req.user!.userId });
+
+  if (!watch) {
+    res.status(404).json({
+      success: false,
+      message: "Fare watch not found",
+    });
+    return null;
+  }
+
+  return watch;
+};
+
+export const listWatches = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, any> = { userId: req.user!.userId };
+    if (typeof req.query.status === "string") {
+      filter.status = req.query.status;
+    }
+
+    const watches = await FareWatch.find(filter).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      message: "Fare watches retrieved successfully",
+      data: {
+        totalWatches: watches.length,
+        watches: watches.map(formatWatch),
+      },
+    });
+  } catch (error: any) {
+    console.error("List fare watches error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching fare watches",
+      error: error.message,
+    });
+  }
+};
+
+export const getWatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const watch = await findUserWatch(req, res);
+    if (!watch) return;
+
+    res.status(200).json({
+      success: true,
+      message: "Fare watch retrieved successfully",
+      data: formatWatch(watch),
+    });
+  } catch (error: any) {
+    console.error("Get fare watch error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching fare watch",
+      error: error.message,
+    });
+  }
+};
+
+export const createWatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = createFareWatchSchema.validate(req.body, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
+    const { threshold, currency, sessionId, ...searchParams } = value;
+
+    if (sessionId && !(await ChatSession.exists({ _id: sessionId, userId: req.user!.userId }))) {
+      res.status(404).json({
+        success: false,
+        message: "Chat session not found",
+      });
+      return;
+    }
+
+    const watch = await fareWatchService.createWatch({
+      userId: req.user!.userId,
+      searchParams: {
+        ...searchParams,
+        departureId: searchParams.departureId.toUpperCase(),
+        arrivalId: searchParams.arrivalId.toUpperCase(),
+      },
+      threshold,
+      currency,
+      sessionId: sessionId ? new mongoose.Types.ObjectId(sessionId) : undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Fare watch created successfully",
+      data: formatWatch(watch),
+    });
+  } catch (error: any) {
+    console.error("Create fare watch error:", error);
+
+    if (error instanceof FareWatchError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Error creating fare watch",
+      error: error.message,
+    });
+  }
+};
+
+export const updateWatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = updateFareWatchSchema.validate(req.body, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
+    const watch = await findUserWatch(req, res);
+    if (!watch) return;
+
+    if (watch.status === "expired") {
+      res.status(409).json({
+        success: false,
+        message: "This fare watch has expired because the departure date has passed",
+      });
+      return;
+    }
+
+    const thresholdChanged = value.threshold !== undefined && value.threshold !== watch.threshold;
+    const resumed = value.status === "active" && watch.status !== "active";
+
+    if (value.threshold !== undefined) watch.threshold = value.threshold;
+    if (value.status) watch.status = value.status;
+    if (value.status === "active") watch.nextCheckAt = new Date();
+
+    // Alerts fire when the fare crosses the threshold. Forgetting the last
+    // fare lets one already under a new target, or under the target while
+    // the watch was paused, alert on the next check.
+    if (thresholdChanged || resumed) {
+      watch.lastPrice = undefined;
+      if (watch.status === "active") watch.nextCheckAt = new Date();
+    }
+
+    await watch.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Fare watch updated successfully",
+      data: formatWatch(watch),
+    });
+  } catch (error: any) {
+    console.error("Update fare watch error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating fare watch",
+      error: error.message,
+    });
+  }
+};
+
+export const deleteWatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const watch = await findUserWatch(req, res);
+    if (!watch) return;
+
+    await watch.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: "Fare watch deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Delete fare watch error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting fare watch",
+      error: error.message,
+    });
+  }
+};
+
+export const checkWatchNow = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const watch = await findUserWatch(req, res);
+    if (!watch) return;
+
+    const result = await fareWatchService.checkWatch(watch);
+
+    res.status(200).json({
+      success: true,
+      message: result.error ? `Fare check failed: ${result.error}` : "Fare checked successfully",
+      data: {
+        ...result,
+        watch: formatWatch(watch),
+      },
+    });
+  } catch (error: any) {
+    console.error("Check fare watch error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error checking fare watch",
+      error: error.message,
+    });
+  }
+};
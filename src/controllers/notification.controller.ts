@@ -0,0 +1,75 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import { AuthRequest } from "../middleware/auth.middleware.js";
+import Notification from "../models/notification.model.js";
+
+export const listNotifications = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, any> = { userId: req.user!.userId };
+    if (req.query.unread === "true") {
+      filter.read = false;
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(filter).sort({ createdAt: -1 }).limit(100).select("-__v"),
+      Notification.countDocuments({ userId: req.user!.userId, read: false }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Notifications retrieved successfully",
+      data: {
+        unreadCount,
+        notifications,
+      },
+    });
+  } catch (error: any) {
+    console.error("List notifications error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching notifications",
+      error: error.message,
+    });
+  }
+};
+
+export const markNotificationRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid notification ID format",
+      });
+      return;
+    }
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, userId: req.user!.userId },
+      { $set: { read: true, readAt: new Date() } },
+      { new: true }
+    ).select("-__v");
+
+    if (!notification) {
+      res.status(404).json({
+        success: false,
+        message: "Notification not found",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Notification marked as read",
+      data: notification,
+    });
+  } catch (error: any) {
+    console.error("Mark notification read error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating notification",
+      error: error.message,
+    });
+  }
+};
@@ -1,8 +1,14 @@
 import { Response } from "express";
 import { AuthRequest } from "../middleware/auth.middleware.js";
 import User from "../models/user.model.js";
-import ChatSession from "../models/chatSession.model.js";
-import Message from "../models/message.model.js";
+import { ChatSessionService } from "../services/chatSession.service.js";
+import { UserMemoryService } from "../services/userMemory.service.js";
+import { InvalidCursorError } from "../utils/pagination.utils.js";
+import { listSessionsSchema } from "../validations/chat.validation.js";
+import { updateMemorySchema, updatePreferencesSchema } from "../validations/user.validation.js";
+
+const chatSessionService = new ChatSessionService();
+const userMemoryService = new UserMemoryService();
 
 export const getProfile = async (
   req: AuthRequest,
@@ -17,6 +23,17 @@ export const getProfile = async (
       return;
     }
 
+    const { error, value: sessionQuery } = listSessionsSchema.validate(req.query, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
     const userId = req.user.userId;
 
     const user = await User.findById(userId).select("-password");
@@ -29,36 +46,7 @@ export const getProfile = async (
       return;
     }
 
-    const sessions = await ChatSession.find({ userId: userId })
-      .sort({ updatedAt: -1 }) 
-      .select('-__v');
-
-    const sessionsWithDetails = await Promise.all(
-      sessions.map(async (session) => {
-        const messageCount = await Message.countDocuments({ 
-          chat_session_id: session._id 
-        });
-
-        const lastMessage = await Message.findOne({ 
-          chat_session_id: session._id 
-        })
-          .sort({ createdAt: -1 })
-          .select('message createdAt is_user_message');
-
-        return {
-          sessionId: session._id,
-          title: session.title,
-          messageCount: messageCount,
-          lastMessage: lastMessage ? {
-            text: lastMessage.message.substring(0, 100) + (lastMessage.message.length > 100 ? '...' : ''),
-            isUserMessage: lastMessage.is_user_message,
-            timestamp: lastMessage.createdAt
-          } : null,
-          createdAt: session.createdAt,
-          updatedAt: session.updatedAt
-        };
-      })
-    );
+    const { sessions, totalSessions, pagination } = await chatSessionService.listSessions(userId, sessionQuery);
 
     res.status(200).json({
       success: true,
@@ -68,16 +56,26 @@ export const getProfile = async (
           id: user._id,
           email: user.email,
           username: user.username,
+          preferences: user.preferences || {},
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
         },
         sessions: {
-          totalSessions: sessionsWithDetails.length,
-          list: sessionsWithDetails
+          totalSessions: totalSessions,
+          list: sessions,
+          pagination: pagination
         }
       },
     });
   } catch (error: any) {
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     console.error("Get profile error:", error);
     res.status(500).json({
       success: false,
@@ -87,3 +85,182 @@ export const getProfile = async (
   }
 };
 
+
+export const updatePreferences = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { error, value } = updatePreferencesSchema.validate(req.body, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
+    // null clears a preference so the request headers / server defaults apply again.
+    const $set: Record<string, string> = {};
+    const $unset: Record<string, 1> = {};
+    for (const [key, preference] of Object.entries(value as Record<string, string | null>)) {
+      if (preference === null) {
+        $unset[`preferences.${key}`] = 1;
+      } else {
+        $set[`preferences.${key}`] = preference;
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user.userId,
+      {
+        ...(Object.keys($set).length > 0 && { $set }),
+        ...(Object.keys($unset).length > 0 && { $unset }),
+      },
+      { new: true }
+    ).select("preferences");
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Preferences updated successfully",
+      data: {
+        preferences: user.preferences || {},
+      },
+    });
+  } catch (error: any) {
+    console.error("Update preferences error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating preferences",
+      error: error.message,
+    });
+  }
+};
+
+export const getMemory = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const memory = await userMemoryService.getMemory(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Memory retrieved successfully",
+      data: memory,
+    });
+  } catch (error: any) {
+    console.error("Get memory error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error retrieving memory",
+      error: error.message,
+    });
+  }
+};
+
+export const updateMemory = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { error, value } = updateMemorySchema.validate(req.body, { abortEarly: false });
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+
+    const memory = await userMemoryService.updateMemory(req.user.userId, value);
+
+    res.status(200).json({
+      success: true,
+      message: "Memory updated successfully",
+      data: memory,
+    });
+  } catch (error: any) {
+    console.error("Update memory error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating memory",
+      error: error.message,
+    });
+  }
+};
+
+export const deleteMemory = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { key } = req.params;
+    const removed = await userMemoryService.forget(req.user.userId, key);
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: `Nothing is remembered under "${key}"`,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: key ? "Memory entry deleted successfully" : "Memory cleared successfully",
+      data: await userMemoryService.getMemory(req.user.userId),
+    });
+  } catch (error: any) {
+    console.error("Delete memory error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting memory",
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,618 @@
+import { GENERATED_AIRPORT_ROWS } from './airports.generated.js';
+
+export interface AirportRecord {
+  iata: string;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
+
+export interface MetroArea {
+  code: string;
+  city: string;
+  airports: string[];
+}
+
+export type AirportRow = [iata: string, name: string, city: string, country: string, lat: number, lon: number];
+
+// The first airport listed for a city is the one a bare city name resolves to
+// (unless the city has a metro code, which searches all of them).
+const AIRPORT_ROWS: AirportRow[] = [
+  // India
+  ['DEL', 'Indira Gandhi International Airport', 'Delhi', 'IN', 28.5562, 77.1000],
+  ['BOM', 'Chhatrapati Shivaji Maharaj International Airport', 'Mumbai', 'IN', 19.0896, 72.8656],
+  ['NMI', 'Navi Mumbai International Airport', 'Mumbai', 'IN', 18.9920, 73.0710],
+  ['BLR', 'Kempegowda International Airport', 'Bengaluru', 'IN', 13.1986, 77.7066],
+  ['MAA', 'Chennai International Airport', 'Chennai', 'IN', 12.9941, 80.1709],
+  ['CCU', 'Netaji Subhas Chandra Bose International Airport', 'Kolkata', 'IN', 22.6547, 88.4467],
+  ['HYD', 'Rajiv Gandhi International Airport', 'Hyderabad', 'IN', 17.2403, 78.4294],
+  ['AMD', 'Sardar Vallabhbhai Patel International Airport', 'Ahmedabad', 'IN', 23.0772, 72.6347],
+  ['PNQ', 'Pune Airport', 'Pune', 'IN', 18.5821, 73.9197],
+  ['GOI', 'Dabolim Airport', 'Goa', 'IN', 15.3808, 73.8314],
+  ['GOX', 'Manohar International Airport', 'Goa', 'IN', 15.7441, 73.8606],
+  ['JAI', 'Jaipur International Airport', 'Jaipur', 'IN', 26.8242, 75.8122],
+  ['LKO', 'Chaudhary Charan Singh International Airport', 'Lucknow', 'IN', 26.7606, 80.8893],
+  ['COK', 'Cochin International Airport', 'Kochi', 'IN', 10.1520, 76.4019],
+  ['TRV', 'Trivandrum International Airport', 'Thiruvananthapuram', 'IN', 8.4821, 76.9201],
+  ['CCJ', 'Calicut International Airport', 'Kozhikode', 'IN', 11.1368, 75.9553],
+  ['IXC', 'Chandigarh International Airport', 'Chandigarh', 'IN', 30.6735, 76.7885],
+  ['CJB', 'Coimbatore International Airport', 'Coimbatore', 'IN', 11.0300, 77.0434],
+  ['BDQ', 'Vadodara Airport', 'Vadodara', 'IN', 22.3362, 73.2263],
+  ['IDR', 'Devi Ahilya Bai Holkar Airport', 'Indore', 'IN', 22.7218, 75.8011],
+  ['NAG', 'Dr. Babasaheb Ambedkar International Airport', 'Nagpur', 'IN', 21.0922, 79.0472],
+  ['STV', 'Surat Airport', 'Surat', 'IN', 21.1141, 72.7418],
+  ['VTZ', 'Visakhapatnam Airport', 'Visakhapatnam', 'IN', 17.7212, 83.2245],
+  ['BBI', 'Biju Patnaik International Airport', 'Bhubaneswar', 'IN', 20.2444, 85.8178],
+  ['PAT', 'Jay Prakash Narayan International Airport', 'Patna', 'IN', 25.5913, 85.0880],
+  ['IXR', 'Birsa Munda Airport', 'Ranchi', 'IN', 23.3143, 85.3217],
+  ['UDR', 'Maharana Pratap Airport', 'Udaipur', 'IN', 24.6177, 73.8961],
+  ['ATQ', 'Sri Guru Ram Dass Jee International Airport', 'Amritsar', 'IN', 31.7096, 74.7973],
+  ['SXR', 'Sheikh ul-Alam International Airport', 'Srinagar', 'IN', 33.9871, 74.7742],
+  ['IXJ', 'Jammu Airport', 'Jammu', 'IN', 32.6891, 74.8374],
+  ['IXL', 'Kushok Bakula Rimpochee Airport', 'Leh', 'IN', 34.1359, 77.5465],
+  ['GAU', 'Lokpriya Gopinath Bordoloi International Airport', 'Guwahati', 'IN', 26.1061, 91.5859],
+  ['IMF', 'Imphal International Airport', 'Imphal', 'IN', 24.7600, 93.8967],
+  ['IXA', 'Maharaja Bir Bikram Airport', 'Agartala', 'IN', 23.8870, 91.2404],
+  ['IXB', 'Bagdogra Airport', 'Siliguri', 'IN', 26.6812, 88.3286],
+  ['VNS', 'Lal Bahadur Shastri International Airport', 'Varanasi', 'IN', 25.4524, 82.8593],
+  ['IXZ', 'Veer Savarkar International Airport', 'Port Blair', 'IN', 11.6412, 92.7297],
+  ['IXE', 'Mangaluru International Airport', 'Mangaluru', 'IN', 12.9613, 74.8901],
+  ['MYQ', 'Mysore Airport', 'Mysuru', 'IN', 12.2300, 76.6558],
+  ['IXM', 'Madurai Airport', 'Madurai', 'IN', 9.8345, 78.0934],
+  ['TRZ', 'Tiruchirappalli International Airport', 'Tiruchirappalli', 'IN', 10.7654, 78.7097],
+  ['VGA', 'Vijayawada Airport', 'Vijayawada', 'IN', 16.5304, 80.7968],
+  ['TIR', 'Tirupati Airport', 'Tirupati', 'IN', 13.6325, 79.5433],
+  ['RPR', 'Swami Vivekananda Airport', 'Raipur', 'IN', 21.1804, 81.7388],
+  ['BHO', 'Raja Bhoj Airport', 'Bhopal', 'IN', 23.2875, 77.3374],
+  ['JDH', 'Jodhpur Airport', 'Jodhpur', 'IN', 26.2511, 73.0489],
+  ['DED', 'Jolly Grant Airport', 'Dehradun', 'IN', 30.1897, 78.1803],
+  ['IXU', 'Aurangabad Airport', 'Aurangabad', 'IN', 19.8627, 75.3981],
+  ['RAJ', 'Rajkot International Airport', 'Rajkot', 'IN', 22.3092, 70.7795],
+  ['DIB', 'Dibrugarh Airport', 'Dibrugarh', 'IN', 27.4839, 95.0169],
+  ['GAY', 'Gaya Airport', 'Gaya', 'IN', 24.7443, 84.9512],
+  ['AYJ', 'Maharishi Valmiki International Airport', 'Ayodhya', 'IN', 26.7516, 82.1504],
+
+  // South Asia
+  ['KTM', 'Tribhuvan International Airport', 'Kathmandu', 'NP', 27.6966, 85.3591],
+  ['DAC', 'Hazrat Shahjalal International Airport', 'Dhaka', 'BD', 23.8433, 90.3978],
+  ['CGP', 'Shah Amanat International Airport', 'Chittagong', 'BD', 22.2496, 91.8133],
+  ['CMB', 'Bandaranaike International Airport', 'Colombo', 'LK', 7.1808, 79.8841],
+  ['MLE', 'Velana International Airport', 'Male', 'MV', 4.1918, 73.5290],
+  ['KHI', 'Jinnah International Airport', 'Karachi', 'PK', 24.9065, 67.1608],
+  ['LHE', 'Allama Iqbal International Airport', 'Lahore', 'PK', 31.5216, 74.4036],
+  ['ISB', 'Islamabad International Airport', 'Islamabad', 'PK', 33.5491, 72.8258],
+  ['PBH', 'Paro International Airport', 'Paro', 'BT', 27.4032, 89.4246],
+  ['KBL', 'Hamid Karzai International Airport', 'Kabul', 'AF', 34.5659, 69.2123],
+
+  // Middle East
+  ['DXB', 'Dubai International Airport', 'Dubai', 'AE', 25.2532, 55.3657],
+  ['DWC', 'Al Maktoum International Airport', 'Dubai', 'AE', 24.8964, 55.1614],
+  ['AUH', 'Zayed International Airport', 'Abu Dhabi', 'AE', 24.4330, 54.6511],
+  ['SHJ', 'Sharjah International Airport', 'Sharjah', 'AE', 25.3286, 55.5172],
+  ['DOH', 'Hamad International Airport', 'Doha', 'QA', 25.2731, 51.6081],
+  ['BAH', 'Bahrain International Airport', 'Manama', 'BH', 26.2708, 50.6336],
+  ['KWI', 'Kuwait International Airport', 'Kuwait City', 'KW', 29.2266, 47.9689],
+  ['MCT', 'Muscat International Airport', 'Muscat', 'OM', 23.5933, 58.2844],
+  ['RUH', 'King Khalid International Airport', 'Riyadh', 'SA', 24.9576, 46.6988],
+  ['JED', 'King Abdulaziz International Airport', 'Jeddah', 'SA', 21.6796, 39.1565],
+  ['DMM', 'King Fahd International Airport', 'Dammam', 'SA', 26.4712, 49.7979],
+  ['MED', 'Prince Mohammad bin Abdulaziz Airport', 'Medina', 'SA', 24.5534, 39.7051],
+  ['AMM', 'Queen Alia International Airport', 'Amman', 'JO', 31.7226, 35.9932],
+  ['BEY', 'Beirut–Rafic Hariri International Airport', 'Beirut', 'LB', 33.8209, 35.4884],
+  ['TLV', 'Ben Gurion Airport', 'Tel Aviv', 'IL', 32.0055, 34.8854],
+  ['IKA', 'Imam Khomeini International Airport', 'Tehran', 'IR', 35.4161, 51.1522],
+  ['BGW', 'Baghdad International Airport', 'Baghdad', 'IQ', 33.2625, 44.2346],
+  ['CAI', 'Cairo International Airport', 'Cairo', 'EG', 30.1219, 31.4056],
+  ['HRG', 'Hurghada International Airport', 'Hurghada', 'EG', 27.1783, 33.7994],
+  ['SSH', 'Sharm El Sheikh International Airport', 'Sharm El Sheikh', 'EG', 27.9773, 34.3950],
+
+  // East Asia
+  ['PEK', 'Beijing Capital International Airport', 'Beijing', 'CN', 40.0799, 116.6031],
+  ['PKX', 'Beijing Daxing International Airport', 'Beijing', 'CN', 39.5098, 116.4105],
+  ['PVG', 'Shanghai Pudong International Airport', 'Shanghai', 'CN', 31.1443, 121.8083],
+  ['SHA', 'Shanghai Hongqiao International Airport', 'Shanghai', 'CN', 31.1979, 121.3363],
+  ['CAN', 'Guangzhou Baiyun International Airport', 'Guangzhou', 'CN', 23.3924, 113.2988],
+  ['SZX', "Shenzhen Bao'an International Airport", 'Shenzhen', 'CN', 22.6393, 113.8107],
+  ['CTU', 'Chengdu Shuangliu International Airport', 'Chengdu', 'CN', 30.5785, 103.9471],
+  ['TFU', 'Chengdu Tianfu International Airport', 'Chengdu', 'CN', 30.3125, 104.4413],
+  ['HGH', 'Hangzhou Xiaoshan International Airport', 'Hangzhou', 'CN', 30.2295, 120.4344],
+  ['XIY', "Xi'an Xianyang International Airport", "Xi'an", 'CN', 34.4471, 108.7516],
+  ['CKG', 'Chongqing Jiangbei International Airport', 'Chongqing', 'CN', 29.7192, 106.6417],
+  ['KMG', 'Kunming Changshui International Airport', 'Kunming', 'CN', 25.1019, 102.9292],
+  ['WUH', 'Wuhan Tianhe International Airport', 'Wuhan', 'CN', 30.7838, 114.2081],
+  ['NKG', 'Nanjing Lukou International Airport', 'Nanjing', 'CN', 31.7420, 118.8620],
+  ['XMN', 'Xiamen Gaoqi International Airport', 'Xiamen', 'CN', 24.5440, 118.1278],
+  ['HKG', 'Hong Kong International Airport', 'Hong Kong', 'HK', 22.3080, 113.9185],
+  ['MFM', 'Macau International Airport', 'Macau', 'MO', 22.1496, 113.5916],
+  ['TPE', 'Taiwan Taoyuan International Airport', 'Taipei', 'TW', 25.0797, 121.2342],
+  ['TSA', 'Taipei Songshan Airport', 'Taipei', 'TW', 25.0694, 121.5525],
+  ['HND', 'Haneda Airport', 'Tokyo', 'JP', 35.5494, 139.7798],
+  ['NRT', 'Narita International Airport', 'Tokyo', 'JP', 35.7720, 140.3929],
+  ['KIX', 'Kansai International Airport', 'Osaka', 'JP', 34.4320, 135.2304],
+  ['ITM', 'Osaka Itami Airport', 'Osaka', 'JP', 34.7855, 135.4382],
+  ['NGO', 'Chubu Centrair International Airport', 'Nagoya', 'JP', 34.8584, 136.8052],
+  ['FUK', 'Fukuoka Airport', 'Fukuoka', 'JP', 33.5859, 130.4511],
+  ['CTS', 'New Chitose Airport', 'Sapporo', 'JP', 42.7752, 141.6923],
+  ['OKA', 'Naha Airport', 'Okinawa', 'JP', 26.1958, 127.6459],
+  ['ICN', 'Incheon International Airport', 'Seoul', 'KR', 37.4602, 126.4407],
+  ['GMP', 'Gimpo International Airport', 'Seoul', 'KR', 37.5583, 126.7906],
+  ['PUS', 'Gimhae International Airport', 'Busan', 'KR', 35.1795, 128.9382],
+  ['CJU', 'Jeju International Airport', 'Jeju', 'KR', 33.5113, 126.4930],
+  ['ULN', 'Chinggis Khaan International Airport', 'Ulaanbaatar', 'MN', 47.6469, 106.8197],
+
+  // Southeast Asia
+  ['SIN', 'Singapore Changi Airport', 'Singapore', 'SG', 1.3644, 103.9915],
+  ['BKK', 'Suvarnabhumi Airport', 'Bangkok', 'TH', 13.6900, 100.7501],
+  ['DMK', 'Don Mueang International Airport', 'Bangkok', 'TH', 13.9126, 100.6068],
+  ['HKT', 'Phuket International Airport', 'Phuket', 'TH', 8.1132, 98.3169],
+  ['CNX', 'Chiang Mai International Airport', 'Chiang Mai', 'TH', 18.7668, 98.9626],
+  ['USM', 'Samui International Airport', 'Koh Samui', 'TH', 9.5478, 100.0623],
+  ['KBV', 'Krabi International Airport', 'Krabi', 'TH', 8.0992, 98.9862],
+  ['KUL', 'Kuala Lumpur International Airport', 'Kuala Lumpur', 'MY', 2.7456, 101.7099],
+  ['PEN', 'Penang International Airport', 'Penang', 'MY', 5.2971, 100.2770],
+  ['BKI', 'Kota Kinabalu International Airport', 'Kota Kinabalu', 'MY', 5.9372, 116.0510],
+  ['LGK', 'Langkawi International Airport', 'Langkawi', 'MY', 6.3297, 99.7287],
+  ['CGK', 'Soekarno–Hatta International Airport', 'Jakarta', 'ID', -6.1256, 106.6559],
+  ['DPS', 'Ngurah Rai International Airport', 'Bali', 'ID', -8.7482, 115.1675],
+  ['SUB', 'Juanda International Airport', 'Surabaya', 'ID', -7.3798, 112.7868],
+  ['MNL', 'Ninoy Aquino International Airport', 'Manila', 'PH', 14.5086, 121.0198],
+  ['CEB', 'Mactan–Cebu International Airport', 'Cebu', 'PH', 10.3075, 123.9794],
+  ['SGN', 'Tan Son Nhat International Airport', 'Ho Chi Minh City', 'VN', 10.8188, 106.6520],
+  ['HAN', 'Noi Bai International Airport', 'Hanoi', 'VN', 21.2212, 105.8072],
+  ['DAD', 'Da Nang International Airport', 'Da Nang', 'VN', 16.0439, 108.1994],
+  ['PQC', 'Phu Quoc International Airport', 'Phu Quoc', 'VN', 10.1698, 103.9931],
+  ['PNH', 'Techo International Airport', 'Phnom Penh', 'KH', 11.3800, 104.8500],
+  ['REP', 'Siem Reap–Angkor International Airport', 'Siem Reap', 'KH', 13.3676, 104.2244],
+  ['RGN', 'Yangon International Airport', 'Yangon', 'MM', 16.9073, 96.1332],
+  ['VTE', 'Wattay International Airport', 'Vientiane', 'LA', 17.9883, 102.5633],
+  ['BWN', 'Brunei International Airport', 'Bandar Seri Begawan', 'BN', 4.9442, 114.9284],
+
+  // Oceania
+  ['SYD', 'Sydney Kingsford Smith Airport', 'Sydney', 'AU', -33.9399, 151.1753],
+  ['MEL', 'Melbourne Airport', 'Melbourne', 'AU', -37.6690, 144.8410],
+  ['BNE', 'Brisbane Airport', 'Brisbane', 'AU', -27.3842, 153.1175],
+  ['PER', 'Perth Airport', 'Perth', 'AU', -31.9403, 115.9669],
+  ['ADL', 'Adelaide Airport', 'Adelaide', 'AU', -34.9450, 138.5306],
+  ['OOL', 'Gold Coast Airport', 'Gold Coast', 'AU', -28.1644, 153.5047],
+  ['CNS', 'Cairns Airport', 'Cairns', 'AU', -16.8858, 145.7552],
+  ['CBR', 'Canberra Airport', 'Canberra', 'AU', -35.3069, 149.1950],
+  ['DRW', 'Darwin International Airport', 'Darwin', 'AU', -12.4147, 130.8767],
+  ['HBA', 'Hobart International Airport', 'Hobart', 'AU', -42.8361, 147.5103],
+  ['AKL', 'Auckland Airport', 'Auckland', 'NZ', -37.0082, 174.7850],
+  ['WLG', 'Wellington International Airport', 'Wellington', 'NZ', -41.3272, 174.8053],
+  ['CHC', 'Christchurch International Airport', 'Christchurch', 'NZ', -43.4894, 172.5320],
+  ['ZQN', 'Queenstown Airport', 'Queenstown', 'NZ', -45.0211, 168.7392],
+  ['NAN', 'Nadi International Airport', 'Nadi', 'FJ', -17.7554, 177.4434],
+  ['PPT', "Faa'a International Airport", 'Papeete', 'PF', -17.5537, -149.6060],
+  ['POM', 'Jacksons International Airport', 'Port Moresby', 'PG', -9.4434, 147.2200],
+
+  // United Kingdom and Ireland
+  ['LHR', 'Heathrow Airport', 'London', 'GB', 51.4700, -0.4543],
+  ['LGW', 'Gatwick Airport', 'London', 'GB', 51.1537, -0.1821],
+  ['STN', 'London Stansted Airport', 'London', 'GB', 51.8860, 0.2389],
+  ['LTN', 'London Luton Airport', 'London', 'GB', 51.8747, -0.3683],
+  ['LCY', 'London City Airport', 'London', 'GB', 51.5053, 0.0553],
+  ['SEN', 'London Southend Airport', 'London', 'GB', 51.5714, 0.6956],
+  ['MAN', 'Manchester Airport', 'Manchester', 'GB', 53.3537, -2.2750],
+  ['BHX', 'Birmingham Airport', 'Birmingham', 'GB', 52.4539, -1.7480],
+  ['EDI', 'Edinburgh Airport', 'Edinburgh', 'GB', 55.9500, -3.3725],
+  ['GLA', 'Glasgow Airport', 'Glasgow', 'GB', 55.8719, -4.4331],
+  ['BRS', 'Bristol Airport', 'Bristol', 'GB', 51.3827, -2.7191],
+  ['NCL', 'Newcastle International Airport', 'Newcastle', 'GB', 55.0375, -1.6917],
+  ['LPL', 'Liverpool John Lennon Airport', 'Liverpool', 'GB', 53.3336, -2.8497],
+  ['BFS', 'Belfast International Airport', 'Belfast', 'GB', 54.6575, -6.2158],
+  ['ABZ', 'Aberdeen International Airport', 'Aberdeen', 'GB', 57.2019, -2.1978],
+  ['DUB', 'Dublin Airport', 'Dublin', 'IE', 53.4264, -6.2499],
+  ['SNN', 'Shannon Airport', 'Shannon', 'IE', 52.7020, -8.9248],
+  ['ORK', 'Cork Airport', 'Cork', 'IE', 51.8413, -8.4911],
+
+  // Western Europe
+  ['CDG', 'Paris Charles de Gaulle Airport', 'Paris', 'FR', 49.0097, 2.5479],
+  ['ORY', 'Paris Orly Airport', 'Paris', 'FR', 48.7262, 2.3652],
+  ['BVA', 'Paris Beauvais Airport', 'Paris', 'FR', 49.4544, 2.1128],
+  ['NCE', "Nice Côte d'Azur Airport", 'Nice', 'FR', 43.6584, 7.2159],
+  ['LYS', 'Lyon–Saint-Exupéry Airport', 'Lyon', 'FR', 45.7256, 5.0811],
+  ['MRS', 'Marseille Provence Airport', 'Marseille', 'FR', 43.4393, 5.2214],
+  ['TLS', 'Toulouse–Blagnac Airport', 'Toulouse', 'FR', 43.6291, 1.3638],
+  ['BOD', 'Bordeaux–Mérignac Airport', 'Bordeaux', 'FR', 44.8283, -0.7156],
+  ['NTE', 'Nantes Atlantique Airport', 'Nantes', 'FR', 47.1532, -1.6107],
+  ['AMS', 'Amsterdam Airport Schiphol', 'Amsterdam', 'NL', 52.3105, 4.7683],
+  ['EIN', 'Eindhoven Airport', 'Eindhoven', 'NL', 51.4501, 5.3745],
+  ['RTM', 'Rotterdam The Hague Airport', 'Rotterdam', 'NL', 51.9569, 4.4372],
+  ['BRU', 'Brussels Airport', 'Brussels', 'BE', 50.9014, 4.4844],
+  ['CRL', 'Brussels South Charleroi Airport', 'Brussels', 'BE', 50.4592, 4.4538],
+  ['LUX', 'Luxembourg Airport', 'Luxembourg', 'LU', 49.6233, 6.2044],
+  ['FRA', 'Frankfurt Airport', 'Frankfurt', 'DE', 50.0379, 8.5622],
+  ['MUC', 'Munich Airport', 'Munich', 'DE', 48.3538, 11.7861],
+  ['BER', 'Berlin Brandenburg Airport', 'Berlin', 'DE', 52.3667, 13.5033],
+  ['HAM', 'Hamburg Airport', 'Hamburg', 'DE', 53.6304, 9.9882],
+  ['DUS', 'Düsseldorf Airport', 'Düsseldorf', 'DE', 51.2895, 6.7668],
+  ['CGN', 'Cologne Bonn Airport', 'Cologne', 'DE', 50.8659, 7.1427],
+  ['STR', 'Stuttgart Airport', 'Stuttgart', 'DE', 48.6899, 9.2220],
+  ['HAJ', 'Hannover Airport', 'Hanover', 'DE', 52.4611, 9.6851],
+  ['NUE', 'Nuremberg Airport', 'Nuremberg', 'DE', 49.4987, 11.0669],
+  ['LEJ', 'Leipzig/Halle Airport', 'Leipzig', 'DE', 51.4324, 12.2416],
+  ['ZRH', 'Zurich Airport', 'Zurich', 'CH', 47.4582, 8.5555],
+  ['GVA', 'Geneva Airport', 'Geneva', 'CH', 46.2381, 6.1090],
+  ['BSL', 'EuroAirport Basel Mulhouse Freiburg', 'Basel', 'CH', 47.5896, 7.5299],
+  ['VIE', 'Vienna International Airport', 'Vienna', 'AT', 48.1103, 16.5697],
+  ['SZG', 'Salzburg Airport', 'Salzburg', 'AT', 47.7933, 13.0043],
+  ['INN', 'Innsbruck Airport', 'Innsbruck', 'AT', 47.2602, 11.3439],
+
+  // Southern Europe
+  ['MAD', 'Adolfo Suárez Madrid–Barajas Airport', 'Madrid', 'ES', 40.4983, -3.5676],
+  ['BCN', 'Josep Tarradellas Barcelona–El Prat Airport', 'Barcelona', 'ES', 41.2974, 2.0833],
+  ['AGP', 'Málaga–Costa del Sol Airport', 'Malaga', 'ES', 36.6749, -4.4991],
+  ['PMI', 'Palma de Mallorca Airport', 'Palma de Mallorca', 'ES', 39.5517, 2.7388],
+  ['VLC', 'Valencia Airport', 'Valencia', 'ES', 39.4893, -0.4816],
+  ['SVQ', 'Seville Airport', 'Seville', 'ES', 37.4180, -5.8931],
+  ['IBZ', 'Ibiza Airport', 'Ibiza', 'ES', 38.8729, 1.3731],
+  ['ALC', 'Alicante–Elche Airport', 'Alicante', 'ES', 38.2822, -0.5582],
+  ['BIO', 'Bilbao Airport', 'Bilbao', 'ES', 43.3011, -2.9106],
+  ['TFS', 'Tenerife South Airport', 'Tenerife', 'ES', 28.0445, -16.5725],
+  ['LPA', 'Gran Canaria Airport', 'Gran Canaria', 'ES', 27.9319, -15.3866],
+  ['LIS', 'Humberto Delgado Airport', 'Lisbon', 'PT', 38.7813, -9.1359],
+  ['OPO', 'Francisco Sá Carneiro Airport', 'Porto', 'PT', 41.2481, -8.6814],
+  ['FAO', 'Faro Airport', 'Faro', 'PT', 37.0144, -7.9659],
+  ['FNC', 'Madeira Airport', 'Funchal', 'PT', 32.6979, -16.7745],
+  ['FCO', 'Leonardo da Vinci–Fiumicino Airport', 'Rome', 'IT', 41.8003, 12.2389],
+  ['CIA', 'Rome Ciampino Airport', 'Rome', 'IT', 41.7994, 12.5949],
+  ['MXP', 'Milan Malpensa Airport', 'Milan', 'IT', 45.6306, 8.7281],
+  ['LIN', 'Milan Linate Airport', 'Milan', 'IT', 45.4451, 9.2767],
+  ['BGY', 'Milan Bergamo Airport', 'Milan', 'IT', 45.6739, 9.7042],
+  ['VCE', 'Venice Marco Polo Airport', 'Venice', 'IT', 45.5053, 12.3519],
+  ['NAP', 'Naples International Airport', 'Naples', 'IT', 40.8860, 14.2908],
+  ['FLR', 'Florence Airport', 'Florence', 'IT', 43.8100, 11.2051],
+  ['PSA', 'Pisa International Airport', 'Pisa', 'IT', 43.6839, 10.3927],
+  ['BLQ', 'Bologna Guglielmo Marconi Airport', 'Bologna', 'IT', 44.5354, 11.2887],
+  ['CTA', 'Catania–Fontanarossa Airport', 'Catania', 'IT', 37.4668, 15.0664],
+  ['PMO', 'Falcone Borsellino Airport', 'Palermo', 'IT', 38.1760, 13.0910],
+  ['TRN', 'Turin Airport', 'Turin', 'IT', 45.2008, 7.6497],
+  ['MLA', 'Malta International Airport', 'Malta', 'MT', 35.8575, 14.4775],
+  ['ATH', 'Athens International Airport', 'Athens', 'GR', 37.9364, 23.9445],
+  ['SKG', 'Thessaloniki Airport', 'Thessaloniki', 'GR', 40.5197, 22.9709],
+  ['HER', 'Heraklion International Airport', 'Heraklion', 'GR', 35.3397, 25.1803],
+  ['JTR', 'Santorini Airport', 'Santorini', 'GR', 36.3992, 25.4793],
+  ['JMK', 'Mykonos Airport', 'Mykonos', 'GR', 37.4351, 25.3481],
+  ['RHO', 'Rhodes International Airport', 'Rhodes', 'GR', 36.4054, 28.0862],
+  ['CFU', 'Corfu International Airport', 'Corfu', 'GR', 39.6019, 19.9117],
+  ['LCA', 'Larnaca International Airport', 'Larnaca', 'CY', 34.8751, 33.6249],
+  ['PFO', 'Paphos International Airport', 'Paphos', 'CY', 34.7180, 32.4857],
+
+  // Northern Europe
+  ['CPH', 'Copenhagen Airport', 'Copenhagen', 'DK', 55.6180, 12.6508],
+  ['BLL', 'Billund Airport', 'Billund', 'DK', 55.7403, 9.1518],
+  ['ARN', 'Stockholm Arlanda Airport', 'Stockholm', 'SE', 59.6498, 17.9238],
+  ['BMA', 'Stockholm Bromma Airport', 'Stockholm', 'SE', 59.3544, 17.9416],
+  ['GOT', 'Göteborg Landvetter Airport', 'Gothenburg', 'SE', 57.6628, 12.2798],
+  ['OSL', 'Oslo Airport, Gardermoen', 'Oslo', 'NO', 60.1976, 11.1004],
+  ['BGO', 'Bergen Airport', 'Bergen', 'NO', 60.2934, 5.2181],
+  ['TRD', 'Trondheim Airport', 'Trondheim', 'NO', 63.4578, 10.9240],
+  ['TOS', 'Tromsø Airport', 'Tromsø', 'NO', 69.6833, 18.9189],
+  ['HEL', 'Helsinki Airport', 'Helsinki', 'FI', 60.3172, 24.9633],
+  ['RVN', 'Rovaniemi Airport', 'Rovaniemi', 'FI', 66.5648, 25.8304],
+  ['KEF', 'Keflavík International Airport', 'Reykjavik', 'IS', 63.9850, -22.6056],
+  ['TLL', 'Tallinn Airport', 'Tallinn', 'EE', 59.4133, 24.8328],
+  ['RIX', 'Riga International Airport', 'Riga', 'LV', 56.9236, 23.9711],
+  ['VNO', 'Vilnius International Airport', 'Vilnius', 'LT', 54.6341, 25.2858],
+
+  // Central and Eastern Europe
+  ['WAW', 'Warsaw Chopin Airport', 'Warsaw', 'PL', 52.1657, 20.9671],
+  ['KRK', 'Kraków John Paul II International Airport', 'Krakow', 'PL', 50.0777, 19.7848],
+  ['GDN', 'Gdańsk Lech Wałęsa Airport', 'Gdansk', 'PL', 54.3776, 18.4662],
+  ['PRG', 'Václav Havel Airport Prague', 'Prague', 'CZ', 50.1008, 14.2600],
+  ['BUD', 'Budapest Ferenc Liszt International Airport', 'Budapest', 'HU', 47.4298, 19.2611],
+  ['BTS', 'Bratislava Airport', 'Bratislava', 'SK', 48.1702, 17.2127],
+  ['LJU', 'Ljubljana Jože Pučnik Airport', 'Ljubljana', 'SI', 46.2237, 14.4576],
+  ['ZAG', 'Zagreb Airport', 'Zagreb', 'HR', 45.7429, 16.0688],
+  ['SPU', 'Split Airport', 'Split', 'HR', 43.5389, 16.2980],
+  ['DBV', 'Dubrovnik Airport', 'Dubrovnik', 'HR', 42.5614, 18.2682],
+  ['BEG', 'Belgrade Nikola Tesla Airport', 'Belgrade', 'RS', 44.8184, 20.3091],
+  ['SJJ', 'Sarajevo International Airport', 'Sarajevo', 'BA', 43.8246, 18.3315],
+  ['TIA', 'Tirana International Airport', 'Tirana', 'AL', 41.4147, 19.7206],
+  ['SKP', 'Skopje International Airport', 'Skopje', 'MK', 41.9616, 21.6214],
+  ['SOF', 'Sofia Airport', 'Sofia', 'BG', 42.6952, 23.4062],
+  ['OTP', 'Henri Coandă International Airport', 'Bucharest', 'RO', 44.5711, 26.0850],
+  ['CLJ', 'Cluj International Airport', 'Cluj-Napoca', 'RO', 46.7852, 23.6862],
+  ['KIV', 'Chișinău International Airport', 'Chisinau', 'MD', 46.9277, 28.9310],
+  ['KBP', 'Boryspil International Airport', 'Kyiv', 'UA', 50.3450, 30.8947],
+  ['SVO', 'Sheremetyevo International Airport', 'Moscow', 'RU', 55.9726, 37.4146],
+  ['DME', 'Domodedovo International Airport', 'Moscow', 'RU', 55.4088, 37.9063],
+  ['VKO', 'Vnukovo International Airport', 'Moscow', 'RU', 55.5915, 37.2615],
+  ['LED', 'Pulkovo Airport', 'Saint Petersburg', 'RU', 59.8003, 30.2625],
+  ['IST', 'Istanbul Airport', 'Istanbul', 'TR', 41.2753, 28.7519],
+  ['SAW', 'Sabiha Gökçen International Airport', 'Istanbul', 'TR', 40.8986, 29.3092],
+  ['ESB', 'Ankara Esenboğa Airport', 'Ankara', 'TR', 40.1281, 32.9951],
+  ['AYT', 'Antalya Airport', 'Antalya', 'TR', 36.8987, 30.8005],
+  ['ADB', 'Izmir Adnan Menderes Airport', 'Izmir', 'TR', 38.2924, 27.1570],
+  ['DLM', 'Dalaman Airport', 'Dalaman', 'TR', 36.7131, 28.7925],
+  ['BJV', 'Milas–Bodrum Airport', 'Bodrum', 'TR', 37.2506, 27.6643],
+  ['TBS', 'Tbilisi International Airport', 'Tbilisi', 'GE', 41.6692, 44.9547],
+  ['EVN', 'Zvartnots International Airport', 'Yerevan', 'AM', 40.1473, 44.3959],
+  ['GYD', 'Heydar Aliyev International Airport', 'Baku', 'AZ', 40.4675, 50.0467],
+
+  // Central Asia
+  ['ALA', 'Almaty International Airport', 'Almaty', 'KZ', 43.3521, 77.0405],
+  ['NQZ', 'Nursultan Nazarbayev International Airport', 'Astana', 'KZ', 51.0222, 71.4669],
+  ['TAS', 'Tashkent International Airport', 'Tashkent', 'UZ', 41.2579, 69.2812],
+  ['SKD', 'Samarkand International Airport', 'Samarkand', 'UZ', 39.7005, 66.9838],
+  ['FRU', 'Manas International Airport', 'Bishkek', 'KG', 43.0613, 74.4776],
+
+  // Africa
+  ['JNB', 'O. R. Tambo International Airport', 'Johannesburg', 'ZA', -26.1392, 28.2460],
+  ['CPT', 'Cape Town International Airport', 'Cape Town', 'ZA', -33.9715, 18.6021],
+  ['DUR', 'King Shaka International Airport', 'Durban', 'ZA', -29.6144, 31.1197],
+  ['NBO', 'Jomo Kenyatta International Airport', 'Nairobi', 'KE', -1.3192, 36.9278],
+  ['MBA', 'Moi International Airport', 'Mombasa', 'KE', -4.0348, 39.5942],
+  ['ADD', 'Addis Ababa Bole International Airport', 'Addis Ababa', 'ET', 8.9779, 38.7993],
+  ['DAR', 'Julius Nyerere International Airport', 'Dar es Salaam', 'TZ', -6.8781, 39.2026],
+  ['JRO', 'Kilimanjaro International Airport', 'Kilimanjaro', 'TZ', -3.4294, 37.0745],
+  ['ZNZ', 'Abeid Amani Karume International Airport', 'Zanzibar', 'TZ', -6.2220, 39.2249],
+  ['EBB', 'Entebbe International Airport', 'Entebbe', 'UG', 0.0424, 32.4435],
+  ['KGL', 'Kigali International Airport', 'Kigali', 'RW', -1.9686, 30.1395],
+  ['LOS', 'Murtala Muhammed International Airport', 'Lagos', 'NG', 6.5774, 3.3212],
+  ['ABV', 'Nnamdi Azikiwe International Airport', 'Abuja', 'NG', 9.0068, 7.2632],
+  ['ACC', 'Kotoka International Airport', 'Accra', 'GH', 5.6052, -0.1668],
+  ['DSS', 'Blaise Diagne International Airport', 'Dakar', 'SN', 14.6700, -17.0733],
+  ['ABJ', 'Félix-Houphouët-Boigny International Airport', 'Abidjan', 'CI', 5.2614, -3.9263],
+  ['CMN', 'Mohammed V International Airport', 'Casablanca', 'MA', 33.3675, -7.5898],
+  ['RAK', 'Marrakesh Menara Airport', 'Marrakesh', 'MA', 31.6069, -8.0363],
+  ['TUN', 'Tunis–Carthage International Airport', 'Tunis', 'TN', 36.8510, 10.2272],
+  ['ALG', 'Houari Boumediene Airport', 'Algiers', 'DZ', 36.6910, 3.2154],
+  ['MRU', 'Sir Seewoosagur Ramgoolam International Airport', 'Mauritius', 'MU', -20.4302, 57.6836],
+  ['SEZ', 'Seychelles International Airport', 'Seychelles', 'SC', -4.6743, 55.5218],
+  ['TNR', 'Ivato International Airport', 'Antananarivo', 'MG', -18.7969, 47.4788],
+  ['LUN', 'Kenneth Kaunda International Airport', 'Lusaka', 'ZM', -15.3308, 28.4526],
+  ['HRE', 'Robert Gabriel Mugabe International Airport', 'Harare', 'ZW', -17.9318, 31.0928],
+  ['VFA', 'Victoria Falls Airport', 'Victoria Falls', 'ZW', -18.0959, 25.8390],
+  ['WDH', 'Hosea Kutako International Airport', 'Windhoek', 'NA', -22.4799, 17.4709],
+  ['LAD', 'Quatro de Fevereiro Airport', 'Luanda', 'AO', -8.8584, 13.2312],
+
+  // United States
+  ['JFK', 'John F. Kennedy International Airport', 'New York', 'US', 40.6413, -73.7781],
+  ['EWR', 'Newark Liberty International Airport', 'New York', 'US', 40.6895, -74.1745],
+  ['LGA', 'LaGuardia Airport', 'New York', 'US', 40.7769, -73.8740],
+  ['LAX', 'Los Angeles International Airport', 'Los Angeles', 'US', 33.9416, -118.4085],
+  ['BUR', 'Hollywood Burbank Airport', 'Los Angeles', 'US', 34.2007, -118.3587],
+  ['LGB', 'Long Beach Airport', 'Los Angeles', 'US', 33.8177, -118.1516],
+  ['SNA', 'John Wayne Airport', 'Santa Ana', 'US', 33.6762, -117.8675],
+  ['ORD', "O'Hare International Airport", 'Chicago', 'US', 41.9742, -87.9073],
+  ['MDW', 'Chicago Midway International Airport', 'Chicago', 'US', 41.7868, -87.7522],
+  ['SFO', 'San Francisco International Airport', 'San Francisco', 'US', 37.6213, -122.3790],
+  ['OAK', 'Oakland International Airport', 'Oakland', 'US', 37.7126, -122.2197],
+  ['SJC', 'San Jose Mineta International Airport', 'San Jose', 'US', 37.3639, -121.9289],
+  ['IAD', 'Washington Dulles International Airport', 'Washington', 'US', 38.9531, -77.4565],
+  ['DCA', 'Ronald Reagan Washington National Airport', 'Washington', 'US', 38.8512, -77.0402],
+  ['BWI', 'Baltimore/Washington International Airport', 'Baltimore', 'US', 39.1774, -76.6684],
+  ['ATL', 'Hartsfield–Jackson Atlanta International Airport', 'Atlanta', 'US', 33.6407, -84.4277],
+  ['DFW', 'Dallas/Fort Worth International Airport', 'Dallas', 'US', 32.8998, -97.0403],
+  ['DAL', 'Dallas Love Field', 'Dallas', 'US', 32.8471, -96.8518],
+  ['IAH', 'George Bush Intercontinental Airport', 'Houston', 'US', 29.9902, -95.3368],
+  ['HOU', 'William P. Hobby Airport', 'Houston', 'US', 29.6454, -95.2789],
+  ['AUS', 'Austin–Bergstrom International Airport', 'Austin', 'US', 30.1975, -97.6664],
+  ['SAT', 'San Antonio International Airport', 'San Antonio', 'US', 29.5337, -98.4698],
+  ['MIA', 'Miami International Airport', 'Miami', 'US', 25.7959, -80.2870],
+  ['FLL', 'Fort Lauderdale–Hollywood International Airport', 'Fort Lauderdale', 'US', 26.0742, -80.1506],
+  ['MCO', 'Orlando International Airport', 'Orlando', 'US', 28.4312, -81.3081],
+  ['TPA', 'Tampa International Airport', 'Tampa', 'US', 27.9772, -82.5311],
+  ['JAX', 'Jacksonville International Airport', 'Jacksonville', 'US', 30.4941, -81.6879],
+  ['BOS', 'Boston Logan International Airport', 'Boston', 'US', 42.3656, -71.0096],
+  ['PHL', 'Philadelphia International Airport', 'Philadelphia', 'US', 39.8744, -75.2424],
+  ['PIT', 'Pittsburgh International Airport', 'Pittsburgh', 'US', 40.4958, -80.2413],
+  ['DTW', 'Detroit Metropolitan Wayne County Airport', 'Detroit', 'US', 42.2162, -83.3554],
+  ['MSP', 'Minneapolis–Saint Paul International Airport', 'Minneapolis', 'US', 44.8848, -93.2223],
+  ['STL', 'St. Louis Lambert International Airport', 'St. Louis', 'US', 38.7487, -90.3700],
+  ['MCI', 'Kansas City International Airport', 'Kansas City', 'US', 39.2976, -94.7139],
+  ['DEN', 'Denver International Airport', 'Denver', 'US', 39.8561, -104.6737],
+  ['SLC', 'Salt Lake City International Airport', 'Salt Lake City', 'US', 40.7899, -111.9791],
+  ['PHX', 'Phoenix Sky Harbor International Airport', 'Phoenix', 'US', 33.4352, -112.0101],
+  ['LAS', 'Harry Reid International Airport', 'Las Vegas', 'US', 36.0840, -115.1537],
+  ['SAN', 'San Diego International Airport', 'San Diego', 'US', 32.7338, -117.1933],
+  ['SEA', 'Seattle–Tacoma International Airport', 'Seattle', 'US', 47.4502, -122.3088],
+  ['PDX', 'Portland International Airport', 'Portland', 'US', 45.5898, -122.5951],
+  ['SMF', 'Sacramento International Airport', 'Sacramento', 'US', 38.6951, -121.5908],
+  ['CLT', 'Charlotte Douglas International Airport', 'Charlotte', 'US', 35.2144, -80.9473],
+  ['RDU', 'Raleigh–Durham International Airport', 'Raleigh', 'US', 35.8801, -78.7880],
+  ['BNA', 'Nashville International Airport', 'Nashville', 'US', 36.1263, -86.6774],
+  ['MSY', 'Louis Armstrong New Orleans International Airport', 'New Orleans', 'US', 29.9934, -90.2580],
+  ['CLE', 'Cleveland Hopkins International Airport', 'Cleveland', 'US', 41.4117, -81.8498],
+  ['CMH', 'John Glenn Columbus International Airport', 'Columbus', 'US', 39.9980, -82.8919],
+  ['IND', 'Indianapolis International Airport', 'Indianapolis', 'US', 39.7169, -86.2956],
+  ['MKE', 'Milwaukee Mitchell International Airport', 'Milwaukee', 'US', 42.9472, -87.8966],
+  ['ABQ', 'Albuquerque International Sunport', 'Albuquerque', 'US', 35.0402, -106.6090],
+  ['HNL', 'Daniel K. Inouye International Airport', 'Honolulu', 'US', 21.3187, -157.9225],
+  ['OGG', 'Kahului Airport', 'Maui', 'US', 20.8986, -156.4305],
+  ['ANC', 'Ted Stevens Anchorage International Airport', 'Anchorage', 'US', 61.1743, -149.9962],
+  ['SJU', 'Luis Muñoz Marín International Airport', 'San Juan', 'PR', 18.4394, -66.0018],
+
+  // Canada
+  ['YYZ', 'Toronto Pearson International Airport', 'Toronto', 'CA', 43.6777, -79.6248],
+  ['YTZ', 'Billy Bishop Toronto City Airport', 'Toronto', 'CA', 43.6275, -79.3962],
+  ['YVR', 'Vancouver International Airport', 'Vancouver', 'CA', 49.1967, -123.1815],
+  ['YUL', 'Montréal–Trudeau International Airport', 'Montreal', 'CA', 45.4706, -73.7408],
+  ['YYC', 'Calgary International Airport', 'Calgary', 'CA', 51.1315, -114.0106],
+  ['YEG', 'Edmonton International Airport', 'Edmonton', 'CA', 53.3097, -113.5800],
+  ['YOW', 'Ottawa Macdonald–Cartier International Airport', 'Ottawa', 'CA', 45.3225, -75.6692],
+  ['YWG', 'Winnipeg James Armstrong Richardson International Airport', 'Winnipeg', 'CA', 49.9100, -97.2399],
+  ['YHZ', 'Halifax Stanfield International Airport', 'Halifax', 'CA', 44.8808, -63.5086],
+  ['YQB', 'Québec City Jean Lesage International Airport', 'Quebec City', 'CA', 46.7911, -71.3933],
+  ['YYJ', 'Victoria International Airport', 'Victoria', 'CA', 48.6469, -123.4258],
+
+  // Mexico, Central America and the Caribbean
+  ['MEX', 'Mexico City International Airport', 'Mexico City', 'MX', 19.4361, -99.0719],
+  ['NLU', 'Felipe Ángeles International Airport', 'Mexico City', 'MX', 19.7456, -99.0155],
+  ['CUN', 'Cancún International Airport', 'Cancun', 'MX', 21.0365, -86.8771],
+  ['GDL', 'Guadalajara International Airport', 'Guadalajara', 'MX', 20.5218, -103.3111],
+  ['MTY', 'Monterrey International Airport', 'Monterrey', 'MX', 25.7785, -100.1069],
+  ['SJD', 'Los Cabos International Airport', 'Los Cabos', 'MX', 23.1518, -109.7211],
+  ['PVR', 'Puerto Vallarta International Airport', 'Puerto Vallarta', 'MX', 20.6801, -105.2541],
+  ['TIJ', 'Tijuana International Airport', 'Tijuana', 'MX', 32.5411, -116.9701],
+  ['GUA', 'La Aurora International Airport', 'Guatemala City', 'GT', 14.5833, -90.5275],
+  ['SJO', 'Juan Santamaría International Airport', 'San Jose', 'CR', 9.9939, -84.2088],
+  ['LIR', 'Guanacaste Airport', 'Liberia', 'CR', 10.5933, -85.5444],
+  ['PTY', 'Tocumen International Airport', 'Panama City', 'PA', 9.0714, -79.3835],
+  ['SAL', 'El Salvador International Airport', 'San Salvador', 'SV', 13.4409, -89.0557],
+  ['HAV', 'José Martí International Airport', 'Havana', 'CU', 22.9892, -82.4091],
+  ['PUJ', 'Punta Cana International Airport', 'Punta Cana', 'DO', 18.5674, -68.3634],
+  ['SDQ', 'Las Américas International Airport', 'Santo Domingo', 'DO', 18.4297, -69.6689],
+  ['MBJ', 'Sangster International Airport', 'Montego Bay', 'JM', 18.5037, -77.9134],
+  ['KIN', 'Norman Manley International Airport', 'Kingston', 'JM', 17.9357, -76.7875],
+  ['NAS', 'Lynden Pindling International Airport', 'Nassau', 'BS', 25.0390, -77.4662],
+  ['AUA', 'Queen Beatrix International Airport', 'Aruba', 'AW', 12.5014, -70.0152],
+  ['BGI', 'Grantley Adams International Airport', 'Barbados', 'BB', 13.0746, -59.4925],
+  ['POS', 'Piarco International Airport', 'Port of Spain', 'TT', 10.5954, -61.3372],
+
+  // South America
+  ['GRU', 'São Paulo/Guarulhos International Airport', 'Sao Paulo', 'BR', -23.4356, -46.4731],
+  ['CGH', 'São Paulo/Congonhas Airport', 'Sao Paulo', 'BR', -23.6261, -46.6564],
+  ['VCP', 'Viracopos International Airport', 'Sao Paulo', 'BR', -23.0074, -47.1345],
+  ['GIG', 'Rio de Janeiro/Galeão International Airport', 'Rio de Janeiro', 'BR', -22.8090, -43.2506],
+  ['SDU', 'Santos Dumont Airport', 'Rio de Janeiro', 'BR', -22.9105, -43.1631],
+  ['BSB', 'Brasília International Airport', 'Brasilia', 'BR', -15.8711, -47.9186],
+  ['SSA', 'Salvador International Airport', 'Salvador', 'BR', -12.9086, -38.3225],
+  ['REC', 'Recife/Guararapes International Airport', 'Recife', 'BR', -8.1265, -34.9236],
+  ['FOR', 'Fortaleza International Airport', 'Fortaleza', 'BR', -3.7763, -38.5326],
+  ['CNF', 'Belo Horizonte International Airport', 'Belo Horizonte', 'BR', -19.6244, -43.9719],
+  ['POA', 'Porto Alegre International Airport', 'Porto Alegre', 'BR', -29.9939, -51.1711],
+  ['FLN', 'Florianópolis International Airport', 'Florianopolis', 'BR', -27.6703, -48.5525],
+  ['MAO', 'Eduardo Gomes International Airport', 'Manaus', 'BR', -3.0386, -60.0497],
+  ['EZE', 'Ministro Pistarini International Airport', 'Buenos Aires', 'AR', -34.8222, -58.5358],
+  ['AEP', 'Aeroparque Jorge Newbery', 'Buenos Aires', 'AR', -34.5592, -58.4156],
+  ['COR', 'Córdoba International Airport', 'Cordoba', 'AR', -31.3236, -64.2080],
+  ['MDZ', 'Governor Francisco Gabrielli International Airport', 'Mendoza', 'AR', -32.8317, -68.7929],
+  ['BRC', 'San Carlos de Bariloche Airport', 'Bariloche', 'AR', -41.1512, -71.1578],
+  ['SCL', 'Arturo Merino Benítez International Airport', 'Santiago', 'CL', -33.3930, -70.7858],
+  ['LIM', 'Jorge Chávez International Airport', 'Lima', 'PE', -12.0219, -77.1143],
+  ['CUZ', 'Alejandro Velasco Astete International Airport', 'Cusco', 'PE', -13.5357, -71.9388],
+  ['BOG', 'El Dorado International Airport', 'Bogota', 'CO', 4.7016, -74.1469],
+  ['MDE', 'José María Córdova International Airport', 'Medellin', 'CO', 6.1645, -75.4231],
+  ['CTG', 'Rafael Núñez International Airport', 'Cartagena', 'CO', 10.4424, -75.5130],
+  ['UIO', 'Mariscal Sucre International Airport', 'Quito', 'EC', -0.1292, -78.3575],
+  ['GYE', 'José Joaquín de Olmedo International Airport', 'Guayaquil', 'EC', -2.1574, -79.8837],
+  ['CCS', 'Simón Bolívar International Airport', 'Caracas', 'VE', 10.6031, -66.9906],
+  ['MVD', 'Carrasco International Airport', 'Montevideo', 'UY', -34.8384, -56.0308],
+  ['ASU', 'Silvio Pettirossi International Airport', 'Asuncion', 'PY', -25.2400, -57.5191],
+  ['VVI', 'Viru Viru International Airport', 'Santa Cruz', 'BO', -17.6448, -63.1354],
+  ['LPB', 'El Alto International Airport', 'La Paz', 'BO', -16.5133, -68.1923],
+];
+
+const toRecord = ([iata, name, city, country, lat, lon]: AirportRow): AirportRecord => ({
+  iata,
+  name,
+  city,
+  country,
+  lat,
+  lon,
+});
+
+export const AIRPORTS: AirportRecord[] = AIRPORT_ROWS.map(toRecord);
+
+const curatedCodes = new Set(AIRPORT_ROWS.map(([iata]) => iata));
+
+// The rest of the world's scheduled airports, generated from OurAirports by
+// `npm run generate:airports`. Rows above win where both list a code.
+export const GENERATED_AIRPORTS: AirportRecord[] = GENERATED_AIRPORT_ROWS
+  .filter(([iata]) => !curatedCodes.has(iata))
+  .map(toRecord);
+
+export const METRO_AREAS: MetroArea[] = [
+  { code: 'NYC', city: 'New York', airports: ['JFK', 'EWR', 'LGA'] },
+  { code: 'LON', city: 'London', airports: ['LHR', 'LGW', 'STN', 'LTN', 'LCY', 'SEN'] },
+  { code: 'PAR', city: 'Paris', airports: ['CDG', 'ORY', 'BVA'] },
+  { code: 'TYO', city: 'Tokyo', airports: ['HND', 'NRT'] },
+  { code: 'OSA', city: 'Osaka', airports: ['KIX', 'ITM'] },
+  { code: 'SEL', city: 'Seoul', airports: ['ICN', 'GMP'] },
+  { code: 'BJS', city: 'Beijing', airports: ['PEK', 'PKX'] },
+  { code: 'CHI', city: 'Chicago', airports: ['ORD', 'MDW'] },
+  { code: 'WAS', city: 'Washington', airports: ['IAD', 'DCA', 'BWI'] },
+  { code: 'QLA', city: 'Los Angeles', airports: ['LAX', 'BUR', 'LGB', 'SNA'] },
+  { code: 'QSF', city: 'San Francisco', airports: ['SFO', 'OAK', 'SJC'] },
+  { code: 'QDF', city: 'Dallas', airports: ['DFW', 'DAL'] },
+  { code: 'YTO', city: 'Toronto', airports: ['YYZ', 'YTZ'] },
+  { code: 'MIL', city: 'Milan', airports: ['MXP', 'LIN', 'BGY'] },
+  { code: 'ROM', city: 'Rome', airports: ['FCO', 'CIA'] },
+  { code: 'MOW', city: 'Moscow', airports: ['SVO', 'DME', 'VKO'] },
+  { code: 'STO', city: 'Stockholm', airports: ['ARN', 'BMA'] },
+  { code: 'SAO', city: 'Sao Paulo', airports: ['GRU', 'CGH', 'VCP'] },
+  { code: 'RIO', city: 'Rio de Janeiro', airports: ['GIG', 'SDU'] },
+  { code: 'BUE', city: 'Buenos Aires', airports: ['EZE', 'AEP'] },
+];
+
+// Alternative names people commonly use, mapped to the dataset's city name or,
+// for places that mean one specific airport, to its IATA code. Accents are
+// folded before lookup, so "São Paulo" already matches "Sao Paulo".
+export const CITY_ALIASES: Record<string, string> = {
+  'bangalore': 'Bengaluru',
+  'bombay': 'Mumbai',
+  'new delhi': 'Delhi',
+  'calcutta': 'Kolkata',
+  'madras': 'Chennai',
+  'cochin': 'Kochi',
+  'trivandrum': 'Thiruvananthapuram',
+  'calicut': 'Kozhikode',
+  'baroda': 'Vadodara',
+  'vizag': 'Visakhapatnam',
+  'mangalore': 'Mangaluru',
+  'mysore': 'Mysuru',
+  'trichy': 'Tiruchirappalli',
+  'gurgaon': 'Delhi',
+  'gurugram': 'Delhi',
+  'noida': 'Delhi',
+  'bagdogra': 'Siliguri',
+  'andaman': 'Port Blair',
+  'peking': 'Beijing',
+  'xian': "Xi'an",
+  'canton': 'Guangzhou',
+  'saigon': 'Ho Chi Minh City',
+  'ho chi minh': 'Ho Chi Minh City',
+  'rangoon': 'Yangon',
+  'denpasar': 'Bali',
+  'kl': 'Kuala Lumpur',
+  'hk': 'Hong Kong',
+  'maldives': 'Male',
+  'fiji': 'Nadi',
+  'tahiti': 'Papeete',
+  'kuwait': 'Kuwait City',
+  'qatar': 'Doha',
+  'panama': 'Panama City',
+  'new york city': 'New York',
+  'manhattan': 'New York',
+  'newark': 'EWR',
+  'washington dc': 'Washington',
+  'washington d.c.': 'Washington',
+  'dc': 'Washington',
+  'la': 'Los Angeles',
+  'sf': 'San Francisco',
+  'san fran': 'San Francisco',
+  'vegas': 'Las Vegas',
+  'philly': 'Philadelphia',
+  'nola': 'New Orleans',
+  'hawaii': 'Honolulu',
+  'st petersburg': 'Saint Petersburg',
+  'constantinople': 'Istanbul',
+  'kiev': 'Kyiv',
+  'prag': 'Prague',
+  'praha': 'Prague',
+  'roma': 'Rome',
+  'milano': 'Milan',
+  'venezia': 'Venice',
+  'firenze': 'Florence',
+  'napoli': 'Naples',
+  'lisboa': 'Lisbon',
+  'munchen': 'Munich',
+  'koln': 'Cologne',
+  'wien': 'Vienna',
+  'mallorca': 'Palma de Mallorca',
+  'majorca': 'Palma de Mallorca',
+  'palma': 'Palma de Mallorca',
+  'marrakech': 'Marrakesh',
+  'cape town': 'Cape Town',
+  'joburg': 'Johannesburg',
+  'zanzibar city': 'Zanzibar',
+  'quebec': 'Quebec City',
+  'cabo': 'Los Cabos',
+  'sao paolo': 'Sao Paulo',
+  'tromso': 'Tromsø',
+};
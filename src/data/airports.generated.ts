@@ -0,0 +1,3221 @@
+// Generated by scripts/generate-airports.mjs from OurAirports
+// (https://ourairports.com/data/, public domain). Do not edit by hand; add
+// corrections to airports.data.ts, whose rows take precedence.
+import type { AirportRow } from './airports.data.js';
+
+export const GENERATED_AIRPORT_ROWS: AirportRow[] = [
+  ["AAA","Anaa Airport","Anaa","PF",-17.3526,-145.51],
+  ["AAC","El Arish International Airport","El Arish","EG",31.0786,33.8368],
+  ["AAE","Annaba Rabah Bitat Airport","Annaba","DZ",36.8268,7.8133],
+  ["AAL","Aalborg Airport","Aalborg","DK",57.0928,9.8492],
+  ["AAM","Malamala Airport","Malamala","ZA",-24.8181,31.5446],
+  ["AAN","Al Ain International Airport","Al Ain","AE",24.2617,55.6092],
+  ["AAP","Aji Pangeran Tumenggung Pranoto International Airport","Samarinda","ID",-0.3745,117.2501],
+  ["AAQ","Anapa Vityazevo Airport","Krasnyi Kurgan","RU",45.0021,37.3473],
+  ["AAR","Aarhus Airport","Aarhus","DK",56.3033,10.6183],
+  ["AAT","Altay Xuedu Airport","Altay","CN",47.7499,88.0858],
+  ["AAY","Al Ghaydah International Airport","Al Ghaydah","YE",16.1933,52.1742],
+  ["ABA","Abakan International Airport","Abakan","RU",53.74,91.385],
+  ["ABD","Abadan Airport","Abadan","IR",30.3679,48.2301],
+  ["ABE","Lehigh Valley International Airport","Allentown","US",40.6518,-75.4428],
+  ["ABI","Abilene Regional Airport","Abilene","US",32.4113,-99.6819],
+  ["ABJ","Félix-Houphouët-Boigny International Airport","Abidjan","CI",5.2614,-3.9263],
+  ["ABK","Kebri Dahar Airport","Kebri Dahar","ET",6.7326,44.2413],
+  ["ABQ","Albuquerque International Sunport","Albuquerque","US",35.0402,-106.609],
+  ["ABR","Aberdeen Regional Airport","Aberdeen","US",45.4491,-98.4218],
+  ["ABS","Abu Simbel Airport","Abu Simbel","EG",22.3677,31.61],
+  ["ABT","King Saud Bin Abdulaziz (Al Baha) Airport","Al-Baha","SA",20.2985,41.6362],
+  ["ABV","Nnamdi Azikiwe International Airport","Abuja","NG",9.0068,7.2632],
+  ["ABX","Albury Airport","Albury","AU",-36.0668,146.9591],
+  ["ABY","Southwest Georgia Regional Airport","Albany","US",31.5329,-84.1962],
+  ["ABZ","Aberdeen Dyce Airport","Aberdeen","GB",57.2019,-2.1978],
+  ["ACA","Aeropuerto Internacional Juan N. Álvarez","Ciudad de Acapulco","MX",16.7621,-99.7555],
+  ["ACC","Kotoka International Airport","Accra","GH",5.6052,-0.1668],
+  ["ACE","César Manrique-Lanzarote Airport","San Bartolomé","ES",28.9455,-13.6052],
+  ["ACH","St Gallen Altenrhein Airport","Altenrhein","CH",47.485,9.5608],
+  ["ACI","Alderney Airport","Saint Anne","GG",49.7061,-2.2147],
+  ["ACK","Nantucket Memorial Airport","Nantucket","US",41.2531,-70.0602],
+  ["ACT","Waco Regional Airport","Waco","US",31.6113,-97.2305],
+  ["ACV","California Redwood Coast-Humboldt County Airport","Arcata/Eureka","US",40.9781,-124.109],
+  ["ACX","Xingyi Wanfenglin Airport","Xingyi","CN",25.0834,104.9608],
+  ["ACY","Atlantic City International Airport","Atlantic City","US",39.4576,-74.5772],
+  ["ADA","Adana Şakirpaşa Airport","Seyhan","TR",36.9822,35.2804],
+  ["ADB","Adnan Menderes International Airport","İzmir","TR",38.2924,27.157],
+  ["ADD","Addis Ababa Bole International Airport","Addis Ababa","ET",8.9779,38.7993],
+  ["ADE","Aden International Airport","Aden","YE",12.8295,45.0288],
+  ["ADF","Adıyaman Airport","Adıyaman","TR",37.7314,38.4689],
+  ["ADJ","Amman Civil (Marka International) Airport","Amman","JO",31.9727,35.9916],
+  ["ADK","Adak Airport","Adak","US",51.8836,-176.6428],
+  ["ADL","Adelaide International Airport","Adelaide","AU",-34.9475,138.5334],
+  ["ADQ","Kodiak Airport","Kodiak","US",57.75,-152.494],
+  ["ADU","Ardabil Airport","Ardabil","IR",38.3257,48.4244],
+  ["ADZ","Gustavo Rojas Pinilla International Airport","San Andrés","CO",12.5836,-81.7112],
+  ["AEB","Baise Youjiang Airport","Baise","CN",23.7206,106.96],
+  ["AEG","Aek Godang Airport","Padang Sidempuan","ID",1.4001,99.4305],
+  ["AEH","Abeche Airport","Abeche","TD",13.847,20.8443],
+  ["AEP","Jorge Newbery Airpark","Buenos Aires","AR",-34.5592,-58.4156],
+  ["AER","Sochi International Airport","Sochi","RU",43.4499,39.9566],
+  ["AES","Ålesund Airport, Vigra","Ålesund","NO",62.5625,6.1197],
+  ["AEU","Abu Musa Island Airport","Abu Musa","IR",25.8757,55.033],
+  ["AEX","Alexandria International Airport","Alexandria","US",31.3274,-92.5498],
+  ["AEY","Akureyri Airport","Akureyri","IS",65.66,-18.0727],
+  ["AFA","Suboficial Ay Santiago Germano Airport","San Rafael","AR",-34.5883,-68.4039],
+  ["AFL","Piloto Osvaldo Marques Dias Airport","Alta Floresta","BR",-9.8664,-56.1063],
+  ["AFZ","Sabzevar National Airport","Sabzevar","IR",36.1681,57.5952],
+  ["AGA","Al Massira Airport","Agadir","MA",30.3225,-9.412],
+  ["AGF","Agen-La Garenne Airport","Agen/La Garenne","FR",44.1747,0.5906],
+  ["AGH","Ängelholm-Helsingborg Airport","Ängelholm","SE",56.2961,12.8471],
+  ["AGP","Málaga-Costa del Sol Airport","Málaga","ES",36.6749,-4.4991],
+  ["AGR","Agra Airport / Agra Air Force Station","Agra","IN",27.1577,77.9609],
+  ["AGS","Augusta Regional At Bush Field","Augusta","US",33.3699,-81.9645],
+  ["AGT","Aeropuerto Internacional Guaraní","Ciudad del Este","PY",-25.4572,-54.8395],
+  ["AGU","Governor Jesús Terán Peredo International Airport","Aguascalientes","MX",21.6996,-102.3184],
+  ["AGV","Oswaldo Guevara Mujica Airport","Acarigua","VE",9.5534,-69.2379],
+  ["AGX","Agatti Airport","Agatti","IN",10.8237,72.176],
+  ["AHB","Abha International Airport","Abha","SA",18.2404,42.6566],
+  ["AHE","Ahe Airport","Ahe Atoll","PF",-14.4281,-146.257],
+  ["AHN","Athens Ben Epps Airport","Athens","US",33.9486,-83.3263],
+  ["AHO","Alghero-Fertilia Airport","Alghero","IT",40.6321,8.2908],
+  ["AHU","Cherif Al Idrissi Airport","Al Hoceima","MA",35.1771,-3.8395],
+  ["AIN","Wainwright Airport","Wainwright","US",70.638,-159.995],
+  ["AJA","Ajaccio-Napoléon Bonaparte Airport","Ajaccio/Napoléon Bonaparte","FR",41.9236,8.8029],
+  ["AJF","Al-Jawf Domestic Airport","Al-Jawf","SA",29.7851,40.1],
+  ["AJI","Ağrı Airport","Ağrı","TR",39.6556,43.0257],
+  ["AJL","Lengpui Airport","Aizawl","IN",23.8406,92.6197],
+  ["AJN","Ouani Airport","Ouani","KM",-12.131,44.43],
+  ["AJR","Arvidsjaur Airport","Arvidsjaur","SE",65.5903,19.2819],
+  ["AJU","Aracaju - Santa Maria International Airport","Aracaju","BR",-10.984,-37.0703],
+  ["AJY","Mano Dayak International Airport","Agadez","NE",16.966,8.0001],
+  ["AKF","Kufra Airport","Kufra","LY",24.1787,23.314],
+  ["AKJ","Asahikawa Airport","Asahikawa","JP",43.6708,142.447],
+  ["AKL","Auckland International Airport","Auckland","NZ",-37.012,174.7863],
+  ["AKN","King Salmon Airport","King Salmon","US",58.6778,-156.652],
+  ["AKR","Akure Airport","Akure","NG",7.2467,5.301],
+  ["AKU","Aksu Hongqipo Airport","Aksu","CN",41.2625,80.2917],
+  ["AKV","Akulivik Airport","Akulivik","CA",60.8186,-78.1486],
+  ["AKX","Aktobe Airport","Aktobe","KZ",50.2458,57.2067],
+  ["AKY","Sittwe Airport","Sittwe","MM",20.1332,92.8707],
+  ["ALA","Almaty International Airport","Almaty","KZ",43.3543,77.0428],
+  ["ALB","Albany International Airport","Albany","US",42.7483,-73.8017],
+  ["ALC","Alicante-Elche Miguel Hernández Airport","Alicante","ES",38.2822,-0.5582],
+  ["ALF","Alta Airport","Alta","NO",69.9761,23.3717],
+  ["ALG","Houari Boumediene Airport","Algiers","DZ",36.6939,3.2145],
+  ["ALH","Albany Airport","Albany","AU",-34.9433,117.809],
+  ["ALO","Waterloo Regional Airport","Waterloo","US",42.5571,-92.4003],
+  ["ALP","Aleppo International Airport","Aleppo","SY",36.1807,37.2244],
+  ["ALS","San Luis Valley Regional Airport/Bergman Field","Alamosa","US",37.4349,-105.867],
+  ["ALW","Walla Walla Regional Airport","Walla Walla","US",46.0949,-118.288],
+  ["AMA","Rick Husband Amarillo International Airport","Amarillo","US",35.2194,-101.706],
+  ["AMD","Sardar Vallabhbhai Patel International Airport","Ahmedabad","IN",23.0772,72.6347],
+  ["AMH","Arba Minch Airport","Arba Minch","ET",6.0394,37.5905],
+  ["AMM","Queen Alia International Airport","Amman","JO",31.7226,35.9932],
+  ["AMQ","Pattimura International Airport","Ambon","ID",-3.7103,128.089],
+  ["AMS","Amsterdam Airport Schiphol","Amsterdam","NL",52.3086,4.7639],
+  ["AMV","Amderma Airport","Amderma","RU",69.7633,61.5564],
+  ["ANC","Ted Stevens Anchorage International Airport","Anchorage","US",61.1744,-149.996],
+  ["ANE","Angers-Loire Airport","TFFR","FR",47.5603,-0.3122],
+  ["ANF","Andrés Sabella Gálvez International Airport","Antofagasta","CL",-23.4445,-70.4451],
+  ["ANI","Aniak Airport","Aniak","US",61.5816,-159.543],
+  ["ANM","Antsirabe Airport","Antsirabe","MG",-14.9994,50.3202],
+  ["ANN","Annette Island Airport","Metlakatla","US",55.037,-131.5727],
+  ["ANR","Antwerp International Airport (Deurne)","Antwerp","BE",51.1894,4.4603],
+  ["ANU","V C Bird International Airport","Osbourn","AG",17.1367,-61.7927],
+  ["ANV","Anvik Airport","Anvik","US",62.6467,-160.191],
+  ["ANX","Andøya Airport, Andenes","Andenes","NO",69.2925,16.1442],
+  ["AOE","Anadolu Airport","Eskişehir","TR",39.8099,30.5194],
+  ["AOG","Anshan Teng'ao Airport / Anshan Air Base","Anshan","CN",41.1053,122.854],
+  ["AOI","Marche Airport","Ancona","IT",43.6163,13.3623],
+  ["AOJ","Aomori Airport","Aomori","JP",40.7347,140.691],
+  ["AOK","Karpathos Airport","Karpathos Island","GR",35.4214,27.146],
+  ["AOO","Altoona Blair County Airport","Altoona","US",40.2964,-78.32],
+  ["AOR","Sultan Abdul Halim Airport","Alor Satar","MY",6.1897,100.398],
+  ["APL","Nampula Airport","Nampula","MZ",-15.1056,39.2818],
+  ["APN","Alpena County Regional Airport","Alpena","US",45.0781,-83.5603],
+  ["APO","Antonio Roldán Betancur Airport","Carepa","CO",7.812,-76.7164],
+  ["APW","Faleolo International Airport","Apia","WS",-13.83,-172.008],
+  ["AQA","Araraquara Airport","Araraquara","BR",-21.812,-48.133],
+  ["AQG","Anqing Tianzhushan Airport / Anqing North Air Base","Anqing","CN",30.5822,117.05],
+  ["AQI","Al Qaisumah/Hafr Al Batin Airport","Qaisumah","SA",28.3352,46.1251],
+  ["AQJ","Aqaba King Hussein International Airport","Aqaba","JO",29.6116,35.0181],
+  ["AQP","Rodríguez Ballón International Airport","Arequipa","PE",-16.3411,-71.5831],
+  ["ARC","Arctic Village Airport","Arctic Village","US",68.1147,-145.579],
+  ["ARH","Talagi Airport","Archangelsk","RU",64.6003,40.7167],
+  ["ARI","Chacalluta Airport","Arica","CL",-18.3485,-70.3387],
+  ["ARK","Arusha Airport","Arusha","TZ",-3.3678,36.6333],
+  ["ARM","Armidale Airport","Armidale","AU",-30.5281,151.617],
+  ["ARN","Stockholm-Arlanda Airport","Stockholm","SE",59.6519,17.9186],
+  ["ART","Watertown International Airport","Watertown","US",43.9919,-76.0217],
+  ["ARU","Araçatuba Airport","Araçatuba","BR",-21.1415,-50.4246],
+  ["ARW","Arad International Airport","Arad","RO",46.1766,21.262],
+  ["ASA","Assab International Airport","Asab","ER",13.0718,42.645],
+  ["ASB","Ashgabat International Airport","Ashgabat","TM",37.9868,58.361],
+  ["ASE","Aspen-Pitkin County Airport (Sardy Field)","Aspen","US",39.2232,-106.869],
+  ["ASF","Astrakhan Narimanovo Boris M. Kustodiev International Airport","Astrakhan","RU",46.2828,48.0105],
+  ["ASI","RAF Ascension Island","Cat Hill","SH",-7.9696,-14.3937],
+  ["ASJ","Amami Airport","Amami","JP",28.4306,129.713],
+  ["ASM","Asmara International Airport","Asmara","ER",15.2919,38.9107],
+  ["ASO","Asosa Airport","Asosa","ET",10.0185,34.5863],
+  ["ASP","Alice Springs Airport","Alice Springs","AU",-23.8066,133.9034],
+  ["ASR","Kayseri Erkilet Airport","Kayseri","TR",38.7704,35.4954],
+  ["ASU","Aeropuerto Internacional Silvio Pettirossi","Luque","PY",-25.2417,-57.5141],
+  ["ASV","Amboseli Airport","Amboseli National Park","KE",-2.6451,37.2531],
+  ["ASW","Aswan International Airport","Aswan","EG",23.9681,32.8244],
+  ["ATC","Arthur's Town Airport","Arthur's Town","BS",24.6294,-75.6738],
+  ["ATH","Athens Eleftherios Venizelos International Airport","Athens","GR",37.9364,23.9445],
+  ["ATL","Hartsfield Jackson Atlanta International Airport","Atlanta","US",33.6367,-84.4281],
+  ["ATM","Altamira Interstate Airport","Altamira","BR",-3.2531,-52.2539],
+  ["ATQ","Sri Guru Ram Dass Jee International Airport","Amritsar","IN",31.7096,74.7973],
+  ["ATY","Watertown Regional Airport","Watertown","US",44.914,-97.1547],
+  ["ATZ","Asyut International Airport","Asyut","EG",27.0508,31.0163],
+  ["AUA","Queen Beatrix International Airport","Oranjestad","AW",12.5014,-70.0152],
+  ["AUC","Santiago Perez Airport","Arauca","CO",7.0689,-70.7369],
+  ["AUG","Augusta State Airport","Augusta","US",44.3206,-69.7973],
+  ["AUH","Abu Dhabi International Airport","Abu Dhabi","AE",24.4438,54.6517],
+  ["AUQ","Hiva Oa-Atuona Airport","Hiva Oa Island","PF",-9.7688,-139.011],
+  ["AUR","Aurillac Airport","Aurillac","FR",44.8914,2.4219],
+  ["AUS","Austin Bergstrom International Airport","Austin","US",30.1975,-97.662],
+  ["AUX","Araguaína Airport","Araguaína","BR",-7.2279,-48.2405],
+  ["AVA","Anshun Huangguoshu Airport","Anshun","CN",26.2606,105.8733],
+  ["AVI","Maximo Gomez Airport","Ciego de Avila","CU",22.0271,-78.7896],
+  ["AVK","Arvaikheer Airport","Arvaikheer","MN",46.2503,102.802],
+  ["AVL","Asheville Regional Airport","Asheville","US",35.4362,-82.5418],
+  ["AVN","Avignon-Caumont Airport","Avignon/Caumont","FR",43.9073,4.9018],
+  ["AVP","Wilkes Barre Scranton International Airport","Wilkes-Barre/Scranton","US",41.3385,-75.7234],
+  ["AVV","Avalon Airport","Lara","AU",-38.0394,144.469],
+  ["AWA","Hawassa International Airport","Hawassa","ET",7.0999,38.3962],
+  ["AWK","Wake Island Airfield","Wake Island","UM",19.2824,166.6366],
+  ["AWZ","Lieutenant General Qasem Soleimani International Airport","Ahvaz","IR",31.3374,48.762],
+  ["AXA","Clayton J Lloyd International Airport","The Valley","AI",18.2048,-63.0538],
+  ["AXD","Alexandroupoli Democritus Airport","Alexandroupolis","GR",40.8559,25.9563],
+  ["AXF","Alxa Left Banner Bayanhot Airport","Bayanhot","CN",38.7483,105.5886],
+  ["AXM","El Eden Airport","Armenia","CO",4.4528,-75.7664],
+  ["AXP","Spring Point Airport","Spring Point","BS",22.4418,-73.9709],
+  ["AXR","Arutua Airport","Arutua Airport","PF",-15.2483,-146.617],
+  ["AXT","Akita Airport","Akita","JP",39.6156,140.219],
+  ["AXU","Axum Airport","Axum","ET",14.1468,38.7728],
+  ["AYP","Air Force Colonel Alfredo Mendivil Duarte Airport","Ayacucho","PE",-13.1548,-74.2044],
+  ["AYQ","Ayers Rock Connellan Airport","Yulara","AU",-25.1859,130.977],
+  ["AYT","Antalya International Airport","Antalya","TR",36.8987,30.8005],
+  ["AZA","Phoenix–Mesa Gateway Airport","Mesa","US",33.3078,-111.655],
+  ["AZD","Shahid Sadooghi Airport","Yazd","IR",31.9049,54.2765],
+  ["AZN","Andizhan Airport","Andizhan","UZ",40.7277,72.294],
+  ["AZO","Kalamazoo Battle Creek International Airport","Kalamazoo","US",42.2349,-85.5521],
+  ["AZR","Touat Cheikh Sidi Mohamed Belkebir Airport","Adrar","DZ",27.8376,-0.1864],
+  ["AZS","Samaná El Catey International Airport","Samana","DO",19.2693,-69.7374],
+  ["BAG","Loakan Airport","Baguio City","PH",16.3751,120.62],
+  ["BAH","Bahrain International Airport","Manama","BH",26.2673,50.6376],
+  ["BAL","Batman Airport","Batman","TR",37.929,41.1166],
+  ["BAQ","Ernesto Cortissoz International Airport","Barranquilla","CO",10.8896,-74.7808],
+  ["BAR","Qionghai Bo'ao Airport","Qionghai","CN",19.141,110.4528],
+  ["BAV","Baotou Donghe Airport","Baotou","CN",40.56,109.997],
+  ["BAX","Barnaul Airport","Barnaul","RU",53.3638,83.5385],
+  ["BAY","Maramureș International Airport","Baia Mare","RO",47.6606,23.4673],
+  ["BBA","Balmaceda Airport","Balmaceda","CL",-45.9161,-71.6895],
+  ["BBI","Biju Patnaik Airport","Bhubaneswar","IN",20.2444,85.8178],
+  ["BBK","Kasane Airport","Kasane","BW",-17.8329,25.1624],
+  ["BBM","Battambang Airport","Battambang","KH",13.0956,103.224],
+  ["BBN","Bario Airport","Bario","MY",3.7346,115.4785],
+  ["BBO","Berbera Airport","Berbera","SO",10.385,44.9367],
+  ["BBQ","Codrington Airport","Codrington","AG",17.6358,-61.8286],
+  ["BCA","Gustavo Rizo Airport","Baracoa","CU",20.3653,-74.5062],
+  ["BCD","Bacolod-Silay Airport","Bacolod City","PH",10.7764,123.015],
+  ["BCI","Barcaldine Airport","Barcaldine","AU",-23.5663,145.3021],
+  ["BCL","Barra del Colorado Airport","Pococi","CR",10.7687,-83.5856],
+  ["BCM","Bacău Airport","Bacău","RO",46.5219,26.9103],
+  ["BCN","Josep Tarradellas Barcelona-El Prat Airport","Barcelona","ES",41.2971,2.0785],
+  ["BCU","Sir Abubakar Tafawa Balewa International Airport","Bauchi","NG",10.4828,9.744],
+  ["BCW","Benguera Island Airport","Benguera Island","MZ",-21.8533,35.4383],
+  ["BDA","L.F. Wade International International Airport","Hamilton","BM",32.364,-64.6787],
+  ["BDB","Bundaberg Airport","Bundaberg","AU",-24.905,152.3226],
+  ["BDH","Bandar Lengeh International Airport","Bandar Lengeh","IR",26.5323,54.8248],
+  ["BDJ","Syamsudin Noor International Airport","Landasan Ulin","ID",-3.4424,114.763],
+  ["BDL","Bradley International Airport","Hartford","US",41.9385,-72.6881],
+  ["BDO","Husein Sastranegara International Airport","Bandung","ID",-6.9006,107.576],
+  ["BDQ","Vadodara Airport","Vadodara","IN",22.3362,73.2263],
+  ["BDR","Igor I Sikorsky Memorial Airport","Bridgeport","US",41.1635,-73.1262],
+  ["BDS","Brindisi Airport","Brindisi","IT",40.6576,17.947],
+  ["BDT","Gbadolite Airport","Gbadolite","CD",4.2527,20.9753],
+  ["BDU","Bardufoss Airport","Målselv","NO",69.0558,18.5404],
+  ["BEB","Benbecula Airport","Balivanich","GB",57.4811,-7.3628],
+  ["BEF","Bluefields Airport","Bluefileds","NI",11.991,-83.7741],
+  ["BEG","Belgrade Nikola Tesla Airport","Belgrade","RS",44.8184,20.3091],
+  ["BEJ","Kalimarau Airport","Tanjung Redeb - Borneo Island","ID",2.1555,117.432],
+  ["BEL","Val de Cans/Júlio Cezar Ribeiro International Airport","Belém","BR",-1.3793,-48.4762],
+  ["BEN","Benina International Airport","Benina","LY",32.0968,20.2695],
+  ["BER","Berlin Brandenburg Airport","Berlin","DE",52.3622,13.5007],
+  ["BES","Brest Bretagne Airport","Brest/Guipavas","FR",48.4479,-4.4185],
+  ["BET","Bethel Airport","Bethel","US",60.7798,-161.838],
+  ["BEU","Bedourie Airport","Bedourie Airport","AU",-24.3461,139.46],
+  ["BEW","Beira Airport","Beira","MZ",-19.7964,34.9076],
+  ["BEY","Beirut Rafic Hariri International Airport","Beirut","LB",33.8209,35.4884],
+  ["BFD","Bradford Regional Airport","Bradford","US",41.8031,-78.6401],
+  ["BFF","Western Neb. Rgnl/William B. Heilig Airport","Scottsbluff","US",41.874,-103.596],
+  ["BFI","Boeing Field King County International Airport","Seattle","US",47.53,-122.302],
+  ["BFJ","Bijie Feixiong Airport","Bijie","CN",27.2671,105.4721],
+  ["BFL","Meadows Field","Bakersfield","US",35.4336,-119.057],
+  ["BFN","Bram Fischer International Airport","Bloemfontain","ZA",-29.0927,26.3024],
+  ["BFS","Belfast International Airport","Belfast","GB",54.6575,-6.2158],
+  ["BFV","Buri Ram Airport","Buriram","TH",15.2295,103.253],
+  ["BGA","Palonegro Airport","Bucaramanga","CO",7.1265,-73.1848],
+  ["BGC","Bragança Airport","Bragança","PT",41.8578,-6.7071],
+  ["BGF","Bangui M'Poko International Airport","Bangui","CF",4.3985,18.5188],
+  ["BGI","Grantley Adams International Airport","Bridgetown","BB",13.0746,-59.4925],
+  ["BGK","Big Creek Airport","Big Creek","BZ",16.5194,-88.4079],
+  ["BGM","Greater Binghamton/Edwin A Link field","Binghamton","US",42.2087,-75.9798],
+  ["BGO","Bergen Airport, Flesland","Bergen","NO",60.2934,5.2181],
+  ["BGR","Bangor International Airport","Bangor","US",44.8074,-68.8281],
+  ["BGW","Baghdad International Airport / New Al Muthana Air Base","Baghdad","IQ",33.2625,44.2346],
+  ["BGY","Milan Bergamo Airport","Milan","IT",45.6739,9.7042],
+  ["BHB","Hancock County-Bar Harbor Airport","Bar Harbor","US",44.45,-68.3615],
+  ["BHD","George Best Belfast City Airport","Belfast","GB",54.6181,-5.8725],
+  ["BHE","Woodbourne Airport","Blenheim","NZ",-41.5183,173.87],
+  ["BHH","Bisha Airport","Bisha","SA",19.9844,42.6209],
+  ["BHI","Comandante Espora Airport","Bahia Blanca","AR",-38.725,-62.1693],
+  ["BHJ","Bhuj Airport","Bhuj","IN",23.2878,69.6702],
+  ["BHK","Bukhara International Airport","Bukhara","UZ",39.775,64.4833],
+  ["BHM","Birmingham-Shuttlesworth International Airport","Birmingham","US",33.5629,-86.7535],
+  ["BHO","Raja Bhoj International Airport","Bhopal","IN",23.2875,77.3374],
+  ["BHQ","Broken Hill Airport","Broken Hill","AU",-32.0014,141.472],
+  ["BHS","Bathurst Airport","Bathurst","AU",-33.4068,149.6512],
+  ["BHU","Bhavnagar Airport","Bhavnagar","IN",21.7522,72.1852],
+  ["BHV","Bahawalpur Airport","Bahawalpur","PK",29.3481,71.718],
+  ["BHX","Birmingham International Airport","Birmingham","GB",52.4539,-1.748],
+  ["BIA","Bastia-Poretta Airport","Bastia/Poretta","FR",42.5527,9.4837],
+  ["BIK","Frans Kaisiepo Airport","Biak","ID",-1.19,136.108],
+  ["BIL","Billings Logan International Airport","Billings","US",45.8077,-108.543],
+  ["BIM","South Bimini Airport","South Bimini","BS",25.6999,-79.2647],
+  ["BIO","Bilbao Airport","Bilbao","ES",43.3011,-2.9106],
+  ["BIQ","Biarritz-Anglet-Bayonne Airport","Biarritz/Anglet/Bayonne","FR",43.4683,-1.5311],
+  ["BIR","Biratnagar Airport","Biratnagar","NP",26.4815,87.264],
+  ["BIS","Bismarck Municipal Airport","Bismarck","US",46.7727,-100.746],
+  ["BJA","Soummam–Abane Ramdane Airport","Béjaïa","DZ",36.712,5.0698],
+  ["BJB","Bojnord Airport","Bojnord","IR",37.493,57.3082],
+  ["BJF","Båtsfjord Airport","Båtsfjord","NO",70.6005,29.6914],
+  ["BJL","Banjul International Airport","Banjul","GM",13.338,-16.6522],
+  ["BJM","Bujumbura Melchior Ndadaye International Airport","Bujumbura","BI",-3.324,29.3185],
+  ["BJR","Bahir Dar Airport","Bahir Dar","ET",11.6081,37.3216],
+  ["BJV","Milas Bodrum International Airport","Bodrum","TR",37.2506,27.6643],
+  ["BJX","Aeropuerto Internacional Del Bajío","Ciudad de Silao","MX",20.9858,-101.4788],
+  ["BJZ","Badajoz Airport","Badajoz","ES",38.8913,-6.8213],
+  ["BKI","Kota Kinabalu International Airport","Kota Kinabalu","MY",5.9327,116.0493],
+  ["BKK","Suvarnabhumi Airport","Bangkok","TH",13.6811,100.747],
+  ["BKO","Modibo Keita International Airport","Bamako","ML",12.5335,-7.9499],
+  ["BKQ","Blackall Airport","Blackall","AU",-24.4317,145.4297],
+  ["BKS","Fatmawati Soekarno Airport","Bengkulu","ID",-3.8637,102.339],
+  ["BKW","Raleigh County Memorial Airport","Beckley","US",37.7873,-81.1242],
+  ["BLA","General José Antonio Anzoategui International Airport","Barcelona","VE",10.1111,-64.6922],
+  ["BLE","Dala Airport","Borlange","SE",60.422,15.5152],
+  ["BLF","Mercer County Airport","Bluefield","US",37.2958,-81.2077],
+  ["BLI","Bellingham International Airport","Bellingham","US",48.7928,-122.538],
+  ["BLJ","Batna Mostefa Ben Boulaid Airport","Batna","DZ",35.7521,6.3086],
+  ["BLK","Blackpool International Airport","Blackpool","GB",53.7717,-3.0286],
+  ["BLL","Billund Airport","Billund","DK",55.7403,9.1518],
+  ["BLQ","Bologna Guglielmo Marconi Airport","Bologna","IT",44.5354,11.2887],
+  ["BLR","Kempegowda International Airport","Bangalore","IN",13.1979,77.7063],
+  ["BLT","Blackwater Airport","Blackwater Airport","AU",-23.6031,148.807],
+  ["BLV","Scott AFB/Midamerica Airport","Belleville","US",38.5452,-89.8352],
+  ["BLZ","Chileka International Airport","Blantyre","MW",-15.6791,34.974],
+  ["BMA","Stockholm-Bromma Airport","Stockholm","SE",59.3544,17.9417],
+  ["BME","Broome International Airport","Broome","AU",-17.9488,122.2274],
+  ["BMI","Central Illinois Regional Airport at Bloomington-Normal","Bloomington/Normal","US",40.4771,-88.9159],
+  ["BMV","Buon Ma Thuot Airport","Buon Ma Thuot","VN",12.6683,108.12],
+  ["BMY","Île Art - Waala Airport","Waala","NC",-19.7205,163.6611],
+  ["BNA","Nashville International Airport","Nashville","US",36.1245,-86.6782],
+  ["BND","Bandar Abbas International Airport","Bandar Abbas","IR",27.2183,56.3778],
+  ["BNE","Brisbane International Airport","Brisbane","AU",-27.3842,153.117],
+  ["BNI","Benin Airport","Benin","NG",6.317,5.5995],
+  ["BNK","Ballina Byron Gateway Airport","Ballina","AU",-28.8332,153.5615],
+  ["BNN","Brønnøysund Airport, Brønnøy","Brønnøy","NO",65.4611,12.2175],
+  ["BNS","Barinas Airport","Barinas","VE",8.615,-70.2142],
+  ["BNX","Banja Luka International Airport","Banja Luka","BA",44.9414,17.2975],
+  ["BOB","Bora Bora Airport","Motu Mute","PF",-16.4444,-151.751],
+  ["BOC","Bocas del Toro International Airport","Isla Colón","PA",9.3408,-82.2508],
+  ["BOD","Bordeaux-Mérignac Airport","Bordeaux/Mérignac","FR",44.8283,-0.7156],
+  ["BOG","El Dorado International Airport","Bogota","CO",4.7016,-74.1469],
+  ["BOH","Bournemouth Airport","Bournemouth","GB",50.78,-1.8425],
+  ["BOI","Boise Air Terminal/Gowen Field","Boise","US",43.5644,-116.223],
+  ["BOJ","Burgas Airport","Burgas","BG",42.5696,27.5152],
+  ["BOM","Chhatrapati Shivaji International Airport","Mumbai","IN",19.0887,72.8679],
+  ["BON","Flamingo International Airport","Kralendijk, Bonaire","BQ",12.131,-68.2685],
+  ["BOO","Bodø Airport","Bodø","NO",67.2692,14.3653],
+  ["BOS","Logan International Airport","Boston","US",42.3643,-71.0052],
+  ["BOY","Bobo Dioulasso Airport","Bobo Dioulasso","BF",11.1601,-4.331],
+  ["BPE","Qinhuangdao Beidaihe Airport","Qinhuangdao","CN",39.6664,119.0589],
+  ["BPL","Bole Alashankou Airport","Bole","CN",44.8955,82.3001],
+  ["BPN","Sultan Aji Muhammad Sulaiman Sepinggan International Airport","Balikpapan","ID",-1.2683,116.8945],
+  ["BPS","Porto Seguro Airport","Porto Seguro","BR",-16.4384,-39.0806],
+  ["BPT","Jack Brooks Regional Airport","Beaumont/Port Arthur","US",29.9508,-94.0207],
+  ["BPX","Qamdo Bangda Airport","Bangda","CN",30.5536,97.1083],
+  ["BPY","Besalampy Airport","Besalampy","MG",-16.7445,44.4825],
+  ["BQA","Dr Juan C Angara Airport","Baler","PH",15.7293,121.5],
+  ["BQK","Brunswick Golden Isles Airport","Brunswick","US",31.2588,-81.4665],
+  ["BQL","Boulia Airport","Boulia Airport","AU",-22.9133,139.9],
+  ["BQN","Rafael Hernández International Airport","Aguadilla","PR",18.4949,-67.1294],
+  ["BQS","Ignatyevo Airport","Blagoveschensk","RU",50.4254,127.412],
+  ["BQT","Brest Airport","Brest","BY",52.1083,23.8981],
+  ["BRC","San Carlos De Bariloche Airport","San Carlos de Bariloche","AR",-41.1512,-71.1575],
+  ["BRD","Brainerd Lakes Regional Airport","Brainerd","US",46.4029,-94.1297],
+  ["BRE","Bremen Airport","Bremen","DE",53.0475,8.7867],
+  ["BRI","Bari Karol Wojtyła Airport","Bari","IT",41.1389,16.7606],
+  ["BRK","Bourke Airport","Bourke Airport","AU",-30.0392,145.952],
+  ["BRL","Southeast Iowa Regional Airport","Burlington","US",40.7832,-91.1255],
+  ["BRM","Barquisimeto International Airport","Barquisimeto","VE",10.0427,-69.3586],
+  ["BRN","Bern-Belp Airport","Bern-Belp","CH",46.9134,7.4997],
+  ["BRO","Brownsville South Padre Island International Airport","Brownsville","US",25.9068,-97.4259],
+  ["BRQ","Brno-Tuřany Airport","Brno","CZ",49.1513,16.6944],
+  ["BRR","Barra Airport","Eoligarry","GB",57.0228,-7.4431],
+  ["BRS","Bristol Airport","Bristol","GB",51.3827,-2.7191],
+  ["BRU","Brussels Airport","Zaventem","BE",50.9014,4.4844],
+  ["BRW","Wiley Post Will Rogers Memorial Airport","Utqiaġvik","US",71.2854,-156.766],
+  ["BRX","Maria Montez International Airport","Barahona","DO",18.2515,-71.1204],
+  ["BSB","Presidente Juscelino Kubitschek International Airport","Brasília","BR",-15.8692,-47.9208],
+  ["BSC","José Celestino Mutis Airport","Bahía Solano","CO",6.2029,-77.3947],
+  ["BSD","Baoshan Yunrui Airport","Baoshan","CN",25.0533,99.1683],
+  ["BSG","Bata Airport","Bata","GQ",1.9055,9.8057],
+  ["BSK","Biskra - Mohamed Khider Airport","Biskra","DZ",34.7933,5.7382],
+  ["BSL","EuroAirport Basel-Mulhouse-Freiburg Airport","Bâle/Mulhouse","FR",47.59,7.5292],
+  ["BSO","Basco Airport","Basco","PH",20.4513,121.98],
+  ["BSR","Basra International Airport","Basra","IQ",30.5491,47.6621],
+  ["BTC","Batticaloa Airport","Batticaloa","LK",7.7058,81.6788],
+  ["BTH","Hang Nadim International Airport","Batam","ID",1.121,104.119],
+  ["BTJ","Sultan Iskandar Muda International Airport","Banda Aceh","ID",5.5229,95.4206],
+  ["BTK","Bratsk Airport","Bratsk","RU",56.3706,101.698],
+  ["BTM","Bert Mooney Airport","Butte","US",45.9548,-112.497],
+  ["BTR","Baton Rouge Metropolitan Airport","Baton Rouge","US",30.5332,-91.1496],
+  ["BTS","M. R. Štefánik Airport","Bratislava","SK",48.1702,17.2127],
+  ["BTU","Bintulu Airport","Bintulu","MY",3.1239,113.02],
+  ["BTV","Burlington International Airport","South Burlington","US",44.4719,-73.1533],
+  ["BUA","Buka Airport","Buka Island","PG",-5.4223,154.673],
+  ["BUD","Budapest Liszt Ferenc International Airport","Budapest","HU",47.4298,19.2611],
+  ["BUF","Buffalo Niagara International Airport","Buffalo","US",42.9405,-78.7322],
+  ["BUN","Gerardo Tobar López Airport","Buenaventura","CO",3.8196,-76.9898],
+  ["BUQ","Joshua Mqabuko Nkomo International Airport","Bulawayo","ZW",-20.0174,28.6179],
+  ["BUR","Bob Hope Airport","Burbank","US",34.1977,-118.3564],
+  ["BUS","Batumi International Airport","Batumi","GE",41.6103,41.5997],
+  ["BUX","Bunia Airport","Bunia","CD",1.5657,30.2207],
+  ["BUZ","Bushehr Airport","Bushehr","IR",28.9448,50.8346],
+  ["BVA","Paris Beauvais Tillé Airport","Beauvais","FR",49.4544,2.1128],
+  ["BVB","Atlas Brasil Cantanhede Airport","Boa Vista","BR",2.8459,-60.6909],
+  ["BVC","Rabil Airport","Rabil","CV",16.1365,-22.8889],
+  ["BVE","Brive-Souillac","Brive la Gaillarde","FR",45.0397,1.4856],
+  ["BVG","Berlevåg Airport","Berlevåg","NO",70.8714,29.0342],
+  ["BVH","Brigadeiro Camarão Airport","Vilhena","BR",-12.6944,-60.0983],
+  ["BVI","Birdsville Airport","Birdsville Airport","AU",-25.8975,139.348],
+  ["BVJ","Bovanenkovo Airport","Bovanenkovo","RU",70.3153,68.3336],
+  ["BWA","Gautam Buddha International Airport","Siddharthanagar","NP",27.5053,83.4126],
+  ["BWI","Baltimore/Washington International Thurgood Marshall Airport","Baltimore","US",39.1754,-76.6683],
+  ["BWK","Brač Airport","Bol","HR",43.2857,16.6797],
+  ["BWN","Brunei International Airport","Bandar Seri Begawan","BN",4.9442,114.928],
+  ["BWO","Balakovo Airport","Balakovo","RU",51.8583,47.7456],
+  ["BWT","Wynyard Airport","Burnie","AU",-40.997,145.726],
+  ["BXR","Bam Airport","Bam","IR",29.0842,58.45],
+  ["BXU","Bancasi Airport","Butuan","PH",8.9515,125.4788],
+  ["BYK","Bouaké Airport","Bouaké","CI",7.7388,-5.0737],
+  ["BYM","Carlos Manuel de Cespedes Airport","Bayamo","CU",20.3964,-76.6214],
+  ["BYN","Bayankhongor Airport","Bayankhongor","MN",46.1633,100.704],
+  ["BZE","Philip S. W. Goldson International Airport","Belize City","BZ",17.54,-88.3036],
+  ["BZG","Bydgoszcz Ignacy Jan Paderewski Airport","Bydgoszcz","PL",53.0968,17.9777],
+  ["BZI","Balıkesir Merkez Airport","Balıkesir Merkez Airport","TR",39.6193,27.926],
+  ["BZK","Bryansk Airport","Bryansk","RU",53.2142,34.1764],
+  ["BZL","Barisal Airport","Barisal","BD",22.801,90.3012],
+  ["BZN","Gallatin Field","Bozeman","US",45.7775,-111.153],
+  ["BZO","Bolzano Airport","Bolzano","IT",46.4602,11.3264],
+  ["BZR","Béziers-Vias Airport","Béziers/Vias","FR",43.3235,3.3539],
+  ["BZV","Maya-Maya Airport","Brazzaville","CG",-4.2517,15.253],
+  ["CAB","Cabinda Airport","Cabinda","AO",-5.597,12.1884],
+  ["CAC","Coronel Adalberto Mendes da Silva Airport","Cascavel","BR",-25.0003,-53.5012],
+  ["CAE","Columbia Metropolitan Airport","Columbia","US",33.9388,-81.1195],
+  ["CAG","Cagliari Elmas Airport","Cagliari","IT",39.2515,9.0543],
+  ["CAH","Cà Mau Airport","Ca Mau City","VN",9.1777,105.1778],
+  ["CAI","Cairo International Airport","Cairo","EG",30.1115,31.3967],
+  ["CAJ","Canaima Airport","Canaima","VE",6.232,-62.8544],
+  ["CAK","Akron Canton Regional Airport","Akron","US",40.9161,-81.4422],
+  ["CAL","Campbeltown Airport","Campbeltown","GB",55.4372,-5.6864],
+  ["CAN","Guangzhou Baiyun International Airport","Guangzhou","CN",23.3924,113.299],
+  ["CAP","Cap Haitien International Airport","Cap Haitien","HT",19.7267,-72.1996],
+  ["CAT","Cascais Airport","Cascais","PT",38.725,-9.3552],
+  ["CAW","Bartolomeu Lisandro Airport","Campos Dos Goytacazes","BR",-21.6983,-41.3017],
+  ["CAY","Cayenne – Félix Eboué Airport","Matoury","GF",4.82,-52.3613],
+  ["CAZ","Cobar Airport","Cobar Airport","AU",-31.5383,145.794],
+  ["CBB","Jorge Wilsterman International Airport","Cochabamba","BO",-17.4211,-66.1771],
+  ["CBH","Béchar Boudghene Ben Ali Lotfi Airport","Béchar","DZ",31.6457,-2.2699],
+  ["CBO","Cotabato (Awang) Airport","Datu Odin Sinsuat","PH",7.1648,124.2099],
+  ["CBQ","Margaret Ekpo International Airport","Calabar","NG",4.976,8.3472],
+  ["CBR","Canberra International Airport","Canberra","AU",-35.3069,149.195],
+  ["CBT","Catumbela Airport","Catumbela","AO",-12.4792,13.4869],
+  ["CCC","Jardines Del Rey Airport","Cayo Coco","CU",22.461,-78.3284],
+  ["CCF","Carcassonne Airport","Carcassonne/Salvaza","FR",43.216,2.3063],
+  ["CCJ","Calicut International Airport","Calicut","IN",11.1368,75.9553],
+  ["CCK","Cocos (Keeling) Islands Airport","West Island","CC",-12.1913,96.8337],
+  ["CCM","Forquilhinha - Criciúma  Airport","Criciúma","BR",-28.7257,-49.4245],
+  ["CCP","Carriel Sur Airport","Concepcion","CL",-36.7727,-73.0631],
+  ["CCS","Simón Bolívar International Airport","Caracas","VE",10.6012,-66.9912],
+  ["CCU","Netaji Subhash Chandra Bose International Airport","Kolkata","IN",22.6547,88.4467],
+  ["CCZ","Chub Cay Airport","Chub Cay Airport","BS",25.4171,-77.8809],
+  ["CDC","Cedar City Regional Airport","Cedar City","US",37.701,-113.099],
+  ["CDE","Chengde Puning Airport","Chengde","CN",41.1225,118.0739],
+  ["CDG","Charles de Gaulle International Airport","Paris","FR",49.0128,2.55],
+  ["CDP","Kadapa Airport","Kadapa","IN",14.5132,78.7692],
+  ["CDT","Castellón-Costa Azahar Airport","Castellón de la Plana","ES",40.2139,0.0733],
+  ["CDV","Merle K (Mudhole) Smith Airport","Cordova","US",60.4918,-145.478],
+  ["CEB","Mactan Cebu International Airport","Lapu-Lapu City","PH",10.3093,123.9797],
+  ["CEC","Jack Mc Namara Field Airport","Crescent City","US",41.7802,-124.237],
+  ["CED","Ceduna Airport","Ceduna Airport","AU",-32.1306,133.71],
+  ["CEE","Cherepovets Airport","Cherepovets","RU",59.2736,38.0158],
+  ["CEI","Mae Fah Luang - Chiang Rai International Airport","Chiang Rai","TH",19.9523,99.8829],
+  ["CEK","Chelyabinsk Balandino Airport","Chelyabinsk","RU",55.3058,61.5033],
+  ["CEN","Ciudad Obregón International Airport","Ciudad Obregón","MX",27.3926,-109.833],
+  ["CEQ","Cannes-Mandelieu Airport","Cannes","FR",43.542,6.9535],
+  ["CER","Cherbourg-Maupertus Airport","Cherbourg/Maupertus","FR",49.6501,-1.4703],
+  ["CFE","Clermont-Ferrand Auvergne Airport","Clermont-Ferrand/Auvergne","FR",45.7867,3.1692],
+  ["CFG","Jaime Gonzalez Airport","Cienfuegos","CU",22.15,-80.4142],
+  ["CFK","Chlef Aboubakr Belkaid International Airport","Chlef","DZ",36.2172,1.3422],
+  ["CFN","Donegal Airport","Donegal","IE",55.0442,-8.341],
+  ["CFR","Caen-Carpiquet Airport","Caen/Carpiquet","FR",49.1733,-0.45],
+  ["CFS","Coffs Harbour Airport","Coffs Harbour","AU",-30.3206,153.116],
+  ["CFU","Ioannis Kapodistrias International Airport","Kerkyra Island","GR",39.6019,19.9117],
+  ["CGB","Marechal Rondon Airport","Cuiabá","BR",-15.6529,-56.1167],
+  ["CGD","Changde Taohuayuan Airport","Changde","CN",28.9189,111.64],
+  ["CGH","Congonhas Airport","São Paulo","BR",-23.6277,-46.6546],
+  ["CGI","Cape Girardeau Regional Airport","Cape Girardeau","US",37.2253,-89.5708],
+  ["CGK","Soekarno-Hatta International Airport","Jakarta","ID",-6.1256,106.656],
+  ["CGM","Camiguin Airport","Mambajao","PH",9.2539,124.7091],
+  ["CGN","Cologne Bonn Airport","Köln","DE",50.8659,7.1427],
+  ["CGO","Zhengzhou Xinzheng International Airport","Zhengzhou","CN",34.5265,113.8492],
+  ["CGP","Shah Amanat International Airport","Chattogram","BD",22.2496,91.8133],
+  ["CGQ","Changchun Longjia International Airport","Changchun","CN",43.9962,125.685],
+  ["CGR","Campo Grande Airport","Campo Grande","BR",-20.47,-54.674],
+  ["CGY","Laguindingan International Airport","Cagayan de Oro","PH",8.6122,124.4565],
+  ["CHA","Chattanooga Metropolitan Airport (Lovell Field)","Chattanooga","US",35.0353,-85.2038],
+  ["CHC","Christchurch International Airport","Christchurch","NZ",-43.4894,172.532],
+  ["CHG","Chaoyang Airport","Shuangta, Chaoyang","CN",41.5381,120.435],
+  ["CHH","Chachapoyas Airport","Chachapoyas","PE",-6.2019,-77.8562],
+  ["CHM","FAP Lieutenant Jaime Andres de Montreuil Morales Airport","Chimbote","PE",-9.1496,-78.5238],
+  ["CHO","Charlottesville Albemarle Airport","Charlottesville","US",38.1386,-78.4529],
+  ["CHQ","Chania International Airport","Souda","GR",35.5317,24.1497],
+  ["CHS","Charleston International Airport","Charleston","US",32.8986,-80.0405],
+  ["CHT","Chatham Islands / Tuuta Airport","Te One","NZ",-43.8119,-176.4651],
+  ["CHX","Changuinola Captain Manuel Niño International Airport","Changuinola","PA",9.459,-82.5151],
+  ["CIA","Ciampino–G. B. Pastine International Airport","Rome","IT",41.7994,12.5949],
+  ["CID","The Eastern Iowa Airport","Cedar Rapids","US",41.8847,-91.7108],
+  ["CIF","Chifeng Yulong Airport","Chifeng","CN",42.1577,118.8395],
+  ["CIJ","Capitán Aníbal Arab Airport","Cobija","BO",-11.0404,-68.783],
+  ["CIT","Shymkent Airport","Shymkent","KZ",42.3642,69.4789],
+  ["CIU","Chippewa County International Airport","Sault Ste Marie","US",46.2508,-84.4724],
+  ["CIW","Canouan Airport","Canouan","VC",12.699,-61.3424],
+  ["CIX","Air Force Captain Jose A Quinones Gonzales International Airport","Chiclayo","PE",-6.7875,-79.8281],
+  ["CIY","Comiso Airport","Comiso","IT",36.9946,14.6072],
+  ["CJA","Mayor General FAP Armando Revoredo Iglesias Airport","Cajamarca","PE",-7.1392,-78.4894],
+  ["CJB","Coimbatore International Airport","Coimbatore","IN",11.03,77.0434],
+  ["CJC","El Loa Airport","Calama","CL",-22.4982,-68.9036],
+  ["CJJ","Cheongju International Airport/Cheongju Air Base (K-59/G-513)","Cheongju","KR",36.717,127.4987],
+  ["CJL","Chitral Airport","Chitral","PK",35.8862,71.7999],
+  ["CJM","Chumphon Airport","Chumphon","TH",10.7112,99.3617],
+  ["CJS","Abraham González International Airport","Ciudad Juárez","MX",31.6361,-106.429],
+  ["CJU","Jeju International Airport","Jeju City","KR",33.5121,126.4925],
+  ["CKB","North Central West Virginia Airport","Bridgeport","US",39.2966,-80.2281],
+  ["CKG","Chongqing Jiangbei International Airport","Chongqing","CN",29.7123,106.6519],
+  ["CKH","Chokurdakh Airport","Chokurdah","RU",70.6231,147.902],
+  ["CKS","Carajás Airport","Parauapebas","BR",-6.1178,-50.0034],
+  ["CKY","Conakry International Airport","Conakry","GN",9.5769,-13.612],
+  ["CKZ","Çanakkale Airport","Çanakkale","TR",40.1377,26.4268],
+  ["CLE","Cleveland Hopkins International Airport","Cleveland","US",41.4117,-81.8498],
+  ["CLJ","Cluj-Napoca International Airport","Cluj-Napoca","RO",46.7852,23.6862],
+  ["CLL","Easterwood Field","College Station","US",30.5886,-96.3638],
+  ["CLM","William R Fairchild International Airport","Port Angeles","US",48.1202,-123.5],
+  ["CLO","Alfonso Bonilla Aragon International Airport","Cali","CO",3.5432,-76.3816],
+  ["CLQ","Licenciado Miguel de la Madrid Airport","Colima","MX",19.277,-103.577],
+  ["CLT","Charlotte Douglas International Airport","Charlotte","US",35.214,-80.9431],
+  ["CLY","Calvi-Sainte-Catherine Airport","Calvi/Sainte-Catherine","FR",42.5244,8.7931],
+  ["CMA","Cunnamulla Airport","Cunnamulla Airport","AU",-28.03,145.622],
+  ["CMB","Bandaranaike International Colombo Airport","Colombo","LK",7.1808,79.8841],
+  ["CME","Ciudad del Carmen International Airport","Ciudad del Carmen","MX",18.6537,-91.799],
+  ["CMF","Chambéry-Savoie Airport","Chambéry/Aix-les-Bains","FR",45.6381,5.8802],
+  ["CMG","Corumbá International Airport","Corumbá","BR",-19.0119,-57.6728],
+  ["CMH","John Glenn Columbus International Airport","Columbus","US",39.998,-82.8919],
+  ["CMI","University of Illinois Willard Airport","Savoy","US",40.0398,-88.2762],
+  ["CMN","Mohammed V International Airport","Casablanca","MA",33.3675,-7.59],
+  ["CMU","Chimbu Airport","Kundiawa","PG",-6.0243,144.971],
+  ["CMW","Ignacio Agramonte International Airport","Camaguey","CU",21.4203,-77.8475],
+  ["CMX","Houghton County Memorial Airport","Hancock","US",47.1684,-88.4891],
+  ["CNB","Coonamble Airport","Coonamble Airport","AU",-30.9809,148.3778],
+  ["CND","Mihail Kogălniceanu International Airport","Constanţa","RO",44.3622,28.4883],
+  ["CNF","Tancredo Neves International Airport","Belo Horizonte","BR",-19.6357,-43.9669],
+  ["CNI","Changhai Airport","Changhai, Dalian","CN",39.2667,122.6669],
+  ["CNJ","Cloncurry Airport","Cloncurry","AU",-20.6686,140.504],
+  ["CNL","Sindal Airport","Sindal","DK",57.5035,10.2294],
+  ["CNM","Cavern City Air Terminal","Carlsbad","US",32.3375,-104.263],
+  ["CNN","Kannur International Airport","Kannur","IN",11.9186,75.5472],
+  ["CNQ","Corrientes Airport","Corrientes","AR",-27.4455,-58.7619],
+  ["CNS","Cairns International Airport","Cairns","AU",-16.8858,145.755],
+  ["CNX","Chiang Mai International Airport","Chiang Mai","TH",18.7668,98.9626],
+  ["COD","Yellowstone Regional Airport","Cody","US",44.5202,-109.024],
+  ["COK","Cochin International Airport","Kochi","IN",10.152,76.4019],
+  ["COO","Cadjehoun Airport","Cotonou","BJ",6.3572,2.3844],
+  ["COR","Ingeniero Ambrosio Taravella Airport","Cordoba","AR",-31.3236,-64.208],
+  ["COS","City of Colorado Springs Municipal Airport","Colorado Springs","US",38.8058,-104.701],
+  ["COU","Columbia Regional Airport","Columbia","US",38.8181,-92.2196],
+  ["CPC","Aviador C. Campos Airport","Chapelco/San Martin de los Andes","AR",-40.0754,-71.1373],
+  ["CPD","Coober Pedy Airport","Coober Pedy","AU",-29.0383,134.7222],
+  ["CPE","Ingeniero Alberto Acuña Ongay International Airport","Campeche","MX",19.8168,-90.5003],
+  ["CPH","Copenhagen Kastrup Airport","Copenhagen","DK",55.6179,12.656],
+  ["CPO","Desierto de Atacama Airport","Copiapo","CL",-27.2612,-70.7792],
+  ["CPR","Casper-Natrona County International Airport","Casper","US",42.908,-106.464],
+  ["CPT","Cape Town International Airport","Cape Town","ZA",-33.9648,18.6017],
+  ["CPV","Presidente João Suassuna Airport","Campina Grande","BR",-7.2697,-35.8961],
+  ["CQW","Chongqing Xiannüshan Airport","Wulong","CN",29.4657,107.6937],
+  ["CRA","Craiova Airport","Craiova","RO",44.3181,23.8886],
+  ["CRC","Santa Ana Airport","Cartago","CO",4.7582,-75.9557],
+  ["CRD","General E. Mosconi Airport","Comodoro Rivadavia","AR",-45.7853,-67.4655],
+  ["CRI","Colonel Hill Airport","Colonel Hill","BS",22.7456,-74.1824],
+  ["CRK","Clark International Airport / Clark Air Base","Mabalacat","PH",15.186,120.56],
+  ["CRL","Brussels South Charleroi Airport","Brussels","BE",50.4592,4.4538],
+  ["CRM","Catarman National Airport","Catarman","PH",12.5016,124.6353],
+  ["CRP","Corpus Christi International Airport","Corpus Christi","US",27.7704,-97.5012],
+  ["CRV","Crotone Airport","Crotone","IT",38.9972,17.0802],
+  ["CRW","Yeager Airport","Charleston","US",38.3731,-81.5932],
+  ["CRZ","Türkmenabat International Airport","Türkmenabat","TM",38.9307,63.564],
+  ["CSG","Columbus Metropolitan Airport","Columbus","US",32.5163,-84.9389],
+  ["CSK","Cap Skirring Airport","Cap Skirring","SN",12.3953,-16.748],
+  ["CSX","Changsha Huanghua International Airport","Changsha","CN",28.1892,113.22],
+  ["CSY","Cheboksary Airport","Cheboksary","RU",56.0903,47.3473],
+  ["CTA","Catania-Fontanarossa Airport","Catania","IT",37.4668,15.0664],
+  ["CTC","Catamarca Airport","Catamarca","AR",-28.5956,-65.7517],
+  ["CTD","Alonso Valderrama Airport","Chitré","PA",7.9878,-80.4098],
+  ["CTG","Rafael Nuñez International Airport","Cartagena","CO",10.4424,-75.513],
+  ["CTL","Charleville Airport","Charleville","AU",-26.4133,146.262],
+  ["CTM","Chetumal International Airport","Chetumal","MX",18.5047,-88.3268],
+  ["CTN","Cooktown Airport","Cooktown Airport","AU",-15.4436,145.1832],
+  ["CTS","New Chitose Airport","Sapporo","JP",42.7752,141.692],
+  ["CTU","Chengdu Shuangliu International Airport","Chengdu","CN",30.5583,103.946],
+  ["CUA","Ciudad Constitución National Airport","Comondú","MX",25.0538,-111.615],
+  ["CUC","Camilo Daza International Airport","Cúcuta","CO",7.9276,-72.5115],
+  ["CUE","Mariscal Lamar Airport","Cuenca","EC",-2.8895,-78.9844],
+  ["CUF","Cuneo International Airport","Cuneo","IT",44.547,7.6232],
+  ["CUK","Caye Caulker Airport","Caye Caulker","BZ",17.735,-88.0329],
+  ["CUL","Bachigualato Federal International Airport","Culiacán","MX",24.765,-107.4752],
+  ["CUM","Cumaná (Antonio José de Sucre) Airport","Cumaná (Antonio José de Sucre) Airport","VE",10.4503,-64.1305],
+  ["CUN","Aeropuerto Internacional de Cancún","Ciudad de Cancún","MX",21.0394,-86.8743],
+  ["CUP","General Francisco Bermúdez Airport","Carúpano","VE",10.66,-63.2617],
+  ["CUQ","Coen Airport","Coen","AU",-13.7611,143.1133],
+  ["CUR","Hato International Airport","Willemstad","CW",12.1889,-68.9598],
+  ["CUU","General Roberto Fierro Villalobos International Airport","Chihuahua","MX",28.7029,-105.965],
+  ["CUZ","Alejandro Velasco Astete International Airport","Cusco","PE",-13.5357,-71.9388],
+  ["CVG","Cincinnati Northern Kentucky International Airport","Cincinnati / Covington","US",39.0488,-84.6678],
+  ["CVJ","Cuernavaca - General Mariano Matamoros Airport","Temixco","MX",18.8348,-99.2613],
+  ["CVM","General Pedro Jose Mendez International Airport","Ciudad Victoria","MX",23.7033,-98.9565],
+  ["CVQ","Carnarvon Airport","Carnarvon","AU",-24.8801,113.6708],
+  ["CWB","Afonso Pena Airport","Curitiba","BR",-25.5285,-49.1758],
+  ["CWC","Chernivtsi International Airport","Chernivtsi","UA",48.2593,25.9808],
+  ["CWJ","Cangyuan Washan Airport","Lincang","CN",23.2763,99.3732],
+  ["CWL","Cardiff International Airport","Cardiff","GB",51.3967,-3.3433],
+  ["CXB","Cox's Bazar Airport","Cox's Bazar","BD",21.4522,91.9639],
+  ["CXI","Cassidy International Airport","Kiritimati","KI",1.9863,-157.35],
+  ["CXJ","Hugo Cantergiani Regional Airport","Caxias Do Sul","BR",-29.1972,-51.1876],
+  ["CXP","Tunggul Wulung Airport","Cilacap","ID",-7.6451,109.034],
+  ["CXR","Cam Ranh International Airport / Cam Ranh Air Base","Cam Ranh","VN",11.9982,109.219],
+  ["CYA","Les Cayes Airport","Les Cayes","HT",18.2711,-73.7883],
+  ["CYB","Charles Kirkconnell International Airport","Cayman Brac","KY",19.687,-79.8828],
+  ["CYC","Caye Chapel Airport","Caye Chapel","BZ",17.6838,-88.045],
+  ["CYI","Chiayi Airport","Chiayi City","TW",23.4618,120.393],
+  ["CYO","Vilo Acuña International Airport","Cayo Largo del Sur","CU",21.6165,-81.546],
+  ["CYP","Calbayog Airport","Calbayog City","PH",12.0727,124.545],
+  ["CYW","Captain Rogelio Castillo National Airport","Celaya","MX",20.546,-100.887],
+  ["CYX","Cherskiy Airport","Cherskiy","RU",68.7406,161.338],
+  ["CYZ","Cauayan Airport","Cauayan City","PH",16.9299,121.753],
+  ["CZE","José Leonardo Chirinos Airport","Coro","VE",11.4149,-69.6809],
+  ["CZH","Corozal Municipal Airport","Corozal","BZ",18.3822,-88.4119],
+  ["CZL","Mohamed Boudiaf International Airport","Constantine","DZ",36.276,6.6204],
+  ["CZM","Aeropuerto Internacional de Cozumel","Ciudad de Cozumel","MX",20.5114,-86.9303],
+  ["CZS","Cruzeiro do Sul Airport","Cruzeiro Do Sul","BR",-7.5999,-72.7695],
+  ["CZU","Las Brujas Airport","Corozal","CO",9.3327,-75.2856],
+  ["CZX","Changzhou Benniu International Airport","Changzhou","CN",31.9197,119.779],
+  ["DAB","Daytona Beach International Airport","Daytona Beach","US",29.1799,-81.0581],
+  ["DAC","Hazrat Shahjalal International Airport","Dhaka","BD",23.8433,90.3978],
+  ["DAD","Da Nang International Airport","Da Nang","VN",16.0439,108.199],
+  ["DAL","Dallas Love Field","Dallas","US",32.8471,-96.8518],
+  ["DAM","Damascus International Airport","Damascus","SY",33.4115,36.5156],
+  ["DAR","Julius Nyerere International Airport","Dar es Salaam","TZ",-6.8781,39.2026],
+  ["DAU","Daru Airport","Daru","PG",-9.0868,143.208],
+  ["DAV","Enrique Malek International Airport","David","PA",8.391,-82.435],
+  ["DAY","James M Cox Dayton International Airport","Dayton","US",39.9024,-84.2194],
+  ["DBB","El Alamein International Airport","El Alamein","EG",30.9303,28.4631],
+  ["DBC","Baicheng Chang'an Airport","Baicheng","CN",45.5053,123.0197],
+  ["DBO","Dubbo City Regional Airport","Dubbo","AU",-32.2167,148.575],
+  ["DBQ","Dubuque Regional Airport","Dubuque","US",42.402,-90.7095],
+  ["DBV","Dubrovnik Airport","Dubrovnik","HR",42.5614,18.2682],
+  ["DCA","Ronald Reagan Washington National Airport","Washington","US",38.8521,-77.0377],
+  ["DCF","Canefield Airport","Canefield","DM",15.3367,-61.3921],
+  ["DCM","Castres-Mazamet Airport","Castres/Mazamet","FR",43.5563,2.2892],
+  ["DCY","Daocheng Yading Airport","Garzê","CN",29.3163,100.0603],
+  ["DDC","Dodge City Regional Airport","Dodge City","US",37.7634,-99.9656],
+  ["DDG","Dandong Langtou Airport","Zhenxing, Dandong","CN",40.0247,124.286],
+  ["DEA","Dera Ghazi Khan Airport","Dera Ghazi Khan","PK",29.961,70.4859],
+  ["DEB","Debrecen International Airport","Debrecen","HU",47.4889,21.6153],
+  ["DEC","Decatur Airport","Decatur","US",39.8346,-88.8657],
+  ["DED","Dehradun Jolly Grant Airport","Dehradun","IN",30.1892,78.1767],
+  ["DEF","Dezful Airport","Dezful","IR",32.4344,48.3976],
+  ["DEL","Indira Gandhi International Airport","New Delhi","IN",28.5556,77.0952],
+  ["DEN","Denver International Airport","Denver","US",39.8617,-104.673],
+  ["DFW","Dallas Fort Worth International Airport","Dallas-Fort Worth","US",32.8968,-97.038],
+  ["DGA","Dangriga Airport","Dangriga","BZ",16.9825,-88.231],
+  ["DGO","Aeropuerto Internacional Gral, Guadalupe Victoria","Ciudad de Durango","MX",24.1259,-104.5339],
+  ["DGT","Sibulan Airport","Dumaguete City","PH",9.3342,123.3019],
+  ["DHM","Kangra Airport","Kangra","IN",32.1649,76.263],
+  ["DHN","Dothan Regional Airport","Dothan","US",31.3213,-85.4496],
+  ["DIB","Dibrugarh Airport","Dibrugarh","IN",27.4839,95.0169],
+  ["DIE","Arrachart Airport","Antisiranana","MG",-12.3494,49.2917],
+  ["DIG","Diqing Shangri-La Airport","Diqing","CN",27.7936,99.6772],
+  ["DIJ","Dijon-Bourgogne Airport","Dijon/Longvic","FR",47.2689,5.09],
+  ["DIL","Presidente Nicolau Lobato International Airport","Dili","TL",-8.5466,125.5245],
+  ["DIN","Dien Bien Phu Airport","Dien Bien Phu","VN",21.3975,103.008],
+  ["DIR","Aba Tenna Dejazmach Yilma International Airport","Dire Dawa","ET",9.6247,41.8542],
+  ["DIS","Ngot Nzoungou Airport","Dolisie","CG",-4.2063,12.6599],
+  ["DIY","Diyarbakır Airport","Diyarbakır","TR",37.8939,40.201],
+  ["DJE","Djerba Zarzis International Airport","Mellita","TN",33.875,10.7755],
+  ["DJG","Djanet Inedbirene Airport","Djanet","DZ",24.2928,9.4524],
+  ["DJJ","Dortheys Hiyo Eluay International Airport","Sentani","ID",-2.5796,140.5199],
+  ["DLA","Douala International Airport","Douala","CM",4.0061,9.7195],
+  ["DLC","Dalian Zhoushuizi International Airport","Ganjingzi, Dalian","CN",38.9657,121.539],
+  ["DLE","Dole-Tavaux Airport","Dole/Tavaux","FR",47.0427,5.4351],
+  ["DLG","Dillingham Airport","Dillingham","US",59.0447,-158.505],
+  ["DLH","Duluth International Airport","Duluth","US",46.8421,-92.1936],
+  ["DLI","Lien Khuong Airport","Da Lat","VN",11.75,108.367],
+  ["DLM","Dalaman International Airport","Dalaman","TR",36.7131,28.7925],
+  ["DLU","Dali Fengyi Airport","Dali","CN",25.6494,100.319],
+  ["DLZ","Dalanzadgad Airport","Dalanzadgad, Ömnögovi","MN",43.6086,104.3677],
+  ["DMB","Taraz Airport","Taraz","KZ",42.8536,71.3036],
+  ["DME","Domodedovo International Airport","Moscow","RU",55.4088,37.9063],
+  ["DMK","Don Mueang International Airport","Bangkok","TH",13.9126,100.607],
+  ["DMM","King Fahd International Airport","Ad Dammam","SA",26.4712,49.7979],
+  ["DMU","Dimapur Airport","Dimapur","IN",25.8839,93.7711],
+  ["DND","Dundee Airport","Dundee","GB",56.4525,-3.0258],
+  ["DNH","Dunhuang Mogao International Airport","Dunhuang","CN",40.1611,94.8092],
+  ["DNK","Dnipro International Airport","Dnipro","UA",48.3572,35.1006],
+  ["DNR","Dinard-Pleurtuit-Saint-Malo Airport","Dinard/Pleurtuit/Saint-Malo","FR",48.5877,-2.08],
+  ["DNZ","Çardak Airport","Denizli","TR",37.7856,29.7013],
+  ["DOD","Dodoma Airport","Dodoma","TZ",-6.1704,35.7526],
+  ["DOG","Dongola Airport","Dongola","SD",19.1539,30.4301],
+  ["DOH","Hamad International Airport","Doha","QA",25.2731,51.6081],
+  ["DOL","Deauville-Saint-Gatien Airport","Deauville","FR",49.3653,0.1543],
+  ["DOM","Douglas-Charles Airport","Marigot","DM",15.547,-61.3],
+  ["DPL","Dipolog Airport","Dipolog","PH",8.602,123.3419],
+  ["DPO","Devonport Airport","Devonport","AU",-41.1697,146.43],
+  ["DPS","Ngurah Rai (Bali) International Airport","Denpasar","ID",-8.7482,115.167],
+  ["DQM","Duqm International Airport","Duqm","OM",19.5019,57.6342],
+  ["DRP","Bicol International Airport","Legazpi","PH",13.1119,123.6768],
+  ["DRS","Dresden Airport","Dresden","DE",51.1341,13.7678],
+  ["DRW","Darwin International Airport / RAAF Darwin","Darwin","AU",-12.415,130.8818],
+  ["DSK","Dera Ismael Khan Airport","Dera Ismael Khan","PK",31.9094,70.8966],
+  ["DSM","Des Moines International Airport","Des Moines","US",41.534,-93.6631],
+  ["DSN","Ordos Ejin Horo Airport","Ordos","CN",39.4934,109.8602],
+  ["DSO","Sondok Airport","Sŏndŏng-ni","KP",39.7452,127.474],
+  ["DSS","Blaise Diagne International Airport","Dakar","SN",14.67,-17.0733],
+  ["DTM","Dortmund Airport","Dortmund","DE",51.5183,7.6122],
+  ["DTU","Wudalianchi Dedu Airport","Heihe","CN",48.441,126.1284],
+  ["DTW","Detroit Metropolitan Wayne County Airport","Detroit","US",42.2124,-83.3534],
+  ["DUB","Dublin Airport","Dublin","IE",53.4287,-6.2621],
+  ["DUD","Dunedin International Airport","Dunedin","NZ",-45.9281,170.198],
+  ["DUE","Dundo Airport","Chitato","AO",-7.4009,20.8185],
+  ["DUJ","DuBois Regional Airport","Dubois","US",41.1783,-78.8987],
+  ["DUM","Pinang Kampai Airport","Dumai","ID",1.6091,101.4335],
+  ["DUR","King Shaka International Airport","Durban","ZA",-29.6144,31.1197],
+  ["DUS","Düsseldorf Airport","Düsseldorf","DE",51.2895,6.7668],
+  ["DUT","Tom Madsen (Dutch Harbor) Airport","Unalaska","US",53.8988,-166.545],
+  ["DVO","Francisco Bangoy International Airport","Davao","PH",7.1255,125.646],
+  ["DWC","Al Maktoum International Airport","Jebel Ali","AE",24.8964,55.1614],
+  ["DWD","King Salman Abdulaziz Airport","Dawadmi","SA",24.4499,44.1212],
+  ["DXB","Dubai International Airport","Dubai","AE",25.2528,55.3644],
+  ["DYR","Ugolny Yuri Ryktheu Airport","Anadyr","RU",64.7349,177.741],
+  ["DYU","Dushanbe Airport","Dushanbe","TJ",38.5433,68.825],
+  ["DZA","Dzaoudzi Pamandzi International Airport","Dzaoudzi","YT",-12.8093,45.2818],
+  ["DZN","Zhezkazgan National Airport","Zhezkazgan","KZ",47.709,67.7381],
+  ["EAM","Najran Domestic Airport","Najran","SA",17.6114,44.4192],
+  ["EAR","Kearney Regional Airport","Kearney","US",40.727,-99.0068],
+  ["EAS","San Sebastián Airport","Hondarribia","ES",43.3565,-1.7906],
+  ["EAU","Chippewa Valley Regional Airport","Eau Claire","US",44.8658,-91.4843],
+  ["EBA","Marina Di Campo Airport","Marina  Di Campo","IT",42.7603,10.2394],
+  ["EBB","Entebbe International Airport","Kampala","UG",0.0424,32.4435],
+  ["EBD","El-Obeid Airport","El-Obeid","SD",13.1532,30.2327],
+  ["EBJ","Esbjerg Airport","Esbjerg","DK",55.5259,8.5534],
+  ["EBL","Erbil International Airport","Arbil","IQ",36.2376,43.9632],
+  ["EBU","Saint-Étienne-Bouthéon Airport","Saint-Étienne/Bouthéon","FR",45.5406,4.2964],
+  ["ECN","Nicosia (Lefkoşa) Ercan International Airport","Tymbou","CY",35.1523,33.5066],
+  ["ECP","Northwest Florida Beaches International Airport","Panama City Beach","US",30.3571,-85.7954],
+  ["EDI","Edinburgh Airport","Edinburgh","GB",55.9501,-3.3723],
+  ["EDL","Eldoret International Airport","Eldoret","KE",0.4045,35.2389],
+  ["EDO","Balıkesir Koca Seyit Airport","Edremit","TR",39.5546,27.0138],
+  ["EFL","Kefallinia Airport","Kefallinia Island","GR",38.1201,20.5005],
+  ["EGC","Bergerac-Roumanière Airport","Bergerac/Roumanière","FR",44.8253,0.5186],
+  ["EGE","Eagle County Regional Airport","Eagle","US",39.6426,-106.918],
+  ["EGO","Belgorod International Airport","Belgorod","RU",50.6438,36.5901],
+  ["EGS","Egilsstaðir Airport","Egilsstaðir","IS",65.2833,-14.4014],
+  ["EGX","Egegik Airport","Egegik","US",58.1844,-157.3749],
+  ["EHU","Ezhou Huahu Airport","Ezhou","CN",30.3412,115.0393],
+  ["EIE","Yeniseysk Airport","Yeniseysk","RU",58.4742,92.1125],
+  ["EIK","Yeysk Airport","Yeysk","RU",46.68,38.21],
+  ["EIN","Eindhoven Airport","Eindhoven","NL",51.4501,5.3745],
+  ["EIS","Terrance B. Lettsome International Airport","Road Town","VG",18.4455,-64.5417],
+  ["EJA","Yariguíes Airport","Barrancabermeja","CO",7.0243,-73.8068],
+  ["EJH","Al Wajh Domestic Airport","Al Wajh","SA",26.1986,36.4764],
+  ["EKO","Elko Regional Airport","Elko","US",40.8249,-115.792],
+  ["ELC","Elcho Island Airport","Elcho Island","AU",-12.0194,135.571],
+  ["ELD","South Arkansas Regional Airport at Goodwin Field","El Dorado","US",33.221,-92.8133],
+  ["ELF","El Fasher Airport","El Fasher","SD",13.6149,25.3246],
+  ["ELG","El Golea Airport","El Menia","DZ",30.5807,2.8616],
+  ["ELH","North Eleuthera Airport","North Eleuthera","BS",25.4749,-76.6835],
+  ["ELM","Elmira Corning Regional Airport","Elmira/Corning","US",42.1599,-76.8916],
+  ["ELP","El Paso International Airport","El Paso","US",31.8072,-106.378],
+  ["ELQ","Gassim Airport","Buraidah","SA",26.3028,43.7744],
+  ["ELS","Ben Schoeman Airport","East London","ZA",-33.0356,27.8259],
+  ["ELU","Guemar Airport","Guemar","DZ",33.5114,6.7768],
+  ["EMA","East Midlands Airport","Nottingham","GB",52.8311,-1.3281],
+  ["EMD","Emerald Airport","Emerald","AU",-23.5675,148.179],
+  ["EMK","Emmonak Airport","Emmonak","US",62.7861,-164.491],
+  ["ENF","Enontekio Airport","Enontekio","FI",68.3626,23.4243],
+  ["ENH","Enshi Xujiaping Airport","Enshi","CN",30.3203,109.485],
+  ["ENU","Akanu Ibiam International Airport","Enegu","NG",6.4743,7.562],
+  ["ENY","Yan'an Nanniwan Airport","Yan'an","CN",36.4794,109.4641],
+  ["EOH","Enrique Olaya Herrera Airport","Medellín","CO",6.2205,-75.5906],
+  ["EOI","Eday Airport","Eday","GB",59.1906,-2.7722],
+  ["EPR","Esperance Airport","Esperance","AU",-33.6844,121.823],
+  ["EPU","Pärnu Airport","Pärnu","EE",58.419,24.4728],
+  ["EQS","Brigadier Antonio Parodi Airport","Esquel","AR",-42.908,-71.1395],
+  ["ERC","Erzincan Airport","Erzincan","TR",39.7102,39.527],
+  ["ERF","Erfurt Airport","Erfurt","DE",50.9798,10.9581],
+  ["ERH","Moulay Ali Cherif Airport","Errachidia","MA",31.9475,-4.3983],
+  ["ERI","Erie International Tom Ridge Field","Erie","US",42.0831,-80.1739],
+  ["ERL","Erenhot Saiwusu International Airport","Erenhot","CN",43.4225,112.0967],
+  ["ERS","Eros Airport","Windhoek","NA",-22.6122,17.0804],
+  ["ERZ","Erzurum International Airport","Erzurum","TR",39.9565,41.1702],
+  ["ESB","Esenboğa International Airport","Ankara","TR",40.1281,32.9951],
+  ["ESL","Elista Airport","Elista","RU",46.3739,44.3309],
+  ["ESR","Ricardo García Posada Airport","El Salvador","CL",-26.3111,-69.7652],
+  ["ESU","Essaouira-Mogador Airport","Essaouira","MA",31.3975,-9.6817],
+  ["ETM","Ramon International Airport","Eilat","IL",29.727,35.0141],
+  ["ETR","Santa Rosa - Artillery Colonel Victor Larrea International Airport","Santa Rosa","EC",-3.442,-79.997],
+  ["ETZ","Metz-Nancy-Lorraine Airport","Metz / Nancy","FR",48.9821,6.2513],
+  ["EUG","Mahlon Sweet Field","Eugene","US",44.1246,-123.212],
+  ["EUN","Hassan I Airport","El Aaiún","EH",27.1425,-13.2249],
+  ["EUX","F. D. Roosevelt Airport","Sint Eustatius","BQ",17.4965,-62.9794],
+  ["EVE","Harstad/Narvik Airport, Evenes","Evenes","NO",68.4913,16.6781],
+  ["EVG","Sveg Airport","Sveg","SE",62.0478,14.4229],
+  ["EVN","Zvartnots International Airport","Yerevan","AM",40.1473,44.3959],
+  ["EVV","Evansville Regional Airport","Evansville","US",38.037,-87.5324],
+  ["EWB","New Bedford Regional Airport","New Bedford","US",41.6761,-70.9569],
+  ["EWN","Coastal Carolina Regional Airport","New Bern","US",35.073,-77.0429],
+  ["EWR","Newark Liberty International Airport","Newark","US",40.6925,-74.1687],
+  ["EXT","Exeter International Airport","Exeter","GB",50.7344,-3.4139],
+  ["EYK","Beloyarskiy Airport","Beloyarskiy Airport","RU",63.6869,66.6986],
+  ["EYP","El Yopal Airport","El Yopal","CO",5.3191,-72.384],
+  ["EYW","Key West International Airport","Key West","US",24.5561,-81.7596],
+  ["EZE","Minister Pistarini International Airport","Buenos Aires","AR",-34.8222,-58.5358],
+  ["EZS","Elazığ Airport","Elazığ","TR",38.598,39.2835],
+  ["FAE","Vágar Airport","Vágar","FO",62.0633,-7.2758],
+  ["FAI","Fairbanks International Airport","Fairbanks","US",64.8151,-147.856],
+  ["FAO","Faro Airport","Faro","PT",37.0144,-7.9659],
+  ["FAR","Hector International Airport","Fargo","US",46.9207,-96.8158],
+  ["FAT","Fresno Yosemite International Airport","Fresno","US",36.7762,-119.718],
+  ["FAV","Fakarava Airport","Fakarava Airport","PF",-16.0541,-145.657],
+  ["FAY","Fayetteville Regional Airport - Grannis Field","Fayetteville","US",34.9912,-78.8803],
+  ["FBM","Lubumbashi International Airport","Lubumbashi","CD",-11.5913,27.5309],
+  ["FCA","Glacier Park International Airport","Kalispell","US",48.3105,-114.256],
+  ["FCO","Rome–Fiumicino Leonardo da Vinci International Airport","Rome","IT",41.8045,12.252],
+  ["FDF","Martinique Aimé Césaire International Airport","Fort-de-France","MQ",14.591,-61.0032],
+  ["FDH","Friedrichshafen Airport","Friedrichshafen","DE",47.6713,9.5115],
+  ["FDU","Bandundu Airport","Bandundu","CD",-3.3113,17.3817],
+  ["FEG","Fergana International Airport","Fergana","UZ",40.3588,71.745],
+  ["FEN","Fernando de Noronha Airport","Fernando de Noronha","BR",-3.8545,-32.4233],
+  ["FEZ","Fes Saïss International Airport","Saïss","MA",33.9273,-4.978],
+  ["FHU","Sierra Vista Municipal Airport / Libby Army Air Field","Fort Huachuca / Sierra Vista","US",31.5874,-110.3482],
+  ["FIH","Ndjili International Airport","Kinshasa","CD",-4.3857,15.4446],
+  ["FJR","Fujairah International Airport","Fujairah International Airport","AE",25.1122,56.324],
+  ["FKB","Karlsruhe Baden-Baden Airport","Baden-Baden","DE",48.7794,8.0805],
+  ["FKI","Bangoka International Airport","Kisangani","CD",0.4816,25.338],
+  ["FKQ","Fakfak Airport","Fakfak","ID",-2.9205,132.267],
+  ["FKS","Fukushima Airport","Sukagawa","JP",37.2274,140.431],
+  ["FLA","Gustavo Artunduaga Paredes Airport","Florencia","CO",1.5892,-75.5644],
+  ["FLG","Flagstaff Pulliam International Airport","Flagstaff","US",35.1385,-111.671],
+  ["FLL","Fort Lauderdale Hollywood International Airport","Fort Lauderdale","US",26.0726,-80.1527],
+  ["FLN","Hercílio Luz International Airport","Florianópolis","BR",-27.6703,-48.5525],
+  ["FLO","Florence Regional Airport","Florence","US",34.1854,-79.7239],
+  ["FLR","Peretola Airport","Firenze","IT",43.81,11.2051],
+  ["FLW","Flores Airport","Santa Cruz das Flores","PT",39.4553,-31.1314],
+  ["FLZ","Dr. Ferdinand Lumban Tobing Airport","Sibolga","ID",1.5571,98.8871],
+  ["FMA","Formosa Airport","Formosa","AR",-26.2127,-58.2281],
+  ["FMI","Kalemie Airport","Kalemie","CD",-5.8756,29.25],
+  ["FMM","Memmingen Allgau Airport","Memmingen","DE",47.9888,10.2395],
+  ["FMO","Münster Osnabrück Airport","Münster","DE",52.1346,7.6848],
+  ["FNA","Lungi International Airport","Freetown","SL",8.6164,-13.1955],
+  ["FNC","Madeira International Airport Cristiano Ronaldo","Funchal","PT",32.6979,-16.7745],
+  ["FNI","Nîmes-Arles-Camargue Airport","Nîmes/Garons","FR",43.7574,4.4163],
+  ["FNJ","Pyongyang Sunan International Airport","Pyongyang","KP",39.2241,125.67],
+  ["FNT","Bishop International Airport","Flint","US",42.9654,-83.7436],
+  ["FOC","Fuzhou Changle International Airport","Fuzhou","CN",25.9347,119.6632],
+  ["FOD","Fort Dodge Regional Airport","Fort Dodge","US",42.5515,-94.1926],
+  ["FOG","Foggia \"Gino Lisa\" Airport","Foggia","IT",41.4329,15.535],
+  ["FOR","Pinto Martins International Airport","Fortaleza","BR",-3.7763,-38.5326],
+  ["FPO","Grand Bahama International Airport","Freeport","BS",26.5587,-78.6956],
+  ["FRA","Frankfurt Airport","Frankfurt am Main","DE",50.0365,8.5613],
+  ["FRL","Forlì Airport","Forlì","IT",44.1948,12.0701],
+  ["FRO","Florø Airport","Florø","NO",61.5836,5.0247],
+  ["FRS","Mundo Maya International Airport","San Benito","GT",16.9138,-89.8664],
+  ["FRU","Manas International Airport","Bishkek","KG",43.0613,74.4776],
+  ["FRW","P G Matante Intl","Francistown","BW",-21.1591,27.4685],
+  ["FSC","Figari Sud-Corse Airport","Figari Sud-Corse","FR",41.5006,9.0978],
+  ["FSD","Sioux Falls Regional Airport / Joe Foss Field","Sioux Falls","US",43.5855,-96.7412],
+  ["FSM","Fort Smith Regional Airport","Fort Smith","US",35.3366,-94.3674],
+  ["FSP","St Pierre Airport","Saint-Pierre","PM",46.7629,-56.1731],
+  ["FSZ","Mount Fuji Shizuoka Airport","Makinohara / Shimada","JP",34.796,138.1878],
+  ["FTE","El Calafate - Commander Armando Tola International Airport","El Calafate","AR",-50.2803,-72.0531],
+  ["FTI","Fitiuta Airport","Fitiuta Village","AS",-14.2156,-169.4243],
+  ["FTU","Tôlanaro Airport","Tôlanaro","MG",-25.0381,46.9561],
+  ["FUE","Fuerteventura Airport","El Matorral","ES",28.4527,-13.8638],
+  ["FUG","Fuyang Xiguan Airport","Yingzhou, Fuyang","CN",32.8822,115.7344],
+  ["FUJ","Fukue Airport","Goto","JP",32.6663,128.833],
+  ["FUK","Fukuoka Airport","Fukuoka","JP",33.5859,130.451],
+  ["FUN","Funafuti International Airport","Funafuti","TV",-8.525,179.196],
+  ["FUO","Foshan Shadi Airport","Foshan","CN",23.0833,113.07],
+  ["FUT","Pointe Vele Airport","Futuna Island","WF",-14.3114,-178.066],
+  ["FWA","Fort Wayne International Airport","Fort Wayne","US",40.9785,-85.1951],
+  ["FYJ","Fuyuan Dongji Aiport","Fuyuan","CN",48.1972,134.363],
+  ["FYN","Fuyun Koktokay Airport","Fuyun","CN",46.8042,89.512],
+  ["GAE","Gabès Matmata International Airport","Gabès","TN",33.7337,9.9194],
+  ["GAF","Gafsa Ksar International Airport","Gafsa","TN",34.422,8.8225],
+  ["GAJ","Yamagata Airport","Higashine","JP",38.4119,140.371],
+  ["GAN","Gan International Airport","Gan","MV",-0.6933,73.1556],
+  ["GAO","Mariana Grajales Airport","Guantánamo","CU",20.0853,-75.1583],
+  ["GAQ","Gao Airport","Gao Airport","ML",16.2484,-0.0055],
+  ["GAU","Lokpriya Gopinath Bordoloi International Airport","Guwahati","IN",26.1061,91.5859],
+  ["GAY","Gaya Airport","Gaya","IN",24.7443,84.9512],
+  ["GBB","Gabala International Airport","Gabala","AZ",40.8086,47.7254],
+  ["GBE","Sir Seretse Khama International Airport","Gaborone","BW",-24.5552,25.9182],
+  ["GBJ","Les Bases Airport","Grand Bourg","GP",15.8687,-61.27],
+  ["GCC","Northeast Wyoming Regional Airport","Gillette","US",44.3489,-105.539],
+  ["GCH","Gachsaran Airport","Gachsaran","IR",30.3339,50.8338],
+  ["GCI","Guernsey Airport","Saint Peter Port","GG",49.435,-2.602],
+  ["GCK","Garden City Regional Airport","Garden City","US",37.9275,-100.724],
+  ["GCM","Owen Roberts International Airport","Georgetown","KY",19.2928,-81.3577],
+  ["GCN","Grand Canyon National Park Airport","Grand Canyon - Tusayan","US",35.9524,-112.147],
+  ["GDB","Birsi Airport","Gondia","IN",21.5268,80.2903],
+  ["GDE","Gode Airport","Gode","ET",5.9351,43.5786],
+  ["GDL","Aeropuerto Internacional Miguel Hidalgo","Ciudad de Tlajomulco de Zúñiga","MX",20.525,-103.3016],
+  ["GDN","Gdańsk Lech Wałęsa Airport","Gdańsk","PL",54.3776,18.4662],
+  ["GDQ","Gondar Airport","Azezo","ET",12.5199,37.434],
+  ["GDT","JAGS McCartney International Airport","Cockburn Town","TC",21.4445,-71.1423],
+  ["GDX","Sokol Airport","Magadan","RU",59.911,150.72],
+  ["GDZ","Gelendzhik Airport","Gelendzhik","RU",44.5821,38.0125],
+  ["GEA","Nouméa Magenta Airport","Nouméa","NC",-22.2583,166.473],
+  ["GEC","Lefkoniko Airport / Geçitkale Air Base","Lefkoniko","CY",35.2359,33.7201],
+  ["GEG","Spokane International Airport","Spokane","US",47.6199,-117.534],
+  ["GEL","Santo Ângelo Airport","Santo Ângelo","BR",-28.2825,-54.1696],
+  ["GEO","Cheddi Jagan International Airport","Georgetown","GY",6.4985,-58.2541],
+  ["GER","Rafael Cabrera Airport","Nueva Gerona","CU",21.8347,-82.7838],
+  ["GES","General Santos International Airport","General Santos","PH",6.058,125.096],
+  ["GET","Geraldton Airport","Geraldton","AU",-28.7961,114.707],
+  ["GEV","Gällivare Airport","Gällivare","SE",67.1324,20.8146],
+  ["GFF","Griffith Airport","Griffith","AU",-34.2508,146.067],
+  ["GFK","Grand Forks International Airport","Grand Forks","US",47.9493,-97.1761],
+  ["GGG","East Texas Regional Airport","Longview","US",32.384,-94.7115],
+  ["GGT","Exuma International Airport","Moss Town","BS",23.5626,-75.878],
+  ["GGW","Wokal Field/Glasgow-Valley County Airport","Glasgow","US",48.2125,-106.615],
+  ["GHA","Noumérat - Moufdi Zakaria Airport","El Atteuf","DZ",32.3841,3.7941],
+  ["GHB","Governor's Harbour Airport","Governor's Harbour","BS",25.2847,-76.331],
+  ["GHT","Ghat Airport","Ghat","LY",25.1456,10.1426],
+  ["GIB","Gibraltar Airport","Gibraltar","GI",36.1512,-5.3497],
+  ["GIG","Rio Galeão – Tom Jobim International Airport","Rio De Janeiro","BR",-22.81,-43.2506],
+  ["GIL","Gilgit Airport","Gilgit","PK",35.9188,74.3336],
+  ["GIS","Gisborne Airport","Gisborne","NZ",-38.6633,177.978],
+  ["GIZ","Jizan Regional Airport / King Abdullah bin Abdulaziz Airport","Jizan","SA",16.9011,42.5858],
+  ["GJA","La Laguna Airport","Guanaja","HN",16.4454,-85.9066],
+  ["GJL","Jijel Ferhat Abbas Airport","Tahir","DZ",36.7951,5.8736],
+  ["GJT","Grand Junction Regional Airport","Grand Junction","US",39.1267,-108.5294],
+  ["GKA","Goroka Airport","Goronka","PG",-6.0817,145.392],
+  ["GLA","Glasgow International Airport","Paisley, Renfrewshire","GB",55.8719,-4.4331],
+  ["GLF","Golfito Airport","Golfito","CR",8.654,-83.1822],
+  ["GLH","Mid Delta Regional Airport","Greenville","US",33.4829,-90.9856],
+  ["GLT","Gladstone Airport","Gladstone","AU",-23.8698,151.2254],
+  ["GMA","Gemena Airport","Gemena","CD",3.2354,19.7713],
+  ["GMB","Gambela Airport","Gambela","ET",8.1288,34.5631],
+  ["GME","Gomel Airport","Gomel","BY",52.527,31.0167],
+  ["GMO","Gombe Lawanti International Airport","Gombe","NG",10.2989,10.9],
+  ["GMP","Gimpo International Airport","Seoul","KR",37.5583,126.791],
+  ["GMQ","Golog Maqên Airport","Golog","CN",34.4181,100.3011],
+  ["GMR","Totegegie Airport","Totegegie Airport","PF",-23.0799,-134.89],
+  ["GNA","Hrodna Airport","Hrodna","BY",53.602,24.0538],
+  ["GNB","Grenoble-Isère Airport","Saint-Étienne-de-Saint-Geoirs","FR",45.3629,5.3294],
+  ["GND","Maurice Bishop International Airport","Saint George's","GD",12.0042,-61.7862],
+  ["GNS","Binaka Airport","Gunungsitoli","ID",1.1663,97.7043],
+  ["GNV","Gainesville Regional Airport","Gainesville","US",29.6901,-82.2718],
+  ["GNY","Şanlıurfa GAP Airport","Şanlıurfa","TR",37.4457,38.8956],
+  ["GOA","Genoa Cristoforo Colombo Airport","Genova","IT",44.4133,8.8375],
+  ["GOH","Nuuk Airport","Nuuk","GL",64.193,-51.6765],
+  ["GOI","Dabolim Airport","Vasco da Gama","IN",15.3808,73.8314],
+  ["GOJ","Nizhny Novgorod Strigino International Airport","Nizhny Novgorod","RU",56.2301,43.784],
+  ["GOM","Goma International Airport","Goma","CD",-1.6662,29.2379],
+  ["GOP","Gorakhpur Airport","Gorakhpur","IN",26.7397,83.4497],
+  ["GOQ","Golmud Airport","Golmud","CN",36.4006,94.7861],
+  ["GOT","Gothenburg-Landvetter Airport","Gothenburg","SE",57.6628,12.2798],
+  ["GOU","Garoua International Airport","Garoua","CM",9.3359,13.3701],
+  ["GOV","Gove Airport","Nhulunbuy","AU",-12.2694,136.818],
+  ["GOX","Mopa International Airport","Mopa","IN",15.7443,73.8606],
+  ["GPA","Patras Araxos Agamemnon Airport","Patras","GR",38.1511,21.4256],
+  ["GPI","Juan Casiano Airport","Guapi","CO",2.5701,-77.898],
+  ["GPT","Gulfport Biloxi International Airport","Gulfport","US",30.4073,-89.0701],
+  ["GRB","Austin Straubel International Airport","Green Bay","US",44.4835,-88.1308],
+  ["GRI","Central Nebraska Regional Airport","Grand Island","US",40.9675,-98.3096],
+  ["GRJ","George Airport","George","ZA",-34.0056,22.3789],
+  ["GRK","Killeen-Fort Hood Regional Airport / Robert Gray Army Air Field","Killeen","US",31.0672,-97.8289],
+  ["GRO","Girona-Costa Brava Airport","Girona","ES",41.9046,2.7618],
+  ["GRQ","Eelde Airport","Groningen","NL",53.1197,6.5794],
+  ["GRR","Gerald R. Ford International Airport","Grand Rapids","US",42.8808,-85.5228],
+  ["GRU","Guarulhos - Governador André Franco Montoro International Airport","São Paulo","BR",-23.4319,-46.4678],
+  ["GRV","Grozny Airport","Grozny","RU",43.3881,45.6998],
+  ["GRW","Graciosa Airport","Santa Cruz da Graciosa","PT",39.0922,-28.0298],
+  ["GRX","F.G.L. Airport Granada-Jaén Airport","Granada","ES",37.1887,-3.7774],
+  ["GRZ","Graz Airport","Graz","AT",46.9911,15.4396],
+  ["GSJ","San José Airport","Puerto San José","GT",13.9362,-90.8358],
+  ["GSO","Piedmont Triad International Airport","Greensboro","US",36.0978,-79.9373],
+  ["GSP","Greenville Spartanburg International Airport","Greer","US",34.8957,-82.2189],
+  ["GST","Gustavus Airport","Gustavus","US",58.4253,-135.707],
+  ["GSV","Gagarin International Airport","Saratov","RU",51.7128,46.1711],
+  ["GTE","Groote Eylandt Airport","Groote Eylandt","AU",-13.9724,136.4586],
+  ["GTF","Great Falls International Airport","Great Falls","US",47.482,-111.371],
+  ["GTR","Golden Triangle Regional Airport","Columbus/W Point/Starkville","US",33.4503,-88.5914],
+  ["GUA","La Aurora Airport","Guatemala City","GT",14.5833,-90.5275],
+  ["GUM","Antonio B. Won Pat International Airport","Hagåtña","GU",13.4834,144.796],
+  ["GUR","Gurney Airport","Gurney","PG",-10.3115,150.334],
+  ["GUW","Atyrau International Airport","Atyrau","KZ",47.1226,51.8193],
+  ["GVA","Geneva Cointrin International Airport","Geneva","CH",46.2381,6.109],
+  ["GWD","Gwadar International Airport","Gwadar","PK",25.2324,62.3277],
+  ["GWL","Gwalior Airport","Gwalior","IN",26.2933,78.2278],
+  ["GWT","Westerland Sylt Airport","Westerland","DE",54.9132,8.3405],
+  ["GWY","Galway Airport","Galway","IE",53.3002,-8.9416],
+  ["GXF","Seiyun Hadhramaut International Airport","Seiyun","YE",15.9661,48.7883],
+  ["GXG","Negage Airport","Negage","AO",-7.7545,15.2877],
+  ["GXH","Gannan Xiahe Airport","Gannan","CN",34.819,102.6223],
+  ["GYD","Heydar Aliyev International Airport","Baku","AZ",40.4675,50.0467],
+  ["GYE","José Joaquín de Olmedo International Airport","Guayaquil","EC",-2.1574,-79.8836],
+  ["GYM","General José María Yáñez International Airport","Guaymas","MX",27.969,-110.925],
+  ["GYN","Santa Genoveva Airport","Goiânia","BR",-16.632,-49.2207],
+  ["GYS","Guangyuan Panlong Airport","Guangyuan","CN",32.3903,105.6946],
+  ["GZP","Gazipaşa-Alanya Airport","Gazipaşa","TR",36.2992,32.3006],
+  ["GZT","Gaziantep International Airport","Gaziantep","TR",36.9472,37.4787],
+  ["HAC","Hachijojima Airport","Hachijojima","JP",33.115,139.786],
+  ["HAD","Halmstad Airport","Halmstad","SE",56.6911,12.8202],
+  ["HAH","Prince Said Ibrahim International Airport","Moroni","KM",-11.5337,43.2719],
+  ["HAJ","Hannover Airport","Hannover","DE",52.4611,9.6851],
+  ["HAK","Haikou Meilan International Airport","Haikou","CN",19.9349,110.459],
+  ["HAM","Hamburg Helmut Schmidt Airport","Hamburg","DE",53.6304,9.9882],
+  ["HAN","Noi Bai International Airport","Hanoi","VN",21.2212,105.807],
+  ["HAQ","Hanimaadhoo Airport","Haa Dhaalu Atoll","MV",6.7442,73.1705],
+  ["HAS","Ha'il Airport","Ha'il","SA",27.4379,41.6863],
+  ["HAU","Haugesund Airport, Karmøy","Karmøy","NO",59.3453,5.2084],
+  ["HAV","José Martí International Airport","Havana","CU",22.9892,-82.4091],
+  ["HBA","Hobart International Airport","Hobart","AU",-42.8361,147.51],
+  ["HBE","Borj El Arab International Airport","Alexandria","EG",30.9325,29.6964],
+  ["HBX","Hubli Airport","Hubli","IN",15.3617,75.0849],
+  ["HCJ","Hechi Jinchengjiang Airport","Hechi","CN",24.8043,107.7108],
+  ["HCN","Hengchun Airport","Hengchung","TW",22.0411,120.73],
+  ["HCR","Holy Cross Airport","Holy Cross","US",62.1883,-159.775],
+  ["HCZ","Chenzhou Beihu Airport","Chenzhou","CN",25.7534,112.8454],
+  ["HDF","Heringsdorf Airport","Heringsdorf","DE",53.8787,14.1523],
+  ["HDG","Handan Airport","Handan","CN",36.5258,114.4256],
+  ["HDM","Hamadan Airport","Hamadan","IR",34.8692,48.5525],
+  ["HDY","Hat Yai International Airport","Hat Yai","TH",6.9332,100.393],
+  ["HEA","Herat - Khwaja Abdullah Ansari International Airport","Guzara","AF",34.21,62.2283],
+  ["HEK","Heihe Aihui Airport","Heihe","CN",50.1716,127.3089],
+  ["HEL","Helsinki Vantaa Airport","Helsinki","FI",60.3172,24.9633],
+  ["HER","Heraklion International Nikos Kazantzakis Airport","Heraklion","GR",35.3397,25.1803],
+  ["HET","Hohhot Baita International Airport","Hohhot","CN",40.8497,111.8246],
+  ["HFA","Haifa International Airport","Haifa","IL",32.8094,35.0431],
+  ["HFE","Hefei Xinqiao International Airport","Hefei","CN",31.9878,116.9769],
+  ["HFN","Hornafjörður Airport","Höfn","IS",64.2956,-15.2272],
+  ["HFS","Hagfors Airport","Råda","SE",60.0201,13.5789],
+  ["HFT","Hammerfest Airport","Hammerfest","NO",70.6797,23.6686],
+  ["HGA","Egal International Airport","Hargeisa","SO",9.5132,44.0824],
+  ["HGH","Hangzhou Xiaoshan International Airport","Hangzhou","CN",30.2361,120.4289],
+  ["HGN","Mae Hong Son Airport","Mae Hong Son Airport","TH",19.3013,97.9758],
+  ["HGU","Mount Hagen Kagamuga Airport","Mount Hagen","PG",-5.8282,144.2994],
+  ["HHN","Frankfurt-Hahn Airport","Frankfurt am Main","DE",49.9487,7.2639],
+  ["HHQ","Hua Hin Airport","Hua Hin","TH",12.6362,99.9515],
+  ["HIA","Huai'an Lianshui International Airport","Huai'an","CN",33.7908,119.125],
+  ["HIB","Range Regional Airport","Hibbing","US",47.3866,-92.839],
+  ["HID","Horn Island Airport","Horn","AU",-10.5856,142.2927],
+  ["HII","Lake Havasu City International Airport","Lake Havasu City","US",34.5711,-114.358],
+  ["HIJ","Hiroshima Airport","Hiroshima","JP",34.4361,132.919],
+  ["HIN","Sacheon Airport / Sacheon Air Base","Sacheon","KR",35.0886,128.0717],
+  ["HIR","Honiara International Airport","Honiara","SB",-9.428,160.055],
+  ["HJJ","Huaihua Zhijiang Airport","Huaihua","CN",27.4431,109.7047],
+  ["HJR","Khajuraho Airport","Khajuraho","IN",24.8172,79.9186],
+  ["HKD","Hakodate Airport","Hakodate","JP",41.77,140.822],
+  ["HKG","Hong Kong International Airport","Islands","HK",22.3089,113.915],
+  ["HKK","Hokitika Airfield","Hokitika Airfield","NZ",-42.7136,170.985],
+  ["HKN","Hoskins Airport","Kimbe","PG",-5.4638,150.4073],
+  ["HKT","Phuket International Airport","Phuket","TH",8.1132,98.3169],
+  ["HLA","Lanseria International Airport","Johannesburg","ZA",-25.9385,27.9261],
+  ["HLD","Hulunbuir Hailar Airport","Hailar","CN",49.205,119.825],
+  ["HLN","Helena Regional Airport","Helena","US",46.6068,-111.983],
+  ["HLP","Halim Perdanakusuma International Airport","Jakarta","ID",-6.2666,106.891],
+  ["HLZ","Hamilton International Airport","Hamilton","NZ",-37.8667,175.332],
+  ["HMA","Khanty Mansiysk Airport","Khanty-Mansiysk","RU",61.0285,69.0861],
+  ["HMB","Suhaj Mubarak International Airport","Suhaj","EG",26.3391,31.7376],
+  ["HME","Hassi Messaoud-Oued Irara Krim Belkacem Airport","Hassi Messaoud","DZ",31.673,6.1404],
+  ["HMI","Hami Airport","Hami","CN",42.8414,93.6692],
+  ["HMO","General Ignacio P. Garcia International Airport","Hermosillo","MX",29.0959,-111.048],
+  ["HMV","Hemavan Airport","Hemavan","SE",65.8061,15.0828],
+  ["HNA","Iwate Hanamaki Airport","Hanamaki","JP",39.4286,141.135],
+  ["HND","Tokyo Haneda International Airport","Tokyo","JP",35.5523,139.78],
+  ["HNL","Daniel K Inouye International Airport","Honolulu","US",21.3206,-157.9242],
+  ["HNM","Hana Airport","Hana","US",20.7956,-156.014],
+  ["HNS","Haines Airport","Haines","US",59.2438,-135.524],
+  ["HOB","Lea County Regional Airport","Hobbs","US",32.6875,-103.217],
+  ["HOD","Hodeidah International Airport","Hodeida","YE",14.753,42.9763],
+  ["HOF","Al-Ahsa International Airport","Hofuf","SA",25.2853,49.4852],
+  ["HOG","Frank Pais International Airport","Holguin","CU",20.7856,-76.3151],
+  ["HOI","Hao Airport","Otepa","PF",-18.0748,-140.946],
+  ["HON","Huron Regional Airport","Huron","US",44.3852,-98.2285],
+  ["HOR","Horta Airport","Horta","PT",38.5199,-28.7159],
+  ["HOT","Memorial Field Airport","Hot Springs","US",34.4788,-93.0963],
+  ["HOU","William P Hobby Airport","Houston","US",29.6454,-95.2789],
+  ["HOV","Ørsta-Volda Airport, Hovden","Ørsta","NO",62.18,6.0741],
+  ["HPA","Lifuka Island Airport","Lifuka","TO",-19.777,-174.341],
+  ["HPG","Shennongjia Hongping Airport","Shennongjia","CN",31.626,110.34],
+  ["HPH","Cat Bi International Airport","Haiphong","VN",20.8169,106.723],
+  ["HPN","Westchester County Airport","White Plains","US",41.067,-73.7076],
+  ["HRB","Harbin Taiping International Airport","Harbin","CN",45.6234,126.25],
+  ["HRE","Robert Gabriel Mugabe International Airport","Harare","ZW",-17.9318,31.0928],
+  ["HRG","Hurghada International Airport","Hurghada","EG",27.1768,33.7967],
+  ["HRI","Mattala Rajapaksa International Airport","Mattala Rajapaksa International Airport","LK",6.2845,81.1241],
+  ["HRK","Kharkiv International Airport","Kharkiv","UA",49.9248,36.29],
+  ["HRL","Valley International Airport","Harlingen","US",26.2285,-97.6544],
+  ["HRM","Hassi R'Mel Airport","Hassi R'Mel","DZ",32.9304,3.3115],
+  ["HRO","Boone County Airport","Harrison","US",36.2615,-93.1547],
+  ["HSA","Hazrat Sultan International Airport","Hazrat Sultan International Airport","KZ",43.3131,68.5499],
+  ["HSC","Shaoguan Danxia Airport","Shaoguan","CN",24.9786,113.421],
+  ["HSG","Saga Airport","Saga","JP",33.1497,130.302],
+  ["HSV","Huntsville International Carl T Jones Field","Huntsville","US",34.6372,-86.7751],
+  ["HTA","Chita-Kadala International Airport","Chita","RU",52.0263,113.306],
+  ["HTG","Khatanga Airport","Khatanga","RU",71.9781,102.491],
+  ["HTI","Hamilton Island Airport","Hamilton Island","AU",-20.3581,148.952],
+  ["HTN","Hotan Airport","Hotan","CN",37.0385,79.8649],
+  ["HTS","Tri-State Airport / Milton J. Ferguson Field","Huntington","US",38.3667,-82.558],
+  ["HTT","Huatugou Airport","Mengnai","CN",38.2016,90.8378],
+  ["HTY","Hatay Airport","Antakya","TR",36.3628,36.2822],
+  ["HUH","Huahine-Fare Airport","Fare","PF",-16.6871,-151.0216],
+  ["HUI","Phu Bai International Airport","Huế","VN",16.4006,107.7031],
+  ["HUN","Hualien Airport","Hualien City","TW",24.0231,121.618],
+  ["HUO","Holingol Huolinhe Airport","Holingol","CN",45.4872,119.4072],
+  ["HUU","Alferez Fap David Figueroa Fernandini Airport","Huánuco","PE",-9.8788,-76.2048],
+  ["HUX","Bahías de Huatulco International Airport","Huatulco","MX",15.7756,-96.2608],
+  ["HUY","Humberside Airport","Grimsby","GB",53.5744,-0.3508],
+  ["HUZ","Huizhou Pingtan Airport","Huizhou","CN",23.05,114.6],
+  ["HVA","Analalava Airport","Analalava","MG",-14.6295,47.7636],
+  ["HVB","Hervey Bay Airport","Hervey Bay","AU",-25.3201,152.8807],
+  ["HVD","Khovd Airport","Khovd","MN",47.9541,91.6282],
+  ["HVG","Honningsvåg Airport, Valan","Honningsvåg","NO",71.0097,25.9836],
+  ["HVN","Tweed New Haven Airport","New Haven","US",41.2637,-72.8868],
+  ["HYA","Cape Cod Gateway Airport","Hyannis","US",41.6693,-70.2804],
+  ["HYD","Rajiv Gandhi International Airport","Hyderabad","IN",17.2313,78.4299],
+  ["HYN","Taizhou Luqiao Airport","Huangyan","CN",28.5622,121.429],
+  ["HZA","Heze Mudan Airport","Heze","CN",35.213,115.7367],
+  ["HZH","Liping Airport","Liping","CN",26.3222,109.1499],
+  ["HZK","Húsavík Airport","Húsavík","IS",65.9523,-17.426],
+  ["IAA","Igarka Airport","Igarka","RU",67.4372,86.6219],
+  ["IAD","Washington Dulles International Airport","Dulles","US",38.9445,-77.4558],
+  ["IAG","Niagara Falls International Airport","Niagara Falls","US",43.1073,-78.9462],
+  ["IAH","George Bush Intercontinental Houston Airport","Houston","US",29.9844,-95.3414],
+  ["IAM","Zarzaitine - In Aménas Airport","In Aménas","DZ",28.0515,9.6429],
+  ["IAS","Iaşi Airport","Iaşi","RO",47.1803,27.6208],
+  ["IBA","Ibadan Airport","Ibadan","NG",7.3625,3.9783],
+  ["IBE","Perales Airport","Ibagué","CO",4.4216,-75.1333],
+  ["IBR","Ibaraki Airport / JASDF Hyakuri Air Base","Omitama","JP",36.1811,140.415],
+  ["IBZ","Ibiza Airport","Ibiza","ES",38.8729,1.3731],
+  ["ICN","Incheon International Airport","Seoul","KR",37.4691,126.451],
+  ["ICT","Wichita Eisenhower National Airport","Wichita","US",37.6499,-97.4331],
+  ["IDA","Idaho Falls Regional Airport","Idaho Falls","US",43.5146,-112.071],
+  ["IDR","Devi Ahilyabai Holkar Airport","Indore","IN",22.7218,75.8011],
+  ["IDY","Île d'Yeu Airport","Île d'Yeu","FR",46.7186,-2.3911],
+  ["IEG","Zielona Góra-Babimost Airport","Babimost","PL",52.1385,15.7986],
+  ["IEV","Ihor Sikorsky Kyiv International Airport (Zhuliany)","Kyiv","UA",50.4019,30.4519],
+  ["IFJ","Ísafjörður Airport","Ísafjörður","IS",66.0581,-23.1353],
+  ["IFN","Isfahan Shahid Beheshti International Airport","Isfahan","IR",32.7508,51.8615],
+  ["IFO","Ivano-Frankivsk International Airport","Ivano-Frankivsk","UA",48.8842,24.6861],
+  ["IGA","Inagua Airport","Matthew Town","BS",20.975,-73.6669],
+  ["IGD","Iğdır Airport","Iğdır","TR",39.9766,43.8766],
+  ["IGR","Cataratas Del Iguazú International Airport","Puerto Iguazu","AR",-25.7373,-54.4734],
+  ["IGT","Magas Airport","Sunzha","RU",43.3233,45.0126],
+  ["IGU","Cataratas International Airport","Foz do Iguaçu","BR",-25.5942,-54.4894],
+  ["IJK","Izhevsk Airport","Izhevsk","RU",56.8281,53.4575],
+  ["IKA","Imam Khomeini International Airport","Tehran","IR",35.4161,51.1522],
+  ["IKI","Iki Airport","Iki","JP",33.749,129.785],
+  ["IKS","Tiksi Airport","Tiksi","RU",71.6977,128.903],
+  ["IKT","Irkutsk International Airport","Irkutsk","RU",52.268,104.389],
+  ["IKU","Issyk-Kul International Airport","Tamchy","KG",42.5856,76.7012],
+  ["ILD","Lleida-Alguaire Airport","Lleida","ES",41.7282,0.535],
+  ["ILF","Ilford Airport","Ilford","CA",56.0516,-95.6205],
+  ["ILG","New Castle Airport","Wilmington","US",39.6787,-75.6065],
+  ["ILM","Wilmington International Airport","Wilmington","US",34.2706,-77.9026],
+  ["ILO","Iloilo International Airport","Cabatuan","PH",10.833,122.4934],
+  ["ILP","Île des Pins Airport","Île des Pins","NC",-22.5889,167.456],
+  ["ILQ","General Jorge Fernandez Maldon Airport","Ilo","PE",-17.695,-71.344],
+  ["ILR","Ilorin International Airport","Ilorin","NG",8.4402,4.4939],
+  ["ILS","Ilopango International Airport","San Salvador","SV",13.6995,-89.1199],
+  ["ILY","Islay Airport","Port Ellen","GB",55.6819,-6.2567],
+  ["IMF","Imphal Airport","Imphal","IN",24.76,93.8967],
+  ["IMP","Prefeito Renato Moreira Airport","Imperatriz","BR",-5.5313,-47.46],
+  ["INC","Yinchuan Hedong International Airport","Yinchuan","CN",38.3228,106.3932],
+  ["IND","Indianapolis International Airport","Indianapolis","US",39.7173,-86.2944],
+  ["INH","Inhambane Airport","Inhambane","MZ",-23.8764,35.4085],
+  ["INI","Nis Airport","Nis","RS",43.3373,21.8537],
+  ["INL","Falls International Airport","International Falls","US",48.5662,-93.4031],
+  ["INN","Innsbruck Airport","Innsbruck","AT",47.2602,11.344],
+  ["INU","Nauru International Airport","Yaren District","NR",-0.5475,166.919],
+  ["INV","Inverness Airport","Inverness","GB",57.5425,-4.0475],
+  ["INZ","In Salah Airport","In Salah","DZ",27.251,2.512],
+  ["IOA","Ioannina Airport","Ioannina","GR",39.6964,20.8225],
+  ["IOM","Isle of Man Airport","Castletown","IM",54.0833,-4.6239],
+  ["IOS","Bahia - Jorge Amado Airport","Ilhéus","BR",-14.8159,-39.0335],
+  ["IPC","Mataveri Airport","Isla De Pascua","CL",-27.1648,-109.422],
+  ["IPH","Sultan Azlan Shah Airport","Ipoh","MY",4.568,101.092],
+  ["IPI","San Luis Airport","Ipiales","CO",0.8613,-77.6676],
+  ["IPN","Vale do Aço Regional Airport","Ipatinga","BR",-19.4707,-42.4876],
+  ["IPT","Williamsport Regional Airport","Williamsport","US",41.2418,-76.9211],
+  ["IQM","Qiemo Yudu Airport","Qiemo","CN",38.2345,85.4655],
+  ["IQN","Qingyang Xifeng Airport","Qingyang","CN",35.8026,107.5989],
+  ["IQQ","Diego Aracena Airport","Iquique","CL",-20.5352,-70.1813],
+  ["IQT","Coronel FAP Francisco Secada Vignetta International Airport","Iquitos","PE",-3.7847,-73.3088],
+  ["IRG","Lockhart River Airport","Lockhart River","AU",-12.7869,143.305],
+  ["IRJ","Capitan V A Almonacid Airport","La Rioja","AR",-29.3816,-66.7958],
+  ["IRK","Kirksville Regional Airport","Kirksville","US",40.0935,-92.5449],
+  ["IRP","Matari Airport","Isiro","CD",2.8276,27.5883],
+  ["ISA","Mount Isa Airport","Mount Isa","AU",-20.6639,139.489],
+  ["ISB","Islamabad International Airport","Attock","PK",33.549,72.8257],
+  ["ISE","Süleyman Demirel International Airport","Isparta","TR",37.8554,30.3684],
+  ["ISG","New Ishigaki Airport","Ishigaki","JP",24.3964,124.245],
+  ["ISK","Nashik Airport","Nasik","IN",20.1191,73.9129],
+  ["ISL","İstanbul Atatürk Airport","Bakırköy, Istanbul","TR",40.9719,28.8237],
+  ["ISP","Long Island Mac Arthur Airport","Islip","US",40.7952,-73.1002],
+  ["IST","İstanbul Airport","Arnavutköy, Istanbul","TR",41.2613,28.742],
+  ["ISU","Sulaymaniyah International Airport","Sulaymaniyah","IQ",35.5617,45.3167],
+  ["ITB","Itaituba Airport","Itaituba","BR",-4.2421,-56.0007],
+  ["ITH","Ithaca Tompkins Regional Airport","Ithaca","US",42.491,-76.4584],
+  ["ITM","Osaka International Airport","Osaka","JP",34.7855,135.438],
+  ["ITO","Hilo International Airport","Hilo","US",19.7214,-155.048],
+  ["IUE","Niue International Airport","Alofi","NU",-19.079,-169.9256],
+  ["IVC","Invercargill Airport","Invercargill","NZ",-46.4124,168.313],
+  ["IVL","Ivalo Airport","Ivalo","FI",68.6073,27.4053],
+  ["IWA","Ivanovo South Airport","Ivanovo","RU",56.9394,40.9408],
+  ["IWJ","Iwami Airport","Masuda","JP",34.6764,131.79],
+  ["IWK","Iwakuni Kintaikyo Airport / Marine Corps Air Station Iwakuni","Iwakuni","JP",34.1463,132.2472],
+  ["IXA","Agartala - Maharaja Bir Bikram Airport","Agartala","IN",23.887,91.2404],
+  ["IXB","Bagdogra Airport","Siliguri","IN",26.6812,88.3286],
+  ["IXC","Chandigarh International Airport","Chandigarh","IN",30.6735,76.7885],
+  ["IXD","Prayagraj Deendayal Upadhyay Airport / Bamrauli Air Force Station","Allahabad","IN",25.4401,81.7339],
+  ["IXE","Mangalore International Airport","Mangalore","IN",12.9613,74.8901],
+  ["IXG","Belagavi Airport","Belgaum","IN",15.8593,74.6183],
+  ["IXI","Lilabari North Lakhimpur Airport","Lilabari","IN",27.2955,94.0976],
+  ["IXJ","Jammu Airport","Jammu","IN",32.6888,74.8382],
+  ["IXL","Leh Kushok Bakula Rimpochee Airport","Leh","IN",34.1359,77.5465],
+  ["IXM","Madurai Airport","Madurai","IN",9.8345,78.0934],
+  ["IXP","Pathankot Airport","Pathankot","IN",32.2336,75.6344],
+  ["IXR","Birsa Munda Airport","Ranchi","IN",23.3143,85.3217],
+  ["IXS","Silchar Airport","Silchar","IN",24.9129,92.9787],
+  ["IXU","Aurangabad Airport","Aurangabad","IN",19.8627,75.3981],
+  ["IXY","Kandla Airport","Kandla","IN",23.1127,70.1003],
+  ["IXZ","Veer Savarkar International Airport / INS Utkrosh","Port Blair","IN",11.6412,92.7296],
+  ["IZA","Presidente Itamar Franco Airport","Juiz de Fora","BR",-21.5131,-43.1731],
+  ["IZO","Izumo Enmusubi Airport","Izumo","JP",35.4136,132.89],
+  ["IZT","Ixtepec Airport","Ixtepec","MX",16.4493,-95.0937],
+  ["JAC","Jackson Hole Airport","Jackson","US",43.6073,-110.738],
+  ["JAE","Shumba Airport","Jaén","PE",-5.5925,-78.774],
+  ["JAF","Jaffna International Airport","Jaffna","LK",9.7923,80.0701],
+  ["JAI","Jaipur International Airport","Jaipur","IN",26.8242,75.8122],
+  ["JAK","Jacmel Airport","Jacmel","HT",18.2411,-72.5185],
+  ["JAL","El Lencero Airport","Xalapa","MX",19.4751,-96.7975],
+  ["JAN","Jackson-Medgar Wiley Evers International Airport","Jackson","US",32.3112,-90.0759],
+  ["JAU","Francisco Carle Airport","Jauja","PE",-11.7831,-75.4734],
+  ["JAX","Jacksonville International Airport","Jacksonville","US",30.4941,-81.6879],
+  ["JBQ","La Isabela International Airport","La Isabela","DO",18.5725,-69.9856],
+  ["JBR","Jonesboro Municipal Airport","Jonesboro","US",35.8317,-90.6464],
+  ["JDF","Francisco de Assis Airport","Juiz de Fora","BR",-21.7915,-43.3861],
+  ["JDH","Jodhpur Airport","Jodhpur","IN",26.2511,73.0489],
+  ["JDZ","Jingdezhen Luojia Airport","Jingdezhen","CN",29.3386,117.176],
+  ["JED","King Abdulaziz International Airport","Jeddah","SA",21.6796,39.1565],
+  ["JEE","Jérémie Airport","Jeremie","HT",18.6631,-74.1703],
+  ["JEG","Aasiaat Airport","Aasiaat","GL",68.7218,-52.7847],
+  ["JER","Jersey Airport","Saint Helier","JE",49.2079,-2.1955],
+  ["JFK","John F Kennedy International Airport","New York","US",40.6394,-73.7793],
+  ["JGA","Jamnagar Airport","Jamnagar","IN",22.4655,70.0126],
+  ["JGD","Jiagedaqi Airport","Jiagedaqi","CN",50.3714,124.1175],
+  ["JGS","Jinggangshan Airport","Ji'an","CN",26.8569,114.737],
+  ["JHB","Senai International Airport","Johor Bahru","MY",1.6413,103.67],
+  ["JHG","Xishuangbanna Gasa International Airport","Jinghong","CN",21.9746,100.7622],
+  ["JHM","Kapalua Airport","Lahaina","US",20.9629,-156.673],
+  ["JHS","Sisimiut Airport","Sisimiut","GL",66.9513,-53.7293],
+  ["JIB","Djibouti-Ambouli Airport","Djibouti City","DJ",11.5473,43.1595],
+  ["JIJ","Wilwal International Airport","Jijiga","ET",9.3325,42.9121],
+  ["JIM","Jimma Airport","Jimma","ET",7.6661,36.8166],
+  ["JIQ","Qianjiang Wulingshan Airport","Qianjiang","CN",29.5133,108.8311],
+  ["JJD","Jericoacoara - Comandante Ariston Pessoa Regional Airport","Cruz","BR",-2.9064,-40.3573],
+  ["JJN","Quanzhou Jinjiang International Airport","Quanzhou","CN",24.7964,118.59],
+  ["JKG","Jönköping Airport","Jönköping","SE",57.7576,14.0687],
+  ["JKH","Chios Island National Airport","Chios Island","GR",38.3432,26.1406],
+  ["JKR","Janakpur Airport","Janakpur","NP",26.7088,85.9224],
+  ["JLN","Joplin Regional Airport","Joplin","US",37.1518,-94.4983],
+  ["JLR","Jabalpur Airport","Jabalpur","IN",23.1778,80.052],
+  ["JMJ","Lancang Jingmai Airport","Pu'er","CN",22.4177,99.784],
+  ["JMK","Mikonos Airport","Mykonos Island","GR",37.4351,25.3481],
+  ["JMS","Jamestown Regional Airport","Jamestown","US",46.9297,-98.6782],
+  ["JMU","Jiamusi Dongjiao Airport","Jiamusi","CN",46.8434,130.465],
+  ["JNB","OR Tambo International Airport","Johannesburg","ZA",-26.1392,28.246],
+  ["JNG","Jining Qufu Airport","Jining","CN",35.2928,116.3467],
+  ["JNU","Juneau International Airport","Juneau","US",58.355,-134.576],
+  ["JNZ","Jinzhou Bay Airport","Linghai, Jinzhou","CN",40.936,121.2771],
+  ["JOE","Joensuu Airport","Joensuu / Liperi","FI",62.6629,29.6075],
+  ["JOG","Adisutjipto International Airport","Yogyakarta","ID",-7.7882,110.432],
+  ["JOI","Lauro Carneiro de Loyola Airport","Joinville","BR",-26.2245,-48.7974],
+  ["JOK","Yoshkar-Ola Airport","Yoshkar-Ola","RU",56.7006,47.9047],
+  ["JOL","Jolo Airport","Jolo Airport","PH",6.0537,121.011],
+  ["JOS","Yakubu Gowon Airport","Jos","NG",9.6398,8.8691],
+  ["JPA","Presidente Castro Pinto International Airport","João Pessoa","BR",-7.1487,-34.9506],
+  ["JRH","Jorhat Airport","Jorhat","IN",26.7315,94.1755],
+  ["JRO","Kilimanjaro International Airport","Arusha","TZ",-3.4294,37.0745],
+  ["JSH","Sitia Airport","Crete Island","GR",35.2161,26.1013],
+  ["JSI","Skiathos Island National Airport","Skiathos","GR",39.1771,23.5037],
+  ["JSJ","Jiansanjiang Shidi Airport","Jiansanjiang","CN",47.1082,132.6579],
+  ["JSO","Dr. Luciano de Arruda Coelho Regional Airport","Sobral","BR",-3.6145,-40.2314],
+  ["JSR","Jessore Airport","Jashore","BD",23.1838,89.1608],
+  ["JST","John Murtha Johnstown Cambria County Airport","Johnstown","US",40.3161,-78.8339],
+  ["JTC","Bauru/Arealva–Moussa Nakhal Tobias State Airport","Bauru","BR",-22.1608,-49.0703],
+  ["JTR","Santorini Airport","Santorini Island","GR",36.3992,25.4793],
+  ["JUB","Juba International Airport","Juba","SS",4.872,31.6011],
+  ["JUJ","Gobernador Horacio Guzman International Airport","San Salvador de Jujuy","AR",-24.3928,-65.0978],
+  ["JUL","Inca Manco Capac International Airport","Juliaca","PE",-15.4671,-70.1582],
+  ["JUZ","Quzhou Airport","Quzhou","CN",28.9658,118.899],
+  ["JWA","Jwaneng Airport","Jwaneng","BW",-24.6023,24.691],
+  ["JXA","Jixi Xingkaihu Airport","Jixi","CN",45.293,131.193],
+  ["JYV","Jyväskylä Airport","Jyväskylän Maalaiskunta","FI",62.3995,25.6783],
+  ["JZH","Jiuzhai Huanglong Airport","Ngawa","CN",32.8533,103.6822],
+  ["KAC","Qamishli Airport","Qamishly","SY",37.0206,41.1914],
+  ["KAD","Kaduna Airport","Kaduna","NG",10.696,7.3201],
+  ["KAI","Kaieteur International Airport","Kaieteur Falls","GY",5.1728,-59.4915],
+  ["KAJ","Kajaani Airport","Kajaani","FI",64.2855,27.6924],
+  ["KAN","Mallam Aminu International Airport","Kano","NG",12.0476,8.5246],
+  ["KAO","Kuusamo Airport","Kuusamo","FI",65.9876,29.2394],
+  ["KAT","Kaitaia Airport","Awanui","NZ",-35.0698,173.2871],
+  ["KAW","Kawthoung Airport","Kawthoung","MM",10.0493,98.538],
+  ["KBL","Kabul International Airport","Kabul","AF",34.5659,69.2123],
+  ["KBP","Boryspil International Airport","Boryspil","UA",50.345,30.8947],
+  ["KBR","Sultan Ismail Petra Airport","Kota Baharu","MY",6.1669,102.293],
+  ["KBS","Bo Airport","Bo","SL",7.9444,-11.761],
+  ["KBV","Krabi Airport","Krabi","TH",8.0991,98.9862],
+  ["KCH","Kuching International Airport","Kuching","MY",1.4874,110.3529],
+  ["KCM","Kahramanmaraş Airport","Kahramanmaraş","TR",37.5388,36.9535],
+  ["KCT","Koggala Airport","Galle","LK",5.9937,80.3203],
+  ["KCZ","Kochi Ryoma Airport","Nankoku","JP",33.5461,133.669],
+  ["KDH","Ahmad Shah Baba International Airport / Kandahar Airfield","Khvoshab","AF",31.5058,65.8478],
+  ["KDL","Kärdla Airport","Kärdla","EE",58.9908,22.8307],
+  ["KDM","Kaadedhdhoo Airport","Huvadhu Atoll","MV",0.4881,72.9969],
+  ["KDO","Kadhdhoo Airport","Kadhdhoo","MV",1.8592,73.5219],
+  ["KDU","Skardu Airport","Skardu","PK",35.3355,75.536],
+  ["KEF","Keflavik International Airport","Reykjavík","IS",63.985,-22.6056],
+  ["KEJ","Kemerovo Airport","Kemerovo","RU",55.2701,86.1072],
+  ["KEM","Kemi-Tornio Airport","Kemi / Tornio","FI",65.7787,24.5821],
+  ["KEN","Kenema Airport","Kenema","SL",7.8964,-11.1741],
+  ["KEP","Nepalgunj Airport","Nepalgunj","NP",28.1036,81.667],
+  ["KER","Ayatollah Hashemi Rafsanjani International Airport","Kerman","IR",30.2713,56.9497],
+  ["KET","Kengtung Airport","Kengtung","MM",21.3016,99.636],
+  ["KGA","Kananga Airport","Kananga","CD",-5.9001,22.4692],
+  ["KGC","Kingscote Airport","Kingscote Airport","AU",-35.7139,137.521],
+  ["KGD","Khrabrovo Airport","Kaliningrad","RU",54.89,20.5926],
+  ["KGF","Sary-Arka Airport","Karaganda","KZ",49.6708,73.3344],
+  ["KGI","Kalgoorlie Boulder Airport","Broadwood","AU",-30.7915,121.4646],
+  ["KGL","Kigali International Airport","Kigali","RW",-1.9686,30.1395],
+  ["KGP","Kogalym International Airport","Kogalym","RU",62.1904,74.5338],
+  ["KGS","Kos Airport","Kos Island","GR",36.7933,27.0917],
+  ["KGT","Kangding Airport","Garzê","CN",30.1425,101.7387],
+  ["KHD","Khoram Abad Airport","Khoram Abad Airport","IR",33.4354,48.2829],
+  ["KHE","Kherson International Airport","Kherson","UA",46.6758,32.5064],
+  ["KHG","Kashgar Airport","Kashgar","CN",39.5429,76.02],
+  ["KHH","Kaohsiung International Airport","Kaohsiung","TW",22.5771,120.35],
+  ["KHI","Jinnah International Airport","Karachi","PK",24.9065,67.1608],
+  ["KHN","Nanchang Changbei International Airport","Nanchang","CN",28.8648,115.9027],
+  ["KHS","Khasab Airport","Khasab","OM",26.171,56.2406],
+  ["KHV","Khabarovsk Novy Airport","Khabarovsk","RU",48.5283,135.1886],
+  ["KID","Kristianstad Airport","Kristianstad","SE",55.9217,14.0855],
+  ["KIH","Kish International Airport","Kish Island","IR",26.5262,53.9802],
+  ["KIJ","Niigata Airport","Niigata","JP",37.9559,139.121],
+  ["KIM","Kimberley Airport","Kimberley","ZA",-28.8028,24.7652],
+  ["KIN","Norman Manley International Airport","Kingston","JM",17.9357,-76.7875],
+  ["KIR","Kerry Airport","Killarney","IE",52.1809,-9.5238],
+  ["KIS","Kisumu Airport","Kisumu","KE",-0.0861,34.7289],
+  ["KIV","Chişinău International Airport","Chişinău","MD",46.9277,28.931],
+  ["KIX","Kansai International Airport","Osaka","JP",34.4273,135.244],
+  ["KJA","Krasnoyarsk International Airport","Krasnoyarsk","RU",56.1731,92.4924],
+  ["KJB","Kurnool Airport","Orvakal","IN",15.7163,78.1692],
+  ["KJH","Kaili Huangping Airport","Kaili","CN",26.972,107.988],
+  ["KJI","Burqin Kanas Airport","Burqin","CN",48.2223,86.9959],
+  ["KKC","Khon Kaen Airport","Khon Kaen","TH",16.4666,102.784],
+  ["KKE","Kerikeri Airport","Kerikeri","NZ",-35.2591,173.9133],
+  ["KKJ","Kitakyushu Airport","Kitakyushu","JP",33.8459,131.035],
+  ["KKN","Kirkenes Airport, Høybuktmoen","Kirkenes","NO",69.7258,29.8913],
+  ["KKR","Kaukura Airport","Raitahiti","PF",-15.6633,-146.885],
+  ["KKS","Kashan Airport","Kashan","IR",33.8953,51.577],
+  ["KKW","Kikwit Airport","Kikwit","CD",-5.0358,18.7856],
+  ["KKX","Kikai Airport","Kikai","JP",28.3213,129.928],
+  ["KLH","Kolhapur Airport","Kolhapur","IN",16.6647,74.2894],
+  ["KLO","Kalibo International Airport","Kalibo","PH",11.6794,122.376],
+  ["KLR","Kalmar Airport","Kalmar","SE",56.6855,16.2876],
+  ["KLU","Klagenfurt Airport","Klagenfurt am Wörthersee","AT",46.6425,14.3377],
+  ["KLV","Karlovy Vary International Airport","Karlovy Vary","CZ",50.203,12.915],
+  ["KLX","Kalamata Airport","Kalamata","GR",37.0683,22.0255],
+  ["KMA","Kerema Airport","Kerema","PG",-7.9636,145.771],
+  ["KMC","King Khaled Military City Airport","King Khaled Military City","SA",27.9009,45.5282],
+  ["KME","Kamembe Airport","Kamembe","RW",-2.4622,28.9079],
+  ["KMG","Kunming Changshui International Airport","Kunming","CN",25.1103,102.9367],
+  ["KMI","Miyazaki Airport","Miyazaki","JP",31.8772,131.449],
+  ["KMJ","Kumamoto Airport","Kumamoto","JP",32.8373,130.855],
+  ["KMQ","Komatsu Airport / JASDF Komatsu Air Base","Kanazawa","JP",36.3946,136.407],
+  ["KMS","Kumasi Airport","Kumasi","GH",6.7146,-1.5908],
+  ["KMW","Kostroma Sokerkino Airport","Kostroma","RU",57.7969,41.0194],
+  ["KND","Kindu Airport","Kindu","CD",-2.9192,25.9154],
+  ["KNG","Kaimana Airport","Kaimana","ID",-3.6446,133.6951],
+  ["KNH","Kinmen Airport","Shang-I","TW",24.4279,118.359],
+  ["KNO","Kualanamu International Airport","Medan","ID",3.6378,98.8706],
+  ["KNQ","Koné Airport","Koné","NC",-21.0536,164.8388],
+  ["KNS","King Island Airport","King Island Airport","AU",-39.8775,143.878],
+  ["KNU","Kanpur Airport","Kanpur","IN",26.4043,80.4101],
+  ["KNX","East Kimberley Regional (Kununurra) Airport","Kununurra","AU",-15.7781,128.708],
+  ["KOA","Ellison Onizuka Kona International Airport at Keahole","Kailua-Kona","US",19.7388,-156.0456],
+  ["KOC","Koumac Airport","Koumac","NC",-20.5463,164.2556],
+  ["KOI","Kirkwall Airport","Orkney Islands","GB",58.9578,-2.905],
+  ["KOJ","Kagoshima Airport","Kagoshima","JP",31.8034,130.719],
+  ["KOK","Kokkola-Pietarsaari Airport","Kokkola / Kruunupyy","FI",63.7212,23.1431],
+  ["KOP","Nakhon Phanom Airport","Nakhon Phanom","TH",17.3838,104.643],
+  ["KOU","Koulamoutou Mabimbi Airport","Koulamoutou","GA",-1.1846,12.4413],
+  ["KOV","Kokshetau Airport","Kokshetau","KZ",53.3291,69.5946],
+  ["KPO","Pohang Airport (G-815/K-3)","Pohang","KR",35.988,129.4204],
+  ["KPW","Keperveem Airport","Keperveem","RU",67.845,166.14],
+  ["KQH","Kishangarh Airport Ajmer","Ajmer","IN",26.591,74.813],
+  ["KQT","Qurghonteppa International Airport","Kurgan-Tyube","TJ",37.8664,68.8647],
+  ["KRF","Kramfors-Sollefteå Höga Kusten Airport","Nyland","SE",63.0486,17.7689],
+  ["KRK","Kraków John Paul II International Airport","Kraków","PL",50.0777,19.7848],
+  ["KRL","Korla Licheng Airport","Korla","CN",41.6978,86.1289],
+  ["KRN","Kiruna Airport","Kiruna","SE",67.822,20.3368],
+  ["KRO","Kurgan Airport","Kurgan","RU",55.4753,65.4156],
+  ["KRP","Karup Airport","Karup","DK",56.2975,9.1246],
+  ["KRR","Krasnodar Pashkovsky International Airport","Krasnodar","RU",45.0347,39.1705],
+  ["KRS","Kristiansand Airport, Kjevik","Kjevik","NO",58.2042,8.0854],
+  ["KRT","Khartoum International Airport","Khartoum","SD",15.5895,32.5532],
+  ["KRW","Turkmenbashi International Airport","Turkmenbashi","TM",40.0633,53.0072],
+  ["KSA","Kosrae International Airport","Okat","FM",5.357,162.958],
+  ["KSC","Košice Airport","Košice","SK",48.6631,21.2411],
+  ["KSD","Karlstad Airport","Karlstad","SE",59.4447,13.3374],
+  ["KSF","Kassel-Calden Airport","Kassel","DE",51.4173,9.385],
+  ["KSH","Shahid Ashrafi Esfahani Airport","Kermanshah","IR",34.3459,47.1581],
+  ["KSL","Kassala Airport","Kassala","SD",15.3875,36.3288],
+  ["KSN","Kostanay West Airport","Kostanay","KZ",53.2069,63.5503],
+  ["KSU","Kristiansund Airport, Kvernberget","Kvernberget","NO",63.1118,7.8245],
+  ["KSY","Kars Airport","Kars","TR",40.5622,43.115],
+  ["KSZ","Kotlas Airport","Kotlas","RU",61.2358,46.6975],
+  ["KTA","Karratha Airport","Karratha","AU",-20.7122,116.773],
+  ["KTD","Kitadaito Airport","Kitadaitōjima","JP",25.9447,131.327],
+  ["KTG","Rahadi Osman Airport","Ketapang","ID",-1.8168,109.9633],
+  ["KTM","Tribhuvan International Airport","Kathmandu","NP",27.6966,85.3591],
+  ["KTN","Ketchikan International Airport","Ketchikan","US",55.3556,-131.714],
+  ["KTP","Tinson Pen Airport","Tinson Pen","JM",17.9886,-76.8238],
+  ["KTT","Kittilä Airport","Kittilä","FI",67.701,24.8468],
+  ["KTW","Katowice International Airport","Katowice","PL",50.4743,19.08],
+  ["KUA","Kuantan Airport","Kuantan","MY",3.7754,103.209],
+  ["KUF","Kurumoch International Airport","Samara","RU",53.5049,50.1643],
+  ["KUH","Kushiro Airport","Kushiro","JP",43.041,144.193],
+  ["KUL","Kuala Lumpur International Airport","Sepang","MY",2.7456,101.71],
+  ["KUM","Yakushima Airport","Yakushima","JP",30.3856,130.659],
+  ["KUN","Kaunas International Airport","Kaunas","LT",54.9639,24.0848],
+  ["KUO","Kuopio Airport","Kuopio / Siilinjärvi","FI",63.0071,27.7978],
+  ["KUS","Kulusuk Airport","Kulusuk","GL",65.5736,-37.1236],
+  ["KUT","David the Builder Kutaisi International Airport","Kopitnari","GE",42.1768,42.4824],
+  ["KUV","Kunsan Air Base","Kunsan","KR",35.9038,126.616],
+  ["KVA","Kavala Alexander the Great International Airport","Kavala","GR",40.9133,24.6192],
+  ["KVD","Ganja International Airport","Ganja","AZ",40.7377,46.3176],
+  ["KVG","Kavieng Airport","Kavieng","PG",-2.5794,150.808],
+  ["KVO","Morava Airport","Kraljevo","RS",43.8183,20.5872],
+  ["KVX","Pobedilovo Airport","Kirov","RU",58.5039,49.3478],
+  ["KWA","Bucholz Army Air Field","Kwajalein","MH",8.7201,167.732],
+  ["KWE","Guiyang Longdongbao International Airport","Guiyang","CN",26.5415,106.8033],
+  ["KWG","Kryvyi Rih International Airport","Kryvyi Rih","UA",48.0433,33.21],
+  ["KWI","Kuwait International Airport","Kuwait City","KW",29.2266,47.9689],
+  ["KWJ","Gwangju Airport","Gwangju","KR",35.1232,126.8054],
+  ["KWL","Guilin Liangjiang International Airport","Guilin","CN",25.2198,110.0396],
+  ["KWM","Kowanyama Airport","Kowanyama","AU",-15.4854,141.7526],
+  ["KWY","Kiwayu Airport","Kiwayu","KE",-1.9606,41.2975],
+  ["KWZ","Kolwezi Airport","Kolwezi","CD",-10.7659,25.5057],
+  ["KXB","Sangia Nibandera Airport","Kolaka","ID",-4.3412,121.524],
+  ["KXK","Komsomolsk-on-Amur Airport","Komsomolsk-on-Amur","RU",50.409,136.934],
+  ["KYA","Konya Airport","Konya","TR",37.979,32.5619],
+  ["KYD","Lanyu Airport","Orchid Island","TW",22.027,121.535],
+  ["KYP","Kyaukpyu Airport","Kyaukpyu","MM",19.4264,93.5348],
+  ["KYS","Kayes Dag Dag Airport","Kayes Dag Dag Airport","ML",14.4812,-11.4044],
+  ["KYZ","Kyzyl Airport","Kyzyl","RU",51.6694,94.4006],
+  ["KZI","Kozani State Airport Filippos","Kozani","GR",40.2861,21.8408],
+  ["KZN","Kazan International Airport","Kazan","RU",55.6062,49.2787],
+  ["LAD","Quatro de Fevereiro International Airport","Luanda","AO",-8.8584,13.2312],
+  ["LAE","Nadzab Airport","Lae","PG",-6.5698,146.726],
+  ["LAJ","Lages Airport","Lages","BR",-27.7821,-50.2815],
+  ["LAK","Aklavik/Freddie Carmichael Airport","Aklavik","CA",68.2233,-135.006],
+  ["LAN","Capital City Airport","Lansing","US",42.7787,-84.5874],
+  ["LAO","Laoag International Airport","Laoag City","PH",18.1761,120.531],
+  ["LAP","Manuel Márquez de León International Airport","La Paz","MX",24.0727,-110.362],
+  ["LAQ","Al Abraq International Airport","Al Albraq","LY",32.7887,21.9643],
+  ["LAR","Laramie Regional Airport","Laramie","US",41.3121,-105.675],
+  ["LAS","Harry Reid International Airport","Las Vegas","US",36.0834,-115.1518],
+  ["LAU","Manda Airport","Lamu","KE",-2.2524,40.9129],
+  ["LAX","Los Angeles International Airport","Los Angeles","US",33.9425,-118.408],
+  ["LBA","Leeds Bradford Airport","Leeds","GB",53.8659,-1.6606],
+  ["LBB","Lubbock Preston Smith International Airport","Lubbock","US",33.6636,-101.823],
+  ["LBC","Lübeck Blankensee Airport","Lübeck","DE",53.8054,10.7192],
+  ["LBD","Khujand Airport","Khujand","TJ",40.2154,69.6947],
+  ["LBE","Arnold Palmer Regional Airport","Latrobe","US",40.2759,-79.4048],
+  ["LBF","North Platte Regional Airport Lee Bird Field","North Platte","US",41.1262,-100.684],
+  ["LBL","Liberal Mid-America Regional Airport","Liberal","US",37.0442,-100.96],
+  ["LBS","Labasa Airport","Labasa","FJ",-16.4667,179.34],
+  ["LBU","Labuan Airport","Labuan","MY",5.3007,115.25],
+  ["LBV","Libreville Leon M'ba International Airport","Libreville","GA",0.4586,9.4123],
+  ["LCA","Larnaca International Airport","Larnaca","CY",34.8751,33.6249],
+  ["LCE","Goloson International Airport","La Ceiba","HN",15.7425,-86.853],
+  ["LCG","A Coruña Airport","Culleredo","ES",43.3021,-8.3773],
+  ["LCH","Lake Charles Regional Airport","Lake Charles","US",30.1261,-93.2233],
+  ["LCJ","Łódź Władysław Reymont Airport","Łódź","PL",51.7219,19.3981],
+  ["LCK","Rickenbacker International Airport","Columbus","US",39.8138,-82.9278],
+  ["LCX","Longyan Guanzhishan Airport","Longyan","CN",25.6747,116.747],
+  ["LCY","London City Airport","London","GB",51.5053,0.0553],
+  ["LDB","Governador José Richa Airport","Londrina","BR",-23.3336,-51.1301],
+  ["LDE","Tarbes-Lourdes-Pyrénées Airport","Tarbes/Lourdes/Pyrénées","FR",43.1787,-0.0064],
+  ["LDS","Yichun Lindu Airport","Yichun","CN",47.7521,129.0191],
+  ["LDU","Lahad Datu Airport","Lahad Datu","MY",5.0322,118.324],
+  ["LDY","City of Derry Airport","Derry","GB",55.0428,-7.1611],
+  ["LEA","Learmonth Airport","Exmouth","AU",-22.2352,114.09],
+  ["LEB","Lebanon Municipal Airport","Lebanon","US",43.6261,-72.3042],
+  ["LED","Pulkovo Airport","St. Petersburg","RU",59.8003,30.2625],
+  ["LEH","Le Havre-Octeville Airport","Le Havre","FR",49.534,0.0884],
+  ["LEI","Almería Airport","Almería","ES",36.8439,-2.3701],
+  ["LEJ","Leipzig/Halle Airport","Leipzig","DE",51.4239,12.2364],
+  ["LEN","León Airport","León","ES",42.589,-5.6556],
+  ["LER","Leinster Airport","Leinster Airport","AU",-27.8433,120.703],
+  ["LET","Alfredo Vásquez Cobo International Airport","Leticia","CO",-4.1936,-69.9432],
+  ["LEX","Blue Grass Airport","Lexington","US",38.0365,-84.6059],
+  ["LEY","Lelystad Airport","Lelystad","NL",52.4603,5.5272],
+  ["LFM","Lamerd Airport","Lamerd","IR",27.3727,53.1888],
+  ["LFQ","Linfen Yaodu Airport","Linfen","CN",36.1326,111.6412],
+  ["LFT","Lafayette Regional Airport","Lafayette","US",30.2053,-91.9876],
+  ["LFW","Lomé–Tokoin International Airport","Lomé","TG",6.1656,1.2545],
+  ["LGA","La Guardia Airport","New York","US",40.7772,-73.8726],
+  ["LGB","Long Beach Airport (Daugherty Field)","Long Beach","US",33.8165,-118.1499],
+  ["LGG","Liège Airport","Liège","BE",50.6374,5.4432],
+  ["LGI","Deadman's Cay Airport","Deadman's Cay","BS",23.179,-75.0936],
+  ["LGK","Langkawi International Airport","Langkawi","MY",6.3297,99.7287],
+  ["LGW","London Gatwick Airport","London","GB",51.1481,-0.1903],
+  ["LHE","Allama Iqbal International Airport","Lahore","PK",31.5216,74.4036],
+  ["LHG","Lightning Ridge Airport","Lightning Ridge Airport","AU",-29.4529,147.9771],
+  ["LHR","London Heathrow Airport","London","GB",51.4706,-0.4619],
+  ["LHS","Las Heras Airport","Las Heras","AR",-46.5385,-68.9653],
+  ["LHW","Lanzhou Zhongchuan International Airport","Lanzhou","CN",36.5152,103.62],
+  ["LIF","Lifou Airport","Lifou","NC",-20.7748,167.24],
+  ["LIG","Limoges Airport","Limoges/Bellegarde","FR",45.8628,1.1794],
+  ["LIH","Lihue Airport","Lihue","US",21.976,-159.339],
+  ["LIL","Lille-Lesquin Airport","Lille/Lesquin","FR",50.5633,3.0869],
+  ["LIM","Jorge Chávez International Airport","Lima","PE",-12.0219,-77.1143],
+  ["LIN","Milano Linate Airport","Milan","IT",45.4451,9.2767],
+  ["LIO","Limon International Airport","Puerto Limon","CR",9.958,-83.022],
+  ["LIR","Guanacaste Airport","Liberia","CR",10.5933,-85.5444],
+  ["LIS","Humberto Delgado Airport (Lisbon Portela Airport)","Lisbon","PT",38.7813,-9.1359],
+  ["LIT","Bill & Hillary Clinton National Airport/Adams Field","Little Rock","US",34.7296,-92.2237],
+  ["LIW","Loikaw Airport","Loikaw","MM",19.6915,97.2148],
+  ["LJG","Lijiang Sanyi International Airport","Lijiang","CN",26.68,100.246],
+  ["LJU","Ljubljana Jože Pučnik Airport","Ljubljana","SI",46.2237,14.4576],
+  ["LKG","Lokichoggio Airport","Lokichoggio","KE",4.2041,34.3482],
+  ["LKL","Lakselv Airport, Banak","Lakselv","NO",70.0688,24.9735],
+  ["LKN","Leknes Airport","Leknes","NO",68.1525,13.6094],
+  ["LKO","Chaudhary Charan Singh International Airport","Lucknow","IN",26.7606,80.8893],
+  ["LLA","Luleå Airport","Luleå","SE",65.5438,22.122],
+  ["LLC","Cagayan North International Airport","Lal-lo","PH",18.1824,121.7459],
+  ["LLF","Yongzhou Lingling Airport","Yongzhou","CN",26.3387,111.61],
+  ["LLV","Lüliang Dawu Airport","Lüliang","CN",37.6833,111.1428],
+  ["LLW","Lilongwe International Airport","Lilongwe","MW",-13.7894,33.781],
+  ["LMM","Valle del Fuerte International Airport","Los Mochis","MX",25.6854,-109.0811],
+  ["LMN","Limbang Airport","Limbang","MY",4.8083,115.01],
+  ["LMP","Lampedusa Airport","Lampedusa","IT",35.4979,12.6181],
+  ["LMT","Crater Lake-Klamath Regional Airport","Klamath Falls","US",42.1561,-121.733],
+  ["LNJ","Lincang Boshang Airport","Lincang","CN",23.7381,100.025],
+  ["LNK","Lincoln Airport","Lincoln","US",40.851,-96.7592],
+  ["LNL","Longnan Chengzhou Airport","Longnan","CN",33.7899,105.79],
+  ["LNO","Leonora Airport","Leonora","AU",-28.8781,121.315],
+  ["LNS","Lancaster Airport","Lancaster","US",40.1217,-76.2961],
+  ["LNY","Lanai Airport","Lanai City","US",20.7857,-156.9513],
+  ["LNZ","Linz-Hörsching Airport / Vogler Air Base","Linz","AT",48.2332,14.1875],
+  ["LOE","Loei Airport","Loei Airport","TH",17.4391,101.722],
+  ["LOP","Lombok International Airport","Mataram","ID",-8.7578,116.2754],
+  ["LOS","Murtala Muhammed International Airport","Lagos","NG",6.5774,3.3212],
+  ["LOV","Monclova International Airport","Monclova International Airport","MX",26.9557,-101.47],
+  ["LPA","Gran Canaria Airport","Gran Canaria Island","ES",27.9319,-15.3866],
+  ["LPB","El Alto International Airport","La Paz / El Alto","BO",-16.5133,-68.1923],
+  ["LPF","Liupanshui Yuezhao Airport","Liupanshui","CN",26.6094,104.979],
+  ["LPI","Linköping City Airport","Linköping","SE",58.4062,15.6805],
+  ["LPK","Lipetsk Airport","Lipetsk","RU",52.7028,39.5378],
+  ["LPL","Liverpool John Lennon Airport","Liverpool","GB",53.3336,-2.8497],
+  ["LPP","Lappeenranta Airport","Lappeenranta","FI",61.0446,28.1447],
+  ["LPQ","Luang Phabang International Airport","Luang Phabang","LA",19.8973,102.161],
+  ["LPT","Lampang Airport","Lampang Airport","TH",18.2709,99.5042],
+  ["LPX","Liepāja International Airport","Liepāja","LV",56.5175,21.0969],
+  ["LPY","Le Puy-Loudes Airfield","Le Puy/Loudes","FR",45.0807,3.7629],
+  ["LRD","Laredo International Airport","Laredo","US",27.5438,-99.4616],
+  ["LRE","Longreach Airport","Longreach","AU",-23.4342,144.28],
+  ["LRH","La Rochelle-Île de Ré Airport","La Rochelle/Île de Ré","FR",46.1792,-1.1953],
+  ["LRM","Casa De Campo International Airport","La Romana","DO",18.4507,-68.9118],
+  ["LRR","Lar Airport","Lar","IR",27.6747,54.3833],
+  ["LRT","Lorient South Brittany (Bretagne Sud) Airport","Lorient/Lann/Bihoué","FR",47.7606,-3.44],
+  ["LSC","La Florida Airport","La Serena-Coquimbo","CL",-29.9162,-71.1995],
+  ["LSE","La Crosse Regional Airport","La Crosse","US",43.879,-91.2567],
+  ["LSH","Lashio Airport","Lashio","MM",22.9779,97.7522],
+  ["LSI","Sumburgh Airport","Lerwick","GB",59.8789,-1.2956],
+  ["LSP","Josefa Camejo International Airport","Paraguaná","VE",11.7808,-70.1515],
+  ["LSR","Alas Leuser Airport","Kutacane","ID",3.3915,97.8637],
+  ["LST","Launceston Airport","Launceston","AU",-41.5453,147.214],
+  ["LSY","Lismore Airport","Lismore","AU",-28.8307,153.2584],
+  ["LTD","Ghadames East Airport","Ghadames","LY",30.1517,9.7153],
+  ["LTI","Altai Airport","Altai","MN",46.3764,96.2211],
+  ["LTK","Bassel Al-Assad International Airport","Latakia","SY",35.4011,35.9487],
+  ["LTM","Lethem Airport","Lethem","GY",3.3728,-59.7894],
+  ["LTN","London Luton Airport","London","GB",51.8747,-0.3683],
+  ["LTO","Loreto International Airport","Loreto","MX",25.9892,-111.348],
+  ["LTU","Murod Kond Airport","Latur","IN",18.4115,76.4647],
+  ["LTX","Cotopaxi International Airport","Latacunga","EC",-0.9068,-78.6158],
+  ["LUD","Luderitz Airport","Luderitz","NA",-26.6874,15.2429],
+  ["LUG","Lugano Airport","Lugano","CH",46.0043,8.9106],
+  ["LUM","Dehong Mangshi Airport","Dehong","CN",24.4011,98.5317],
+  ["LUN","Kenneth Kaunda International Airport","Lusaka","ZM",-15.3308,28.4527],
+  ["LUQ","Brigadier Mayor D Cesar Raul Ojeda Airport","San Luis","AR",-33.2732,-66.3564],
+  ["LUV","Karel Sadsuitubun Airport","Langgur","ID",-5.7603,132.7594],
+  ["LUX","Luxembourg-Findel International Airport","Luxembourg","LU",49.6233,6.2044],
+  ["LUZ","Lublin Airport","Lublin","PL",51.2403,22.7136],
+  ["LVI","Harry Mwanga Nkumbula International Airport","Livingstone","ZM",-17.8218,25.8227],
+  ["LWN","Shirak International Airport","Gyumri","AM",40.7504,43.8593],
+  ["LWO","Lviv International Airport","Lviv","UA",49.8125,23.9561],
+  ["LWS","Lewiston Nez Perce County Airport","Lewiston","US",46.3745,-117.015],
+  ["LWT","Lewistown Municipal Airport","Lewistown","US",47.0493,-109.467],
+  ["LXA","Lhasa Gonggar Airport","Shannan","CN",29.298,90.912],
+  ["LXR","Luxor International Airport","Luxor","EG",25.6746,32.7],
+  ["LYA","Luoyang Beijiao Airport","Luoyang","CN",34.7411,112.388],
+  ["LYC","Lycksele Airport","Lycksele","SE",64.5483,18.7162],
+  ["LYG","Lianyungang Huaguoshan International Airport","Lianyungang","CN",34.4141,119.179],
+  ["LYH","Lynchburg Regional Airport - Preston Glenn Field","Lynchburg","US",37.3267,-79.2004],
+  ["LYP","Faisalabad International Airport","Faisalabad","PK",31.365,72.9948],
+  ["LYR","Svalbard Airport, Longyear","Longyearbyen","NO",78.2461,15.4656],
+  ["LYS","Lyon Saint-Exupéry Airport","Lyon","FR",45.7256,5.0811],
+  ["LZC","Lázaro Cárdenas Airport","Lázaro Cárdenas","MX",18.0017,-102.221],
+  ["LZG","Langzhong Gucheng Airport","Nanchong","CN",31.5019,106.0344],
+  ["LZH","Liuzhou Bailian Airport / Bailian Air Base","Liuzhou","CN",24.2075,109.391],
+  ["LZN","Matsu Nangan Airport","Matsu","TW",26.1598,119.958],
+  ["LZO","Luzhou Yunlong Airport","Luzhou","CN",29.0304,105.4684],
+  ["LZY","Nyingchi Mainling Airport","Nyingchi","CN",29.3033,94.3353],
+  ["MAA","Chennai International Airport","Chennai","IN",12.99,80.1693],
+  ["MAB","João Correa da Rocha Airport","Marabá","BR",-5.3686,-49.138],
+  ["MAD","Adolfo Suárez Madrid–Barajas Airport","Madrid","ES",40.4719,-3.5626],
+  ["MAF","Midland International Air and Space Port","Midland","US",31.9425,-102.202],
+  ["MAG","Madang Airport","Madang","PG",-5.2071,145.789],
+  ["MAH","Menorca Airport","Mahón","ES",39.8626,4.2187],
+  ["MAJ","Marshall Islands International Airport","Majuro Atoll","MH",7.0648,171.272],
+  ["MAK","Malakal Airport","Malakal","SS",9.559,31.6522],
+  ["MAM","General Servando Canales International Airport","Matamoros","MX",25.7699,-97.5253],
+  ["MAN","Manchester Airport","Manchester","GB",53.3494,-2.2795],
+  ["MAO","Eduardo Gomes International Airport","Manaus","BR",-3.0386,-60.0497],
+  ["MAQ","Mae Sot Airport","Mae Sot Airport","TH",16.6999,98.5451],
+  ["MAR","La Chinita International Airport","Maracaibo","VE",10.5582,-71.7279],
+  ["MAS","Momote Airport","Manus Island","PG",-2.0619,147.424],
+  ["MAU","Maupiti Airport","Maupiti Airport","PF",-16.4265,-152.244],
+  ["MAX","Ouro Sogui Airport","Ouro Sogui","SN",15.5936,-13.3228],
+  ["MAZ","Eugenio Maria De Hostos Airport","Mayaguez","PR",18.2557,-67.1485],
+  ["MBA","Moi International Airport","Mombasa","KE",-4.0348,39.5942],
+  ["MBD","Mmabatho International Airport","Mafeking","ZA",-25.7984,25.548],
+  ["MBE","Monbetsu Airport","Monbetsu","JP",44.3039,143.404],
+  ["MBI","Songwe Airport","Mbeya","TZ",-8.9199,33.274],
+  ["MBJ","Sangster International Airport","Montego Bay","JM",18.5037,-77.9134],
+  ["MBS","MBS International Airport","Saginaw","US",43.5329,-84.0796],
+  ["MBT","Moises R. Espinosa Airport","Masbate","PH",12.3697,123.6301],
+  ["MBW","Melbourne Moorabbin Airport","Melbourne","AU",-37.9758,145.102],
+  ["MCG","McGrath Airport","McGrath","US",62.9529,-155.606],
+  ["MCI","Kansas City International Airport","Kansas City","US",39.2976,-94.7139],
+  ["MCN","Middle Georgia Regional Airport","Macon","US",32.6928,-83.6492],
+  ["MCO","Orlando International Airport","Orlando","US",28.4294,-81.309],
+  ["MCP","Macapá - Alberto Alcolumbre International Airport","Macapá","BR",0.0507,-51.0722],
+  ["MCT","Muscat International Airport","Muscat","OM",23.5933,58.2844],
+  ["MCX","Makhachkala Uytash International Airport","Makhachkala","RU",42.8168,47.6523],
+  ["MCY","Sunshine Coast Airport","Maroochydore","AU",-26.5933,153.0832],
+  ["MCZ","Zumbi dos Palmares Airport","Maceió","BR",-9.5108,-35.7917],
+  ["MDC","Sam Ratulangi Airport","Manado","ID",1.5493,124.926],
+  ["MDE","Jose Maria Córdova International Airport","Medellín","CO",6.1645,-75.4231],
+  ["MDG","Mudanjiang Hailang International Airport","Mudanjiang","CN",44.5241,129.569],
+  ["MDI","Makurdi Airport","Makurdi","NG",7.7039,8.6139],
+  ["MDK","Mbandaka Airport","Mbandaka","CD",0.0226,18.2887],
+  ["MDL","Mandalay International Airport","Mandalay","MM",21.7022,95.9779],
+  ["MDQ","Ástor Piazzola International Airport","Mar del Plata","AR",-37.9342,-57.5733],
+  ["MDT","Harrisburg International Airport","Harrisburg","US",40.1935,-76.7634],
+  ["MDU","Mendi Airport","Mendi","PG",-6.1477,143.657],
+  ["MDW","Chicago Midway International Airport","Chicago","US",41.786,-87.7524],
+  ["MDZ","El Plumerillo Airport","Mendoza","AR",-32.8317,-68.7929],
+  ["MEA","Macaé Benedito Lacerda Airport","Macaé","BR",-22.343,-41.766],
+  ["MEB","Melbourne Essendon Airport","Essendon Fields","AU",-37.7281,144.902],
+  ["MEC","Eloy Alfaro International Airport","Manta","EC",-0.9461,-80.6788],
+  ["MED","Prince Mohammad Bin Abdulaziz Airport","Medina","SA",24.5534,39.7051],
+  ["MEE","Maré Airport","Maré","NC",-21.4817,168.038],
+  ["MEG","Malanje Airport","Malanje","AO",-9.5251,16.3124],
+  ["MEH","Mehamn Airport","Mehamn","NO",71.0297,27.8267],
+  ["MEI","Key Field / Meridian Regional Airport","Meridian","US",32.3326,-88.7519],
+  ["MEL","Melbourne International Airport","Melbourne","AU",-37.6733,144.843],
+  ["MEM","Memphis International Airport","Memphis","US",35.0424,-89.9767],
+  ["MEQ","Cut Nyak Dhien Airport","Kuala Pesisir","ID",4.0406,96.2535],
+  ["MEU","Monte Dourado - Serra do Areão Airport","Almeirim","BR",-0.8898,-52.6022],
+  ["MEX","Aeropuerto Internacional Lic. Benito Juárez","Ciudad de México","MX",19.4354,-99.0824],
+  ["MFE","McAllen Miller International Airport","McAllen","US",26.1761,-98.238],
+  ["MFG","Muzaffarabad Airport","Muzaffarabad","PK",34.339,73.5086],
+  ["MFK","Matsu Beigan Airport","Matsu","TW",26.2242,120.003],
+  ["MFM","Macau International Airport","Nossa Senhora do Carmo","MO",22.1496,113.592],
+  ["MFR","Rogue Valley International Medford Airport","Medford","US",42.3742,-122.873],
+  ["MFU","Mfuwe Airport","Mfuwe","ZM",-13.2589,31.9366],
+  ["MGA","Augusto C. Sandino (Managua) International Airport","Managua","NI",12.1415,-86.1682],
+  ["MGB","Mount Gambier Airport","Mount Gambier","AU",-37.7444,140.7806],
+  ["MGF","Regional de Maringá - Sílvio Name Júnior Airport","Maringá","BR",-23.4761,-52.0162],
+  ["MGH","Margate Airport","Margate","ZA",-30.8574,30.343],
+  ["MGM","Montgomery Regional (Dannelly Field) Airport","Montgomery","US",32.3006,-86.394],
+  ["MGQ","Aden Adde International Airport","Mogadishu","SO",2.0144,45.3047],
+  ["MGW","Morgantown Municipal Airport Walter L. (Bill) Hart Field","Morgantown","US",39.6433,-79.9176],
+  ["MGZ","Myeik Airport","Mkeik","MM",12.4398,98.6215],
+  ["MHD","Mashhad International Airport","Mashhad","IR",36.2352,59.641],
+  ["MHG","Mannheim-City Airport","Mannheim","DE",49.4731,8.5142],
+  ["MHH","Leonard M Thompson International Airport","Marsh Harbour","BS",26.5107,-77.0843],
+  ["MHK","Manhattan Regional Airport","Manhattan","US",39.141,-96.6708],
+  ["MHQ","Mariehamn Airport","Mariehamn","FI",60.1222,19.8982],
+  ["MHR","Sacramento Mather Airport","Sacramento","US",38.5539,-121.298],
+  ["MHT","Manchester-Boston Regional Airport","Manchester","US",42.9326,-71.4357],
+  ["MHU","Mount Hotham Airport","Mount Hotham","AU",-37.0475,147.334],
+  ["MIA","Miami International Airport","Miami","US",25.7932,-80.2906],
+  ["MID","Aeropuerto Internacional Manuel Crescencio Rejón","Ciudad de Mérida","MX",20.9334,-89.6626],
+  ["MIG","Mianyang Nanjiao Airport","Mianyang","CN",31.4281,104.741],
+  ["MII","Frank Miloye Milenkowichi–Marília State Airport","Marília","BR",-22.1969,-49.9265],
+  ["MIM","Merimbula Airport","Merimbula","AU",-36.9086,149.901],
+  ["MIR","Monastir Habib Bourguiba International Airport","Monastir","TN",35.7581,10.7547],
+  ["MIU","Maiduguri International Airport","Maiduguri","NG",11.8553,13.0809],
+  ["MJD","Moenjodaro Airport","Moenjodaro","PK",27.3352,68.1431],
+  ["MJF","Mosjøen Airport, Kjærstad","Mosjøen","NO",65.784,13.2149],
+  ["MJI","Mitiga International Airport","Tripoli","LY",32.8918,13.2879],
+  ["MJK","Shark Bay Airport","Denham","AU",-25.8973,113.5758],
+  ["MJL","Mouilla Ville Airport","Mouila","GA",-1.8451,11.0567],
+  ["MJM","Mbuji Mayi Airport","Mbuji Mayi","CD",-6.1212,23.569],
+  ["MJN","Amborovy Airport","Mahajanga","MG",-15.6668,46.3512],
+  ["MJT","Mytilene International Airport","Mytilene","GR",39.0567,26.5983],
+  ["MJZ","Mirny Airport","Mirny","RU",62.5347,114.039],
+  ["MKE","General Mitchell International Airport","Milwaukee","US",42.9472,-87.8966],
+  ["MKG","Muskegon County Airport","Muskegon","US",43.1695,-86.2382],
+  ["MKK","Molokai Airport","Kaunakakai","US",21.1529,-157.096],
+  ["MKL","McKellar-Sipes Regional Airport","Jackson","US",35.5999,-88.9156],
+  ["MKM","Mukah Airport","Mukah","MY",2.8819,112.0433],
+  ["MKP","Makemo Airport","Makemo","PF",-16.5839,-143.658],
+  ["MKQ","Mopah International Airport","Merauke","ID",-8.5239,140.4197],
+  ["MKR","Meekatharra Airport","Meekatharra Airport","AU",-26.6117,118.548],
+  ["MKU","Makokou Airport","Makokou","GA",0.5792,12.8909],
+  ["MKW","Rendani Airport","Manokwari","ID",-0.8918,134.049],
+  ["MKY","Mackay Airport","Mackay","AU",-21.1708,149.1826],
+  ["MLA","Malta International Airport","Valletta","MT",35.8575,14.4775],
+  ["MLB","Melbourne Orlando International Airport","Melbourne","US",28.1028,-80.6453],
+  ["MLE","Malé International Airport","Malé","MV",4.1918,73.5291],
+  ["MLG","Abdul Rachman Saleh Airport","Malang","ID",-7.9291,112.7142],
+  ["MLI","Quad City International Airport","Moline","US",41.4485,-90.5075],
+  ["MLL","Marshall Don Hunter Sr Airport","Marshall","US",61.8643,-162.026],
+  ["MLM","General Francisco J. Mujica International Airport","Morelia","MX",19.8499,-101.025],
+  ["MLN","Melilla Airport","Melilla","ES",35.2798,-2.9563],
+  ["MLS","Miles City Airport - Frank Wiley Field","Miles City","US",46.428,-105.886],
+  ["MLU","Monroe Regional Airport","Monroe","US",32.5109,-92.0377],
+  ["MLW","Spriggs Payne Airport","Monrovia","LR",6.2891,-10.7587],
+  ["MLX","Malatya Erhaç Airport","Malatya","TR",38.4353,38.091],
+  ["MMB","Memanbetsu Airport","Ōzora","JP",43.8806,144.164],
+  ["MMD","Minamidaito Airport","Minamidaito","JP",25.8465,131.263],
+  ["MME","Teesside International Airport","Darlington, Durham","GB",54.5092,-1.4294],
+  ["MMG","Mount Magnet Airport","Mount Magnet Airport","AU",-28.1161,117.842],
+  ["MMJ","Shinshu-Matsumoto Airport","Matsumoto","JP",36.1668,137.923],
+  ["MMK","Murmansk Airport","Murmansk","RU",68.7817,32.7508],
+  ["MMO","Maio Airport","Vila do Maio","CV",15.1559,-23.2137],
+  ["MMX","Malmö Sturup Airport","Malmö","SE",55.5363,13.3762],
+  ["MMY","Miyako Airport","Miyako City","JP",24.7828,125.295],
+  ["MNG","Maningrida Airport","Maningrida","AU",-12.0561,134.234],
+  ["MNI","John A. Osborne Airport","Gerald's Park","MS",16.7914,-62.1933],
+  ["MNJ","Mananjary Airport","Mananjary","MG",-21.2018,48.3583],
+  ["MNL","Ninoy Aquino International Airport","Manila","PH",14.5086,121.02],
+  ["MNX","Manicoré Airport","Manicoré","BR",-5.8114,-61.2783],
+  ["MOB","Mobile Regional Airport","Mobile","US",30.6912,-88.2428],
+  ["MOC","Mário Ribeiro Airport","Montes Claros","BR",-16.7069,-43.8189],
+  ["MOG","Mong Hsat Airport","Mong Hsat","MM",20.5168,99.2568],
+  ["MOL","Molde Airport, Årø","Årø","NO",62.7447,7.2625],
+  ["MOQ","Morondava Airport","Morondava","MG",-20.2847,44.3176],
+  ["MOT","Minot International Airport","Minot","US",48.2594,-101.28],
+  ["MOV","Moranbah Airport","Moranbah","AU",-22.0578,148.077],
+  ["MOZ","Moorea Temae Airport","Moorea-Maiao","PF",-17.4898,-149.7618],
+  ["MPH","Godofredo P. Ramos Airport","Malay","PH",11.9245,121.954],
+  ["MPL","Montpellier-Méditerranée Airport","Montpellier/Méditerranée","FR",43.5762,3.963],
+  ["MPM","Maputo Airport","Maputo","MZ",-25.9208,32.5726],
+  ["MPN","Mount Pleasant Airport","Mount Pleasant","FK",-51.8228,-58.4472],
+  ["MPW","Mariupol International Airport","Mariupol","UA",47.0761,37.4496],
+  ["MQC","Miquelon Airport","Miquelon","PM",47.0955,-56.3803],
+  ["MQF","Magnitogorsk International Airport","Magnitogorsk","RU",53.3931,58.7557],
+  ["MQJ","Moma Airport","Khonuu","RU",66.4509,143.2616],
+  ["MQL","Mildura Airport","Mildura","AU",-34.2292,142.086],
+  ["MQM","Mardin Airport","Mardin","TR",37.2233,40.6317],
+  ["MQN","Mo i Rana Airport, Røssvoll","Mo i Rana","NO",66.3639,14.3014],
+  ["MQP","Kruger Mpumalanga International Airport","Mpumalanga","ZA",-25.3832,31.1056],
+  ["MQQ","Moundou Airport","Moundou","TD",8.6244,16.0714],
+  ["MQS","Mustique Airport","Mustique Island","VC",12.8879,-61.1802],
+  ["MQT","Sawyer International Airport","Gwinn","US",46.3536,-87.3954],
+  ["MQX","Alula Aba Nega Airport","Mekelle","ET",13.4674,39.5335],
+  ["MRD","Alberto Carnevalli Airport","Mérida","VE",8.5821,-71.161],
+  ["MRE","Mara Serena Lodge Airstrip","Masai Mara","KE",-1.4061,35.0081],
+  ["MRS","Marseille Provence Airport","Marseille","FR",43.4393,5.2214],
+  ["MRU","Sir Seewoosagur Ramgoolam International Airport","Plaine Magnien","MU",-20.4302,57.6836],
+  ["MRV","Mineralnyye Vody Airport","Mineralnyye Vody","RU",44.2251,43.0819],
+  ["MRX","Mahshahr Airport","Mahshahr","IR",30.5562,49.1519],
+  ["MRY","Monterey Peninsula Airport","Monterey","US",36.587,-121.843],
+  ["MRZ","Moree Airport","Moree","AU",-29.4989,149.845],
+  ["MSA","Muskrat Dam Airport","Muskrat Dam","CA",53.4414,-91.7628],
+  ["MSJ","Misawa Air Base / Misawa Airport","Misawa","JP",40.7032,141.368],
+  ["MSL","Northwest Alabama Regional Airport","Muscle Shoals","US",34.7453,-87.6102],
+  ["MSN","Dane County Regional Truax Field","Madison","US",43.1399,-89.3375],
+  ["MSO","Missoula International Airport","Missoula","US",46.9163,-114.091],
+  ["MSP","Minneapolis–Saint Paul International Airport / Wold–Chamberlain Field","Minneapolis","US",44.882,-93.2218],
+  ["MSQ","Minsk National Airport","Minsk","BY",53.8881,28.04],
+  ["MSR","Muş Airport","Muş","TR",38.7478,41.6612],
+  ["MSS","Massena International Airport Richards Field","Massena","US",44.9362,-74.8443],
+  ["MST","Maastricht Aachen Airport","Maastricht","NL",50.9117,5.7701],
+  ["MSU","Moshoeshoe I International Airport","Maseru","LS",-29.4623,27.5525],
+  ["MSW","Massawa International Airport","Massawa","ER",15.67,39.3701],
+  ["MSY","Louis Armstrong New Orleans International Airport","New Orleans","US",29.9934,-90.258],
+  ["MSZ","Welwitschia Mirabilis International Airport","Moçâmedes","AO",-15.2612,12.1468],
+  ["MTJ","Montrose Regional Airport","Montrose","US",38.5098,-107.894],
+  ["MTR","Los Garzones Airport","Montería","CO",8.8237,-75.8258],
+  ["MTT","Minatitlán/Coatzacoalcos International Airport","Cosoleacaque","MX",18.1034,-94.5807],
+  ["MTY","Aeropuerto Internacional Gral. Mariano Escobedo","Ciudad de Apodaca","MX",25.7786,-100.1136],
+  ["MUA","Munda Airport","Munda","SB",-8.328,157.263],
+  ["MUB","Maun Airport","Maun","BW",-19.9726,23.4311],
+  ["MUC","Munich Airport","Munich","DE",48.3538,11.7861],
+  ["MUE","Waimea Kohala Airport","Waimea","US",20.0013,-155.668],
+  ["MUH","Marsa Matruh International Airport","Marsa Matruh","EG",31.3382,27.2176],
+  ["MUN","Maturín Airport","Maturín","VE",9.749,-63.1533],
+  ["MUR","Marudi Airport","Marudi","MY",4.1787,114.3303],
+  ["MUX","Multan International Airport","Multan","PK",30.2032,71.4191],
+  ["MVB","M'Vengue El Hadj Omar Bongo Ondimba International Airport","Franceville","GA",-1.6562,13.438],
+  ["MVD","Carrasco General Cesáreo L. Berisso International Airport","Ciudad de la Costa","UY",-34.8356,-56.0265],
+  ["MVF","Dix-Sept Rosado Airport","Mossoró","BR",-5.2019,-37.3643],
+  ["MVP","Fabio Alberto Leon Bentley Airport","Mitú","CO",1.2537,-70.2339],
+  ["MVQ","Mogilev Airport","Mogilev","BY",53.9549,30.0951],
+  ["MVR","Salak Airport","Maroua","CM",10.4514,14.2574],
+  ["MVT","Mataiva Airport","Mataiva Airport","PF",-14.8681,-148.717],
+  ["MWX","Muan International Airport","Piseo-ri","KR",34.9914,126.3828],
+  ["MWZ","Mwanza Airport","Mwanza","TZ",-2.4445,32.9327],
+  ["MXL","General Rodolfo Sánchez Taboada International Airport","Mexicali","MX",32.6306,-115.242],
+  ["MXM","Morombe Airport","Morombe","MG",-21.7538,43.3748],
+  ["MXP","Malpensa International Airport","Milan","IT",45.6306,8.7281],
+  ["MXV","Mörön Airport","Mörön","MN",49.6633,100.099],
+  ["MXX","Mora Airport","Mora","SE",60.9579,14.5114],
+  ["MYA","Moruya Airport","Moruya","AU",-35.8978,150.144],
+  ["MYC","Escuela Mariscal Sucre Airport","Maracay","VE",10.25,-67.6494],
+  ["MYD","Malindi Airport","Malindi","KE",-3.2293,40.1017],
+  ["MYE","Miyakejima Airport","Miyakejima","JP",34.0736,139.56],
+  ["MYG","Mayaguana Airport","Abrahams Bay","BS",22.3795,-73.0135],
+  ["MYJ","Matsuyama Airport","Matsuyama","JP",33.8272,132.7],
+  ["MYP","Mary International Airport","Mary","TM",37.6235,61.8957],
+  ["MYR","Myrtle Beach International Airport","Myrtle Beach","US",33.6797,-78.9283],
+  ["MYT","Myitkyina Airport","Myitkyina","MM",25.3836,97.3519],
+  ["MYW","Mtwara Airport","Mtwara","TZ",-10.3362,40.182],
+  ["MYY","Miri Airport","Miri","MY",4.322,113.987],
+  ["MZG","Penghu Magong Airport","Huxi","TW",23.5687,119.628],
+  ["MZI","Mopti Ambodédjo International Airport","Sévaré","ML",14.5128,-4.0796],
+  ["MZL","La Nubia Airport","Manizales","CO",5.0296,-75.4647],
+  ["MZO","Sierra Maestra International Airport","Manzanillo","CU",20.2886,-77.0875],
+  ["MZR","Mazar-i-Sharif International Airport","Mazar-i-Sharif","AF",36.7069,67.2097],
+  ["MZT","Aeropuerto Internacional Gral. Rafael Buelna","Ciudad de Mazatlàn","MX",23.1667,-106.2702],
+  ["MZV","Mulu Airport","Mulu","MY",4.0483,114.805],
+  ["NAA","Narrabri Airport","Narrabri","AU",-30.3192,149.827],
+  ["NAG","Dr. Babasaheb Ambedkar International Airport","Nagpur","IN",21.0922,79.0472],
+  ["NAH","Naha Airport","Tahuna-Sangihe Island","ID",3.6832,125.528],
+  ["NAJ","Nakhchivan Airport","Nakhchivan","AZ",39.1888,45.4584],
+  ["NAL","Nalchik Airport","Nalchik","RU",43.5129,43.6366],
+  ["NAN","Nadi International Airport","Nadi","FJ",-17.7554,177.443],
+  ["NAP","Naples International Airport","Napoli","IT",40.886,14.2908],
+  ["NAS","Lynden Pindling International Airport","Nassau","BS",25.039,-77.4662],
+  ["NAT","São Gonçalo do Amarante - Governador Aluízio Alves International Airport","Natal","BR",-5.7698,-35.3666],
+  ["NAW","Narathiwat Airport","Narathiwat Airport","TH",6.5199,101.743],
+  ["NBC","Begishevo Airport","Nizhnekamsk","RU",55.5647,52.0925],
+  ["NBE","Enfidha - Hammamet International Airport","Enfidha","TN",36.0758,10.4386],
+  ["NBO","Jomo Kenyatta International Airport","Nairobi","KE",-1.3192,36.9278],
+  ["NBS","Changbaishan Airport","Baishan","CN",42.0669,127.6022],
+  ["NBX","Nabire Airport","Nabire","ID",-3.3686,135.4967],
+  ["NCA","North Caicos Airport","North Caicos","TC",21.9161,-71.943],
+  ["NCE","Nice-Côte d'Azur Airport","Nice","FR",43.6584,7.2159],
+  ["NCL","Newcastle Airport","Newcastle","GB",55.0375,-1.6917],
+  ["NCU","Nukus Airport","Nukus","UZ",42.4884,59.6233],
+  ["NCY","Annecy-Haute-Savoie-Mont Blanc Airport","Annecy/Meythet","FR",45.9308,6.1064],
+  ["NDB","Nouadhibou International Airport","Nouadhibou","MR",20.9331,-17.03],
+  ["NDC","Nanded Airport","Nanded","IN",19.1833,77.3167],
+  ["NDG","Qiqihar Sanjiazi Airport","Qiqihar","CN",47.2396,123.918],
+  ["NDJ","N'Djamena International Airport","N'Djamena","TD",12.1337,15.034],
+  ["NDR","Nador Al Aaroui International Airport","Al Aaroui","MA",34.9888,-3.0282],
+  ["NDU","Rundu Airport","Rundu","NA",-17.9565,19.7194],
+  ["NEC","Necochea Airport","Necochea","AR",-38.4907,-58.8163],
+  ["NER","Chulman Airport","Neryungri","RU",56.9139,124.914],
+  ["NEV","Vance W. Amory International Airport","Charlestown","KN",17.2057,-62.5899],
+  ["NFG","Nefteyugansk Airport","Nefteyugansk","RU",61.1083,72.65],
+  ["NGB","Ningbo Lishe International Airport","Ningbo","CN",29.8267,121.462],
+  ["NGE","N'Gaoundéré Airport","N'Gaoundéré","CM",7.357,13.5592],
+  ["NGO","Chubu Centrair International Airport","Tokoname","JP",34.8584,136.805],
+  ["NGQ","Ngari Gunsa Airport","Shiquanhe","CN",32.1,80.0531],
+  ["NGS","Nagasaki Airport","Nagasaki","JP",32.9169,129.914],
+  ["NHV","Nuku Hiva Airport","Nuku Hiva","PF",-8.7956,-140.229],
+  ["NIM","Diori Hamani International Airport","Niamey","NE",13.4815,2.1836],
+  ["NJC","Nizhnevartovsk Airport","Nizhnevartovsk","RU",60.9493,76.4836],
+  ["NJF","Al Najaf International Airport","Najaf","IQ",31.9899,44.4043],
+  ["NKC","Nouakchott–Oumtounsy International Airport","Nouakchott","MR",18.31,-15.9697],
+  ["NKG","Nanjing Lukou International Airport","Nanjing","CN",31.735,118.8659],
+  ["NKM","Nagoya Airport / JASDF Komaki Air Base","Nagoya","JP",35.2558,136.9241],
+  ["NKT","Şırnak Şerafettin Elçi Airport","Şırnak","TR",37.3647,42.0582],
+  ["NLA","Simon Mwansa Kapwepwe International Airport","Ndola","ZM",-12.9985,28.664],
+  ["NLD","Quetzalcóatl International Airport","Nuevo Laredo","MX",27.4439,-99.5705],
+  ["NLH","Ninglang Luguhu Airport","Ninglang","CN",27.5403,100.7593],
+  ["NLI","Nikolayevsk-na-Amure Airport","Nikolayevsk-na-Amure Airport","RU",53.155,140.65],
+  ["NLK","Norfolk Island International Airport","Burnt Pine","NF",-29.0419,167.9396],
+  ["NLT","Xinyuan Nalati Airport","Xinyuan","CN",43.4318,83.3786],
+  ["NLU","General Felipe Ángeles International Airport","Mexico City","MX",19.7458,-99.0145],
+  ["NLV","Mykolaiv International Airport","Nikolayev","UA",47.0579,31.9198],
+  ["NMF","Maafaru International Airport","Noonu Atoll","MV",5.8184,73.4692],
+  ["NNG","Nanning Wuxu Airport","Nanning","CN",22.6083,108.172],
+  ["NNM","Naryan Mar Airport","Naryan Mar","RU",67.64,53.1219],
+  ["NNT","Nan Airport","Nan Airport","TH",18.8079,100.783],
+  ["NOB","Nosara Airport","Nicoya","CR",9.9765,-85.653],
+  ["NOC","Ireland West Knock Airport","Charlestown","IE",53.9103,-8.8185],
+  ["NOJ","Noyabrsk Airport","Noyabrsk","RU",63.1833,75.27],
+  ["NOP","Sinop Airport","Sinop","TR",42.0183,35.0718],
+  ["NOS","Fascene Airport","Nosy Be","MG",-13.3121,48.3148],
+  ["NOU","La Tontouta International Airport","Nouméa","NC",-22.0146,166.213],
+  ["NOV","Nova Lisboa Airport","Huambo","AO",-12.8089,15.7605],
+  ["NOZ","Spichenkovo Airport","Novokuznetsk","RU",53.8114,86.8772],
+  ["NPE","Hawke's Bay Airport","Napier","NZ",-39.4658,176.87],
+  ["NPL","New Plymouth Airport","New Plymouth","NZ",-39.0086,174.179],
+  ["NPO","Nanga Pinoh Airport","Nanga Pinoh-Borneo Island","ID",-0.3489,111.748],
+  ["NQN","Presidente Peron Airport","Neuquen","AR",-38.949,-68.1557],
+  ["NQY","Cornwall Airport Newquay","Newquay","GB",50.4406,-4.9954],
+  ["NQZ","Nursultan Nazarbayev International Airport","Nur-Sultan","KZ",51.0222,71.4669],
+  ["NRA","Narrandera Airport","Narrandera","AU",-34.7022,146.512],
+  ["NRK","Norrköping Airport","Norrköping","SE",58.5863,16.2506],
+  ["NRN","Weeze Airport","Weeze","DE",51.6024,6.1422],
+  ["NRT","Narita International Airport","Narita","JP",35.7647,140.386],
+  ["NSH","Nowshahr Airport","Nowshahr","IR",36.6643,51.4627],
+  ["NSI","Yaoundé Nsimalen International Airport","Yaoundé","CM",3.7226,11.5533],
+  ["NSK","Norilsk-Alykel Airport","Norilsk","RU",69.3111,87.3322],
+  ["NSN","Nelson Airport","Nelson","NZ",-41.2983,173.221],
+  ["NST","Nakhon Si Thammarat Airport","Nakhon Si Thammarat","TH",8.5396,99.9447],
+  ["NTB","Notodden Airport","Notodden","NO",59.5657,9.2122],
+  ["NTE","Nantes Atlantique Airport","Nantes","FR",47.1532,-1.6107],
+  ["NTG","Nantong Xingdong International Airport","Nantong","CN",32.0708,120.976],
+  ["NTL","Newcastle Airport","Williamtown","AU",-32.795,151.834],
+  ["NTN","Normanton Airport","Normanton","AU",-17.6841,141.0697],
+  ["NTQ","Noto Satoyama Airport","Wajima","JP",37.2931,136.962],
+  ["NTX","Ranai-Natuna Airport","Ranai-Natuna Besar Island","ID",3.9087,108.388],
+  ["NUE","Nuremberg Airport","Nuremberg","DE",49.4987,11.0781],
+  ["NUM","Neom Bay Airport","Sharma","SA",27.9276,35.2887],
+  ["NUX","Novy Urengoy Airport","Novy Urengoy","RU",66.0694,76.5203],
+  ["NVA","Benito Salas Airport","Neiva","CO",2.9501,-75.294],
+  ["NVI","Navoi Airport","Navoi","UZ",40.1172,65.1708],
+  ["NVT","Ministro Victor Konder International Airport","Navegantes","BR",-26.8794,-48.651],
+  ["NWA","Mohéli Bandar Es Eslam Airport","Fomboni","KM",-12.2981,43.7664],
+  ["NWI","Norwich Airport","Norwich","GB",52.6758,1.2828],
+  ["NYA","Nyagan Airport","Nyagan","RU",62.11,65.615],
+  ["NYI","Sunyani Airport","Sunyani","GH",7.3618,-2.3288],
+  ["NYK","Nanyuki Airport","Nanyuki","KE",-0.0624,37.041],
+  ["NYM","Nadym Airport","Nadym","RU",65.4809,72.6989],
+  ["NYO","Stockholm Skavsta Airport","Nyköping","SE",58.7886,16.9122],
+  ["NYT","Nay Pyi Taw International Airport","Pyinmana","MM",19.6235,96.201],
+  ["NZC","Maria Reiche Neuman Airport","Nazca","PE",-14.854,-74.9615],
+  ["NZH","Manzhouli Xijiao Airport","Manzhouli Xijiao Airport","CN",49.5667,117.33],
+  ["NZL","Zhalantun Genghis Khan Airport","Zhalantun","CN",47.8659,122.7687],
+  ["OAJ","Albert J Ellis Airport","Richlands","US",34.8292,-77.6121],
+  ["OAK","Metropolitan Oakland International Airport","Oakland","US",37.7213,-122.221],
+  ["OAM","Oamaru Airport","Oamaru Airport","NZ",-44.97,171.082],
+  ["OAX","Xoxocotlán International Airport","Oaxaca","MX",16.9999,-96.7266],
+  ["OBO","Tokachi-Obihiro Airport","Obihiro","JP",42.7333,143.217],
+  ["OCC","Francisco De Orellana Airport","Coca","EC",-0.4629,-76.9868],
+  ["OCJ","Ian Fleming International Airport","Boscobel","JM",18.4041,-76.9698],
+  ["ODE","Odense Airport","Odense","DK",55.4767,10.3309],
+  ["ODS","Odessa International Airport","Odessa","UA",46.4268,30.6765],
+  ["OER","Örnsköldsvik Airport","Örnsköldsvik","SE",63.4083,18.99],
+  ["OGD","Ogden Hinckley Airport","Ogden","US",41.1959,-112.012],
+  ["OGG","Kahului Airport","Kahului","US",20.8985,-156.4312],
+  ["OGL","Eugene F. Correira International Airport","Ogle","GY",6.8063,-58.1059],
+  ["OGN","Yonaguni Airport","Yonaguni","JP",24.4673,122.9798],
+  ["OGU","Ordu–Giresun Airport","Ordu","TR",40.9669,38.086],
+  ["OGX","Ain Beida Airport","Ouargla","DZ",31.9172,5.4128],
+  ["OGZ","Vladikavkaz Beslan International Airport","Beslan","RU",43.2051,44.6066],
+  ["OHD","Ohrid St. Paul the Apostle Airport","Ohrid","MK",41.18,20.7423],
+  ["OHE","Mohe Gulian Airport","Mohe","CN",52.9169,122.4228],
+  ["OHO","Okhotsk Airport","Okhotsk","RU",59.4101,143.0565],
+  ["OIM","Oshima Airport","Izu Oshima","JP",34.782,139.36],
+  ["OIR","Okushiri Airport","Okushiri Island","JP",42.0717,139.433],
+  ["OIT","Oita Airport","Oita","JP",33.4794,131.737],
+  ["OKA","Naha Airport / JASDF Naha Air Base","Naha","JP",26.1958,127.646],
+  ["OKC","Will Rogers World Airport","Oklahoma City","US",35.3931,-97.6007],
+  ["OKD","Sapporo Okadama Airport","Sapporo","JP",43.1174,141.3813],
+  ["OKE","Okinoerabu Airport","Wadomari","JP",27.4255,128.701],
+  ["OKI","Oki Global Geopark Airport","Okinoshima","JP",36.1784,133.3236],
+  ["OKJ","Okayama Momotaro Airport","Okayama","JP",34.7569,133.855],
+  ["OKL","Oksibil Airport","Oksibil","ID",-4.9071,140.6277],
+  ["OKY","Oakey Army Aviation Centre","Oakey Army Aviation Centre","AU",-27.4093,151.7367],
+  ["OLA","Ørland Airport","Ørland","NO",63.6989,9.604],
+  ["OLB","Olbia Costa Smeralda Airport","Olbia","IT",40.8987,9.5176],
+  ["OLZ","Olyokminsk Airport","Olyokminsk","RU",60.3975,120.471],
+  ["OMA","Eppley Airfield","Omaha","US",41.3032,-95.8941],
+  ["OMD","Oranjemund Airport","Oranjemund","NA",-28.5847,16.4467],
+  ["OME","Nome Airport","Nome","US",64.5122,-165.445],
+  ["OMH","Urmia Airport","Urmia","IR",37.6681,45.0687],
+  ["OMO","Mostar International Airport","Mostar","BA",43.2829,17.8459],
+  ["OMR","Oradea International Airport","Oradea","RO",47.0253,21.9025],
+  ["OMS","Omsk Central Airport","Omsk","RU",54.967,73.3105],
+  ["OND","Ondangwa Airport","Ondangwa","NA",-17.8782,15.9526],
+  ["ONJ","Odate Noshiro Airport","Kitaakita","JP",40.1919,140.371],
+  ["ONQ","Zonguldak Çaycuma Airport","Zonguldak","TR",41.5064,32.0886],
+  ["ONT","Ontario International Airport","Ontario","US",34.056,-117.601],
+  ["ONX","Enrique Adolfo Jimenez Airport","Colón","PA",9.3566,-79.8674],
+  ["OOL","Gold Coast Airport","Gold Coast","AU",-28.166,153.5066],
+  ["OOM","Cooma Snowy Mountains Airport","Cooma","AU",-36.3004,148.9724],
+  ["OPO","Francisco de Sá Carneiro Airport","Porto","PT",41.2481,-8.6814],
+  ["OPU","Balimo Airport","Balimo","PG",-8.05,142.933],
+  ["ORB","Örebro Airport","Örebro","SE",59.2237,15.038],
+  ["ORD","Chicago O'Hare International Airport","Chicago","US",41.9786,-87.9048],
+  ["ORF","Norfolk International Airport","Norfolk","US",36.8946,-76.2012],
+  ["ORH","Worcester Regional Airport","Worcester","US",42.2673,-71.8757],
+  ["ORK","Cork Airport","Cork","IE",51.8413,-8.4911],
+  ["ORN","Oran Es-Sénia (Ahmed Ben Bella) International Airport","Es-Sénia","DZ",35.6239,-0.6212],
+  ["ORY","Paris-Orly Airport","Paris","FR",48.7233,2.3794],
+  ["OSD","Åre Östersund Airport","Östersund","SE",63.1944,14.5003],
+  ["OSI","Osijek Airport","Osijek","HR",45.4627,18.8102],
+  ["OSL","Oslo Airport, Gardermoen","Oslo","NO",60.1939,11.1004],
+  ["OSR","Ostrava Leos Janáček Airport","Ostrava","CZ",49.6963,18.1111],
+  ["OSS","Osh Airport","Osh","KG",40.609,72.7933],
+  ["OST","Ostend-Bruges International Airport","Ostend","BE",51.1998,2.8747],
+  ["OSW","Orsk Airport","Orsk","RU",51.0725,58.5956],
+  ["OTH","Southwest Oregon Regional Airport","North Bend","US",43.4171,-124.246],
+  ["OTP","Henri Coandă International Airport","Bucharest","RO",44.5711,26.085],
+  ["OTR","Coto 47 Airport","Corredores","CR",8.6016,-82.9686],
+  ["OTZ","Ralph Wien Memorial Airport","Kotzebue","US",66.8847,-162.599],
+  ["OUA","Ouagadougou Airport","Ouagadougou","BF",12.3532,-1.5124],
+  ["OUD","Oujda Angads Airport","Ahl Angad","MA",34.7896,-1.926],
+  ["OUL","Oulu Airport","Oulu / Oulunsalo","FI",64.9301,25.3546],
+  ["OVB","Novosibirsk Tolmachevo Airport","Novosibirsk","RU",55.0198,82.6187],
+  ["OVD","Asturias Airport","Ranón","ES",43.5636,-6.0346],
+  ["OVS","Sovetskiy Airport","Sovetskiy","RU",61.3266,63.6019],
+  ["OWB","Owensboro Daviess County Airport","Owensboro","US",37.7401,-87.1668],
+  ["OXB","Osvaldo Vieira International Airport","Bissau","GW",11.8948,-15.6537],
+  ["OYE","Oyem Airport","Oyem","GA",1.5431,11.5814],
+  ["OZC","Labo Airport","Ozamiz","PH",8.1785,123.842],
+  ["OZG","Zagora Airport","Zagora","MA",30.2639,-5.8533],
+  ["OZH","Zaporizhzhia International Airport","Zaporizhia","UA",47.867,35.3157],
+  ["OZZ","Ouarzazate Airport","Ouarzazate","MA",30.9391,-6.9094],
+  ["PAB","Bilaspur Airport","Bilaspur","IN",21.9884,82.111],
+  ["PAC","Marcos A. Gelabert International Airport","Albrook","PA",8.9733,-79.5556],
+  ["PAD","Paderborn Lippstadt Airport","Paderborn","DE",51.6141,8.6163],
+  ["PAE","Snohomish County (Paine Field) Airport","Everett","US",47.9063,-122.282],
+  ["PAG","Pagadian Airport","Pagadian","PH",7.8256,123.4596],
+  ["PAH","Barkley Regional Airport","Paducah","US",37.0608,-88.7738],
+  ["PAP","Toussaint Louverture International Airport","Port-au-Prince","HT",18.58,-72.2925],
+  ["PAT","Jay Prakash Narayan Airport","Patna","IN",25.5913,85.088],
+  ["PAV","Paulo Afonso Airport","Paulo Afonso","BR",-9.4009,-38.2506],
+  ["PAZ","El Tajín National Airport","Poza Rica","MX",20.6027,-97.4608],
+  ["PBC","Hermanos Serdán International Airport","Puebla","MX",19.1581,-98.3714],
+  ["PBD","Porbandar Airport","Porbandar","IN",21.6495,69.6564],
+  ["PBG","Plattsburgh International Airport","Plattsburgh","US",44.6509,-73.4681],
+  ["PBH","Paro International Airport","Paro","BT",27.4032,89.4246],
+  ["PBI","Palm Beach International Airport","West Palm Beach","US",26.6832,-80.0956],
+  ["PBM","Johan Adolf Pengel International Airport","Zandery","SR",5.4528,-55.1878],
+  ["PBO","Paraburdoo Airport","Paraburdoo","AU",-23.1711,117.745],
+  ["PBR","Puerto Barrios Airport","Puerto Barrios","GT",15.7309,-88.5838],
+  ["PBU","Putao Airport","Putao","MM",27.3299,97.4263],
+  ["PBZ","Plettenberg Bay Airport","Plettenberg Bay","ZA",-34.0882,23.3287],
+  ["PCL","Cap FAP David Abenzur Rengifo International Airport","Pucallpa","PE",-8.3779,-74.5743],
+  ["PCP","Principe Airport","São Tomé & Príncipe","ST",1.6629,7.4117],
+  ["PCR","German Olano Airport","Puerto Carreño","CO",6.1847,-67.4932],
+  ["PDA","Obando Cesar Gaviria Trujillo Airport","Puerto Inírida","CO",3.8535,-67.9062],
+  ["PDG","Minangkabau International Airport","Padang","ID",-0.7869,100.281],
+  ["PDL","João Paulo II Airport","Ponta Delgada","PT",37.7412,-25.6979],
+  ["PDO","Pendopo Airport","Talang Gudang-Sumatra Island","ID",-3.2861,103.88],
+  ["PDS","Piedras Negras International Airport","Piedras Negras","MX",28.6279,-100.5352],
+  ["PDT","Eastern Oregon Regional Airport at Pendleton","Pendleton","US",45.6951,-118.841],
+  ["PDV","Plovdiv International Airport","Plovdiv","BG",42.0678,24.8508],
+  ["PDX","Portland International Airport","Portland","US",45.5887,-122.598],
+  ["PED","Pardubice Airport","Pardubice","CZ",50.0134,15.7386],
+  ["PEE","Perm International Airport","Perm","RU",57.9145,56.0212],
+  ["PEG","Perugia San Francesco d'Assisi – Umbria International Airport","Perugia","IT",43.0959,12.5132],
+  ["PEI","Matecaña International Airport","Pereira","CO",4.8127,-75.7395],
+  ["PEK","Beijing Capital International Airport","Beijing","CN",40.0801,116.585],
+  ["PEM","Padre Aldamiz International Airport","Puerto Maldonado","PE",-12.6136,-69.2286],
+  ["PEN","Penang International Airport","Penang","MY",5.2971,100.277],
+  ["PER","Perth International Airport","Perth","AU",-31.9403,115.967],
+  ["PES","Petrozavodsk Airport","Petrozavodsk","RU",61.8852,34.1547],
+  ["PET","João Simões Lopes Neto International Airport","Pelotas","BR",-31.7173,-52.328],
+  ["PEW","Peshawar International Airport","Peshawar","PK",33.9939,71.5146],
+  ["PEX","Pechora Airport","Pechora","RU",65.1211,57.1308],
+  ["PEZ","Penza Airport","Penza","RU",53.1106,45.0211],
+  ["PFB","Lauro Kurtz Airport","Passo Fundo","BR",-28.244,-52.3278],
+  ["PFO","Paphos International Airport","Paphos","CY",34.718,32.4857],
+  ["PGD","Charlotte County Airport","Punta Gorda","US",26.9202,-81.9905],
+  ["PGF","Perpignan-Rivesaltes (Llabanère) Airport","Perpignan/Rivesaltes","FR",42.7404,2.8707],
+  ["PGH","Pantnagar Airport","Pantnagar","IN",29.0334,79.4737],
+  ["PGU","Persian Gulf International Airport","Khiyaroo","IR",27.3796,52.7377],
+  ["PGZ","Ponta Grossa Airport - Comandante Antonio Amilton Beraldo","Ponta Grossa","BR",-25.1845,-50.1438],
+  ["PHB","Parnaíba - Prefeito Doutor João Silva Filho International Airport","Parnaíba","BR",-2.8937,-41.732],
+  ["PHC","Port Harcourt International Airport","Port Harcourt","NG",5.0155,6.9496],
+  ["PHE","Port Hedland International Airport","Port Hedland","AU",-20.3778,118.626],
+  ["PHF","Newport News Williamsburg International Airport","Newport News","US",37.1319,-76.493],
+  ["PHL","Philadelphia International Airport","Philadelphia","US",39.8719,-75.2411],
+  ["PHS","Phitsanulok Airport","Phitsanulok","TH",16.7829,100.279],
+  ["PHW","Hendrik Van Eck Airport","Phalaborwa","ZA",-23.9372,31.1554],
+  ["PHX","Phoenix Sky Harbor International Airport","Phoenix","US",33.4353,-112.0059],
+  ["PHY","Phetchabun Airport","Phetchabun Airport","TH",16.676,101.195],
+  ["PIA","General Wayne A. Downing Peoria International Airport","Peoria","US",40.6642,-89.6933],
+  ["PIB","Hattiesburg Laurel Regional Airport","Moselle","US",31.4671,-89.3371],
+  ["PIE","St. Petersburg Clearwater International Airport","Pinellas Park","US",27.9102,-82.6874],
+  ["PIF","Pingtung North Airport","Pingtung","TW",22.7002,120.482],
+  ["PIH","Pocatello Regional Airport","Pocatello","US",42.9098,-112.596],
+  ["PIK","Glasgow Prestwick Airport","Prestwick, South Ayrshire","GB",55.502,-4.587],
+  ["PIR","Pierre Regional Airport","Pierre","US",44.3827,-100.286],
+  ["PIS","Poitiers-Biard Airport","Poitiers/Biard","FR",46.5877,0.3067],
+  ["PIT","Pittsburgh International Airport","Pittsburgh","US",40.4915,-80.2329],
+  ["PIU","Capitán FAP Guillermo Concha Iberico International Airport","Piura","PE",-5.2057,-80.6164],
+  ["PIX","Pico Airport","Pico Island","PT",38.5543,-28.4413],
+  ["PJG","Panjgur Airport","Panjgur","PK",26.9545,64.1325],
+  ["PJM","Puerto Jimenez Airport","Puerto Jimenez","CR",8.5333,-83.3],
+  ["PKB","Mid Ohio Valley Regional Airport","Parkersburg","US",39.3451,-81.4392],
+  ["PKC","Yelizovo Airport","Petropavlovsk-Kamchatsky","RU",53.1679,158.454],
+  ["PKE","Parkes Airport","Parkes","AU",-33.1314,148.239],
+  ["PKR","Pokhara Airport","Pokhara","NP",28.2009,83.9821],
+  ["PKU","Sultan Syarif Kasim II International Airport / Roesmin Nurjadin AFB","Pekanbaru","ID",0.4586,101.4443],
+  ["PKV","Pskov Airport","Pskov","RU",57.7839,28.3956],
+  ["PKW","Selebi Phikwe Airport","Selebi Phikwe","BW",-22.0583,27.8288],
+  ["PKX","Beijing Daxing International Airport","Beijing","CN",39.5099,116.4109],
+  ["PKY","Tjilik Riwut Airport","Palangkaraya","ID",-2.2251,113.943],
+  ["PKZ","Pakse International Airport","Pakse","LA",15.1321,105.781],
+  ["PLJ","Placencia Airport","Placencia","BZ",16.537,-88.3615],
+  ["PLM","Sultan Mahmud Badaruddin II Airport","Palembang","ID",-2.8977,104.6981],
+  ["PLN","Pellston Regional Airport of Emmet County Airport","Pellston","US",45.5709,-84.7967],
+  ["PLO","Port Lincoln Airport","Port Lincoln","AU",-34.6053,135.88],
+  ["PLQ","Palanga International Airport","Palanga","LT",55.9732,21.0939],
+  ["PLS","Providenciales International Airport","Providenciales","TC",21.7737,-72.2683],
+  ["PLW","Mutiara - SIS Al-Jufrie Airport","Palu","ID",-0.9165,119.9086],
+  ["PLX","Semey Airport","Semey","KZ",50.3513,80.2344],
+  ["PLZ","Chief Dawid Stuurman International Airport","Gqeberha","ZA",-33.9849,25.6173],
+  ["PMC","El Tepual Airport","Puerto Montt","CL",-41.4389,-73.094],
+  ["PMF","Parma Airport","Parma","IT",44.8245,10.2964],
+  ["PMG","Ponta Porã Airport","Ponta Porã","BR",-22.5496,-55.7026],
+  ["PMI","Palma de Mallorca Airport","Palma de Mallorca","ES",39.5517,2.7388],
+  ["PMO","Falcone–Borsellino Airport","Palermo","IT",38.176,13.091],
+  ["PMQ","Perito Moreno Airport","Perito Moreno","AR",-46.5379,-70.9787],
+  ["PMR","Palmerston North Airport","Palmerston North","NZ",-40.3206,175.617],
+  ["PMV","Del Caribe Santiago Mariño International Airport","Isla Margarita","VE",10.9126,-63.9666],
+  ["PMW","Brigadeiro Lysias Rodrigues Airport","Palmas","BR",-10.2915,-48.357],
+  ["PMY","El Tehuelche Airport","Puerto Madryn","AR",-42.7592,-65.1027],
+  ["PMZ","Palmar Sur Airport","Palmar Sur","CR",8.951,-83.4686],
+  ["PNA","Pamplona Airport","Pamplona","ES",42.77,-1.6463],
+  ["PND","Punta Gorda Airport","Punta Gorda","BZ",16.1024,-88.8083],
+  ["PNE","Northeast Philadelphia Airport","Philadelphia","US",40.0819,-75.0106],
+  ["PNH","Phnom Penh International Airport","Phnom Penh","KH",11.5466,104.844],
+  ["PNI","Pohnpei International Airport","Pohnpei Island","FM",6.9851,158.209],
+  ["PNK","Supadio Airport","Pontianak","ID",-0.1507,109.404],
+  ["PNL","Pantelleria Airport","Pantelleria","IT",36.8165,11.9689],
+  ["PNP","Girua Airport","Popondetta","PG",-8.8045,148.309],
+  ["PNQ","Pune Airport / Lohagaon Air Force Station","Pune","IN",18.5821,73.9197],
+  ["PNR","Antonio Agostinho-Neto International Airport","Pointe Noire","CG",-4.816,11.8866],
+  ["PNS","Pensacola International Airport","Pensacola","US",30.4734,-87.1866],
+  ["PNT","Lieutenant Julio Gallardo Airport","Puerto Natales","CL",-51.6707,-72.5291],
+  ["PNY","Pondicherry Airport","Puducherry","IN",11.968,79.812],
+  ["PNZ","Senador Nilo Coelho Airport","Petrolina","BR",-9.3624,-40.5691],
+  ["POA","Salgado Filho International Airport","Porto Alegre","BR",-29.9947,-51.1666],
+  ["POG","Port Gentil Airport","Port Gentil","GA",-0.7117,8.7544],
+  ["POL","Pemba Airport","Pemba / Porto Amelia","MZ",-12.9918,40.524],
+  ["POM","Port Moresby Jacksons International Airport","Port Moresby","PG",-9.4434,147.22],
+  ["POP","Gregorio Luperon International Airport","Puerto Plata","DO",19.7579,-70.57],
+  ["POR","Pori Airport","Pori","FI",61.4617,21.8],
+  ["POS","Piarco International Airport","Port of Spain","TT",10.5954,-61.3372],
+  ["POZ","Poznań-Ławica Airport","Poznań","PL",52.421,16.8263],
+  ["PPB","Presidente Prudente Airport","Presidente Prudente","BR",-22.1751,-51.4246],
+  ["PPG","Pago Pago International Airport","Pago Pago","AS",-14.331,-170.71],
+  ["PPK","Petropavl Airport","Petropavl","KZ",54.7747,69.1833],
+  ["PPN","Guillermo León Valencia Airport","Popayán","CO",2.4544,-76.6093],
+  ["PPP","Proserpine Whitsunday Coast Airport","Proserpine","AU",-20.4944,148.5536],
+  ["PPS","Puerto Princesa International Airport / PAF Antonio Bautista Air Base","Puerto Princesa","PH",9.7421,118.759],
+  ["PPT","Faa'a International Airport","Papeete","PF",-17.5537,-149.607],
+  ["PQC","Phu Quoc International Airport","Phu Quoc Island","VN",10.1698,103.9931],
+  ["PQI","Presque Isle International Airport","Presque Isle","US",46.689,-68.0448],
+  ["PQQ","Port Macquarie Airport","Port Macquarie","AU",-31.4358,152.863],
+  ["PRA","General Urquiza Airport","Parana","AR",-31.7948,-60.4804],
+  ["PRC","Prescott International Airport - Ernest A. Love Field","Prescott","US",34.6545,-112.42],
+  ["PRG","Václav Havel Airport Prague","Prague","CZ",50.1008,14.26],
+  ["PRI","Praslin Airport","Grand Anse","SC",-4.3193,55.6914],
+  ["PRM","Portimão Airport","Portimão","PT",37.1493,-8.584],
+  ["PRN","Priština Adem Jashari International Airport","Prishtina","XK",42.5728,21.0358],
+  ["PSA","Pisa International Airport","Pisa","IT",43.6839,10.3927],
+  ["PSC","Tri Cities Airport","Pasco","US",46.2647,-119.119],
+  ["PSE","Mercedita Airport","Ponce","PR",18.0083,-66.563],
+  ["PSG","Petersburg James A Johnson Airport","Petersburg","US",56.8017,-132.945],
+  ["PSI","Pasni Airport","Pasni","PK",25.2905,63.3451],
+  ["PSM","Portsmouth International at Pease Airport","Portsmouth","US",43.0779,-70.8233],
+  ["PSO","Antonio Nariño Airport","Chachagüí","CO",1.3962,-77.2915],
+  ["PSP","Palm Springs International Airport","Palm Springs","US",33.8297,-116.507],
+  ["PSR","Abruzzo Airport","Pescara","IT",42.4317,14.1811],
+  ["PSS","Libertador Gral D Jose De San Martin Airport","Posadas","AR",-27.3858,-55.9707],
+  ["PSU","Pangsuma Airport","Putussibau-Borneo Island","ID",0.8356,112.937],
+  ["PSY","Port Stanley Airport","Stanley","FK",-51.6857,-57.7776],
+  ["PSZ","Capitán Av. Salvador Ogaya G. airport","Puerto Suárez","BO",-18.9753,-57.8206],
+  ["PTG","Polokwane International Airport","Polokwane","ZA",-23.8453,29.4586],
+  ["PTJ","Portland Airport","Portland Airport","AU",-38.3181,141.471],
+  ["PTP","Pointe-à-Pitre Le Raizet International  Airport","Pointe-à-Pitre","GP",16.2653,-61.5318],
+  ["PTY","Tocumen International Airport","Tocumen","PA",9.0714,-79.3835],
+  ["PUB","Pueblo Memorial Airport","Pueblo","US",38.2891,-104.497],
+  ["PUD","Puerto Deseado Airport","Puerto Deseado","AR",-47.7353,-65.9041],
+  ["PUF","Pau Pyrénées Airport","Pau/Pyrénées","FR",43.38,-0.4186],
+  ["PUG","Port Augusta Airport","Port Augusta Airport","AU",-32.5069,137.717],
+  ["PUJ","Punta Cana International Airport","Punta Cana","DO",18.5674,-68.3634],
+  ["PUQ","President Carlos Ibañez del Campo International Airport","Punta Arenas","CL",-53.0026,-70.8546],
+  ["PUS","Gimhae International Airport","Busan","KR",35.1795,128.938],
+  ["PUU","Tres De Mayo Airport","Puerto Asís","CO",0.5052,-76.5008],
+  ["PUW","Pullman Moscow Regional Airport","Pullman/Moscow","US",46.7439,-117.11],
+  ["PUY","Pula Airport","Pula","HR",44.8935,13.9222],
+  ["PUZ","Puerto Cabezas Airport","Puerto Cabezas","NI",14.0472,-83.3867],
+  ["PVA","El Embrujo Airport","Providencia","CO",13.3575,-81.358],
+  ["PVD","Theodore Francis Green State Airport","Warwick","US",41.725,-71.4257],
+  ["PVG","Shanghai Pudong International Airport","Shanghai","CN",31.1434,121.805],
+  ["PVH","Governador Jorge Teixeira de Oliveira Airport","Porto Velho","BR",-8.7079,-63.9024],
+  ["PVK","Aktion National Airport","Preveza/Lefkada","GR",38.9255,20.7653],
+  ["PVR","Aeropuerto Internacional Lic. Gustavo Díaz Ordaz","Ciudad de Puerto Vallarta","MX",20.6797,-105.2467],
+  ["PVU","Provo-Utah Lake International Airport","Provo","US",40.2192,-111.723],
+  ["PWM","Portland International Jetport","Portland","US",43.6462,-70.3093],
+  ["PWQ","Pavlodar Airport","Pavlodar","KZ",52.195,77.0739],
+  ["PXM","Puerto Escondido International Airport","Puerto Escondido","MX",15.8769,-97.0891],
+  ["PXO","Porto Santo Airport","Vila Baleira","PT",33.0734,-16.35],
+  ["PXR","Surin Airport","Surin","TH",14.8683,103.498],
+  ["PXU","Pleiku Airport","Pleiku","VN",14.0045,108.017],
+  ["PYH","Cacique Aramare Airport","Puerto Ayacucho","VE",5.62,-67.6061],
+  ["PYJ","Polyarny Airport","Yakutia","RU",66.4004,112.03],
+  ["PYK","Payam Karaj International Airport","Karaj","IR",35.7761,50.8267],
+  ["PZB","Pietermaritzburg Airport","Pietermaritzburg","ZA",-29.649,30.3987],
+  ["PZH","Zhob Airport","Fort Sandeman","PK",31.3584,69.4636],
+  ["PZI","Panzhihua Bao'anying Airport","Panzhihua","CN",26.54,101.7985],
+  ["PZO","General Manuel Carlos Piar International Airport","Puerto Ordaz-Ciudad Guayana","VE",8.2885,-62.7604],
+  ["PZU","Port Sudan New International Airport","Port Sudan","SD",19.4336,37.2341],
+  ["QBC","Bella Coola Airport","Bella Coola","CA",52.3875,-126.596],
+  ["QOW","Sam Mbakwe International Airport","Owerri","NG",5.4271,7.206],
+  ["QRO","Querétaro Intercontinental Airport","Querétaro","MX",20.6173,-100.186],
+  ["QRW","Warri Airport","Warri","NG",5.5961,5.8178],
+  ["QSF","Ain Arnat Airport","Sétif","DZ",36.1781,5.3245],
+  ["QSZ","Shache Airport","Shache","CN",38.2454,77.0561],
+  ["QUO","Akwa Ibom International Airport","Uyo","NG",4.8725,8.093],
+  ["RAB","Tokua Airport","Kokopo","PG",-4.3405,152.38],
+  ["RAE","Arar Domestic Airport","Arar","SA",30.9066,41.1382],
+  ["RAH","Rafha Domestic Airport","Rafha","SA",29.6264,43.4906],
+  ["RAI","Praia International Airport","Praia","CV",14.9245,-23.4935],
+  ["RAJ","Rajkot Airport","Rajkot","IN",22.3092,70.7795],
+  ["RAK","Menara Airport","Marrakech","MA",31.6069,-8.0363],
+  ["RAO","Leite Lopes Airport","Ribeirão Preto","BR",-21.1343,-47.7741],
+  ["RAP","Rapid City Regional Airport","Rapid City","US",44.0453,-103.057],
+  ["RAR","Rarotonga International Airport","Avarua","CK",-21.2027,-159.806],
+  ["RAS","Sardar-e-Jangal Airport","Rasht","IR",37.3233,49.6178],
+  ["RAZ","Rawalakot Airport","Rawalakot","PK",33.8497,73.7981],
+  ["RBA","Rabat-Salé Airport","Rabat","MA",34.0515,-6.7515],
+  ["RBR","Rio Branco-Plácido de Castro International Airport","Rio Branco","BR",-9.869,-67.894],
+  ["RCB","Richards Bay Airport","Richards Bay","ZA",-28.741,32.0921],
+  ["RCH","Almirante Padilla Airport","Riohacha","CO",11.5262,-72.926],
+  ["RDD","Redding Municipal Airport","Redding","US",40.509,-122.293],
+  ["RDG","Reading Regional Airport (Carl A Spaatz Field)","Reading","US",40.3785,-75.9652],
+  ["RDM","Roberts Field","Redmond","US",44.2541,-121.15],
+  ["RDO","Radom Airport","Radom","PL",51.3892,21.2133],
+  ["RDP","Kazi Nazrul Islam Airport","Durgapur","IN",23.6225,87.243],
+  ["RDU","Raleigh Durham International Airport","Raleigh/Durham","US",35.8776,-78.7875],
+  ["RDZ","Rodez-Marcillac Airport","Rodez/Marcillac","FR",44.4079,2.4827],
+  ["REC","Recife/Guararapes - Gilberto Freyre International Airport","Recife","BR",-8.126,-34.9233],
+  ["REG","Reggio Calabria Airport","Reggio Calabria","IT",38.0712,15.6516],
+  ["REL","Almirante Marco Andres Zar Airport","Rawson","AR",-43.2105,-65.2703],
+  ["REN","Orenburg Central Airport","Orenburg","RU",51.7958,55.4567],
+  ["REP","Siem Reap International Airport","Siem Reap","KH",13.4116,103.813],
+  ["RES","Resistencia International Airport","Resistencia","AR",-27.45,-59.0561],
+  ["REU","Reus Airport","Reus","ES",41.1474,1.1672],
+  ["REX","General Lucio Blanco International Airport","Reynosa","MX",26.0089,-98.2285],
+  ["RFD","Chicago Rockford International Airport","Chicago/Rockford","US",42.1954,-89.0972],
+  ["RFP","Raiatea Airport","Uturoa","PF",-16.7229,-151.466],
+  ["RGA","Gobernador Ramón Trejo Noel International Airport","Rio Grande","AR",-53.7777,-67.7494],
+  ["RGI","Rangiroa Airport","Rangiroa Airport","PF",-14.9543,-147.661],
+  ["RGL","Piloto Civil N. Fernández Airport","Rio Gallegos","AR",-51.6089,-69.3126],
+  ["RGN","Yangon International Airport","Yangon","MM",16.9073,96.1332],
+  ["RGO","Orang (Chongjin) Airport","Hoemun-ri","KP",41.4285,129.6476],
+  ["RGS","Burgos Airport","Burgos","ES",42.3576,-3.6208],
+  ["RHD","Termas de Río Hondo international Airport","Termas de Río Hondo","AR",-27.4966,-64.936],
+  ["RHI","Rhinelander Oneida County Airport","Rhinelander","US",45.6312,-89.4675],
+  ["RHO","Diagoras Airport","Rodes Island","GR",36.4054,28.0862],
+  ["RIA","Santa Maria Airport","Santa Maria","BR",-29.7114,-53.6882],
+  ["RIC","Richmond International Airport","Richmond","US",37.5052,-77.3197],
+  ["RIS","Rishiri Airport","Rishiri","JP",45.242,141.186],
+  ["RIW","Central Wyoming Regional Airport","Riverton","US",43.0642,-108.46],
+  ["RIX","Riga International Airport","Riga","LV",56.9236,23.9711],
+  ["RIY","Riyan Mukalla International Airport","Riyan","YE",14.6626,49.375],
+  ["RIZ","Rizhao Shanzihe Airport","Rizhao","CN",35.405,119.3244],
+  ["RJA","Rajahmundry Airport","Madhurapudi","IN",17.1058,81.8132],
+  ["RJH","Shah Mokhdum Airport","Rajshahi","BD",24.4372,88.6165],
+  ["RJK","Rijeka Airport","Rijeka","HR",45.2169,14.5703],
+  ["RJN","Rafsanjan Airport","Rafsanjan","IR",30.2983,56.049],
+  ["RKS","Southwest Wyoming Regional Airport","Rock Springs","US",41.5942,-109.065],
+  ["RKT","Ras Al Khaimah International Airport","Ras Al Khaimah","AE",25.6135,55.9388],
+  ["RKV","Reykjavik Airport","Reykjavik","IS",64.13,-21.9406],
+  ["RKZ","Xigaze Peace Airport / Shigatse Air Base","Xigazê","CN",29.3519,89.3114],
+  ["RLG","Rostock-Laage Airport","Rostock","DE",53.9182,12.2783],
+  ["RLK","Bayannur Tianjitai Airport","Bavannur","CN",40.926,107.7428],
+  ["RMA","Roma Airport","Roma","AU",-26.545,148.775],
+  ["RMF","Marsa Alam International Airport","Marsa Alam","EG",25.5555,34.5924],
+  ["RMI","Federico Fellini International Airport","Rimini","IT",44.0203,12.6117],
+  ["RML","Colombo Ratmalana Airport","Colombo","LK",6.822,79.8862],
+  ["RMQ","Taichung International Airport / Ching Chuang Kang Air Base","Taichung","TW",24.2647,120.621],
+  ["RMU","Región de Murcia International Airport","Corvera","ES",37.803,-1.125],
+  ["RNB","Ronneby Airport","Ronneby","SE",56.2667,15.265],
+  ["RNJ","Yoron Airport","Yoron","JP",27.044,128.402],
+  ["RNN","Bornholm Airport","Rønne","DK",55.0633,14.7596],
+  ["RNO","Reno Tahoe International Airport","Reno","US",39.4991,-119.768],
+  ["RNS","Rennes-Saint-Jacques Airport","Rennes/Saint-Jacques","FR",48.0695,-1.7348],
+  ["ROA","Roanoke–Blacksburg Regional Airport","Roanoke","US",37.3255,-79.9754],
+  ["ROB","Roberts International Airport","Monrovia","LR",6.2338,-10.3623],
+  ["ROC","Frederick Douglass Greater Rochester International Airport","Rochester","US",43.1189,-77.6724],
+  ["ROI","Roi Et Airport","Roi Et","TH",16.1168,103.774],
+  ["ROK","Rockhampton Airport","Rockhampton","AU",-23.38,150.4754],
+  ["ROO","Maestro Marinho Franco Airport","Rondonópolis","BR",-16.5843,-54.7248],
+  ["ROP","Rota International Airport","Rota Island","MP",14.1743,145.243],
+  ["ROR","Babelthuap Airport","Babelthuap Island","PW",7.3673,134.5442],
+  ["ROS","Rosario Islas Malvinas International Airport","Rosario","AR",-32.9036,-60.785],
+  ["ROT","Rotorua Regional Airport","Rotorua","NZ",-38.1092,176.317],
+  ["ROV","Platov International Airport","Rostov-on-Don","RU",47.4939,39.9247],
+  ["ROW","Roswell Air Center Airport","Roswell","US",33.3016,-104.531],
+  ["RQA","Ruoqiang Loulan Airport","Ruoqiang Town","CN",38.9747,88.0083],
+  ["RRG","Sir Charles Gaetan Duval Airport","Port Mathurin","MU",-19.7577,63.361],
+  ["RRS","Røros Airport","Røros","NO",62.5784,11.3423],
+  ["RSA","Santa Rosa Airport","Santa Rosa","AR",-36.5883,-64.2757],
+  ["RST","Rochester International Airport","Rochester","US",43.9083,-92.5],
+  ["RSU","Yeosu Airport","Yeosu","KR",34.8423,127.617],
+  ["RSW","Southwest Florida International Airport","Fort Myers","US",26.5362,-81.7552],
+  ["RTB","Juan Manuel Gálvez International Airport","Coxen Hole","HN",16.3168,-86.523],
+  ["RTM","Rotterdam The Hague Airport","Rotterdam","NL",51.9569,4.4372],
+  ["RUA","Arua Airport","Arua","UG",3.0492,30.9117],
+  ["RUH","King Khaled International Airport","Riyadh","SA",24.9576,46.6988],
+  ["RUN","Roland Garros Airport","Sainte-Marie","RE",-20.8901,55.5189],
+  ["RUR","Rurutu Airport","Rurutu Airport","PF",-22.4341,-151.361],
+  ["RUT","Rutland - Southern Vermont Regional Airport","Rutland","US",43.5294,-72.9496],
+  ["RVK","Rørvik Airport, Ryum","Rørvik","NO",64.8383,11.1461],
+  ["RVN","Rovaniemi Airport","Rovaniemi","FI",66.5648,25.8304],
+  ["RWN","Rivne International Airport","Rivne","UA",50.6071,26.1416],
+  ["RXS","Roxas Airport","Roxas City","PH",11.5977,122.752],
+  ["RYB","Staroselye Airport","Rybinsk","RU",58.1042,38.9294],
+  ["RYK","Shaikh Zaid Airport","Rahim Yar Khan","PK",28.3839,70.2796],
+  ["RZA","Santa Cruz Airport","Puerto Santa Cruz","AR",-50.0165,-68.5792],
+  ["RZE","Rzeszów-Jasionka Airport","Rzeszów","PL",50.11,22.019],
+  ["RZR","Ramsar Airport","Ramsar","IR",36.907,50.6873],
+  ["RZV","Rize–Artvin Airport","Rize","TR",41.1796,40.8508],
+  ["SAF","Santa Fe Municipal Airport","Santa Fe","US",35.6171,-106.089],
+  ["SAG","Shirdi Airport","Kakadi","IN",19.6888,74.3774],
+  ["SAH","Sana'a International Airport","Sana'a","YE",15.4763,44.2197],
+  ["SAL","Monseñor Óscar Arnulfo Romero International Airport","San Salvador","SV",13.4409,-89.0557],
+  ["SAN","San Diego International Airport","San Diego","US",32.7336,-117.19],
+  ["SAP","Ramón Villeda Morales International Airport","San Pedro Sula","HN",15.4526,-87.9236],
+  ["SAQ","San Andros Airport","Andros Island","BS",25.0538,-78.049],
+  ["SAT","San Antonio International Airport","San Antonio","US",29.5337,-98.4698],
+  ["SAV","Savannah Hilton Head International Airport","Savannah","US",32.1276,-81.2021],
+  ["SAW","Istanbul Sabiha Gökçen International Airport","Pendik, Istanbul","TR",40.8986,29.3092],
+  ["SBA","Santa Barbara Municipal Airport","Santa Barbara","US",34.4262,-119.84],
+  ["SBD","San Bernardino International Airport","San Bernardino","US",34.0954,-117.235],
+  ["SBH","Saint Barthélemy - Rémy de Haenen Airport","Gustavia / Saint-Jean","BL",17.9044,-62.8436],
+  ["SBN","South Bend Regional Airport","South Bend","US",41.7087,-86.3173],
+  ["SBP","San Luis County Regional Airport","San Luis Obispo","US",35.2368,-120.642],
+  ["SBT","Sabetta International Airport","Sabetta","RU",71.2192,72.0522],
+  ["SBW","Sibu Airport","Sibu","MY",2.2616,111.985],
+  ["SBY","Salisbury Ocean City Wicomico Regional Airport","Salisbury","US",38.3405,-75.5103],
+  ["SBZ","Sibiu International Airport","Sibiu","RO",45.7856,24.0913],
+  ["SCC","Deadhorse Airport","Deadhorse","US",70.1947,-148.465],
+  ["SCE","University Park Airport","State College","US",40.8494,-77.8485],
+  ["SCL","Comodoro Arturo Merino Benítez International Airport","Santiago","CL",-33.393,-70.7858],
+  ["SCN","Saarbrücken Airport","Saarbrücken","DE",49.2146,7.1095],
+  ["SCO","Aktau Airport","Aktau","KZ",43.8601,51.0909],
+  ["SCQ","Santiago-Rosalía de Castro Airport","Santiago de Compostela","ES",42.8963,-8.4151],
+  ["SCR","Scandinavian Mountains Airport","Malung-Sälen","SE",61.1584,12.8425],
+  ["SCT","Socotra International Airport","Socotra Islands","YE",12.6307,53.9058],
+  ["SCU","Antonio Maceo International Airport","Santiago","CU",19.9698,-75.8354],
+  ["SCV","Suceava Stefan cel Mare Airport","Suceava","RO",47.6875,26.3541],
+  ["SCW","Syktyvkar Airport","Syktyvkar","RU",61.647,50.8451],
+  ["SDD","Lubango Airport","Lubango","AO",-14.9247,13.575],
+  ["SDE","Vicecomodoro Angel D. La Paz Aragonés Airport","Santiago del Estero","AR",-27.7656,-64.31],
+  ["SDF","Louisville Muhammad Ali International Airport","Louisville","US",38.1744,-85.736],
+  ["SDG","Sanandaj Airport","Sanandaj Airport","IR",35.2459,47.0092],
+  ["SDJ","Sendai Airport","Natori","JP",38.1397,140.917],
+  ["SDK","Sandakan Airport","Sandakan","MY",5.9009,118.059],
+  ["SDL","Sundsvall-Härnösand Airport","Sundsvall/ Härnösand","SE",62.5281,17.4439],
+  ["SDQ","Las Américas International Airport","Santo Domingo","DO",18.4297,-69.6689],
+  ["SDR","Seve Ballesteros-Santander Airport","Santander","ES",43.4271,-3.82],
+  ["SDS","Sado Airport","Sado","JP",38.0602,138.414],
+  ["SDT","Saidu Sharif Airport","Saidu Sharif","PK",34.8136,72.3528],
+  ["SDU","Santos Dumont Airport","Rio de Janeiro","BR",-22.9105,-43.1631],
+  ["SEA","Seattle–Tacoma International Airport","Seattle","US",47.4492,-122.3111],
+  ["SEB","Sabha Airport","Sabha","LY",26.9925,14.4662],
+  ["SEK","Srednekolymsk Airport","Srednekolymsk","RU",67.4805,153.7364],
+  ["SEN","Southend Airport","London","GB",51.5714,0.6956],
+  ["SEZ","Seychelles International Airport","Mahe Island","SC",-4.6743,55.5218],
+  ["SFA","Sfax Thyna International Airport","Sfax","TN",34.718,10.691],
+  ["SFB","Orlando Sanford International Airport","Orlando","US",28.7776,-81.2375],
+  ["SFE","San Fernando Airport","San Fernando Airport","PH",16.5956,120.303],
+  ["SFG","Grand Case-Espérance Airport","Grand Case","MF",18.0999,-63.0472],
+  ["SFJ","Kangerlussuaq Airport","Kangerlussuaq","GL",67.0104,-50.7153],
+  ["SFN","Sauce Viejo Airport","Santa Fe","AR",-31.7117,-60.8117],
+  ["SFO","San Francisco International Airport","San Francisco","US",37.619,-122.375],
+  ["SFS","Subic Bay International Airport / Naval Air Station Cubi Point","Olongapo","PH",14.7944,120.271],
+  ["SFT","Skellefteå Airport","Skellefteå","SE",64.6248,21.0769],
+  ["SGC","Surgut Airport","Surgut","RU",61.3437,73.4018],
+  ["SGD","Sønderborg Airport","Sønderborg","DK",54.9644,9.7917],
+  ["SGF","Springfield Branson National Airport","Springfield","US",37.2457,-93.3886],
+  ["SGN","Tan Son Nhat International Airport","Ho Chi Minh City","VN",10.8188,106.652],
+  ["SGU","St George Regional Airport","St George","US",37.0364,-113.5103],
+  ["SHA","Shanghai Hongqiao International Airport","Shanghai","CN",31.1981,121.3343],
+  ["SHB","Nakashibetsu Airport","Nakashibetsu","JP",43.5775,144.96],
+  ["SHD","Shenandoah Valley Regional Airport","Weyers Cave","US",38.2638,-78.8964],
+  ["SHE","Shenyang Taoxian International Airport","Hunnan, Shenyang","CN",41.6398,123.483],
+  ["SHJ","Sharjah International Airport","Sharjah","AE",25.3286,55.5172],
+  ["SHL","Shillong Airport","Shillong","IN",25.7036,91.9787],
+  ["SHM","Nanki Shirahama Airport","Shirahama","JP",33.6622,135.364],
+  ["SHO","King Mswati III International Airport","Mpaka","SZ",-26.3586,31.7169],
+  ["SHR","Sheridan County Airport","Sheridan","US",44.7692,-106.98],
+  ["SHS","Jingzhou Shashi Airport","Jingzhou","CN",30.2928,112.4485],
+  ["SHV","Shreveport Regional Airport","Shreveport","US",32.4466,-93.8256],
+  ["SHW","Sharurah Domestic Airport","Sharurah","SA",17.4669,47.1214],
+  ["SID","Amílcar Cabral International Airport","Espargos","CV",16.7414,-22.9494],
+  ["SIG","Fernando Luis Ribas Dominicci Airport","San Juan","PR",18.4568,-66.0981],
+  ["SIN","Singapore Changi Airport","Singapore","SG",1.3502,103.994],
+  ["SIP","Simferopol International Airport","Simferopol","UA",45.0522,33.9751],
+  ["SIT","Sitka Rocky Gutierrez Airport","Sitka","US",57.0471,-135.362],
+  ["SJC","Norman Y. Mineta San Jose International Airport","San Jose","US",37.3625,-121.9292],
+  ["SJD","Aeropuerto Internacional de Los Cabos","Ciudad de San José del Cabo","MX",23.1564,-109.7168],
+  ["SJE","Jorge E. Gonzalez Torres Airport","San José Del Guaviare","CO",2.5797,-72.6394],
+  ["SJI","San Jose Airport","San Jose","PH",12.3615,121.047],
+  ["SJJ","Sarajevo International Airport","Sarajevo","BA",43.8246,18.3315],
+  ["SJK","Professor Urbano Ernesto Stumpf Airport","São José Dos Campos","BR",-23.2292,-45.8615],
+  ["SJL","São Gabriel da Cachoeira Airport","São Gabriel da Cachoeira","BR",-0.1484,-66.9855],
+  ["SJO","Juan Santamaría International Airport","San José","CR",9.9939,-84.2088],
+  ["SJP","Prof. Eribelto Manoel Reino State Airport","São José do Rio Preto","BR",-20.8171,-49.407],
+  ["SJT","San Angelo Regional Mathis Field","San Angelo","US",31.3577,-100.496],
+  ["SJU","Luis Munoz Marin International Airport","San Juan","PR",18.4394,-66.0018],
+  ["SJW","Shijiazhuang Zhengding International Airport","Shijiazhuang","CN",38.2807,114.697],
+  ["SJX","Sartaneja Airport","Sartaneja","BZ",18.3561,-88.1308],
+  ["SJY","Seinäjoki Airport","Seinäjoki / Ilmajoki","FI",62.6921,22.8323],
+  ["SJZ","São Jorge Airport","Velas","PT",38.6655,-28.1758],
+  ["SKB","Robert L. Bradshaw International Airport","Basseterre","KN",17.3112,-62.7187],
+  ["SKD","Samarkand Airport","Samarkand","UZ",39.7005,66.9838],
+  ["SKG","Thessaloniki Macedonia International Airport","Thessaloniki","GR",40.5197,22.9709],
+  ["SKN","Stokmarknes Airport, Skagen","Hadsel","NO",68.5788,15.0334],
+  ["SKO","Sadiq Abubakar III International Airport","Sokoto","NG",12.9163,5.2072],
+  ["SKP","Skopje International Airport","Skopje","MK",41.9616,21.6214],
+  ["SKT","Sialkot International Airport","Sialkot","PK",32.5356,74.3639],
+  ["SKX","Saransk Airport","Saransk","RU",54.1251,45.2123],
+  ["SKZ","Sukkur Airport","Mirpur Khas","PK",27.722,68.7917],
+  ["SLA","Martin Miguel De Guemes International Airport","Salta","AR",-24.856,-65.4862],
+  ["SLC","Salt Lake City International Airport","Salt Lake City","US",40.7857,-111.9797],
+  ["SLD","Sliač Airport","Sliač","SK",48.6378,19.1341],
+  ["SLK","Adirondack Regional Airport","Saranac Lake","US",44.3869,-74.2046],
+  ["SLL","Salalah Airport","Salalah","OM",17.0387,54.0913],
+  ["SLM","Salamanca Airport","Salamanca","ES",40.9521,-5.502],
+  ["SLN","Salina Municipal Airport","Salina","US",38.791,-97.6522],
+  ["SLP","Ponciano Arriaga International Airport","San Luis Potosí","MX",22.2543,-100.931],
+  ["SLU","George F. L. Charles Airport","Castries","LC",14.0202,-60.9929],
+  ["SLW","Plan De Guadalupe International Airport","Saltillo","MX",25.5495,-100.929],
+  ["SLY","Salekhard Airport","Salekhard","RU",66.5908,66.611],
+  ["SLZ","Marechal Cunha Machado International Airport","São Luís","BR",-2.5854,-44.2341],
+  ["SMA","Santa Maria Airport","Vila do Porto","PT",36.9714,-25.1706],
+  ["SMF","Sacramento International Airport","Sacramento","US",38.6954,-121.591],
+  ["SMI","Samos Airport","Samos Island","GR",37.69,26.9117],
+  ["SML","Stella Maris Airport","Stella Maris","BS",23.5823,-75.2686],
+  ["SMR","Simón Bolívar International Airport","Santa Marta","CO",11.1196,-74.2306],
+  ["SMS","Sainte Marie Airport","Vohilava","MG",-17.0939,49.8158],
+  ["SMW","Smara Airport","Smara","EH",26.732,-11.6837],
+  ["SMX","Santa Maria Public Airport Captain G Allan Hancock Field","Santa Maria","US",34.8989,-120.457],
+  ["SNA","John Wayne Airport-Orange County Airport","Santa Ana","US",33.6757,-117.868],
+  ["SNB","Snake Bay Airport","Milikapiti","AU",-11.4177,130.6485],
+  ["SNE","Preguiça Airport","Preguiça","CV",16.5889,-24.2841],
+  ["SNN","Shannon Airport","Shannon","IE",52.702,-8.9248],
+  ["SNO","Sakon Nakhon Airport","Sakon Nakhon Airport","TH",17.1951,104.119],
+  ["SNP","St Paul Island Airport","St Paul Island","US",57.1663,-170.2226],
+  ["SNW","Thandwe Airport","Thandwe","MM",18.4607,94.3001],
+  ["SOB","Hévíz–Balaton Airport","Sármellék","HU",46.6864,17.1591],
+  ["SOC","Adisumarmo International Airport","Surakarta","ID",-7.516,110.7575],
+  ["SOF","Sofia Airport","Sofia","BG",42.6967,23.4114],
+  ["SOJ","Sørkjosen Airport","Sørkjosen","NO",69.7868,20.9594],
+  ["SOM","San Tomé Airport","El Tigre","VE",8.9451,-64.1511],
+  ["SON","Santo Pekoa International Airport","Luganville","VU",-15.505,167.22],
+  ["SOQ","Domine Eduard Osok Airport","Sorong","ID",-0.894,131.287],
+  ["SOU","Southampton Airport","Southampton","GB",50.9503,-1.3568],
+  ["SPC","La Palma Airport","Sta Cruz de la Palma, La Palma Island","ES",28.6265,-17.7556],
+  ["SPD","Saidpur Airport","Saidpur","BD",25.7592,88.9089],
+  ["SPI","Abraham Lincoln Capital Airport","Springfield","US",39.8441,-89.6779],
+  ["SPN","Saipan International Airport","I Fadang, Saipan","MP",15.119,145.729],
+  ["SPP","Menongue Airport","Menongue","AO",-14.6576,17.7198],
+  ["SPR","John Greif II Airport","San Pedro","BZ",17.9139,-87.9711],
+  ["SPS","Sheppard Air Force Base / Wichita Falls Municipal Airport","Wichita Falls","US",33.9888,-98.4919],
+  ["SPU","Split Airport","Split","HR",43.5389,16.298],
+  ["SPX","Sphinx International Airport","Al Jiza","EG",30.1081,30.8893],
+  ["SQD","Shangrao Sanqingshan Airport","Shangrao","CN",28.3797,117.9643],
+  ["SQG","Sintang Airport","Sintang","ID",0.0639,111.4736],
+  ["SQJ","Sanming Shaxian Airport","Sanming","CN",26.4263,117.8336],
+  ["SQO","Storuman Airport","Storuman","SE",64.9609,17.6966],
+  ["SRE","Alcantarí Airport","Yamparaez","BO",-19.2468,-65.1496],
+  ["SRG","Achmad Yani Airport","Semarang","ID",-6.9707,110.3732],
+  ["SRP","Stord Airport, Sørstokken","Leirvik","NO",59.7919,5.3408],
+  ["SRQ","Sarasota Bradenton International Airport","Sarasota/Bradenton","US",27.3954,-82.5544],
+  ["SRT","Soroti Airport","Soroti","UG",1.7277,33.6228],
+  ["SRX","Sirt International Airport / Ghardabiya Airbase","Sirt","LY",31.0635,16.595],
+  ["SRY","Sari Dasht-e Naz International Airport","Sari","IR",36.6444,53.1888],
+  ["SRZ","El Trompillo Airport","Santa Cruz","BO",-17.8116,-63.1715],
+  ["SSA","Deputado Luiz Eduardo Magalhães International Airport","Salvador","BR",-12.9086,-38.3225],
+  ["SSG","Malabo Airport","Malabo","GQ",3.7553,8.7087],
+  ["SSH","Sharm El Sheikh International Airport","Sharm El Sheikh","EG",27.9773,34.3947],
+  ["SSJ","Sandnessjøen Airport, Stokka","Alstahaug","NO",65.9568,12.4689],
+  ["SST","Santa Teresita Airport","Santa Teresita","AR",-36.5423,-56.7218],
+  ["SSY","Mbanza Congo Airport","Mbanza Congo","AO",-6.2699,14.247],
+  ["STC","Saint Cloud Regional Airport","Saint Cloud","US",45.5466,-94.0599],
+  ["STD","Mayor Buenaventura Vivas International Airport","Santo Domingo","VE",7.5654,-72.0351],
+  ["STG","St George Airport","St George","US",56.5773,-169.6638],
+  ["STI","Cibao International Airport","Santiago","DO",19.4061,-70.6047],
+  ["STL","St Louis Lambert International Airport","St Louis","US",38.7487,-90.37],
+  ["STM","Santarém - Maestro Wilson Fonseca International Airport","Santarém","BR",-2.4224,-54.7931],
+  ["STN","London Stansted Airport","London","GB",51.885,0.235],
+  ["STR","Stuttgart Airport","Stuttgart","DE",48.6899,9.222],
+  ["STS","Charles M. Schulz Sonoma County Airport","Santa Rosa","US",38.509,-122.813],
+  ["STT","Cyril E. King Airport","Charlotte Amalie","VI",18.3371,-64.9773],
+  ["STV","Surat Airport","Surat Airport","IN",21.1141,72.7418],
+  ["STW","Stavropol Shpakovskoye Airport","Stavropol","RU",45.1092,42.1128],
+  ["STX","Henry E Rohlsen Airport","Christiansted","VI",17.7019,-64.7986],
+  ["SUB","Juanda International Airport","Surabaya","ID",-7.3798,112.787],
+  ["SUF","Lamezia Terme Airport","Lamezia Terme","IT",38.9054,16.2423],
+  ["SUG","Surigao Airport","Surigao City","PH",9.7558,125.4809],
+  ["SUI","Sukhumi Babushara /  Vladislav Ardzinba International Airport","Sukhumi","GE",42.8582,41.1281],
+  ["SUJ","Satu Mare Airport","Satu Mare","RO",47.7033,22.8857],
+  ["SUN","Friedman Memorial Airport","Hailey","US",43.5044,-114.296],
+  ["SUV","Nausori International Airport","Nausori","FJ",-18.0433,178.559],
+  ["SUX","Sioux Gateway Airport / Brigadier General Bud Day Field","Sioux City","US",42.3976,-96.3822],
+  ["SVB","Sambava Airport","Sambava","MG",-14.2786,50.1747],
+  ["SVD","Argyle International Airport","Kingstown","VC",13.1567,-61.1499],
+  ["SVG","Stavanger Airport, Sola","Stavanger","NO",58.8767,5.6378],
+  ["SVI","Eduardo Falla Solano Airport","San Vicente Del Caguán","CO",2.1522,-74.7663],
+  ["SVJ","Svolvær Airport, Helle","Svolvær","NO",68.2433,14.6692],
+  ["SVL","Savonlinna Airport","Savonlinna","FI",61.9431,28.9451],
+  ["SVO","Sheremetyevo International Airport","Moscow","RU",55.9726,37.4146],
+  ["SVQ","Sevilla Airport","Sevilla","ES",37.418,-5.8931],
+  ["SVX","Koltsovo Airport","Yekaterinburg","RU",56.7431,60.8027],
+  ["SVZ","San Antonio Del Tachira Airport","San Antonio Del Tachira Airport","VE",7.8408,-72.4397],
+  ["SWA","Jieyang Chaoshan International Airport","Jieyang","CN",23.552,116.5033],
+  ["SWF","New York Stewart International Airport","Newburgh","US",41.5041,-74.1048],
+  ["SXB","Strasbourg Airport","Strasbourg","FR",48.5383,7.6282],
+  ["SXM","Princess Juliana International Airport","Saint Martin","SX",18.041,-63.1089],
+  ["SXR","Sheikh ul Alam International Airport","Srinagar","IN",33.9871,74.7742],
+  ["SYD","Sydney Kingsford Smith International Airport","Sydney","AU",-33.9461,151.177],
+  ["SYO","Shonai Airport","Shonai","JP",38.8122,139.787],
+  ["SYQ","Tobías Bolaños International Airport","San Jose","CR",9.9571,-84.1398],
+  ["SYR","Syracuse Hancock International Airport","Syracuse","US",43.1112,-76.1063],
+  ["SYS","Saskylakh Airport","Saskylakh","RU",71.9279,114.08],
+  ["SYW","Sehwan Sharif Airport","Sehwan Sharif","PK",26.4731,67.7172],
+  ["SYX","Sanya Phoenix International Airport","Sanya","CN",18.3029,109.412],
+  ["SYY","Stornoway Airport","Stornoway, Western Isles","GB",58.2156,-6.3311],
+  ["SYZ","Shiraz Shahid Dastghaib International Airport","Shiraz","IR",29.5392,52.5898],
+  ["SZA","Soyo Airport","Soyo","AO",-6.1411,12.3718],
+  ["SZB","Sultan Abdul Aziz Shah International Airport","Subang","MY",3.1306,101.549],
+  ["SZF","Samsun-Çarşamba Airport","Samsun","TR",41.2545,36.5671],
+  ["SZG","Salzburg Airport","Salzburg","AT",47.7933,13.0043],
+  ["SZX","Shenzhen Bao'an International Airport","Shenzhen","CN",22.6393,113.811],
+  ["SZY","Olsztyn-Mazury Airport","Olsztyn","PL",53.4819,20.9377],
+  ["SZZ","Szczecin-Goleniów \"Solidarność\" Airport","Goleniow","PL",53.5847,14.9022],
+  ["TAB","Tobago-Crown Point Airport","Scarborough","TT",11.1497,-60.8322],
+  ["TAC","Daniel Z. Romualdez Airport","Tacloban City","PH",11.2278,125.0278],
+  ["TAE","Daegu Airport","Daegu","KR",35.8969,128.6553],
+  ["TAG","Bohol-Panglao International Airport","Panglao","PH",9.573,123.7701],
+  ["TAH","Tanna Airport","Tanna Airport","VU",-19.4551,169.224],
+  ["TAI","Ta'izz International Airport","Ta'izz","YE",13.686,44.1391],
+  ["TAK","Takamatsu Airport","Takamatsu","JP",34.2142,134.016],
+  ["TAM","General Francisco Javier Mina International Airport","Tampico","MX",22.2964,-97.8659],
+  ["TAO","Qingdao Jiaodong International Airport","Jiaozhou, Qingdao","CN",36.362,120.0882],
+  ["TAP","Tapachula International Airport","Tapachula","MX",14.7943,-92.37],
+  ["TAS","Tashkent International Airport","Tashkent","UZ",41.2579,69.2812],
+  ["TAT","Poprad-Tatry Airport","Poprad","SK",49.0736,20.2411],
+  ["TAY","Tartu Airport","Tartu","EE",58.3075,26.6904],
+  ["TAZ","Daşoguz Airport","Daşoguz","TM",41.7599,59.8361],
+  ["TBB","Dong Tac Airport","Tuy Hoa","VN",13.0496,109.334],
+  ["TBH","Tugdan Airport","Tablas Island","PH",12.311,122.085],
+  ["TBI","New Bight Airport","Cat Island","BS",24.3153,-75.4523],
+  ["TBJ","Tabarka-Aïn Draham International Airport","Tabarka","TN",36.98,8.8769],
+  ["TBN","Waynesville-St. Robert Regional Airport-Forney Field","Fort Leonard Wood","US",37.7416,-92.1407],
+  ["TBP","Captain Pedro Canga Rodríguez International Airport","Tumbes","PE",-3.5521,-80.3811],
+  ["TBS","Tbilisi International Airport","Tbilisi","GE",41.6692,44.9547],
+  ["TBT","Tabatinga Airport","Tabatinga","BR",-4.2557,-69.9358],
+  ["TBU","Fua'amotu International Airport","Nuku'alofa","TO",-21.2412,-175.15],
+  ["TBZ","Tabriz International Airport","Tabriz","IR",38.1339,46.235],
+  ["TCA","Tennant Creek Airport","Tennant Creek","AU",-19.6344,134.183],
+  ["TCB","Treasure Cay Airport","Treasure Cay","BS",26.7453,-77.3913],
+  ["TCO","La Florida Airport","Tumaco","CO",1.8144,-78.7492],
+  ["TCP","Taba International Airport","Taba","EG",29.5945,34.7758],
+  ["TCQ","Coronel FAP Carlos Ciriani Santa Rosa International Airport","Tacna","PE",-18.0533,-70.2758],
+  ["TCZ","Tengchong Tuofeng Airport","Baoshan","CN",24.9381,98.4858],
+  ["TDG","Tandag Airport","Tandag","PH",9.072,126.1713],
+  ["TDX","Trat Airport","Laem Ngop","TH",12.2746,102.319],
+  ["TEE","Cheikh Larbi Tébessi Airport","Tébessi","DZ",35.4316,8.1207],
+  ["TEN","Tongren Fenghuang Airport","Tongren","CN",27.8833,109.3089],
+  ["TEQ","Tekirdağ Çorlu Airport","Çorlu","TR",41.1382,27.9191],
+  ["TER","Lajes Airport","Praia da Vitória","PT",38.7618,-27.0908],
+  ["TET","Chingozi Airport","Tete","MZ",-16.1048,33.6402],
+  ["TEZ","Tezpur Airport","Tezpur Airport","IN",26.7091,92.7847],
+  ["TFF","Tefé Airport","Tefé","BR",-3.3829,-64.7241],
+  ["TFN","Tenerife Norte-Ciudad de La Laguna Airport","Tenerife","ES",28.4827,-16.3415],
+  ["TFS","Tenerife Sur Airport","Tenerife","ES",28.0445,-16.5725],
+  ["TFU","Chengdu Tianfu International Airport","Chengdu","CN",30.3125,104.4413],
+  ["TGD","Podgorica Airport / Podgorica Golubovci Airbase","Podgorica","ME",42.3594,19.2519],
+  ["TGG","Sultan Mahmud Airport","Kuala Terengganu","MY",5.3826,103.103],
+  ["TGJ","Tiga Airport","Tiga","NC",-21.0961,167.804],
+  ["TGK","Taganrog Yuzhny Airport","Taganrog","RU",47.1983,38.8492],
+  ["TGM","Transilvania Târgu Mureş International Airport","Târgu Mureş","RO",46.4677,24.4125],
+  ["TGO","Tongliao Airport","Tongliao","CN",43.5567,122.2],
+  ["TGR","Touggourt Sidi Madhi Airport","Touggourt","DZ",33.0678,6.0887],
+  ["TGT","Tanga Airport","Tanga","TZ",-5.0924,39.0712],
+  ["TGU","Toncontín International Airport","Tegucigalpa","HN",14.0609,-87.2172],
+  ["TGZ","Angel Albino Corzo International Airport","Tuxtla Gutiérrez","MX",16.5636,-93.0225],
+  ["THE","Senador Petrônio Portela Airport","Teresina","BR",-5.0602,-42.8237],
+  ["THG","Thangool Airport","Biloela","AU",-24.4949,150.578],
+  ["THL","Tachileik Airport","Tachileik","MM",20.4838,99.9354],
+  ["THN","Trollhättan-Vänersborg Airport","Trollhättan","SE",58.3181,12.345],
+  ["THQ","Tianshui Maijishan Airport","Tianshui","CN",34.5594,105.86],
+  ["THR","Mehrabad International Airport","Tehran","IR",35.6892,51.3134],
+  ["THS","Sukhothai Airport","Sukhothai Airport","TH",17.238,99.8182],
+  ["THU","Thule Air Base","Pituffik","GL",76.5312,-68.7032],
+  ["TIA","Tirana International Airport Mother Teresa","Tirana","AL",41.4147,19.7206],
+  ["TIF","Ta’if Regional Airport","Ta’if","SA",21.483,40.5434],
+  ["TIH","Tikehau Airport","Tikehau Airport","PF",-15.1196,-148.231],
+  ["TIJ","Aeropuerto Internacional Gral. Abelardo Rodriguez","Ciudad de Tijuana","MX",32.546,-116.9759],
+  ["TIM","Mozes Kilangin Airport","Timika","ID",-4.5298,136.8874],
+  ["TIN","Tindouf Airport","Tindouf","DZ",27.7004,-8.1671],
+  ["TIU","Timaru Airport","Timaru Airport","NZ",-44.3028,171.225],
+  ["TIV","Tivat Airport","Tivat","ME",42.4047,18.7233],
+  ["TJA","Capitan Oriel Lea Plaza Airport","Tarija","BO",-21.5557,-64.7013],
+  ["TJG","Warukin Airport","Tanta-Tabalong","ID",-2.2166,115.436],
+  ["TJK","Tokat Airport","Tokat","TR",40.3074,36.3674],
+  ["TJM","Roshchino International Airport","Tyumen","RU",57.1896,65.3243],
+  ["TJU","Kulob Airport","Kulyab","TJ",37.9881,69.805],
+  ["TKD","Takoradi Airport","Sekondi-Takoradi","GH",4.8961,-1.7748],
+  ["TKG","Radin Inten II International Airport","Bandar Lampung","ID",-5.2468,105.1825],
+  ["TKK","Chuuk International Airport","Weno Island","FM",7.4619,151.843],
+  ["TKN","Tokunoshima Airport","Amagi","JP",27.8364,128.881],
+  ["TKP","Takapoto Airport","Takapoto Airport","PF",-14.7095,-145.246],
+  ["TKS","Tokushima Awaodori Airport / JMSDF Tokushima Air Base","Tokushima","JP",34.1328,134.607],
+  ["TKU","Turku Airport","Turku","FI",60.5141,22.2628],
+  ["TKX","Takaroa Airport","Takaroa Airport","PF",-14.4558,-145.025],
+  ["TLC","Aeropuerto Internacional Adolfo López Mateos","Ciudad de Toluca","MX",19.3382,-99.5704],
+  ["TLE","Toliara Airport","Toliara","MG",-23.3834,43.7285],
+  ["TLH","Tallahassee Regional Airport","Tallahassee","US",30.3965,-84.3503],
+  ["TLL","Lennart Meri Tallinn Airport","Tallinn","EE",59.4133,24.8328],
+  ["TLM","Zenata – Messali El Hadj Airport","Zenata","DZ",35.0134,-1.4572],
+  ["TLN","Toulon-Hyères Airport","Toulon/Hyères/Le Palyvestre","FR",43.0973,6.146],
+  ["TLQ","Turpan Jiaohe Airport","Turpan","CN",43.0308,89.0987],
+  ["TLS","Toulouse-Blagnac Airport","Toulouse/Blagnac","FR",43.6291,1.3638],
+  ["TLV","Ben Gurion International Airport","Tel Aviv","IL",32.0114,34.8867],
+  ["TME","Gustavo Vargas Airport","Tame","CO",6.4511,-71.7603],
+  ["TMH","Tanah Merah Airport","Tanah Merah","ID",-6.0967,140.3035],
+  ["TMJ","Termez Airport","Termez","UZ",37.2873,67.3119],
+  ["TML","Tamale Airport","Tamale","GH",9.5572,-0.8632],
+  ["TMM","Toamasina Ambalamanasy Airport","Toamasina","MG",-18.1095,49.3925],
+  ["TMP","Tampere-Pirkkala Airport","Tampere / Pirkkala","FI",61.4141,23.6044],
+  ["TMR","Aguenar – Hadj Bey Akhamok Airport","Tamanrasset","DZ",22.8115,5.4511],
+  ["TMS","São Tomé International Airport","São Tomé","ST",0.3782,6.7122],
+  ["TMT","Trombetas Airport","Oriximiná","BR",-1.4896,-56.3968],
+  ["TMW","Tamworth Airport","Tamworth","AU",-31.0779,150.8455],
+  ["TMX","Timimoun Airport","Timimoun","DZ",29.2371,0.276],
+  ["TNA","Jinan Yaoqiang International Airport","Jinan","CN",36.8572,117.216],
+  ["TND","Alberto Delgado Airport","Trinidad","CU",21.7883,-79.9972],
+  ["TNE","New Tanegashima Airport","Tanegashima","JP",30.6051,130.991],
+  ["TNG","Tangier Ibn Battuta Airport","Tangier","MA",35.7317,-5.9215],
+  ["TNH","Tonghua Sanyuanpu Airport","Tonghua","CN",42.2539,125.7033],
+  ["TNN","Tainan International Airport / Tainan Air Base","Tainan","TW",22.9504,120.206],
+  ["TNR","Ivato Airport","Antananarivo","MG",-18.7969,47.4788],
+  ["TOD","Tioman Airport","Tioman Island","MY",2.8182,104.16],
+  ["TOE","Tozeur Nefta International Airport","Tozeur","TN",33.9397,8.1106],
+  ["TOF","Bogashevo Airport","Tomsk","RU",56.3803,85.2083],
+  ["TOL","Eugene F. Kranz Toledo Express Airport","Toledo","US",41.5868,-83.8078],
+  ["TOM","Timbuktu Airport","Timbuktu","ML",16.7305,-3.0076],
+  ["TOS","Tromsø Airport, Langnes","Tromsø","NO",69.6833,18.9189],
+  ["TOU","Touho Airport","Touho","NC",-20.7901,165.2595],
+  ["TOY","Toyama Airport","Toyama","JP",36.6483,137.188],
+  ["TPA","Tampa International Airport","Tampa","US",27.9755,-82.5332],
+  ["TPE","Taiwan Taoyuan International Airport","Taoyuan","TW",25.0777,121.233],
+  ["TPJ","Taplejung Airport","Taplejung","NP",27.3509,87.6953],
+  ["TPP","Cadete FAP Guillermo Del Castillo Paredes Airport","Tarapoto","PE",-6.5087,-76.3732],
+  ["TPQ","Amado Nervo National Airport","Tepic","MX",21.4198,-104.8425],
+  ["TPS","Vincenzo Florio Airport Trapani-Birgi","Trapani","IT",37.9114,12.488],
+  ["TRA","Tarama Airport","Tarama","JP",24.6539,124.675],
+  ["TRC","Francisco Sarabia Tinoco International Airport","Torreón","MX",25.5683,-103.411],
+  ["TRD","Trondheim Airport, Værnes","Trondheim","NO",63.4578,10.924],
+  ["TRE","Tiree Airport","Balemartine","GB",56.4992,-6.8692],
+  ["TRF","Sandefjord Airport, Torp","Torp","NO",59.1867,10.2586],
+  ["TRG","Tauranga Airport","Tauranga","NZ",-37.6719,176.196],
+  ["TRI","Tri-Cities Regional TN/VA Airport","Blountville","US",36.4752,-82.4074],
+  ["TRK","Juwata International Airport / Suharnoko Harbani AFB","Tarakan","ID",3.3251,117.5642],
+  ["TRN","Turin Airport","Torino","IT",45.2008,7.6496],
+  ["TRO","Taree Airport","Taree","AU",-31.8886,152.514],
+  ["TRR","China Bay Airport","Trincomalee","LK",8.5385,81.1819],
+  ["TRS","Trieste–Friuli Venezia Giulia Airport","Trieste","IT",45.8275,13.4722],
+  ["TRT","Toraja Airport","Toraja","ID",-3.1858,119.9177],
+  ["TRU","Capitan FAP Carlos Martinez De Pinillos International Airport","Trujillo","PE",-8.0814,-79.1088],
+  ["TRV","Trivandrum International Airport","Thiruvananthapuram","IN",8.4821,76.9201],
+  ["TRW","Bonriki International Airport","Tarawa","KI",1.3816,173.147],
+  ["TRZ","Tiruchirappalli International Airport","Tiruchirappalli","IN",10.7662,78.7177],
+  ["TSA","Taipei Songshan Airport","Taipei City","TW",25.0694,121.552],
+  ["TSF","Treviso-Sant'Angelo Airport","Treviso","IT",45.6484,12.1944],
+  ["TSJ","Tsushima Airport","Tsushima","JP",34.2849,129.331],
+  ["TSN","Tianjin Binhai International Airport","Tianjin","CN",39.1244,117.346],
+  ["TSR","Timişoara Traian Vuia Airport","Timişoara","RO",45.8099,21.3379],
+  ["TST","Trang Airport","Trang","TH",7.5087,99.6166],
+  ["TSV","Townsville Airport / RAAF Base Townsville","Townsville","AU",-19.2529,146.7665],
+  ["TTA","Tan Tan Airport","Tan Tan","MA",28.4482,-11.1613],
+  ["TTE","Sultan Babullah Airport","Sango","ID",0.831,127.3816],
+  ["TTG","General Enrique Mosconi Airport","Tartagal","AR",-22.6196,-63.7937],
+  ["TTJ","Tottori Sand Dunes Conan Airport","Tottori","JP",35.5301,134.167],
+  ["TTN","Trenton Mercer Airport","Trenton","US",40.2767,-74.8135],
+  ["TTQ","Aerotortuguero Airport","Roxana","CR",10.42,-83.6095],
+  ["TTT","Taitung Airport","Taitung City","TW",22.755,121.102],
+  ["TTU","Sania Ramel Airport","Tétouan","MA",35.5943,-5.32],
+  ["TUA","Lieutenant Colonel Luis A. Mantilla International Airport","Tulcán","EC",0.8095,-77.7081],
+  ["TUB","Tubuai Airport","Tubuai Airport","PF",-23.3654,-149.524],
+  ["TUC","Teniente Benjamin Matienzo Airport","San Miguel de Tucumán","AR",-26.8409,-65.1049],
+  ["TUD","Tambacounda Airport","Tambacounda","SN",13.7368,-13.6531],
+  ["TUF","Tours-Val-de-Loire Airport","Tours/Val de Loire","FR",47.4322,0.7276],
+  ["TUG","Tuguegarao Airport","Tuguegarao City","PH",17.6434,121.7332],
+  ["TUI","Turaif Domestic Airport","Turaif","SA",31.6922,38.7315],
+  ["TUK","Turbat International Airport","Turbat","PK",25.9864,63.0302],
+  ["TUL","Tulsa International Airport","Tulsa","US",36.1984,-95.8881],
+  ["TUN","Tunis Carthage International Airport","Tunis","TN",36.851,10.2272],
+  ["TUO","Taupo Airport","Taupo","NZ",-38.7397,176.084],
+  ["TUP","Tupelo Regional Airport","Tupelo","US",34.2681,-88.7699],
+  ["TUR","Tucuruí Airport","Tucuruí","BR",-3.786,-49.7203],
+  ["TUS","Tucson International Airport / Morris Air National Guard Base","Tucson","US",32.115,-110.9381],
+  ["TUU","Tabuk Airport","Tabuk","SA",28.3654,36.6189],
+  ["TVC","Cherry Capital Airport","Traverse City","US",44.7414,-85.5822],
+  ["TVY","Dawei Airport","Dawei","MM",14.1039,98.2036],
+  ["TWF","Joslin Field Magic Valley Regional Airport","Twin Falls","US",42.4818,-114.488],
+  ["TWT","Sanga Sanga Airport","Bongao","PH",5.0482,119.7433],
+  ["TWU","Tawau Airport","Tawau","MY",4.3202,118.128],
+  ["TXE","Rembele Airport","Takengon","ID",4.7211,96.8519],
+  ["TXK","Texarkana Regional Airport (Webb Field)","Texarkana","US",33.4537,-93.991],
+  ["TXN","Tunxi International Airport","Huangshan","CN",29.7333,118.256],
+  ["TYF","Torsby Airport","Torsby","SE",60.1576,12.9913],
+  ["TYL","Captain Victor Montes Arias International Airport","Talara","PE",-4.5766,-81.2541],
+  ["TYN","Taiyuan Wusu Airport","Taiyuan","CN",37.7469,112.628],
+  ["TYR","Tyler Pounds Regional Airport","Tyler","US",32.3541,-95.4024],
+  ["TYS","McGhee Tyson Airport","Alcoa","US",35.811,-83.994],
+  ["TZA","Sir Barry Bowen Municipal Airport","Belize City","BZ",17.5172,-88.1958],
+  ["TZL","Tuzla International Airport","Tuzla","BA",44.4587,18.7248],
+  ["TZN","Congo Town Airport","Andros","BS",24.1587,-77.5898],
+  ["TZX","Trabzon International Airport","Trabzon","TR",40.9951,39.7897],
+  ["UAK","Narsarsuaq Airport","Narsarsuaq","GL",61.1605,-45.426],
+  ["UAQ","Domingo Faustino Sarmiento Airport","San Juan","AR",-31.5715,-68.4182],
+  ["UBA","Mário de Almeida Franco Airport","Uberaba","BR",-19.7647,-47.9661],
+  ["UBJ","Yamaguchi Ube Airport","Ube","JP",33.93,131.279],
+  ["UBN","Ulaanbaatar Chinggis Khaan International Airport","Ulaanbaatar","MN",47.6469,106.8198],
+  ["UBP","Ubon Ratchathani Airport","Ubon Ratchathani","TH",15.2513,104.87],
+  ["UCB","Ulanqab Jining Airport","Ulanqab","CN",41.1303,113.1073],
+  ["UCT","Ukhta Airport","Ukhta","RU",63.5669,53.8047],
+  ["UDI","Ten. Cel. Aviador César Bombonato Airport","Uberlândia","BR",-18.8836,-48.2259],
+  ["UDJ","Uzhhorod International Airport","Uzhhorod","UA",48.6343,22.2634],
+  ["UDR","Maharana Pratap Airport","Udaipur","IN",24.6177,73.8961],
+  ["UEL","Quelimane Airport","Quelimane","MZ",-17.8555,36.8691],
+  ["UEO","Kumejima Airport","Kumejima","JP",26.3634,126.7138],
+  ["UET","Quetta International Airport","Quetta","PK",30.2514,66.9378],
+  ["UFA","Ufa International Airport","Ufa","RU",54.5575,55.8744],
+  ["UGA","Bulgan Airport","Bulgan","MN",48.855,103.476],
+  ["UGC","Urgench Airport","Urgench","UZ",41.5843,60.6417],
+  ["UGU","Bilogai-Sugapa Airport","Sugapa","ID",-3.7395,137.0312],
+  ["UIB","El Caraño Airport","Quibdó","CO",5.6908,-76.6412],
+  ["UIH","Phu Cat Airport","Quy Nohn","VN",13.955,109.042],
+  ["UIN","Quincy Regional Baldwin Field","Quincy","US",39.9427,-91.1946],
+  ["UIO","Mariscal Sucre International Airport","Quito","EC",-0.1254,-78.3543],
+  ["UIP","Quimper-Cornouaille Airport","Quimper/Pluguffan","FR",47.975,-4.1678],
+  ["UKB","Kobe Airport","Kobe","JP",34.6328,135.224],
+  ["UKK","Ust-Kamenogorsk Airport","Ust-Kamenogorsk","KZ",50.0366,82.4935],
+  ["UKX","Ust-Kut Airport","Ust-Kut","RU",56.8567,105.73],
+  ["ULA","Capitan D Daniel Vazquez Airport","San Julian","AR",-49.3068,-67.8026],
+  ["ULH","Majeed Bin Abdulaziz Airport","Al Ula","SA",26.48,38.1289],
+  ["ULK","Lensk Airport","Lensk","RU",60.7206,114.826],
+  ["ULP","Quilpie Airport","Quilpie Airport","AU",-26.6122,144.253],
+  ["ULU","Gulu Airport","Gulu","UG",2.8056,32.2718],
+  ["ULV","Ulyanovsk Baratayevka Airport","Ulyanovsk","RU",54.2683,48.2267],
+  ["ULY","Ulyanovsk East Airport","Cherdakly","RU",54.401,48.8027],
+  ["UME","Umeå Airport","Umeå","SE",63.7918,20.2828],
+  ["UNI","Union Island International Airport","Union Island","VC",12.6001,-61.4119],
+  ["UNN","Ranong Airport","Ranong","TH",9.7776,98.5855],
+  ["UPB","Playa Baracoa Airport","Havana","CU",23.0328,-82.5794],
+  ["UPG","Hasanuddin International Airport","Ujung Pandang","ID",-5.0616,119.554],
+  ["UPN","Uruapan - Licenciado y General Ignacio Lopez Rayon International Airport","Uruapan","MX",19.3967,-102.039],
+  ["URA","Uralsk Airport","Uralsk","KZ",51.1508,51.5431],
+  ["URC","Ürümqi Diwopu International Airport","Ürümqi","CN",43.9071,87.4742],
+  ["URE","Kuressaare Airport","Kuressaare","EE",58.2299,22.5095],
+  ["URG","Rubem Berta Airport","Uruguaiana","BR",-29.7822,-57.0382],
+  ["URJ","Uray Airport","Uray","RU",60.1033,64.8267],
+  ["URO","Rouen Vallée de Seine Airport","Boos","FR",49.3867,1.1835],
+  ["URS","Kursk East Airport","Kursk","RU",51.7506,36.2956],
+  ["URT","Surat Thani Airport","Surat Thani","TH",9.1326,99.1356],
+  ["URY","Gurayat Domestic Airport","Gurayat","SA",31.4124,37.2789],
+  ["USA","Concord-Padgett Regional Airport","Concord","US",35.3878,-80.7091],
+  ["USH","Malvinas Argentinas Airport","Ushuaia","AR",-54.8433,-68.2958],
+  ["USK","Usinsk Airport","Usinsk","RU",66.0047,57.3672],
+  ["USM","Samui Airport","Na Thon","TH",9.5478,100.062],
+  ["USN","Ulsan Airport","Ulsan","KR",35.5935,129.352],
+  ["USR","Ust-Nera Airport","Ust-Nera","RU",64.55,143.115],
+  ["UST","Northeast Florida Regional Airport","St Augustine","US",29.9592,-81.3398],
+  ["USU","Francisco B. Reyes (Busuanga) Airport","Coron","PH",12.1219,120.1008],
+  ["UTH","Udon Thani Airport","Udon Thani","TH",17.3864,102.788],
+  ["UTN","Pierre Van Ryneveld Airport","Upington","ZA",-28.3991,21.2602],
+  ["UTP","U-Tapao International Airport","Rayong","TH",12.6799,101.005],
+  ["UTT","K. D. Matanzima Airport","Mthatha","ZA",-31.5464,28.6734],
+  ["UUA","Bugulma Airport","Bugulma","RU",54.6412,52.8002],
+  ["UUD","Baikal International Airport","Ulan Ude","RU",51.8086,107.4397],
+  ["UUS","Yuzhno-Sakhalinsk Airport","Yuzhno-Sakhalinsk","RU",46.8855,142.7175],
+  ["UVE","Ouvéa Airport","Ouvéa","NC",-20.6406,166.573],
+  ["UVF","Hewanorra International Airport","Vieux Fort","LC",13.7332,-60.9526],
+  ["UYL","Nyala Airport","Nyala","SD",12.0535,24.9562],
+  ["VAA","Vaasa Airport","Vaasa","FI",63.0507,21.7622],
+  ["VAI","Vanimo Airport","Vanimo","PG",-2.6926,141.3028],
+  ["VAM","Villa Airport","Maamigili","MV",3.4706,72.8358],
+  ["VAN","Van Ferit Melen Airport","Van","TR",38.4682,43.3323],
+  ["VAR","Varna Airport","Varna","BG",43.2321,27.8251],
+  ["VAV","Vava'u International Airport","Vava'u Island","TO",-18.5853,-173.962],
+  ["VAW","Vardø Airport, Svartnes","Vardø","NO",70.3554,31.0449],
+  ["VBS","Brescia Airport","Montichiari","IT",45.4289,10.3306],
+  ["VBY","Visby Airport","Visby","SE",57.6628,18.3462],
+  ["VCA","Can Tho International Airport","Can Tho","VN",10.0851,105.712],
+  ["VCE","Venice Marco Polo Airport","Venice","IT",45.5053,12.3519],
+  ["VCP","Viracopos International Airport","Campinas","BR",-23.0074,-47.1345],
+  ["VCS","Con Dao Airport","Con Dao","VN",8.7318,106.633],
+  ["VCT","Victoria Regional Airport","Victoria","US",28.8526,-96.9185],
+  ["VDC","Glauber de Andrade Rocha Airport","Vitória da Conquista","BR",-14.9079,-40.9148],
+  ["VDE","El Hierro Airport","El Hierro Island","ES",27.8148,-17.8871],
+  ["VDH","Dong Hoi Airport","Dong Hoi","VN",17.515,106.5906],
+  ["VDM","Gobernador Castello Airport","Viedma / Carmen de Patagones","AR",-40.8692,-63.0004],
+  ["VDO","Van Don International Airport","Van Don","VN",21.1207,107.4154],
+  ["VDS","Vadsø Airport","Vadsø","NO",70.0653,29.8447],
+  ["VEL","Vernal Regional Airport","Vernal","US",40.4409,-109.51],
+  ["VER","General Heriberto Jara International Airport","Veracruz","MX",19.1459,-96.1873],
+  ["VFA","Victoria Falls International Airport","Victoria Falls","ZW",-18.0959,25.839],
+  ["VGA","Vijayawada Airport","Gannavaram","IN",16.5304,80.7968],
+  ["VGO","Vigo Airport","Vigo","ES",42.2318,-8.6268],
+  ["VHM","Vilhelmina South Lapland Airport","Vilhelmina","SE",64.5791,16.8336],
+  ["VIE","Vienna International Airport","Vienna","AT",48.1103,16.5697],
+  ["VIG","Juan Pablo Pérez Alfonso Airport","El Vigía","VE",8.6241,-71.6727],
+  ["VII","Vinh Airport","Vinh","VN",18.7376,105.671],
+  ["VIL","Dakhla Airport","Dakhla","EH",23.7183,-15.932],
+  ["VIT","Vitoria Airport","Alava","ES",42.8828,-2.7245],
+  ["VIX","Eurico de Aguiar Salles Airport","Vitória","BR",-20.258,-40.285],
+  ["VKG","Rach Gia Airport","Rach Gia","VN",9.958,105.1324],
+  ["VKO","Vnukovo International Airport","Moscow","RU",55.5915,37.2615],
+  ["VKT","Vorkuta Airport","Vorkuta","RU",67.4886,63.9931],
+  ["VLC","Valencia Airport","Valencia","ES",39.4893,-0.4816],
+  ["VLD","Valdosta Regional Airport","Valdosta","US",30.7825,-83.2767],
+  ["VLI","Bauerfield International Airport","Port Vila","VU",-17.6993,168.32],
+  ["VLL","Valladolid Airport","Valladolid","ES",41.7061,-4.8519],
+  ["VLN","Arturo Michelena International Airport","Valencia","VE",10.1497,-67.9284],
+  ["VLV","Dr. Antonio Nicolás Briceño Airport","Valera","VE",9.3405,-70.5841],
+  ["VLY","Anglesey Airport","Angelsey","GB",53.2481,-4.5353],
+  ["VMU","Baimuru Airport","Baimuru","PG",-7.4969,144.8199],
+  ["VNO","Vilnius International Airport","Vilnius","LT",54.6341,25.2858],
+  ["VNS","Lal Bahadur Shastri Airport","Varanasi","IN",25.4521,82.8618],
+  ["VNT","Ventspils International Airport","Ventspils","LV",57.3578,21.5442],
+  ["VNX","Vilankulo Airport","Vilanculo","MZ",-22.0184,35.3133],
+  ["VOG","Volgograd International Airport","Volgograd","RU",48.7825,44.3455],
+  ["VOH","Vohemar Airport","Vohemar","MG",-13.3758,50.0028],
+  ["VOL","Nea Anchialos National Airport","Nea Anchialos","GR",39.2196,22.7943],
+  ["VOZ","Voronezh International Airport","Voronezh","RU",51.8142,39.2296],
+  ["VPE","Ngjiva Pereira Airport","Ngiva","AO",-17.0435,15.6838],
+  ["VPS","Destin-Fort Walton Beach Airport","Valparaiso","US",30.4832,-86.5254],
+  ["VPY","Chimoio Airport","Chimoio","MZ",-19.1513,33.429],
+  ["VRA","Juan Gualberto Gomez International Airport","Matanzas","CU",23.0344,-81.4353],
+  ["VRC","Virac Airport","Virac","PH",13.5764,124.206],
+  ["VRK","Varkaus Airport","Varkaus / Joroinen","FI",62.1711,27.8686],
+  ["VRL","Vila Real Airport","Vila Real","PT",41.2743,-7.7205],
+  ["VRN","Verona-Villafranca Valerio Catullo Airport","Villafranca di Verona","IT",45.395,10.8873],
+  ["VSA","Carlos Rovirosa Pérez International Airport","Villahermosa","MX",17.997,-92.8174],
+  ["VSE","Aerodromo Goncalves Lobato (Viseu Airport)","Viseu","PT",40.7255,-7.889],
+  ["VST","Stockholm Västerås Airport","Stockholm / Västerås","SE",59.5894,16.6336],
+  ["VTE","Wattay International Airport","Vientiane","LA",17.9883,102.563],
+  ["VTU","Hermanos Ameijeiras Airport","Las Tunas","CU",20.9876,-76.9358],
+  ["VTZ","Visakhapatnam Airport / INS Dega","Visakhapatnam","IN",17.7235,83.2277],
+  ["VUP","Alfonso López Pumarejo Airport","Valledupar","CO",10.435,-73.2495],
+  ["VVC","Vanguardia Airport","Villavicencio","CO",4.1679,-73.6138],
+  ["VVI","Viru Viru International Airport","Santa Cruz","BO",-17.6448,-63.1354],
+  ["VVO","Vladivostok International Airport","Artyom","RU",43.3963,132.1482],
+  ["VVZ","Illizi Takhamalt Airport","Illizi","DZ",26.7235,8.6227],
+  ["VXC","Lichinga Airport","Lichinga","MZ",-13.274,35.2663],
+  ["VXE","São Pedro Airport","São Pedro","CV",16.8332,-25.0553],
+  ["VXO","Växjö Kronoberg Airport","Växjö","SE",56.9291,14.728],
+  ["VYI","Vilyuisk Airport","Vilyuisk","RU",63.7567,121.6933],
+  ["WAE","Wadi Al Dawasir Domestic Airport","Wadi Al Dawasir","SA",20.5043,45.1996],
+  ["WAG","Wanganui Airport","Wanganui","NZ",-39.9622,175.025],
+  ["WAI","Ambalabe Airport","Antsohihy","MG",-14.8988,47.9939],
+  ["WAT","Waterford Airport","Waterford","IE",52.1872,-7.087],
+  ["WAW","Warsaw Chopin Airport","Warsaw","PL",52.1657,20.9671],
+  ["WBM","Wapenamanda Airport","Wapenamanda","PG",-5.6353,143.8922],
+  ["WDH","Hosea Kutako International Airport","Windhoek","NA",-22.4799,17.4709],
+  ["WDS","Shiyan Wudangshan Airport","Shiyan","CN",32.5929,110.9063],
+  ["WEF","Weifang Nanyuan Airport","Weifang","CN",36.6467,119.119],
+  ["WEH","Weihai Dashuibo Airport","Weihai","CN",37.1871,122.229],
+  ["WEI","Weipa Airport","Weipa","AU",-12.6775,141.9226],
+  ["WFI","Fianarantsoa Airport","Fianarantsoa","MG",-21.4416,47.1117],
+  ["WGA","Wagga Wagga City Airport","Wagga Wagga","AU",-35.1635,147.4683],
+  ["WGN","Shaoyang Wugang Airport","Shaoyang","CN",26.8061,110.641],
+  ["WHK","Whakatane Airport","Whakatane Airport","NZ",-37.9206,176.914],
+  ["WIC","Wick Airport","Wick","GB",58.4589,-3.0931],
+  ["WIL","Nairobi Wilson Airport","Nairobi","KE",-1.3217,36.8148],
+  ["WIN","Winton Airport","Winton Airport","AU",-22.3636,143.086],
+  ["WJR","Wajir Airport","Wajir","KE",1.7332,40.0916],
+  ["WJU","Wonju Airport / Hoengseong Air Base (K-38/K-46)","Wonju","KR",37.4371,127.9601],
+  ["WKA","Wanaka Airport","Wanaka","NZ",-44.723,169.2484],
+  ["WKJ","Wakkanai Airport","Wakkanai","JP",45.4042,141.801],
+  ["WKK","Aleknagik / New Airport","Aleknagik","US",59.2826,-158.618],
+  ["WLG","Wellington International Airport","Wellington","NZ",-41.3272,174.805],
+  ["WLS","Hihifo Airport","Wallis Island","WF",-13.2383,-176.199],
+  ["WMI","Modlin Airport","Warsaw","PL",52.4511,20.6518],
+  ["WMN","Maroantsetra Airport","Maroantsetra","MG",-15.4377,49.6891],
+  ["WMR","Mananara Nord Airport","Mananara Nord","MG",-16.1639,49.7738],
+  ["WMT","Zunyi Maotai Airport","Zunyi","CN",27.8164,106.3327],
+  ["WMX","Wamena Airport","Wamena","ID",-4.0973,138.9524],
+  ["WNI","Matahora Airport","Wangi-wangi Island","ID",-5.294,123.634],
+  ["WNP","Naga Airport","Naga","PH",13.5849,123.27],
+  ["WNR","Windorah Airport","Windorah Airport","AU",-25.4131,142.667],
+  ["WNS","Shaheed Benazirabad Airport","Nawabashah","PK",26.2194,68.3901],
+  ["WNZ","Wenzhou Longwan International Airport","Wenzhou","CN",27.9122,120.852],
+  ["WOL","Shellharbour Airport","Albion Park Rail","AU",-34.5611,150.789],
+  ["WOS","Wonsan Kalma International Airport","Wonsan","KP",39.1668,127.486],
+  ["WRE","Whangarei Airport","Whangarei","NZ",-35.7693,174.3637],
+  ["WRG","Wrangell Airport","Wrangell","US",56.4843,-132.37],
+  ["WRO","Copernicus Wrocław Airport","Wrocław","PL",51.1027,16.8858],
+  ["WSZ","Westport Airport","Westport","NZ",-41.7371,171.579],
+  ["WTB","Toowoomba Wellcamp Airport","Toowoomba","AU",-27.5583,151.7933],
+  ["WUH","Wuhan Tianhe International Airport","Wuhan","CN",30.7748,114.2137],
+  ["WUN","Wiluna Airport","Wiluna Airport","AU",-26.6292,120.221],
+  ["WUS","Nanping Wuyishan Airport","Wuyishan","CN",27.7019,118.001],
+  ["WUU","Wau Airport","Wau","SS",7.7258,27.975],
+  ["WUX","Sunan Shuofang International Airport","Wuxi","CN",31.4944,120.429],
+  ["WUZ","Wuzhou Xijiang Airport","Tangbu","CN",23.4032,111.0933],
+  ["WVB","Walvis Bay Airport","Walvis Bay","NA",-22.9799,14.6453],
+  ["WVK","Manakara Airport","Manakara","MG",-22.1197,48.0217],
+  ["WWK","Wewak International Airport","Wewak","PG",-3.5838,143.669],
+  ["WYA","Whyalla Airport","Whyalla","AU",-33.0589,137.514],
+  ["WYE","Yengema Airport","Yengema","SL",8.6105,-11.0454],
+  ["XAI","Xinyang Minggang Airport","Xinyang","CN",32.5408,114.0791],
+  ["XAP","Serafin Enoss Bertaso Airport","Chapecó","BR",-27.1342,-52.6566],
+  ["XBJ","Birjand International Airport","Birjand","IR",32.8965,59.2813],
+  ["XCH","Christmas Island Airport","Flying Fish Cove","CX",-10.4494,105.6909],
+  ["XCR","Châlons-Vatry Airport","Vatry","FR",48.7733,4.2061],
+  ["XFN","Xiangyang Liuji Airport","Xiangyang","CN",32.1522,112.2917],
+  ["XGR","Kangiqsualujjuaq (Georges River) Airport","Kangiqsualujjuaq","CA",58.7114,-65.9928],
+  ["XIC","Xichang Qingshan Airport","Liangshan","CN",27.9891,102.184],
+  ["XIL","Xilinhot Airport","Xilinhot","CN",43.9156,115.964],
+  ["XIY","Xi'an Xianyang International Airport","Xianyang","CN",34.4471,108.752],
+  ["XKS","Kasabonika Airport","Kasabonika","CA",53.5247,-88.6428],
+  ["XLS","Saint Louis Airport","Saint Louis","SN",16.0498,-16.461],
+  ["XMH","Manihi Airport","Manihi Airport","PF",-14.4368,-146.07],
+  ["XMN","Xiamen Gaoqi International Airport","Xiamen","CN",24.544,118.128],
+  ["XMS","Coronel E Carvajal Airport","Macas","EC",-2.2992,-78.1208],
+  ["XNA","Northwest Arkansas Regional Airport","Fayetteville/Springdale/Rogers","US",36.2819,-94.3068],
+  ["XNN","Xining Caojiabao International Airport","Haidong","CN",36.5283,102.0402],
+  ["XPL","Palmerola International Airport / José Enrique Soto Cano Air Base","Palmerola","HN",14.3824,-87.6212],
+  ["XQP","Quepos Managua Airport","Quepos","CR",9.4432,-84.1298],
+  ["XRY","Jerez Airport","Jerez de la Frontera","ES",36.7446,-6.0601],
+  ["XSC","South Caicos Airport","South Caicos","TC",21.5157,-71.5285],
+  ["XSP","Seletar Airport","Seletar","SG",1.4156,103.8667],
+  ["XTG","Thargomindah Airport","Thargomindah","AU",-27.9864,143.8121],
+  ["XTL","Tadoule Lake Airport","Tadoule Lake","CA",58.7061,-98.5122],
+  ["XUZ","Xuzhou Guanyin International Airport","Xuzhou","CN",34.0591,117.5553],
+  ["XWA","Williston Basin International Airport","Williston","US",48.2584,-103.7488],
+  ["YAA","Anahim Lake Airport","Anahim Lake","CA",52.4515,-125.3038],
+  ["YAC","Cat Lake Airport","Cat Lake","CA",51.7272,-91.8244],
+  ["YAG","Fort Frances Municipal Airport","Fort Frances","CA",48.6557,-93.4435],
+  ["YAK","Yakutat Airport","Yakutat","US",59.5087,-139.6604],
+  ["YAL","Alert Bay Airport","Alert Bay","CA",50.5822,-126.916],
+  ["YAM","Sault Ste Marie Airport","Sault Ste Marie","CA",46.485,-84.5094],
+  ["YAO","Yaoundé Airport","Yaoundé","CM",3.836,11.5235],
+  ["YAP","Yap International Airport","Yap Island","FM",9.4989,138.083],
+  ["YAT","Attawapiskat Airport","Attawapiskat","CA",52.9275,-82.4319],
+  ["YAY","St. Anthony Airport","St. Anthony","CA",51.3919,-56.0832],
+  ["YAZ","Tofino / Long Beach Airport","Tofino","CA",49.0798,-125.7756],
+  ["YBB","Kugaaruk Airport","Kugaaruk","CA",68.5344,-89.8081],
+  ["YBC","Baie-Comeau Airport","Baie-Comeau","CA",49.1325,-68.2044],
+  ["YBE","Uranium City Airport","Uranium City","CA",59.5614,-108.481],
+  ["YBG","CFB Bagotville","Bagotville","CA",48.3306,-70.9964],
+  ["YBK","Baker Lake Airport","Baker Lake","CA",64.2989,-96.0778],
+  ["YBL","Campbell River Airport","Campbell River","CA",49.9508,-125.271],
+  ["YBP","Yibin Wuliangye Airport","Yibin","CN",28.8584,104.5262],
+  ["YBR","Brandon Municipal Airport","Brandon","CA",49.91,-99.9519],
+  ["YBT","Brochet Airport","Brochet","CA",57.8894,-101.679],
+  ["YBV","Berens River Airport","Berens River","CA",52.3589,-97.0183],
+  ["YBX","Lourdes-de-Blanc-Sablon Airport","Blanc-Sablon","CA",51.4436,-57.1853],
+  ["YBY","Bonnyville Airport","Bonnyville","CA",54.3042,-110.744],
+  ["YCB","Cambridge Bay Airport","Cambridge Bay","CA",69.1081,-105.138],
+  ["YCD","Nanaimo Airport","Nanaimo","CA",49.055,-123.8699],
+  ["YCG","Castlegar/West Kootenay Regional Airport","Castlegar","CA",49.2964,-117.632],
+  ["YCH","Miramichi Airport","Miramichi","CA",47.0078,-65.4492],
+  ["YCL","Charlo Airport","Charlo","CA",47.9908,-66.3303],
+  ["YCO","Kugluktuk Airport","Kugluktuk","CA",67.8167,-115.144],
+  ["YCS","Chesterfield Inlet Airport","Chesterfield Inlet","CA",63.3469,-90.7311],
+  ["YCY","Clyde River Airport","Clyde River","CA",70.4861,-68.5167],
+  ["YDA","Dawson City Airport","Dawson City","CA",64.0431,-139.128],
+  ["YDF","Deer Lake Airport","Deer Lake","CA",49.2108,-57.3914],
+  ["YDN","Dauphin Barker Airport","Dauphin","CA",51.1008,-100.052],
+  ["YDP","Nain Airport","Nain","CA",56.5508,-61.6822],
+  ["YDQ","Dawson Creek Airport","Dawson Creek","CA",55.7423,-120.183],
+  ["YEG","Edmonton International Airport","Edmonton","CA",53.3097,-113.58],
+  ["YEI","Bursa Yenişehir Airport","Bursa","TR",40.2552,29.5626],
+  ["YEK","Arviat Airport","Arviat","CA",61.0942,-94.0708],
+  ["YER","Fort Severn Airport","Fort Severn","CA",56.0189,-87.6761],
+  ["YEV","Inuvik Mike Zubko Airport","Inuvik","CA",68.3042,-133.483],
+  ["YFA","Fort Albany Airport","Fort Albany","CA",52.2014,-81.6969],
+  ["YFB","Iqaluit Airport","Iqaluit","CA",63.7564,-68.5558],
+  ["YFC","Fredericton Airport","Fredericton","CA",45.8689,-66.5372],
+  ["YFH","Fort Hope Airport","Fort Hope","CA",51.5619,-87.9078],
+  ["YFO","Flin Flon Airport","Flin Flon","CA",54.6781,-101.682],
+  ["YFS","Fort Simpson Airport","Fort Simpson","CA",61.7602,-121.237],
+  ["YGB","Texada Gillies Bay Airport","Texada","CA",49.6942,-124.518],
+  ["YGH","Fort Good Hope Airport","Fort Good Hope","CA",66.2408,-128.651],
+  ["YGJ","Yonago Kitaro Airport / JASDF Miho Air Base","Yonago","JP",35.4922,133.236],
+  ["YGK","Kingston Norman Rogers Airport","Kingston","CA",44.2253,-76.5969],
+  ["YGL","La Grande Rivière Airport","La Grande Rivière","CA",53.6253,-77.7042],
+  ["YGO","Gods Lake Narrows Airport","Gods Lake Narrows","CA",54.5589,-94.4914],
+  ["YGP","Gaspé (Michel-Pouliot) Airport","Gaspé","CA",48.7753,-64.4786],
+  ["YGR","Îles-de-la-Madeleine Airport","Les Îles-de-la-Madeleine","CA",47.4252,-61.7786],
+  ["YGT","Igloolik Airport","Igloolik","CA",69.3647,-81.8161],
+  ["YGW","Kuujjuarapik Airport","Kuujjuarapik","CA",55.2819,-77.7653],
+  ["YGX","Gillam Airport","Gillam","CA",56.3575,-94.7106],
+  ["YGZ","Grise Fiord Airport","Grise Fiord","CA",76.4261,-82.9092],
+  ["YHD","Dryden Regional Airport","Dryden","CA",49.8317,-92.7442],
+  ["YHI","Ulukhaktok Holman Airport","Ulukhaktok","CA",70.7628,-117.806],
+  ["YHK","Gjoa Haven Airport","Gjoa Haven","CA",68.6356,-95.8497],
+  ["YHM","John C. Munro Hamilton International Airport","Hamilton","CA",43.1736,-79.935],
+  ["YHO","Hopedale Airport","Hopedale","CA",55.4488,-60.2281],
+  ["YHR","Chevery Airport","Chevery","CA",50.4689,-59.6367],
+  ["YHU","Montréal / Saint-Hubert Airport","Montréal","CA",45.5175,-73.4169],
+  ["YHY","Hay River / Merlyn Carter Airport","Hay River","CA",60.8397,-115.783],
+  ["YHZ","Halifax / Stanfield International Airport","Halifax","CA",44.8808,-63.5086],
+  ["YIA","Yogyakarta International Airport","Yogyakarta","ID",-7.9053,110.0573],
+  ["YIC","Yichun Mingyueshan Airport","Yichun","CN",27.8025,114.3062],
+  ["YIE","Arxan Yi'ershi Airport","Arxan","CN",47.3106,119.9117],
+  ["YIH","Yichang Sanxia Airport","Yichang","CN",30.5541,111.4826],
+  ["YIK","Ivujivik Airport","Ivujivik","CA",62.4173,-77.9253],
+  ["YIO","Pond Inlet Airport","Pond Inlet","CA",72.6833,-77.9667],
+  ["YIV","Island Lake Airport","Island Lake","CA",53.8572,-94.6536],
+  ["YIW","Yiwu Airport","Yiwu","CN",29.3447,120.032],
+  ["YJT","Stephenville Airport","Stephenville","CA",48.5442,-58.55],
+  ["YKA","Kamloops Airport","Kamloops","CA",50.7022,-120.444],
+  ["YKF","Waterloo Airport","Kitchener","CA",43.4608,-80.3786],
+  ["YKG","Kangirsuk Airport","Kangirsuk","CA",60.0272,-69.9992],
+  ["YKH","Yingkou Lanqi Airport","Laobian, Yingkou","CN",40.5425,122.3586],
+  ["YKL","Schefferville Airport","Schefferville","CA",54.8053,-66.8053],
+  ["YKM","Yakima Air Terminal McAllister Field","Yakima","US",46.5682,-120.544],
+  ["YKO","Hakkari Yüksekova Airport","Hakkari","TR",37.5497,44.2381],
+  ["YKQ","Waskaganish Airport","Waskaganish","CA",51.4733,-78.7583],
+  ["YKS","Yakutsk Airport","Yakutsk","RU",62.0933,129.771],
+  ["YLC","Kimmirut Airport","Kimmirut","CA",62.8483,-69.8779],
+  ["YLH","Lansdowne House Airport","Lansdowne House","CA",52.1956,-87.9342],
+  ["YLL","Lloydminster Airport","Lloydminster","CA",53.3092,-110.073],
+  ["YLW","Kelowna International Airport","Kelowna","CA",49.9561,-119.378],
+  ["YLX","Yulin Fumian Airport","Yùlín","CN",22.4381,110.1208],
+  ["YMH","Mary's Harbour Airport","Mary's Harbour","CA",52.3028,-55.8476],
+  ["YMM","Fort McMurray Airport","Fort McMurray","CA",56.6533,-111.222],
+  ["YMN","Makkovik Airport","Makkovik","CA",55.0773,-59.1879],
+  ["YMO","Moosonee Airport","Moosonee","CA",51.2911,-80.6078],
+  ["YMS","Moises Benzaquen Rengifo Airport","Yurimaguas","PE",-5.8938,-76.1182],
+  ["YMT","Chapais Airport","Chibougamau","CA",49.7719,-74.5281],
+  ["YNA","Natashquan Airport","Natashquan","CA",50.19,-61.7892],
+  ["YNB","Yanbu Airport / Prince Abdul Mohsin bin Abdulaziz international Airport","Yanbu","SA",24.1442,38.0634],
+  ["YNC","Wemindji Airport","Wemindji","CA",53.0106,-78.8311],
+  ["YND","Ottawa / Gatineau Airport","Gatineau","CA",45.5217,-75.5636],
+  ["YNE","Norway House Airport","Norway House","CA",53.9583,-97.8442],
+  ["YNJ","Yanji Chaoyangchuan Airport","Yanji","CN",42.8828,129.451],
+  ["YNL","Points North Landing Airport","Points North Landing","CA",58.2767,-104.082],
+  ["YNS","Nemiscau Airport","Nemiscau","CA",51.6911,-76.1356],
+  ["YNT","Yantai Penglai International Airport","Yantai","CN",37.6597,120.9781],
+  ["YNY","Yangyang International Airport","Gonghang-ro","KR",38.0613,128.669],
+  ["YNZ","Yancheng Nanyang International Airport","Yancheng","CN",33.4258,120.2031],
+  ["YOC","Old Crow Airport","Old Crow","CA",67.5706,-139.839],
+  ["YOH","Oxford House Airport","Oxford House","CA",54.9333,-95.2789],
+  ["YOJ","High Level Airport","High Level","CA",58.6214,-117.165],
+  ["YOL","Yola Airport","Yola","NG",9.2576,12.4304],
+  ["YOP","Rainbow Lake Airport","Rainbow Lake","CA",58.4914,-119.408],
+  ["YOW","Ottawa Macdonald-Cartier International Airport","Ottawa","CA",45.3225,-75.6692],
+  ["YPA","Prince Albert Glass Field","Prince Albert","CA",53.2142,-105.673],
+  ["YPC","Paulatuk (Nora Aliqatchialuk Ruben) Airport","Paulatuk","CA",69.3608,-124.0755],
+  ["YPE","Peace River Airport","Peace River","CA",56.2269,-117.447],
+  ["YPH","Inukjuak Airport","Inukjuak","CA",58.4719,-78.0769],
+  ["YPJ","Aupaluk Airport","Aupaluk","CA",59.2967,-69.5997],
+  ["YPL","Pickle Lake Airport","Pickle Lake","CA",51.4464,-90.2142],
+  ["YPM","Pikangikum Airport","Pikangikum","CA",51.8197,-93.9733],
+  ["YPO","Peawanuck Airport","Peawanuck","CA",54.9881,-85.4433],
+  ["YPR","Prince Rupert Airport","Prince Rupert","CA",54.2861,-130.445],
+  ["YPW","Powell River Airport","Powell River","CA",49.8342,-124.5],
+  ["YPY","Fort Chipewyan Airport","Fort Chipewyan","CA",58.7672,-111.117],
+  ["YPZ","Burns Lake Airport","Burns Lake","CA",54.3764,-125.951],
+  ["YQB","Quebec Jean Lesage International Airport","Quebec","CA",46.7911,-71.3933],
+  ["YQC","Quaqtaq Airport","Quaqtaq","CA",61.0464,-69.6178],
+  ["YQD","The Pas Airport","The Pas","CA",53.9714,-101.091],
+  ["YQG","Windsor Airport","Windsor","CA",42.2756,-82.9556],
+  ["YQK","Kenora Airport","Kenora","CA",49.7883,-94.3631],
+  ["YQL","Lethbridge County Airport","Lethbridge","CA",49.6303,-112.8],
+  ["YQM","Greater Moncton Roméo LeBlanc International Airport","Moncton","CA",46.1122,-64.6786],
+  ["YQN","Nakina Airport","Nakina","CA",50.1828,-86.6964],
+  ["YQQ","Comox Valley Airport / CFB Comox","Comox","CA",49.7108,-124.887],
+  ["YQR","Regina International Airport","Regina","CA",50.4319,-104.666],
+  ["YQT","Thunder Bay Airport","Thunder Bay","CA",48.3719,-89.3239],
+  ["YQU","Grande Prairie Airport","Grande Prairie","CA",55.1797,-118.885],
+  ["YQX","Gander International Airport / CFB Gander","Gander","CA",48.9363,-54.5677],
+  ["YQY","Sydney / J.A. Douglas McCurdy Airport","Sydney","CA",46.1614,-60.0478],
+  ["YQZ","Quesnel Airport","Quesnel","CA",53.0261,-122.51],
+  ["YRA","Rae Lakes Airport","Gamètì","CA",64.1161,-117.31],
+  ["YRB","Resolute Bay Airport","Resolute Bay","CA",74.7169,-94.9694],
+  ["YRF","Cartwright Airport","Cartwright","CA",53.6825,-57.0423],
+  ["YRJ","Roberval Airport","Roberval","CA",48.52,-72.2656],
+  ["YRL","Red Lake Airport","Red Lake","CA",51.0669,-93.7931],
+  ["YRT","Rankin Inlet Airport","Rankin Inlet","CA",62.8114,-92.1158],
+  ["YSB","Sudbury Airport","Sudbury","CA",46.625,-80.7989],
+  ["YSF","Stony Rapids Airport","Stony Rapids","CA",59.2503,-105.841],
+  ["YSG","Lutselk'e Airport","Lutselk'e","CA",62.4183,-110.682],
+  ["YSJ","Saint John Airport","Saint John","CA",45.3161,-65.8903],
+  ["YSK","Sanikiluaq Airport","Sanikiluaq","CA",56.5378,-79.2467],
+  ["YSM","Fort Smith Airport","Fort Smith","CA",60.0203,-111.962],
+  ["YSQ","Songyuan Chaganhu Airport","Qian Gorlos Mongol Autonomous County","CN",44.9381,124.5502],
+  ["YST","St. Theresa Point Airport","St. Theresa Point","CA",53.8456,-94.8519],
+  ["YSY","Sachs Harbour (David Nasogaluak Jr. Saaryuaq) Airport","Sachs Harbour","CA",71.9939,-125.243],
+  ["YTE","Cape Dorset Airport","Kinngait","CA",64.23,-76.5267],
+  ["YTF","Alma Airport","Alma","CA",48.5089,-71.6419],
+  ["YTH","Thompson Airport","Thompson","CA",55.8011,-97.8642],
+  ["YTL","Big Trout Lake Airport","Big Trout Lake","CA",53.8178,-89.8969],
+  ["YTM","Mont-Tremblant International Airport","La Macaza","CA",46.4094,-74.78],
+  ["YTS","Timmins/Victor M. Power","Timmins","CA",48.5697,-81.3767],
+  ["YTY","Yangzhou Taizhou Airport","Yangzhou","CN",32.5634,119.7198],
+  ["YTZ","Billy Bishop Toronto City Centre Airport","Toronto","CA",43.6275,-79.3962],
+  ["YUB","Tuktoyaktuk / James Gruben Airport","Tuktoyaktuk","CA",69.4333,-133.026],
+  ["YUD","Umiujaq Airport","Umiujaq","CA",56.5361,-76.5183],
+  ["YUL","Montreal / Pierre Elliott Trudeau International Airport","Montréal","CA",45.4706,-73.7408],
+  ["YUM","Yuma International Airport / Marine Corps Air Station Yuma","Yuma","US",32.6566,-114.606],
+  ["YUS","Yushu Batang Airport","Yushu","CN",32.8364,97.0364],
+  ["YUT","Naujaat Airport","Repulse Bay","CA",66.5214,-86.2247],
+  ["YUX","Hall Beach Airport","Sanirajak","CA",68.7761,-81.2425],
+  ["YUY","Rouyn Noranda Airport","Rouyn-Noranda","CA",48.2061,-78.8356],
+  ["YVC","La Ronge Airport","La Ronge","CA",55.1514,-105.262],
+  ["YVM","Qikiqtarjuaq Airport","Qikiqtarjuaq","CA",67.5462,-64.0318],
+  ["YVO","Val-d'Or Airport","Val-d'Or","CA",48.0533,-77.7828],
+  ["YVP","Kuujjuaq Airport","Kuujjuaq","CA",58.0961,-68.4269],
+  ["YVQ","Norman Wells Airport","Norman Wells","CA",65.2816,-126.798],
+  ["YVR","Vancouver International Airport","Vancouver","CA",49.1939,-123.184],
+  ["YVZ","Deer Lake Airport","Deer Lake","CA",52.6558,-94.0614],
+  ["YWB","Kangiqsujuaq (Wakeham Bay) Airport","Kangiqsujuaq","CA",61.5886,-71.9294],
+  ["YWG","Winnipeg / James Armstrong Richardson International Airport","Winnipeg","CA",49.91,-97.2399],
+  ["YWJ","Déline Airport","Déline","CA",65.2111,-123.436],
+  ["YWK","Wabush Airport","Wabush","CA",52.9219,-66.8644],
+  ["YWL","Williams Lake Airport","Williams Lake","CA",52.1831,-122.054],
+  ["YWP","Webequie Airport","Webequie","CA",52.9594,-87.3749],
+  ["YXC","Cranbrook/Canadian Rockies International Airport","Cranbrook","CA",49.6108,-115.782],
+  ["YXE","Saskatoon John G. Diefenbaker International Airport","Saskatoon","CA",52.1708,-106.7],
+  ["YXH","Medicine Hat Regional Airport","Medicine Hat","CA",50.0189,-110.721],
+  ["YXJ","Fort St John Airport","Fort St.John","CA",56.2381,-120.74],
+  ["YXL","Sioux Lookout Airport","Sioux Lookout","CA",50.1139,-91.9053],
+  ["YXN","Whale Cove Airport","Whale Cove","CA",62.24,-92.5981],
+  ["YXP","Pangnirtung Airport","Pangnirtung","CA",66.145,-65.7136],
+  ["YXS","Prince George Airport","Prince George","CA",53.8843,-122.6666],
+  ["YXT","Northwest Regional Airport Terrace-Kitimat","Terrace","CA",54.4685,-128.576],
+  ["YXU","London Airport","London","CA",43.0356,-81.1539],
+  ["YXX","Abbotsford International Airport","Abbotsford","CA",49.0253,-122.361],
+  ["YXY","Whitehorse / Erik Nielsen International Airport","Whitehorse","CA",60.7096,-135.067],
+  ["YYA","Yueyang Sanhe Airport","Yueyang","CN",29.3117,113.2816],
+  ["YYB","North Bay Jack Garland Airport","North Bay","CA",46.3636,-79.4228],
+  ["YYC","Calgary International Airport","Calgary","CA",51.1139,-114.02],
+  ["YYD","Smithers Airport","Smithers","CA",54.8247,-127.183],
+  ["YYE","Fort Nelson Airport","Fort Nelson","CA",58.8364,-122.597],
+  ["YYF","Penticton Airport","Penticton","CA",49.4631,-119.602],
+  ["YYG","Charlottetown Airport","Charlottetown","CA",46.29,-63.1211],
+  ["YYH","Taloyoak Airport","Taloyoak","CA",69.5467,-93.5767],
+  ["YYJ","Victoria International Airport","Victoria","CA",48.6469,-123.426],
+  ["YYL","Lynn Lake Airport","Lynn Lake","CA",56.8639,-101.076],
+  ["YYQ","Churchill Airport","Churchill","CA",58.7392,-94.065],
+  ["YYR","Goose Bay Airport","Goose Bay","CA",53.3192,-60.4258],
+  ["YYT","St. John's International Airport","St. John's","CA",47.6186,-52.7519],
+  ["YYU","Kapuskasing Airport","Kapuskasing","CA",49.4139,-82.4675],
+  ["YYY","Mont Joli Airport","Mont-Joli","CA",48.6086,-68.2081],
+  ["YYZ","Lester B. Pearson International Airport","Toronto","CA",43.6772,-79.6306],
+  ["YZA","Cache Creek-Ashcroft Regional Airport","Cache Creek","CA",50.7753,-121.3213],
+  ["YZF","Yellowknife International Airport","Yellowknife","CA",62.4628,-114.44],
+  ["YZG","Salluit Airport","Salluit","CA",62.1794,-75.6672],
+  ["YZP","Sandspit Airport","Sandspit","CA",53.2543,-131.814],
+  ["YZR","Chris Hadfield Airport","Sarnia","CA",42.9994,-82.3089],
+  ["YZS","Coral Harbour Airport","Coral Harbour","CA",64.1933,-83.3594],
+  ["YZT","Port Hardy Airport","Port Hardy","CA",50.6806,-127.367],
+  ["YZV","Sept-Îles Airport","Sept-Îles","CA",50.2233,-66.2656],
+  ["ZAC","York Landing Airport","York Landing","CA",56.0894,-96.0892],
+  ["ZAD","Zadar Airport","Zemunik","HR",44.1083,15.3467],
+  ["ZAG","Zagreb Airport","Zagreb","HR",45.7429,16.0688],
+  ["ZAH","Zahedan International Airport","Zahedan","IR",29.4757,60.9062],
+  ["ZAL","Pichoy Airport","Valdivia","CL",-39.65,-73.0861],
+  ["ZAM","Zamboanga International Airport","Zamboanga City","PH",6.9224,122.06],
+  ["ZAZ","Zaragoza Airport","Zaragoza","ES",41.6662,-1.0415],
+  ["ZBF","Bathurst Airport","South Tetagouche","CA",47.6297,-65.7389],
+  ["ZBR","Chabahar Konarak International Airport","Konarak","IR",25.4432,60.3822],
+  ["ZCL","General Leobardo C. Ruiz International Airport","Zacatecas","MX",22.8971,-102.687],
+  ["ZCO","La Araucanía Airport","Temuco","CL",-38.9259,-72.6515],
+  ["ZEL","Bella Bella (Campbell Island) Airport","Bella Bella","CA",52.185,-128.157],
+  ["ZEM","Eastmain River Airport","Eastmain River","CA",52.2264,-78.5225],
+  ["ZFD","Fond-Du-Lac Airport","Fond-Du-Lac","CA",59.3344,-107.182],
+  ["ZFM","Fort Mcpherson Airport","Fort Mcpherson","CA",67.4075,-134.861],
+  ["ZFN","Tulita Airport","Tulita","CA",64.9097,-125.573],
+  ["ZGI","Gods River Airport","Gods River","CA",54.8397,-94.0786],
+  ["ZGU","Gaua Island Airport","Gaua Island","VU",-14.2181,167.587],
+  ["ZHA","Zhanjiang Wuchuan Airport","Zhanjiang","CN",21.4817,110.5903],
+  ["ZHH","Herschel Island Field","Herschel Island","CA",69.5482,-139.0916],
+  ["ZHY","Zhongwei Shapotou Airport","Zhongwei","CN",37.5731,105.1545],
+  ["ZIA","Zhukovsky International Airport","Moscow","RU",55.5533,38.15],
+  ["ZIG","Ziguinchor Airport","Ziguinchor","SN",12.5556,-16.2818],
+  ["ZIH","Ixtapa Zihuatanejo International Airport","Ixtapa","MX",17.6016,-101.461],
+  ["ZIX","Zhigansk Airport","Zhigansk","RU",66.7965,123.361],
+  ["ZKE","Kashechewan Airport","Kashechewan","CA",52.2825,-81.6778],
+  ["ZKP","Zyryanka Airport","Zyryanka","RU",65.7485,150.8889],
+  ["ZLO","Playa De Oro International Airport","Manzanillo","MX",19.1448,-104.559],
+  ["ZMT","Masset Airport","Masset","CA",54.0275,-132.125],
+  ["ZND","Zinder Airport","Zinder","NE",13.779,8.9838],
+  ["ZNE","Newman Airport","Newman","AU",-23.4178,119.803],
+  ["ZNZ","Abeid Amani Karume International Airport","Zanzibar","TZ",-6.222,39.2249],
+  ["ZOS","Cañal Bajo Carlos - Hott Siebert Airport","Osorno","CL",-40.6112,-73.061],
+  ["ZPB","Sachigo Lake Airport","Sachigo Lake","CA",53.8911,-92.1964],
+  ["ZQN","Queenstown International Airport","Queenstown","NZ",-45.0211,168.739],
+  ["ZQZ","Zhangjiakou Ningyuan Airport","Zhangjiakou","CN",40.7386,114.93],
+  ["ZRH","Zürich Airport","Zurich","CH",47.4581,8.5481],
+  ["ZRJ","Round Lake (Weagamow Lake) Airport","Round Lake","CA",52.9436,-91.3128],
+  ["ZSA","San Salvador Airport","San Salvador","BS",24.0633,-74.524],
+  ["ZSE","Pierrefonds Airport","Saint-Pierre","RE",-21.3194,55.4225],
+  ["ZSJ","Sandy Lake Airport","Sandy Lake","CA",53.0642,-93.3444],
+  ["ZTH","Zakynthos International Airport \"Dionysios Solomos\"","Zakynthos Island","GR",37.7509,20.8843],
+  ["ZTM","Shamattawa Airport","Shamattawa","CA",55.8656,-92.0814],
+  ["ZUH","Zhuhai Jinwan Airport","Zhuhai","CN",22.0064,113.376],
+  ["ZVA","Miandrivazo Airport","Miandrivazo","MG",-19.5628,45.4508],
+  ["ZWL","Wollaston Lake Airport","Wollaston Lake","CA",58.1069,-103.172],
+  ["ZYI","Zunyi Xinzhou Airport","Zunyi","CN",27.5895,107.0007],
+  ["ZYL","Osmany International Airport","Sylhet","BD",24.9638,91.8648],
+  ["ZZU","Mzuzu Airport","Mzuzu","MW",-11.4447,34.0118],
+];
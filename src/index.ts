@@ -3,6 +3,8 @@ import express, { Request, Response } from "express";
 import cors from "cors";
 import routes from "./routes/index.js";
 import connectDB from "./config/database.js";
+import config from "./config/index.js";
+import { FareWatchScheduler } from "./services/fareWatch.service.js";
 
 const app = express();
 
@@ -11,7 +13,13 @@ const NODE_ENV = process.env.NODE_ENV || "development";
 
 connectDB();
 
+if (config.fareWatch.enabled) {
+  new FareWatchScheduler().start();
+}
+
 app.use(cors());
+// Chat exports can be larger than the default JSON body limit.
+app.use("/api/chat/import", express.json({ limit: "5mb" }));
 app.use(express.json());
 
 app.use((req, res, next) => {
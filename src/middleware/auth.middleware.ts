@@ -1,13 +1,14 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import config from "../config/index.js";
-import User from "../models/user.model.js";
+import User, { IUserPreferences } from "../models/user.model.js";
 
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
     username: string;
+    preferences?: IUserPreferences;
   };
 }
 
@@ -51,6 +52,7 @@ export const authenticate = async (
       userId: (user._id as any).toString(),
       email: user.email,
       username: user.username,
+      preferences: user.preferences,
     };
 
     next();
@@ -3,6 +3,11 @@ import mongoose, { Document, Schema } from "mongoose";
 export interface IChatSession extends Document {
   userId: mongoose.Types.ObjectId;
   title: string;
+  titleLocked: boolean;
+  pinned: boolean;
+  archived: boolean;
+  archivedAt?: Date;
+  activeLeafId?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,6 +26,25 @@ const chatSessionSchema = new Schema<IChatSession>(
       trim: true,
       maxlength: [200, "Title cannot exceed 200 characters"],
     },
+    titleLocked: {
+      type: Boolean,
+      default: false,
+    },
+    pinned: {
+      type: Boolean,
+      default: false,
+    },
+    archived: {
+      type: Boolean,
+      default: false,
+    },
+    archivedAt: {
+      type: Date,
+    },
+    activeLeafId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+    },
   },
   {
     timestamps: true,
@@ -28,6 +52,8 @@ const chatSessionSchema = new Schema<IChatSession>(
 );
 
 chatSessionSchema.index({ userId: 1, createdAt: -1 });
+chatSessionSchema.index({ userId: 1, archived: 1, pinned: -1, updatedAt: -1 });
+chatSessionSchema.index({ title: "text" });
 
 const ChatSession = mongoose.model<IChatSession>("ChatSession", chatSessionSchema);
 
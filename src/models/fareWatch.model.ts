@@ -0,0 +1,115 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type FareWatchStatus = "active" | "paused" | "expired";
+
+export interface IFarePricePoint {
+  price: number;
+  airline?: string;
+  checkedAt: Date;
+}
+
+export interface IFareWatch extends Document {
+  userId: mongoose.Types.ObjectId;
+  chat_session_id?: mongoose.Types.ObjectId;
+  searchParams: {
+    departureId: string;
+    arrivalId: string;
+    outboundDate: string;
+    returnDate?: string;
+    adults?: number;
+    children?: number;
+    infants?: number;
+    travelClass?: string;
+    maxStops?: number;
+    airlines?: string[];
+    hl?: string;
+  };
+  threshold: number;
+  currency: string;
+  status: FareWatchStatus;
+  lastPrice?: number;
+  lowestPrice?: number;
+  lastCheckedAt?: Date;
+  nextCheckAt: Date;
+  lastNotifiedAt?: Date;
+  lastError?: string;
+  history: IFarePricePoint[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const farePricePointSchema = new Schema<IFarePricePoint>(
+  {
+    price: { type: Number, required: true },
+    airline: { type: String },
+    checkedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const fareWatchSchema = new Schema<IFareWatch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    chat_session_id: {
+      type: Schema.Types.ObjectId,
+      ref: "ChatSession",
+    },
+    searchParams: {
+      departureId: { type: String, required: true, uppercase: true, trim: true },
+      arrivalId: { type: String, required: true, uppercase: true, trim: true },
+      outboundDate: { type: String, required: true },
+      returnDate: { type: String },
+      adults: { type: Number },
+      children: { type: Number },
+      infants: { type: Number },
+      travelClass: { type: String },
+      maxStops: { type: Number },
+      airlines: { type: [String], default: undefined },
+      hl: { type: String },
+    },
+    threshold: {
+      type: Number,
+      required: [true, "Threshold is required"],
+      min: [0, "Threshold cannot be negative"],
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      default: "USD",
+    },
+    status: {
+      type: String,
+      enum: ["active", "paused", "expired"],
+      default: "active",
+    },
+    lastPrice: { type: Number },
+    lowestPrice: { type: Number },
+    lastCheckedAt: { type: Date },
+    nextCheckAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    lastNotifiedAt: { type: Date },
+    lastError: { type: String },
+    history: {
+      type: [farePricePointSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+fareWatchSchema.index({ status: 1, nextCheckAt: 1 });
+
+const FareWatch = mongoose.model<IFareWatch>("FareWatch", fareWatchSchema);
+
+export default FareWatch;
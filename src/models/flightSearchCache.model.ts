@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IFlightSearchCache extends Document {
+  key: string;
+  result: any;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const flightSearchCacheSchema = new Schema<IFlightSearchCache>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      expires: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const FlightSearchCache = mongoose.model<IFlightSearchCache>("FlightSearchCache", flightSearchCacheSchema);
+
+export default FlightSearchCache;
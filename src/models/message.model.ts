@@ -1,12 +1,41 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export interface IMessageTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  calls: number;
+}
+
+export interface IMessageMetadata {
+  agentName?: string;
+  confidence?: number;
+  routing?: {
+    selectedAgent: string;
+    confidence: number;
+    strategy: string;
+    allScores: { agent: string; confidence: number; strategy: string }[];
+    slots?: Record<string, any>;
+    fallbackReason?: string;
+  };
+  processingTime?: number;
+  [key: string]: any;
+}
+
 export interface IMessage extends Document {
   chat_session_id: mongoose.Types.ObjectId;
+  parent_message_id?: mongoose.Types.ObjectId | null;
   is_user_message: boolean;
   message: string;
+  agent?: string;
+  metadata?: IMessageMetadata;
+  searchParams?: Record<string, any>;
+  suggestions?: string[];
+  tokenUsage?: IMessageTokenUsage;
   createdAt: Date;
   updatedAt: Date;
   flightData: any;
+  hotelData: any;
 }
 
 const messageSchema = new Schema<IMessage>(
@@ -17,6 +46,10 @@ const messageSchema = new Schema<IMessage>(
       required: [true, "Chat session ID is required"],
       index: true,
     },
+    parent_message_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+    },
     is_user_message: {
       type: Boolean,
       required: [true, "is_user_message field is required"],
@@ -26,9 +59,36 @@ const messageSchema = new Schema<IMessage>(
       type: String,
       required: [true, "Message is required"],
       trim: true,
+    },
+    agent: {
+      type: String,
+    },
+    metadata: {
+      type: Object,
+    },
+    searchParams: {
+      type: Object,
+    },
+    suggestions: {
+      type: [String],
+      default: undefined,
+    },
+    tokenUsage: {
+      type: new Schema<IMessageTokenUsage>(
+        {
+          inputTokens: { type: Number, default: 0 },
+          outputTokens: { type: Number, default: 0 },
+          totalTokens: { type: Number, default: 0 },
+          calls: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
     },
      flightData: {
       type: Object
+     },
+     hotelData: {
+      type: Object
      }
   },
   {
@@ -37,6 +97,8 @@ const messageSchema = new Schema<IMessage>(
 );
 
 messageSchema.index({ chat_session_id: 1, createdAt: 1 });
+messageSchema.index({ chat_session_id: 1, parent_message_id: 1, createdAt: 1 });
+messageSchema.index({ message: "text" });
 
 const Message = mongoose.model<IMessage>("Message", messageSchema);
 
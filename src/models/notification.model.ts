@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface INotification extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: string;
+  title: string;
+  message: string;
+  data?: any;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationSchema.index({ userId: 1, read: 1, createdAt: -1 });
+
+const Notification = mongoose.model<INotification>("Notification", notificationSchema);
+
+export default Notification;
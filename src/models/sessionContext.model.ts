@@ -4,6 +4,8 @@ export interface ISessionContext extends Document {
   chat_session_id: mongoose.Types.ObjectId;
   contextData: Map<string, any>;
   conversationSummary?: string;
+  summaryThroughMessageId?: mongoose.Types.ObjectId;
+  agentState?: Map<string, any>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,6 +28,16 @@ const sessionContextSchema = new Schema<ISessionContext>(
       type: String,
       default: "",
     },
+    // Last message folded into conversationSummary; later ones are replayed verbatim.
+    summaryThroughMessageId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+    },
+    agentState: {
+      type: Map,
+      of: Schema.Types.Mixed,
+      default: {},
+    },
   },
   {
     timestamps: true,
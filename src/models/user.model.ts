@@ -1,10 +1,17 @@
 import mongoose, { Document, Schema } from "mongoose";
 import bcrypt from "bcrypt";
 
+export interface IUserPreferences {
+  locale?: string;
+  timezone?: string;
+  dateOrder?: "DMY" | "MDY";
+}
+
 export interface IUser extends Document {
   email: string;
   username: string;
   password: string;
+  preferences?: IUserPreferences;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -35,6 +42,11 @@ const userSchema = new Schema<IUser>(
       required: [true, "Password is required"],
       minlength: [6, "Password must be at least 6 characters long"],
     },
+    preferences: {
+      locale: { type: String, trim: true },
+      timezone: { type: String, trim: true },
+      dateOrder: { type: String, enum: ["DMY", "MDY"] },
+    },
   },
   {
     timestamps: true,
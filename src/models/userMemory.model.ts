@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IMemoryFact {
+  key: string;
+  value: any;
+  source?: {
+    sessionId?: mongoose.Types.ObjectId;
+    message?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IUserMemory extends Document {
+  userId: mongoose.Types.ObjectId;
+  enabled: boolean;
+  facts: mongoose.Types.DocumentArray<IMemoryFact & mongoose.Types.Subdocument>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const memoryFactSchema = new Schema<IMemoryFact>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    value: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    source: {
+      sessionId: {
+        type: Schema.Types.ObjectId,
+        ref: "ChatSession",
+      },
+      message: {
+        type: String,
+      },
+    },
+  },
+  {
+    _id: false,
+    timestamps: true,
+  }
+);
+
+const userMemorySchema = new Schema<IUserMemory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      unique: true,
+      index: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    facts: {
+      type: [memoryFactSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const UserMemory = mongoose.model<IUserMemory>("UserMemory", userMemorySchema);
+
+export default UserMemory;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { searchAirports, getNearbyAirports, getAirportByCode } from "../controllers/airport.controller.js";
+
+const router = Router();
+
+router.get("/search", searchAirports);
+router.get("/nearby", getNearbyAirports);
+router.get("/:code", getAirportByCode);
+
+export default router;
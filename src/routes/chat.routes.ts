@@ -7,8 +7,26 @@ const chatController = new ChatController();
 
 router.post("/generate", authenticate, chatController.generateResponse);
 
+router.post("/generate/stream", authenticate, chatController.generateResponseStream);
+
 router.get("/sessions", authenticate, chatController.getAllSessions);
 
+router.get("/search", authenticate, chatController.searchChats);
+
+router.post("/import", authenticate, chatController.importSession);
+
+router.patch("/session/:sessionId", authenticate, chatController.updateSession);
+
+router.delete("/session/:sessionId", authenticate, chatController.deleteSession);
+
+router.get("/session/:sessionId/export", authenticate, chatController.exportSession);
+
 router.get("/session/:sessionId/messages", authenticate, chatController.getSessionMessages);
 
+router.post("/session/:sessionId/messages/:messageId/regenerate", authenticate, chatController.regenerateMessage);
+
+router.post("/session/:sessionId/messages/:messageId/edit", authenticate, chatController.editMessage);
+
+router.post("/session/:sessionId/messages/:messageId/activate", authenticate, chatController.activateBranch);
+
 export default router;
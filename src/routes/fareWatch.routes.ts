@@ -0,0 +1,21 @@
+import { Router } from "express";
+import {
+  listWatches,
+  getWatch,
+  createWatch,
+  updateWatch,
+  deleteWatch,
+  checkWatchNow,
+} from "../controllers/fareWatch.controller.js";
+import { authenticate } from "../middleware/auth.middleware.js";
+
+const router = Router();
+
+router.get("/", authenticate, listWatches);
+router.post("/", authenticate, createWatch);
+router.get("/:id", authenticate, getWatch);
+router.patch("/:id", authenticate, updateWatch);
+router.delete("/:id", authenticate, deleteWatch);
+router.post("/:id/check", authenticate, checkWatchNow);
+
+export default router;
@@ -3,6 +3,9 @@ import healthRoutes from "./health.routes.js";
 import authRoutes from "./auth.routes.js";
 import userRoutes from "./user.routes.js";
 import chatRoutes from "./chat.routes.js";
+import airportRoutes from "./airport.routes.js";
+import fareWatchRoutes from "./fareWatch.routes.js";
+import notificationRoutes from "./notification.routes.js";
 
 const router = Router();
 
@@ -10,6 +13,9 @@ router.use("/health", healthRoutes);
 router.use("/auth", authRoutes);
 router.use("/user", userRoutes);
 router.use("/chat", chatRoutes);
+router.use("/airports", airportRoutes);
+router.use("/watches", fareWatchRoutes);
+router.use("/notifications", notificationRoutes);
 
 export default router;
 
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { listNotifications, markNotificationRead } from "../controllers/notification.controller.js";
+import { authenticate } from "../middleware/auth.middleware.js";
+
+const router = Router();
+
+router.get("/", authenticate, listNotifications);
+router.patch("/:id/read", authenticate, markNotificationRead);
+
+export default router;
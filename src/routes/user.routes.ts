@@ -1,10 +1,15 @@
 import { Router } from "express";
-import { getProfile } from "../controllers/user.controller.js";
+import { deleteMemory, getMemory, getProfile, updateMemory, updatePreferences } from "../controllers/user.controller.js";
 import { authenticate } from "../middleware/auth.middleware.js";
 
 const router = Router();
 
 router.get("/profile", authenticate, getProfile);
+router.patch("/preferences", authenticate, updatePreferences);
+router.get("/memory", authenticate, getMemory);
+router.patch("/memory", authenticate, updateMemory);
+router.delete("/memory", authenticate, deleteMemory);
+router.delete("/memory/:key", authenticate, deleteMemory);
 
 export default router;
 
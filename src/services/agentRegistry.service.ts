@@ -0,0 +1,117 @@
+import mongoose from "mongoose";
+import { FlightAgentService } from "./flightAgent.service.js";
+import { PersonalAgentService } from "./personalAgent.service.js";
+import { HotelAgentService } from "./hotelAgent.service.js";
+import { DateParseOptions } from "../utils/dateParser.utils.js";
+
+export interface ConversationTurn {
+  role: string;
+  message: string;
+  agent?: string;
+  messageId?: string;
+}
+
+export interface AgentContext {
+  sessionId?: mongoose.Types.ObjectId;
+  userId?: string;
+  dateOptions?: DateParseOptions;
+  history: ConversationTurn[];
+  conversationSummary?: string;
+  sessionContext?: Map<string, any>;
+  onDelta?: (delta: string) => void;
+}
+
+export interface AgentResult {
+  message: string;
+  flightData?: any;
+  hotelData?: any;
+  contextUpdates?: Map<string, any>;
+  metadata?: Record<string, any>;
+}
+
+export interface Agent {
+  readonly name: string;
+  readonly type: string;
+  readonly description: string;
+  readonly threshold: number;
+  scoreConfidence(message: string, history: ConversationTurn[]): number;
+  handle(message: string, ctx: AgentContext): Promise<AgentResult>;
+  clearContext(): void;
+  getState?(): Record<string, any>;
+  setState?(state: Record<string, any>): void;
+}
+
+export interface AgentRegistration {
+  factory: () => Agent;
+  fallback?: boolean;
+}
+
+export class AgentRegistry {
+  private agents: Agent[];
+  private fallbackAgent?: Agent;
+
+  constructor() {
+    this.agents = [];
+  }
+
+  register(agent: Agent, options: { fallback?: boolean } = {}): this {
+    if (this.get(agent.type)) {
+      throw new Error(`Agent "${agent.type}" is already registered`);
+    }
+
+    this.agents.push(agent);
+    if (options.fallback) {
+      this.fallbackAgent = agent;
+    }
+    return this;
+  }
+
+  get(type: string): Agent | undefined {
+    return this.agents.find(agent => agent.type === type);
+  }
+
+  list(): Agent[] {
+    return [...this.agents];
+  }
+
+  /**
+   * Picks the highest-scoring agent that clears its own threshold. Ties go to
+   * the agent registered first; if nothing qualifies the fallback agent wins.
+   */
+  select(scores: Record<string, number>): { agent: Agent; confidence: number } {
+    let selected: { agent: Agent; confidence: number } | undefined;
+
+    for (const agent of this.agents) {
+      const confidence = scores[agent.type] ?? 0;
+      if (confidence < agent.threshold) continue;
+      if (!selected || confidence > selected.confidence) {
+        selected = { agent, confidence };
+      }
+    }
+
+    if (selected) {
+      return selected;
+    }
+
+    const fallback = this.fallbackAgent || this.agents[0];
+    if (!fallback) {
+      throw new Error("No agents registered");
+    }
+
+    return { agent: fallback, confidence: scores[fallback.type] ?? 0 };
+  }
+}
+
+export const defaultAgentRegistrations: AgentRegistration[] = [
+  { factory: () => new FlightAgentService() },
+  { factory: () => new HotelAgentService() },
+  { factory: () => new PersonalAgentService(), fallback: true },
+];
+
+export const createAgentRegistry = (
+  registrations: AgentRegistration[] = defaultAgentRegistrations
+): AgentRegistry => {
+  const registry = new AgentRegistry();
+  registrations.forEach(({ factory, fallback }) => registry.register(factory(), { fallback }));
+  return registry;
+};
@@ -1,13 +1,39 @@
-import { FlightAgentService } from "./flightAgent.service.js";
-import { PersonalAgentService } from "./personalAgent.service.js";
+import {
+  AgentRegistry,
+  ConversationTurn,
+  createAgentRegistry,
+} from "./agentRegistry.service.js";
+import {
+  IntentClassifier,
+  IntentScore,
+  IntentSlots,
+  KeywordIntentClassifier,
+  LlmIntentClassifier,
+} from "./intentClassifier.service.js";
+import { createLlmProvider } from "./llmProvider.service.js";
 import SessionContext from "../models/sessionContext.model.js";
+import Message from "../models/message.model.js";
+import ChatSession from "../models/chatSession.model.js";
+import { ChatSessionService } from "./chatSession.service.js";
+import { UserMemoryService } from "./userMemory.service.js";
+import { ConversationSummarizer } from "./conversationSummary.service.js";
+import config from "../config/index.js";
+import { DateParseOptions } from "../utils/dateParser.utils.js";
+import { TokenUsage, measureTokenUsage } from "../utils/tokenUsage.utils.js";
 import mongoose from "mongoose";
 
+export interface ChatOptions {
+  onDelta?: (delta: string) => void;
+  userId?: string;
+  dateOptions?: DateParseOptions;
+}
+
 export interface ChatResponse {
   response: string;
   context?: any;
   contextUpdates?: Map<string, any>;
   flightData?: any;
+  hotelData?: any;
   metadata: {
     agent: string;
     type: string;
@@ -15,124 +41,278 @@ export interface ChatResponse {
     routing: {
       selectedAgent: string;
       confidence: number;
-      allScores: Array<{ agent: string; confidence: number }>;
+      strategy: string;
+      allScores: IntentScore[];
+      slots?: IntentSlots;
+      fallbackReason?: string;
     };
     processingTime: number;
+    tokenUsage?: TokenUsage;
     [key: string]: any;
   };
 }
 
 export class AgentRouterService {
-  private flightAgent: FlightAgentService;
-  private personalAgent: PersonalAgentService;
-  private conversationHistory: Array<{ role: string; message: string }>;
+  private registry: AgentRegistry;
+  private intentClassifier: IntentClassifier;
+  private conversationHistory: ConversationTurn[];
+  private conversationSummary: string;
+  private summarizer?: ConversationSummarizer;
   private sessionId?: mongoose.Types.ObjectId;
-
-  constructor(sessionId?: mongoose.Types.ObjectId) {
-    this.flightAgent = new FlightAgentService();
-    this.personalAgent = new PersonalAgentService();
+  private syncedMessageCount: number;
+  private syncedLeafId?: string;
+  private chatSessionService: ChatSessionService;
+  private userMemoryService: UserMemoryService;
+
+  constructor(sessionId?: mongoose.Types.ObjectId, registry: AgentRegistry = createAgentRegistry()) {
+    this.registry = registry;
+    this.intentClassifier = AgentRouterService.createIntentClassifier(registry);
     this.conversationHistory = [];
+    this.conversationSummary = "";
+    this.summarizer = config.summary.enabled ? new ConversationSummarizer() : undefined;
     this.sessionId = sessionId;
+    this.syncedMessageCount = 0;
+    this.chatSessionService = new ChatSessionService();
+    this.userMemoryService = new UserMemoryService();
   }
 
-  async chat(message: string): Promise<ChatResponse> {
-    const startTime = Date.now();
+  private static createIntentClassifier(registry: AgentRegistry): IntentClassifier {
+    const keywordClassifier = new KeywordIntentClassifier(registry);
 
-    let existingContext: Map<string, any> | undefined;
-    if (this.sessionId) {
-      existingContext = await this.loadSessionContext();
+    if (config.routing.strategy === "llm") {
+      return new LlmIntentClassifier(createLlmProvider("router"), registry, keywordClassifier, config.routing.llmTimeoutMs);
+    }
+
+    return keywordClassifier;
+  }
+
+  /**
+   * Rebuilds history from the session's active branch, or from the branch
+   * ending at `leafId` (null for an empty history) when replaying an edit or
+   * regeneration. Agent state is session-wide and is not rewound. The stored
+   * summary is only used if it was built from this branch.
+   */
+  async hydrate(leafId?: mongoose.Types.ObjectId | null): Promise<void> {
+    if (!this.sessionId) return;
+
+    try {
+      const sessionContext = await SessionContext.findOne({ chat_session_id: this.sessionId })
+        .select('agentState conversationSummary summaryThroughMessageId');
+      const branch = await this.chatSessionService.getBranchHistory(
+        this.sessionId,
+        leafId,
+        config.sessionCache.historyWindow,
+        sessionContext?.summaryThroughMessageId
+      );
+
+      this.conversationSummary = branch.afterFound ? sessionContext?.conversationSummary || "" : "";
+      this.conversationHistory = branch.messages.map(msg => ({
+        role: msg.is_user_message ? 'user' : 'assistant',
+        message: msg.message,
+        messageId: msg._id.toString(),
+      }));
+
+      for (const agent of this.registry.list()) {
+        agent.setState?.(sessionContext?.agentState?.get(agent.type) || {});
+      }
+
+      this.syncedMessageCount = branch.messageCount;
+      this.syncedLeafId = branch.leafId?.toString();
+
+      console.log(`Rehydrated session ${this.sessionId}: ${this.conversationHistory.length} messages`);
+    } catch (error) {
+      console.error("Error rehydrating session state:", error);
     }
+  }
 
-    let flightScore = this.calculateFlightConfidence(message);
-    const personalScore = this.calculatePersonalConfidence(message);
+  async syncIfStale(): Promise<void> {
+    if (!this.sessionId) return;
 
-    const isInFlightConversation = this.isOngoingFlightConversation();
-    
-    if (isInFlightConversation) {
-      console.log('🛫 Continuing flight conversation - boosting flight score');
-      flightScore = Math.max(flightScore, 0.7);
+    try {
+      const [messageCount, session] = await Promise.all([
+        Message.countDocuments({ chat_session_id: this.sessionId }),
+        ChatSession.findById(this.sessionId).select('activeLeafId').lean(),
+      ]);
+      const activeLeafId = session?.activeLeafId?.toString();
+      if (messageCount !== this.syncedMessageCount || (activeLeafId && activeLeafId !== this.syncedLeafId)) {
+        await this.hydrate();
+      }
+    } catch (error) {
+      console.error("Error checking session state:", error);
     }
+  }
 
-    const flightThreshold = 0.3;
-
-    console.log(`Agent Routing - Flight: ${flightScore.toFixed(2)}, Personal: ${personalScore.toFixed(2)}, InFlightConvo: ${isInFlightConversation}`);
-
-    if (flightScore >= flightThreshold && flightScore >= personalScore) {
-      this.conversationHistory.push({ role: 'user', message });
-      
-      const result = await this.flightAgent.processFlightQuery(message, this.conversationHistory);
-
-      this.conversationHistory.push({ role: 'assistant', message: result.message });
-
-      return {
-        response: result.message,
-        context: this.personalAgent.getUserContext(),
-        flightData: result.flightData,
-        metadata: {
-          agent: "Flight Assistant",
-          type: "flight",
-          confidence: flightScore,
-          routing: {
-            selectedAgent: "Flight Assistant",
-            confidence: flightScore,
-            allScores: [
-              { agent: "Flight Assistant", confidence: flightScore },
-              { agent: "Personal Assistant", confidence: personalScore },
-            ],
-          },
-          tripType: result.tripType,
-          requiresMoreInfo: result.requiresMoreInfo,
-          suggestedQuestions: result.suggestedQuestions,
-          searchParams: result.searchParams,
-          processingTime: Date.now() - startTime,
-        },
-      };
-    } else {
-      this.conversationHistory.push({ role: 'user', message });
-      
-      const result = await this.personalAgent.processMessage(message, existingContext);
+  // Called once an exchange is stored so the next syncIfStale doesn't reload
+  // it. The ids let a later summary record where it stopped.
+  markSynced(leafId: mongoose.Types.ObjectId, messageCount: number, userMessageId?: mongoose.Types.ObjectId): void {
+    this.syncedLeafId = leafId.toString();
+    this.syncedMessageCount = messageCount;
+
+    const [userTurn, assistantTurn] = this.conversationHistory.slice(-2);
+    if (assistantTurn && !assistantTurn.messageId) {
+      assistantTurn.messageId = leafId.toString();
+    }
+    if (userTurn && !userTurn.messageId && userMessageId) {
+      userTurn.messageId = userMessageId.toString();
+    }
+  }
+
+  async chat(message: string, options: ChatOptions = {}): Promise<ChatResponse> {
+    const { result, usage } = await measureTokenUsage(() => this.route(message, options));
+    result.metadata.tokenUsage = usage;
+    return result;
+  }
+
+  private async route(message: string, options: ChatOptions): Promise<ChatResponse> {
+    const startTime = Date.now();
+    const { onDelta, userId, dateOptions } = options;
+
+    let hasStreamed = false;
+    const handleDelta = onDelta
+      ? (delta: string) => {
+          hasStreamed = true;
+          onDelta(delta);
+        }
+      : undefined;
+
+    const existingContext = await this.loadSessionContext(userId);
+    await this.compactHistory();
+
+    const intent = await this.intentClassifier.classify(message, this.conversationHistory);
+    const { agent, confidence } = this.registry.select(intent.scores);
 
-      this.conversationHistory.push({ role: 'assistant', message: result.message });
+    const scoreSummary = Object.entries(intent.scores)
+      .map(([type, score]) => `${type}: ${score.toFixed(2)}`)
+      .join(', ');
+    console.log(`Agent Routing (${intent.strategy}) - ${scoreSummary} -> ${agent.name}`);
 
-      if (this.sessionId && result.contextUpdates && result.contextUpdates.size > 0) {
+    this.conversationHistory.push({ role: 'user', message });
+
+    const result = await agent.handle(message, {
+      sessionId: this.sessionId,
+      userId: userId,
+      dateOptions: dateOptions,
+      history: this.conversationHistory,
+      conversationSummary: this.conversationSummary || undefined,
+      sessionContext: existingContext,
+      onDelta: handleDelta,
+    });
+
+    if (onDelta && !hasStreamed) {
+      onDelta(result.message);
+    }
+
+    this.conversationHistory.push({ role: 'assistant', message: result.message, agent: agent.type });
+    this.syncedMessageCount += 2;
+
+    if (result.contextUpdates && result.contextUpdates.size > 0) {
+      // Personal facts are kept only in user memory, which skips them when
+      // the user has opted out, so deleting a fact or opting out takes
+      // effect in every chat.
+      if (agent.type === 'personal') {
+        if (userId) {
+          await this.rememberUserFacts(userId, result.contextUpdates, message);
+        }
+      } else {
         await this.saveSessionContext(result.contextUpdates);
       }
+    }
 
-      return {
-        response: result.message,
-        context: this.personalAgent.getUserContext(),
-        contextUpdates: result.contextUpdates,
-        metadata: {
-          agent: "Personal Assistant",
-          type: "personal",
-          confidence: personalScore,
-          routing: {
-            selectedAgent: "Personal Assistant",
-            confidence: personalScore,
-            allScores: [
-              { agent: "Flight Assistant", confidence: flightScore },
-              { agent: "Personal Assistant", confidence: personalScore },
-            ],
-          },
-          contextExtracted: result.contextExtracted,
-          suggestedFollowUps: result.suggestedFollowUps,
-          processingTime: Date.now() - startTime,
-        },
-      };
+    if (this.sessionId) {
+      if (agent.getState) {
+        await this.saveAgentState(agent.type, agent.getState());
+      }
     }
+
+    const context = Object.fromEntries(existingContext || []);
+    result.contextUpdates?.forEach((value, key) => {
+      context[key] = value;
+    });
+
+    return {
+      response: result.message,
+      context: context,
+      contextUpdates: result.contextUpdates,
+      flightData: result.flightData,
+      hotelData: result.hotelData,
+      metadata: {
+        agent: agent.name,
+        type: agent.type,
+        confidence: confidence,
+        routing: {
+          selectedAgent: agent.name,
+          confidence: confidence,
+          strategy: intent.strategy,
+          allScores: intent.allScores,
+          slots: intent.slots,
+          fallbackReason: intent.fallbackReason,
+        },
+        ...result.metadata,
+        processingTime: Date.now() - startTime,
+      },
+    };
   }
 
-  private async loadSessionContext(): Promise<Map<string, any> | undefined> {
+  // What the user told us in earlier chats sits underneath this session's
+  // context, so anything said in this conversation takes precedence.
+  private async loadSessionContext(userId?: string): Promise<Map<string, any> | undefined> {
+    let memory: Map<string, any> | undefined;
+    if (userId) {
+      try {
+        memory = await this.userMemoryService.recall(userId);
+      } catch (error) {
+        console.error("Error loading user memory:", error);
+      }
+    }
+
     try {
-      if (!this.sessionId) return undefined;
+      if (!this.sessionId) return memory;
 
       const sessionContext = await SessionContext.findOne({ chat_session_id: this.sessionId });
-      if (!sessionContext) return undefined;
+      if (!sessionContext) return memory;
+
+      if (!memory) return sessionContext.contextData;
 
-      return sessionContext.contextData;
+      return new Map([...memory, ...sessionContext.contextData]);
     } catch (error) {
       console.error("Error loading session context:", error);
-      return undefined;
+      return memory;
+    }
+  }
+
+  // Once the history is over budget, older turns are folded into the rolling
+  // summary so prompts stay bounded in long chats.
+  private async compactHistory(): Promise<void> {
+    if (!this.summarizer) return;
+
+    const compacted = await this.summarizer.compact(this.conversationSummary, this.conversationHistory);
+    if (!compacted) return;
+
+    this.conversationSummary = compacted.summary;
+    this.conversationHistory = compacted.recentTurns;
+
+    if (!this.sessionId) return;
+
+    const throughId = compacted.summarizedTurns[compacted.summarizedTurns.length - 1].messageId;
+    try {
+      await SessionContext.updateOne(
+        { chat_session_id: this.sessionId },
+        throughId
+          ? { $set: { conversationSummary: compacted.summary, summaryThroughMessageId: new mongoose.Types.ObjectId(throughId) } }
+          : { $set: { conversationSummary: compacted.summary }, $unset: { summaryThroughMessageId: "" } },
+        { upsert: true }
+      );
+      console.log(`Summarized ${compacted.summarizedTurns.length} turns for session ${this.sessionId}`);
+    } catch (error) {
+      console.error("Error saving conversation summary:", error);
+    }
+  }
+
+  private async rememberUserFacts(userId: string, facts: Map<string, any>, message: string): Promise<void> {
+    try {
+      await this.userMemoryService.remember(userId, facts, { sessionId: this.sessionId, message });
+    } catch (error) {
+      console.error("Error saving user memory:", error);
     }
   }
 
@@ -160,184 +340,39 @@ export class AgentRouterService {
     }
   }
 
-  private calculateFlightConfidence(message: string): number {
-    const lowerMessage = message.toLowerCase();
-    
-    const flightKeywords = [
-      { keywords: ['flight', 'flights', 'fly', 'flying', 'plane', 'airplane', 'aircraft'], weight: 0.4 },
-      { keywords: ['airport', 'departure', 'arrival', 'layover', 'stopover', 'transit', 'connection'], weight: 0.35 },
-      { keywords: ['ticket', 'booking', 'book', 'reserve', 'reservation', 'schedule'], weight: 0.3 },
-      { keywords: ['airline', 'airways', 'air india', 'indigo', 'spicejet', 'vistara', 'go air', 'air asia', 'emirates', 'lufthansa', 'british airways', 'qatar airways'], weight: 0.35 },
-      { keywords: ['round trip', 'one way', 'return flight', 'direct flight', 'non-stop', 'connecting flight', 'multi-city'], weight: 0.4 },
-      { keywords: ['travel', 'trip', 'journey', 'tour', 'vacation', 'holiday', 'visit'], weight: 0.2 },
-      { keywords: ['destination', 'going to', 'want to go', 'traveling to', 'heading to', 'visiting'], weight: 0.25 },
-      { keywords: ['check-in', 'boarding', 'baggage', 'luggage', 'carry-on', 'checked bag'], weight: 0.35 },
-      { keywords: ['economy', 'business class', 'first class', 'premium economy', 'cabin'], weight: 0.3 },
-      { keywords: ['takeoff', 'landing', 'gate', 'terminal', 'runway'], weight: 0.35 },
-      { keywords: ['itinerary', 'route', 'schedule', 'timetable', 'flight time'], weight: 0.3 },
-      { keywords: ['passenger', 'traveler', 'adult', 'child', 'infant', 'seat'], weight: 0.25 },
-      { keywords: ['delay', 'cancelled', 'postponed', 'rescheduled', 'on time'], weight: 0.3 },
-      { keywords: ['jet', 'boeing', 'airbus', '737', '747', 'a320', 'a380'], weight: 0.35 },
-      { keywords: ['domestic', 'international', 'overseas', 'abroad'], weight: 0.25 },
-    ];
-
-    const cityPatterns = [
-      /\b(mumbai|delhi|bangalore|bengaluru|goa|chennai|kolkata|hyderabad|pune|ahmedabad|jaipur|lucknow|kochi|trivandrum|chandigarh|indore|nagpur|surat|vadodara|visakhapatnam|bhubaneswar|patna|ranchi|amritsar|srinagar|guwahati|varanasi)\b/i,
-      /\b(london|paris|new york|dubai|singapore|bangkok|tokyo|hong kong|sydney|los angeles|chicago|toronto|beijing|shanghai|frankfurt|amsterdam|rome|barcelona|istanbul|moscow|kuala lumpur|jakarta)\b/i,
-      /\b(from|to|via|through)\s+[A-Z][a-z]+/,
-      /\b[A-Z]{3}\b/,
-    ];
-
-    const datePatterns = [
-      /\b(tomorrow|today|tonight|next week|next month|this weekend|next weekend)\b/i,
-      /\d{1,2}[-\/]\d{1,2}[-\/]?\d{0,4}/,
-      /\b(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sep|sept|october|oct|november|nov|december|dec)\b/i,
-      /\b(morning|afternoon|evening|night)\s+(flight|departure|arrival)\b/i,
-      /\b(early|late)\s+(morning|afternoon|evening)\b/i,
-    ];
-
-    let score = 0;
-
-    for (const group of flightKeywords) {
-      for (const keyword of group.keywords) {
-        if (lowerMessage.includes(keyword)) {
-          score += group.weight;
-          break;
-        }
-      }
-    }
-
-    for (const pattern of cityPatterns) {
-      if (pattern.test(message)) {
-        score += 0.3;
-        break;
-      }
-    }
-
-    for (const pattern of datePatterns) {
-      if (pattern.test(message)) {
-        score += 0.2;
-        break;
-      }
-    }
-
-    if (/how (much|expensive|cheap)|price|cost|fare|rates|charges|fee/i.test(message)) {
-      score += 0.15;
-    }
+  private async saveAgentState(agentType: string, state: Record<string, any>): Promise<void> {
+    try {
+      if (!this.sessionId) return;
 
-    if (/show|find|search|look|check|available|availability/i.test(message)) {
-      score += 0.1;
+      await SessionContext.updateOne(
+        { chat_session_id: this.sessionId },
+        { $set: { [`agentState.${agentType}`]: state } },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error(`Error saving ${agentType} agent state:`, error);
     }
-
-    return Math.min(score, 1.0);
   }
 
-  private calculatePersonalConfidence(message: string): number {
-    const lowerMessage = message.toLowerCase();
-    
-    const personalKeywords = [
-      { keywords: ['hello', 'hi', 'hey', 'greetings'], weight: 0.5 },
-      { keywords: ['how are you', 'what\'s up', 'sup'], weight: 0.5 },
-      { keywords: ['help', 'assist', 'support'], weight: 0.3 },
-      { keywords: ['thank', 'thanks', 'appreciate'], weight: 0.4 },
-      { keywords: ['who are you', 'what can you do', 'your name'], weight: 0.5 },
-      { keywords: ['tell me about', 'explain', 'what is'], weight: 0.3 },
-    ];
-
-    const personalInfoPatterns = [
-      { patterns: ['my name is', 'i am', 'i\'m', 'call me'], weight: 0.7 },
-      { patterns: ['my age is', 'i am', 'years old'], weight: 0.6 },
-      { patterns: ['i live in', 'i\'m from', 'from'], weight: 0.6 },
-      { patterns: ['i work as', 'i am a', 'my job'], weight: 0.6 },
-      { patterns: ['my email', 'my phone', 'my number'], weight: 0.6 },
-    ];
-
-    const personalInfoQueries = [
-      { patterns: ['what is my name', 'what\'s my name', 'my name'], weight: 0.6 },
-      { patterns: ['who am i', 'what do you know about me'], weight: 0.6 },
-      { patterns: ['where am i from', 'where do i live'], weight: 0.6 },
-      { patterns: ['how old am i', 'what is my age'], weight: 0.6 },
-      { patterns: ['what do i do', 'my job', 'my work'], weight: 0.5 },
-    ];
-
-    let score = 0;
-
-    for (const group of personalInfoPatterns) {
-      for (const pattern of group.patterns) {
-        if (lowerMessage.includes(pattern)) {
-          score += group.weight;
-          break;
-        }
-      }
-    }
-
-    for (const group of personalInfoQueries) {
-      for (const pattern of group.patterns) {
-        if (lowerMessage.includes(pattern)) {
-          score += group.weight;
-          break;
-        }
-      }
-    }
+  async clearHistory(): Promise<void> {
+    this.conversationHistory = [];
+    this.conversationSummary = "";
+    this.registry.list().forEach(agent => agent.clearContext());
 
-    for (const group of personalKeywords) {
-      for (const keyword of group.keywords) {
-        if (lowerMessage.includes(keyword)) {
-          score += group.weight;
-          break;
-        }
+    if (this.sessionId) {
+      try {
+        await SessionContext.updateOne(
+          { chat_session_id: this.sessionId },
+          { $set: { conversationSummary: "" }, $unset: { agentState: "", summaryThroughMessageId: "" } }
+        );
+        this.syncedMessageCount = await Message.countDocuments({ chat_session_id: this.sessionId });
+      } catch (error) {
+        console.error("Error clearing session state:", error);
       }
     }
-
-    if (message.trim().split(' ').length <= 3 && !/flight|fly|book/i.test(message)) {
-      score += 0.3;
-    }
-
-    if (message.includes('?') && !/flight|fly|book|airport/i.test(message)) {
-      score += 0.2;
-    }
-
-    return Math.min(score, 1.0);
-  }
-
-  private isOngoingFlightConversation(): boolean {
-    if (this.conversationHistory.length < 2) {
-      return false;
-    }
-
-    const recentMessages = this.conversationHistory.slice(-4);
-    const recentText = recentMessages.map(m => m.message.toLowerCase()).join(' ');
-
-    const flightKeywords = [
-      'flight', 'fly', 'airport', 'departure', 'arrival', 'destination',
-      'return date', 'one-way', 'round-trip', 'booking', 'travel date',
-      'when would you like', 'where are you flying', 'provide a date',
-      'need to know', 'departure date', 'which date'
-    ];
-    
-    const hasFlightKeywords = flightKeywords.some(keyword => recentText.includes(keyword));
-
-    const aiAskedForFlightInfo = recentMessages.some(m => 
-      m.role === 'assistant' && (
-        m.message.toLowerCase().includes('date') ||
-        m.message.toLowerCase().includes('when') ||
-        m.message.toLowerCase().includes('where') ||
-        m.message.toLowerCase().includes('destination') ||
-        m.message.toLowerCase().includes('return')
-      )
-    );
-
-    return hasFlightKeywords || aiAskedForFlightInfo;
-  }
-
-  clearHistory(): void {
-    this.conversationHistory = [];
-    this.personalAgent.clearContext();
-    this.flightAgent.clearContext();
   }
 
-  getHistory(): Array<{ role: string; message: string }> {
+  getHistory(): ConversationTurn[] {
     return [...this.conversationHistory];
   }
 }
-
@@ -0,0 +1,782 @@
+import mongoose, { PipelineStage } from "mongoose";
+import ChatSession, { IChatSession } from "../models/chatSession.model.js";
+import Message, { IMessage } from "../models/message.model.js";
+import SessionContext from "../models/sessionContext.model.js";
+import { CHAT_EXPORT_VERSION, ChatExport, ExportedMessage } from "../utils/chatExport.utils.js";
+import { CursorPageOptions, CursorPosition, PageInfo, buildPage, cursorFilter, decodeCursor } from "../utils/pagination.utils.js";
+import { TextHighlight, buildSnippet, extractSearchTerms } from "../utils/searchSnippet.utils.js";
+import { LruCache } from "../utils/lruCache.utils.js";
+import config from "../config/index.js";
+
+const PREVIEW_LENGTH = 100;
+const MAX_TITLE_MATCHES = 10;
+
+export interface ListSessionsOptions extends CursorPageOptions {
+  archived?: "true" | "false" | "all";
+  pinned?: boolean;
+}
+
+export interface SessionSummary {
+  sessionId: mongoose.Types.ObjectId;
+  title: string;
+  pinned: boolean;
+  archived: boolean;
+  messageCount: number;
+  lastMessage: {
+    text: string;
+    isUserMessage: boolean;
+    timestamp: Date;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SearchChatsOptions {
+  q: string;
+  from?: Date;
+  to?: Date;
+  agent?: string;
+  hasFlightData?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface MessageSearchResult {
+  messageId: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  sessionTitle: string;
+  isUserMessage: boolean;
+  agent?: string;
+  hasFlightData: boolean;
+  snippet: string;
+  highlights: TextHighlight[];
+  score: number;
+  createdAt: Date;
+}
+
+export interface SessionSearchResult {
+  sessionId: mongoose.Types.ObjectId;
+  title: string;
+  highlights: TextHighlight[];
+  score: number;
+  updatedAt: Date;
+}
+
+export interface BranchInfo {
+  parentId: mongoose.Types.ObjectId | null;
+  index: number;
+  count: number;
+  siblingIds: mongoose.Types.ObjectId[];
+}
+
+interface MessageNode {
+  _id: mongoose.Types.ObjectId;
+  parent_message_id?: mongoose.Types.ObjectId | null;
+  is_user_message: boolean;
+  createdAt: Date;
+}
+
+const ROOT_KEY = "root";
+const NODE_FIELDS = "parent_message_id is_user_message createdAt";
+
+export class ChatImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatImportError";
+  }
+}
+
+const parentKey = (node: MessageNode): string => node.parent_message_id?.toString() ?? ROOT_KEY;
+
+// Sessions known to have no messages from before branching, so reads can
+// skip the check for unlinked messages.
+const linkedSessions = new LruCache<string, true>(config.sessionCache.maxSize, config.sessionCache.ttlMs);
+
+interface SessionRow {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  isPinned: boolean;
+  archived?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  messageStats: { count: number; last: { message: string; is_user_message: boolean; createdAt: Date } }[];
+}
+
+export class ChatSessionService {
+  /**
+   * One page of a user's sessions, pinned first and then most recently
+   * updated, with message counts and previews joined in the same query.
+   */
+  async listSessions(
+    userId: string,
+    options: ListSessionsOptions
+  ): Promise<{ sessions: SessionSummary[]; totalSessions: number; pagination: PageInfo }> {
+    const match: Record<string, unknown> = { userId: new mongoose.Types.ObjectId(userId) };
+    if (options.archived !== "all") {
+      match.archived = options.archived === "true" ? true : { $ne: true };
+    }
+    if (options.pinned !== undefined) {
+      match.pinned = options.pinned ? true : { $ne: true };
+    }
+
+    const forward = !options.after;
+    const direction = forward ? -1 : 1;
+    const cursor = options.before || options.after;
+
+    const pipeline: PipelineStage[] = [
+      { $match: match },
+      { $addFields: { isPinned: { $eq: ["$pinned", true] } } },
+    ];
+    if (cursor) {
+      pipeline.push({ $match: cursorFilter(decodeCursor(cursor), "updatedAt", forward, "isPinned") });
+    }
+    pipeline.push(
+      { $sort: { isPinned: direction, updatedAt: direction, _id: direction } },
+      { $limit: options.limit + 1 },
+      {
+        $lookup: {
+          from: Message.collection.name,
+          let: { sessionId: "$_id" },
+          pipeline: [
+            { $match: { $expr: { $eq: ["$chat_session_id", "$$sessionId"] } } },
+            { $sort: { createdAt: -1 } },
+            {
+              $group: {
+                _id: null,
+                count: { $sum: 1 },
+                last: { $first: { message: "$message", is_user_message: "$is_user_message", createdAt: "$createdAt" } },
+              },
+            },
+          ],
+          as: "messageStats",
+        },
+      },
+      { $project: { title: 1, isPinned: 1, archived: 1, createdAt: 1, updatedAt: 1, messageStats: 1 } }
+    );
+
+    const [rows, totalSessions] = await Promise.all([
+      ChatSession.aggregate<SessionRow>(pipeline),
+      ChatSession.countDocuments(match),
+    ]);
+
+    const { items, pagination } = buildPage(rows, options, (row) => ({
+      sortValue: row.updatedAt,
+      id: row._id,
+      pinned: row.isPinned,
+    }));
+
+    return {
+      sessions: items.map((row) => this.toSummary(row)),
+      totalSessions,
+      pagination,
+    };
+  }
+
+  /**
+   * One page of the messages on a session's active branch, newest first,
+   * with the alternatives (edits or regenerations) available at each one.
+   * The branch length is only counted for the first page.
+   *
+   * Pages are walked rather than cut from the whole branch: the first page
+   * from the active leaf and `before` pages up from the cursor message (so
+   * they follow the branch the cursor came from), each touching about
+   * `limit` messages however long the branch is. `after` pages walk up from
+   * the leaf and stop at the cursor, so they cost the number of messages
+   * newer than it.
+   */
+  async listMessages(
+    sessionId: mongoose.Types.ObjectId,
+    options: CursorPageOptions
+  ): Promise<{ messages: IMessage[]; branches: Map<string, BranchInfo>; messageCount?: number; pagination: PageInfo }> {
+    const cursor = options.before || options.after;
+    const position = cursor ? decodeCursor(cursor) : undefined;
+
+    // Nodes in the order the page is read: newest first, or oldest first
+    // when paging back towards the leaf.
+    let pageNodes: MessageNode[];
+    let messageCount: number | undefined;
+    if (!position) {
+      pageNodes = (await this.getBranch(sessionId, undefined, options.limit + 1)).reverse();
+      messageCount = pageNodes.length > options.limit ? await this.countPath(sessionId, pageNodes[0]._id) : pageNodes.length;
+    } else if (options.before) {
+      await this.linkUnparentedMessages(sessionId);
+      // The cursor message is the last node of its own path.
+      pageNodes = (await this.loadPath(sessionId, position.id, options.limit + 2)).slice(0, -1).reverse();
+    } else {
+      await this.linkUnparentedMessages(sessionId);
+      const leafId = await this.getActiveLeafId(sessionId);
+      pageNodes = leafId ? (await this.loadPath(sessionId, leafId, undefined, position)).slice(0, options.limit + 1) : [];
+    }
+
+    const docs = await Message.find({ _id: { $in: pageNodes.map((node) => node._id) } }).select("-__v");
+    const byId = new Map(docs.map((doc) => [String(doc._id), doc]));
+    const rows = pageNodes.map((node) => byId.get(node._id.toString())).filter((doc) => !!doc);
+
+    const { items, pagination } = buildPage(rows, options, (message) => ({
+      sortValue: message.createdAt,
+      id: message._id as mongoose.Types.ObjectId,
+    }));
+
+    const children = await this.loadChildren(sessionId, items.map((message) => message.parent_message_id ?? null));
+    const branches = new Map<string, BranchInfo>();
+    for (const message of items) {
+      branches.set(String(message._id), this.branchInfo(children, message as MessageNode));
+    }
+
+    return { messages: items, branches, messageCount, pagination };
+  }
+
+  /**
+   * Messages on a branch from the root down to `leafId` (or the session's
+   * active leaf when omitted; `null` means an empty branch), for rebuilding
+   * agent history. Only the last `limit` messages are loaded, and only those
+   * after `afterId` when that message is on the branch.
+   */
+  async getBranchHistory(
+    sessionId: mongoose.Types.ObjectId,
+    leafId: mongoose.Types.ObjectId | null | undefined,
+    limit: number,
+    afterId?: mongoose.Types.ObjectId
+  ): Promise<{
+    messages: (Pick<IMessage, "message" | "is_user_message"> & { _id: mongoose.Types.ObjectId })[];
+    leafId: mongoose.Types.ObjectId | null;
+    messageCount: number;
+    afterFound: boolean;
+  }> {
+    // Only the last `limit` messages are walked; the full branch is needed
+    // only when the summary cut point is further back than that.
+    let path = await this.getBranch(sessionId, leafId, limit);
+    let afterIndex = afterId ? path.findIndex((node) => node._id.equals(afterId)) : -1;
+    if (afterId && afterIndex === -1 && path.length >= limit) {
+      path = await this.getBranch(sessionId, leafId);
+      afterIndex = path.findIndex((node) => node._id.equals(afterId));
+    }
+    const recentIds = path.slice(afterIndex + 1).slice(-limit).map((node) => node._id);
+
+    const [docs, messageCount] = await Promise.all([
+      Message.find({ _id: { $in: recentIds } })
+        .select("message is_user_message")
+        .lean<{ _id: mongoose.Types.ObjectId; message: string; is_user_message: boolean }[]>(),
+      Message.countDocuments({ chat_session_id: sessionId }),
+    ]);
+    const byId = new Map(docs.map((doc) => [doc._id.toString(), doc]));
+
+    return {
+      messages: recentIds.map((id) => byId.get(id.toString())).filter((doc) => !!doc),
+      leafId: path.length > 0 ? path[path.length - 1]._id : null,
+      messageCount,
+      afterFound: afterIndex !== -1,
+    };
+  }
+
+  /**
+   * Ids of the messages on the session's active branch, root first.
+   */
+  async getActiveBranchIds(sessionId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> {
+    const path = await this.getBranch(sessionId);
+    return path.map((node) => node._id);
+  }
+
+  async findMessage(
+    sessionId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId
+  ): Promise<IMessage | null> {
+    await this.linkUnparentedMessages(sessionId);
+    return Message.findOne({ _id: messageId, chat_session_id: sessionId });
+  }
+
+  async getActiveLeafId(sessionId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId | null> {
+    const session = await ChatSession.findById(sessionId).select("activeLeafId").lean();
+    if (session?.activeLeafId) {
+      return session.activeLeafId;
+    }
+
+    const latest = await this.findLatestMessage(sessionId);
+    return latest?._id ?? null;
+  }
+
+  /**
+   * Makes the branch through `messageId` the active one, following the most
+   * recent reply below it down to a leaf. Returns the new leaf, or null if
+   * the message isn't in the session.
+   */
+  async activateBranch(
+    sessionId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId
+  ): Promise<mongoose.Types.ObjectId | null> {
+    await this.linkUnparentedMessages(sessionId);
+    const start = await Message.findOne({ _id: messageId, chat_session_id: sessionId }).select("_id").lean();
+    if (!start) {
+      return null;
+    }
+
+    let leafId = start._id as mongoose.Types.ObjectId;
+    const seen = new Set<string>();
+    while (!seen.has(leafId.toString())) {
+      seen.add(leafId.toString());
+      const latestChild = await Message.findOne({ chat_session_id: sessionId, parent_message_id: leafId })
+        .sort({ createdAt: -1, _id: -1 })
+        .select("_id")
+        .lean();
+      if (!latestChild) {
+        break;
+      }
+      leafId = latestChild._id as mongoose.Types.ObjectId;
+    }
+
+    await ChatSession.updateOne({ _id: sessionId }, { $set: { activeLeafId: leafId } }, { timestamps: false });
+    return leafId;
+  }
+
+  /**
+   * Text search over the user's message history and chat titles. Title
+   * matches only honour the date range; agent and flight-data filters are
+   * properties of messages.
+   */
+  async search(
+    userId: string,
+    options: SearchChatsOptions
+  ): Promise<{ sessions: SessionSearchResult[]; messages: MessageSearchResult[]; totalMessages: number }> {
+    const userSessions = await ChatSession.find({ userId: userId }).select("title").lean();
+    if (userSessions.length === 0) {
+      return { sessions: [], messages: [], totalMessages: 0 };
+    }
+
+    const titles = new Map(userSessions.map((session) => [session._id.toString(), session.title]));
+    const terms = extractSearchTerms(options.q);
+
+    const createdAt: Record<string, Date> = {};
+    if (options.from) {
+      createdAt.$gte = options.from;
+    }
+    if (options.to) {
+      // A bare date ("2026-03-01") covers that whole day.
+      const isWholeDay = options.to.getTime() % 86400000 === 0;
+      createdAt.$lte = isWholeDay ? new Date(options.to.getTime() + 86400000 - 1) : options.to;
+    }
+
+    const messageFilter: Record<string, unknown> = {
+      $text: { $search: options.q },
+      chat_session_id: { $in: userSessions.map((session) => session._id) },
+    };
+    if (options.from || options.to) {
+      messageFilter.createdAt = createdAt;
+    }
+    if (options.agent) {
+      messageFilter.agent = options.agent;
+    }
+    if (options.hasFlightData !== undefined) {
+      messageFilter.flightData = options.hasFlightData ? { $exists: true, $ne: null } : null;
+    }
+
+    const searchesTitles = !options.agent && options.hasFlightData === undefined;
+    const titleFilter: Record<string, unknown> = { userId: userId, $text: { $search: options.q } };
+    if (options.from || options.to) {
+      titleFilter.updatedAt = createdAt;
+    }
+
+    const [messageRows, totalMessages, sessionRows] = await Promise.all([
+      Message.aggregate<{
+        _id: mongoose.Types.ObjectId;
+        chat_session_id: mongoose.Types.ObjectId;
+        is_user_message: boolean;
+        message: string;
+        agent?: string;
+        hasFlightData: boolean;
+        score: number;
+        createdAt: Date;
+      }>([
+        { $match: messageFilter },
+        { $addFields: { score: { $meta: "textScore" } } },
+        { $sort: { score: -1, createdAt: -1 } },
+        { $skip: options.offset },
+        { $limit: options.limit },
+        {
+          $project: {
+            chat_session_id: 1,
+            is_user_message: 1,
+            message: 1,
+            agent: 1,
+            score: 1,
+            createdAt: 1,
+            hasFlightData: { $eq: [{ $type: "$flightData" }, "object"] },
+          },
+        },
+      ]),
+      Message.countDocuments(messageFilter),
+      searchesTitles && options.offset === 0
+        ? ChatSession.find(titleFilter, { score: { $meta: "textScore" } })
+          .sort({ score: { $meta: "textScore" } })
+          .limit(MAX_TITLE_MATCHES)
+          .select("title updatedAt")
+          .lean<{ _id: mongoose.Types.ObjectId; title: string; updatedAt: Date; score: number }[]>()
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      sessions: sessionRows.map((session) => ({
+        sessionId: session._id,
+        title: session.title,
+        highlights: buildSnippet(session.title, terms, session.title.length).highlights,
+        score: session.score,
+        updatedAt: session.updatedAt,
+      })),
+      messages: messageRows.map((row) => ({
+        messageId: row._id,
+        sessionId: row.chat_session_id,
+        sessionTitle: titles.get(row.chat_session_id.toString()) || "",
+        isUserMessage: row.is_user_message,
+        agent: row.agent,
+        hasFlightData: row.hasFlightData,
+        ...buildSnippet(row.message, terms),
+        score: row.score,
+        createdAt: row.createdAt,
+      })),
+      totalMessages,
+    };
+  }
+
+  /**
+   * Everything needed to recreate the session: every message on every
+   * branch plus the session context. `activePath` is the branch the user
+   * currently sees, for the human-readable formats.
+   */
+  async exportSession(session: IChatSession): Promise<{ data: ChatExport; activePath: ExportedMessage[] }> {
+    const sessionId = session._id as mongoose.Types.ObjectId;
+    const path = await this.getBranch(sessionId);
+
+    const [messages, context] = await Promise.all([
+      Message.find({ chat_session_id: sessionId })
+        .sort({ createdAt: 1, _id: 1 })
+        .lean<(Omit<IMessage, "_id"> & { _id: mongoose.Types.ObjectId })[]>(),
+      SessionContext.findOne({ chat_session_id: sessionId })
+        .lean<{
+          contextData?: Record<string, any>;
+          conversationSummary?: string;
+          summaryThroughMessageId?: mongoose.Types.ObjectId;
+          agentState?: Record<string, any>;
+        }>(),
+    ]);
+
+    const exported: ExportedMessage[] = messages.map((message) => ({
+      id: message._id.toString(),
+      parentId: message.parent_message_id?.toString() ?? null,
+      isUserMessage: message.is_user_message,
+      message: message.message,
+      agent: message.agent,
+      metadata: message.metadata,
+      searchParams: message.searchParams,
+      suggestions: message.suggestions,
+      tokenUsage: message.tokenUsage,
+      flightData: message.flightData ?? undefined,
+      hotelData: message.hotelData ?? undefined,
+      createdAt: message.createdAt.toISOString(),
+    }));
+
+    const byId = new Map(exported.map((message) => [message.id, message]));
+    const activePath = path
+      .map((node) => byId.get(node._id.toString()))
+      .filter((message): message is ExportedMessage => !!message);
+
+    return {
+      data: {
+        version: CHAT_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        session: {
+          title: session.title,
+          pinned: session.pinned,
+          archived: session.archived,
+          createdAt: session.createdAt.toISOString(),
+          updatedAt: session.updatedAt.toISOString(),
+        },
+        activeLeafId: activePath.length > 0 ? activePath[activePath.length - 1].id : null,
+        messages: exported,
+        context: context ? {
+          contextData: context.contextData,
+          conversationSummary: context.conversationSummary,
+          summaryThroughMessageId: context.summaryThroughMessageId?.toString() ?? null,
+          agentState: context.agentState,
+        } : undefined,
+      },
+      activePath,
+    };
+  }
+
+  /**
+   * Recreates an exported session for `userId`. Messages get fresh ids; the
+   * parent links and active branch are remapped onto them.
+   */
+  async importSession(userId: string, data: ChatExport): Promise<IChatSession> {
+    const idMap = new Map<string, mongoose.Types.ObjectId>();
+    for (const message of data.messages) {
+      if (idMap.has(message.id)) {
+        throw new ChatImportError(`Duplicate message id ${message.id}`);
+      }
+      idMap.set(message.id, new mongoose.Types.ObjectId());
+    }
+
+    for (const message of data.messages) {
+      if (message.parentId && !idMap.has(message.parentId)) {
+        throw new ChatImportError(`Message ${message.id} refers to unknown parent ${message.parentId}`);
+      }
+    }
+    if (data.activeLeafId && !idMap.has(data.activeLeafId)) {
+      throw new ChatImportError(`activeLeafId ${data.activeLeafId} is not one of the exported messages`);
+    }
+    // A summary cut point outside the export can't be placed; the summary is
+    // then ignored on load just as for a summary of another branch.
+    const summaryThroughId = data.context?.summaryThroughMessageId;
+
+    const session = new ChatSession({
+      userId,
+      title: data.session.title,
+      // The imported title is the one the user had; don't regenerate it.
+      titleLocked: true,
+      pinned: data.session.pinned ?? false,
+      archived: data.session.archived ?? false,
+      archivedAt: data.session.archived ? new Date() : undefined,
+      activeLeafId: data.activeLeafId ? idMap.get(data.activeLeafId) : undefined,
+    });
+    await session.save();
+
+    try {
+      if (data.messages.length > 0) {
+        await Message.insertMany(data.messages.map((message) => ({
+          _id: idMap.get(message.id),
+          chat_session_id: session._id,
+          parent_message_id: message.parentId ? idMap.get(message.parentId) : null,
+          is_user_message: message.isUserMessage,
+          message: message.message,
+          agent: message.agent,
+          metadata: message.metadata,
+          searchParams: message.searchParams,
+          suggestions: message.suggestions,
+          tokenUsage: message.tokenUsage,
+          flightData: message.flightData,
+          hotelData: message.hotelData,
+          createdAt: new Date(message.createdAt),
+        })));
+      }
+
+      await SessionContext.create({
+        chat_session_id: session._id,
+        contextData: data.context?.contextData || {},
+        conversationSummary: data.context?.conversationSummary || "",
+        summaryThroughMessageId: summaryThroughId ? idMap.get(summaryThroughId) : undefined,
+        agentState: data.context?.agentState || {},
+      });
+    } catch (error) {
+      await Promise.all([
+        Message.deleteMany({ chat_session_id: session._id }),
+        SessionContext.deleteMany({ chat_session_id: session._id }),
+        ChatSession.deleteOne({ _id: session._id }),
+      ]);
+      throw error;
+    }
+
+    return session;
+  }
+
+  /**
+   * The branch from the root down to `leafId` (or the session's active leaf
+   * when omitted; `null` means an empty branch). With `limit`, only the last
+   * `limit` messages of it.
+   */
+  private async getBranch(
+    sessionId: mongoose.Types.ObjectId,
+    leafId?: mongoose.Types.ObjectId | null,
+    limit?: number
+  ): Promise<MessageNode[]> {
+    await this.linkUnparentedMessages(sessionId);
+    if (leafId === null) {
+      return [];
+    }
+    if (leafId) {
+      return this.loadPath(sessionId, leafId, limit);
+    }
+
+    const session = await ChatSession.findById(sessionId).select("activeLeafId").lean();
+    if (session?.activeLeafId) {
+      const path = await this.loadPath(sessionId, session.activeLeafId, limit);
+      if (path.length > 0) {
+        return path;
+      }
+    }
+
+    const latest = await this.findLatestMessage(sessionId);
+    return latest ? this.loadPath(sessionId, latest._id, limit) : [];
+  }
+
+  // Walks parent links up from the leaf on the server, so the cost follows
+  // the branch length rather than the size of the session. With `after`,
+  // the walk stops at the first message not listed after that position.
+  private async loadPath(
+    sessionId: mongoose.Types.ObjectId,
+    leafId: mongoose.Types.ObjectId,
+    limit?: number,
+    after?: CursorPosition
+  ): Promise<MessageNode[]> {
+    if (limit !== undefined && limit <= 0) {
+      return [];
+    }
+
+    const newer = after ? cursorFilter(after, "createdAt", false) : {};
+    const [leaf] = await Message.aggregate<MessageNode & { ancestors: (MessageNode & { depth: number })[] }>([
+      { $match: { _id: leafId, chat_session_id: sessionId, ...newer } },
+      {
+        $graphLookup: {
+          from: Message.collection.name,
+          startWith: "$parent_message_id",
+          connectFromField: "parent_message_id",
+          connectToField: "_id",
+          as: "ancestors",
+          depthField: "depth",
+          restrictSearchWithMatch: { chat_session_id: sessionId, ...newer },
+          ...(limit !== undefined && { maxDepth: Math.max(limit - 2, 0) }),
+        },
+      },
+      {
+        $project: {
+          parent_message_id: 1,
+          is_user_message: 1,
+          createdAt: 1,
+          "ancestors._id": 1,
+          "ancestors.parent_message_id": 1,
+          "ancestors.is_user_message": 1,
+          "ancestors.createdAt": 1,
+          "ancestors.depth": 1,
+        },
+      },
+    ]);
+    if (!leaf) {
+      return [];
+    }
+
+    const { ancestors, ...node } = leaf;
+    const path = ancestors
+      .sort((a, b) => b.depth - a.depth)
+      .map(({ depth, ...ancestor }) => ancestor);
+    path.push(node);
+    return limit !== undefined ? path.slice(-limit) : path;
+  }
+
+  // Number of messages from the root down to `leafId`, counted on the server
+  // without sending the branch back.
+  private async countPath(sessionId: mongoose.Types.ObjectId, leafId: mongoose.Types.ObjectId): Promise<number> {
+    const [result] = await Message.aggregate<{ count: number }>([
+      { $match: { _id: leafId, chat_session_id: sessionId } },
+      {
+        $graphLookup: {
+          from: Message.collection.name,
+          startWith: "$parent_message_id",
+          connectFromField: "parent_message_id",
+          connectToField: "_id",
+          as: "ancestors",
+          restrictSearchWithMatch: { chat_session_id: sessionId },
+        },
+      },
+      { $project: { count: { $add: [{ $size: "$ancestors" }, 1] } } },
+    ]);
+    return result?.count ?? 0;
+  }
+
+  private async findLatestMessage(sessionId: mongoose.Types.ObjectId): Promise<MessageNode | null> {
+    return Message.findOne({ chat_session_id: sessionId })
+      .sort({ createdAt: -1, _id: -1 })
+      .select(NODE_FIELDS)
+      .lean<MessageNode>();
+  }
+
+  // Replies under each of the given parents (null for the first messages),
+  // oldest first.
+  private async loadChildren(
+    sessionId: mongoose.Types.ObjectId,
+    parentIds: (mongoose.Types.ObjectId | null)[]
+  ): Promise<Map<string, MessageNode[]>> {
+    const children = new Map<string, MessageNode[]>();
+    if (parentIds.length === 0) {
+      return children;
+    }
+
+    const nodes = await Message.find({ chat_session_id: sessionId, parent_message_id: { $in: parentIds } })
+      .sort({ createdAt: 1, _id: 1 })
+      .select(NODE_FIELDS)
+      .lean<MessageNode[]>();
+    for (const node of nodes) {
+      const siblings = children.get(parentKey(node)) || [];
+      siblings.push(node);
+      children.set(parentKey(node), siblings);
+    }
+
+    return children;
+  }
+
+  // Messages stored before branching existed form one linear thread; give
+  // them parent links the first time the session is read.
+  private async linkUnparentedMessages(sessionId: mongoose.Types.ObjectId): Promise<void> {
+    if (linkedSessions.get(sessionId.toString())) {
+      return;
+    }
+
+    const hasUnlinked = await Message.exists({ chat_session_id: sessionId, parent_message_id: { $exists: false } });
+    if (!hasUnlinked) {
+      linkedSessions.set(sessionId.toString(), true);
+      return;
+    }
+
+    const messages = await Message.find({ chat_session_id: sessionId })
+      .sort({ createdAt: 1, _id: 1 })
+      .select("parent_message_id")
+      .lean<{ _id: mongoose.Types.ObjectId; parent_message_id?: mongoose.Types.ObjectId | null }[]>();
+
+    const updates = [];
+    let previousId: mongoose.Types.ObjectId | null = null;
+    for (const message of messages) {
+      if (message.parent_message_id === undefined) {
+        updates.push({
+          updateOne: {
+            filter: { _id: message._id },
+            update: { $set: { parent_message_id: previousId } },
+            timestamps: false,
+          },
+        });
+      }
+      previousId = message._id;
+    }
+
+    await Message.bulkWrite(updates);
+    linkedSessions.set(sessionId.toString(), true);
+  }
+
+  private branchInfo(children: Map<string, MessageNode[]>, node: MessageNode): BranchInfo {
+    const siblings = (children.get(parentKey(node)) || [])
+      .filter((sibling) => sibling.is_user_message === node.is_user_message);
+
+    return {
+      parentId: node.parent_message_id ?? null,
+      index: siblings.findIndex((sibling) => sibling._id.equals(node._id)),
+      count: siblings.length,
+      siblingIds: siblings.map((sibling) => sibling._id),
+    };
+  }
+
+  private toSummary(row: SessionRow): SessionSummary {
+    const stats = row.messageStats[0];
+    const last = stats?.last;
+
+    return {
+      sessionId: row._id,
+      title: row.title,
+      pinned: row.isPinned,
+      archived: row.archived === true,
+      messageCount: stats?.count ?? 0,
+      lastMessage: last ? {
+        text: last.message.substring(0, PREVIEW_LENGTH) + (last.message.length > PREVIEW_LENGTH ? "..." : ""),
+        isUserMessage: last.is_user_message,
+        timestamp: last.createdAt,
+      } : null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { LlmProvider, createLlmProvider } from "./llmProvider.service.js";
+import { AgentContext, ConversationTurn } from "./agentRegistry.service.js";
+import { estimateTokens } from "../utils/tokenUsage.utils.js";
+import config from "../config/index.js";
+
+const MAX_SUMMARY_WORDS = 200;
+
+export interface SummaryBudget {
+  maxTurns: number;
+  maxTokens: number;
+  keepRecentTurns: number;
+}
+
+export interface CompactedHistory {
+  summary: string;
+  summarizedTurns: ConversationTurn[];
+  recentTurns: ConversationTurn[];
+}
+
+const formatTurns = (turns: ConversationTurn[]): string =>
+  turns.map(turn => `${turn.role}: ${turn.message}`).join('\n');
+
+/**
+ * The summary of earlier turns followed by the recent ones, for agents to put
+ * in front of their prompts. Empty when there is nothing to add.
+ */
+export const formatConversationContext = (summary: string | undefined, recentTurns: ConversationTurn[] = []): string => {
+  const parts: string[] = [];
+  if (summary) {
+    parts.push(`Summary of the earlier conversation:\n${summary}`);
+  }
+  if (recentTurns.length > 0) {
+    parts.push(`Recent conversation:\n${formatTurns(recentTurns)}`);
+  }
+  return parts.join('\n\n');
+};
+
+/**
+ * Conversation context for an agent handling `ctx`: the rolling summary and
+ * the turns before the current message, capped at the summary turn budget.
+ */
+export const conversationContextFor = (ctx: Pick<AgentContext, "conversationSummary" | "history">): string =>
+  formatConversationContext(ctx.conversationSummary, ctx.history.slice(0, -1).slice(-config.summary.maxTurns));
+
+export class ConversationSummarizer {
+  private llm: LlmProvider;
+  private budget: SummaryBudget;
+
+  constructor(llm?: LlmProvider, budget: SummaryBudget = config.summary) {
+    this.llm = llm ?? createLlmProvider("summary");
+    this.budget = budget;
+  }
+
+  exceedsBudget(history: ConversationTurn[]): boolean {
+    if (history.length <= this.budget.keepRecentTurns) {
+      return false;
+    }
+
+    return history.length > this.budget.maxTurns ||
+      estimateTokens(formatTurns(history)) > this.budget.maxTokens;
+  }
+
+  /**
+   * Folds everything but the most recent turns into the running summary.
+   * Returns null when the history is within budget or the LLM call fails,
+   * in which case the history should be left as it is.
+   */
+  async compact(previousSummary: string, history: ConversationTurn[]): Promise<CompactedHistory | null> {
+    if (!this.exceedsBudget(history)) {
+      return null;
+    }
+
+    const splitAt = history.length - this.budget.keepRecentTurns;
+    const summarizedTurns = history.slice(0, splitAt);
+
+    try {
+      const summary = await this.summarize(previousSummary, summarizedTurns);
+      if (!summary) {
+        return null;
+      }
+
+      return { summary, summarizedTurns, recentTurns: history.slice(splitAt) };
+    } catch (error) {
+      console.error("Conversation summarization error:", error);
+      return null;
+    }
+  }
+
+  private async summarize(previousSummary: string, turns: ConversationTurn[]): Promise<string> {
+    const prompt = `You keep a running summary of a conversation between a traveller and a travel assistant.
+
+${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}New conversation to add:
+${formatTurns(turns)}
+
+Write the updated summary in at most ${MAX_SUMMARY_WORDS} words. Keep facts about the traveller, destinations, dates, budgets, party size, preferences, options they liked or rejected, decisions made and questions still open. Drop greetings and small talk. Later statements override earlier ones. Return only the summary text.`;
+
+    const text = await this.llm.generate(prompt, { temperature: 0.2, maxOutputTokens: 400 });
+    return text.trim();
+  }
+}
@@ -0,0 +1,266 @@
+import mongoose from "mongoose";
+import FareWatch, { IFareWatch } from "../models/fareWatch.model.js";
+import Notification from "../models/notification.model.js";
+import { FlightPlanner, FlightSearchParams } from "../utils/flightPlanner.utils.js";
+import config from "../config/index.js";
+
+const MAX_HISTORY_POINTS = 200;
+
+export interface CreateFareWatchInput {
+  userId: string | mongoose.Types.ObjectId;
+  searchParams: Partial<FlightSearchParams>;
+  threshold?: number;
+  currency?: string;
+  sessionId?: mongoose.Types.ObjectId;
+}
+
+export interface FareWatchCheckResult {
+  price?: number;
+  notified: boolean;
+  expired?: boolean;
+  error?: string;
+}
+
+interface LowestFare {
+  price: number;
+  airline?: string;
+  googleFlightsUrl?: string;
+}
+
+export class FareWatchError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "FareWatchError";
+    this.status = status;
+  }
+}
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class FareWatchService {
+  private flightPlanner?: FlightPlanner;
+
+  constructor(flightPlanner?: FlightPlanner) {
+    this.flightPlanner = flightPlanner;
+  }
+
+  async createWatch(input: CreateFareWatchInput): Promise<IFareWatch> {
+    const { departureId, arrivalId, outboundDate } = input.searchParams;
+    if (!departureId || !arrivalId || !outboundDate) {
+      throw new FareWatchError("A fare watch needs a departure airport, arrival airport and departure date", 400);
+    }
+
+    if (outboundDate < today()) {
+      throw new FareWatchError("The departure date has already passed", 400);
+    }
+
+    const openWatches = await FareWatch.countDocuments({ userId: input.userId, status: { $ne: "expired" } });
+    if (openWatches >= config.fareWatch.maxPerUser) {
+      throw new FareWatchError(`You can have at most ${config.fareWatch.maxPerUser} fare watches`, 409);
+    }
+
+    const currency = (input.currency || input.searchParams.currency || "USD").toUpperCase();
+    const watch = new FareWatch({
+      userId: input.userId,
+      chat_session_id: input.sessionId,
+      searchParams: {
+        departureId,
+        arrivalId,
+        outboundDate,
+        returnDate: input.searchParams.returnDate,
+        adults: input.searchParams.adults,
+        children: input.searchParams.children,
+        infants: input.searchParams.infants,
+        travelClass: input.searchParams.travelClass,
+        maxStops: input.searchParams.maxStops,
+        airlines: input.searchParams.airlines,
+        hl: input.searchParams.hl,
+      },
+      threshold: input.threshold ?? 0,
+      currency,
+      nextCheckAt: new Date(),
+    });
+
+    if (input.threshold === undefined) {
+      const fare = await this.findLowestFare(watch);
+      if ("error" in fare) {
+        throw new FareWatchError(`Couldn't get a current fare to compare against (${fare.error}). Please give a target price.`, 422);
+      }
+
+      // "Tell me if it gets cheaper" - anything below today's lowest fare counts.
+      watch.threshold = Math.max(fare.price - 1, 0);
+      this.recordPrice(watch, fare);
+      watch.nextCheckAt = new Date(Date.now() + config.fareWatch.checkIntervalMs);
+    }
+
+    await watch.save();
+    console.log(`Fare watch ${watch._id} created: ${departureId} → ${arrivalId} on ${outboundDate} at ${currency} ${watch.threshold}`);
+
+    return watch;
+  }
+
+  async checkWatch(watch: IFareWatch): Promise<FareWatchCheckResult> {
+    if (watch.searchParams.outboundDate < today()) {
+      watch.status = "expired";
+      await watch.save();
+      return { notified: false, expired: true };
+    }
+
+    const fare = await this.findLowestFare(watch);
+    watch.nextCheckAt = new Date(Date.now() + config.fareWatch.checkIntervalMs);
+
+    if ("error" in fare) {
+      watch.lastCheckedAt = new Date();
+      watch.lastError = fare.error;
+      await watch.save();
+      return { notified: false, error: fare.error };
+    }
+
+    const previousPrice = watch.lastPrice;
+    this.recordPrice(watch, fare);
+
+    const crossed = fare.price <= watch.threshold &&
+      (previousPrice === undefined || previousPrice > watch.threshold);
+
+    if (crossed) {
+      await this.notify(watch, fare, previousPrice);
+      watch.lastNotifiedAt = new Date();
+    }
+
+    await watch.save();
+    return { price: fare.price, notified: crossed };
+  }
+
+  async checkDueWatches(limit: number = config.fareWatch.batchSize): Promise<number> {
+    const dueWatches = await FareWatch.find({ status: "active", nextCheckAt: { $lte: new Date() } })
+      .sort({ nextCheckAt: 1 })
+      .limit(limit);
+
+    for (const watch of dueWatches) {
+      try {
+        await this.checkWatch(watch);
+      } catch (error) {
+        console.error(`Error checking fare watch ${watch._id}:`, error);
+      }
+    }
+
+    return dueWatches.length;
+  }
+
+  private recordPrice(watch: IFareWatch, fare: LowestFare): void {
+    const checkedAt = new Date();
+
+    watch.lastPrice = fare.price;
+    watch.lowestPrice = watch.lowestPrice === undefined ? fare.price : Math.min(watch.lowestPrice, fare.price);
+    watch.lastCheckedAt = checkedAt;
+    watch.lastError = undefined;
+    watch.history.push({ price: fare.price, airline: fare.airline, checkedAt });
+
+    if (watch.history.length > MAX_HISTORY_POINTS) {
+      watch.history.splice(0, watch.history.length - MAX_HISTORY_POINTS);
+    }
+  }
+
+  private async notify(watch: IFareWatch, fare: LowestFare, previousPrice?: number): Promise<void> {
+    const { departureId, arrivalId, outboundDate, returnDate } = watch.searchParams;
+    const route = `${departureId} → ${arrivalId} on ${outboundDate}${returnDate ? ` (return ${returnDate})` : ""}`;
+
+    await Notification.create({
+      userId: watch.userId,
+      type: "fare_drop",
+      title: `Fare alert: ${departureId} → ${arrivalId} now ${watch.currency} ${fare.price}`,
+      message: `The lowest fare for ${route} is ${watch.currency} ${fare.price}${fare.airline ? ` on ${fare.airline}` : ""}, at or below your target of ${watch.currency} ${watch.threshold}.`,
+      data: {
+        watchId: watch._id,
+        price: fare.price,
+        previousPrice,
+        threshold: watch.threshold,
+        currency: watch.currency,
+        airline: fare.airline,
+        googleFlightsUrl: fare.googleFlightsUrl,
+      },
+    });
+
+    console.log(`Fare watch ${watch._id} crossed ${watch.currency} ${watch.threshold} (now ${fare.price}) - notification created`);
+  }
+
+  private async findLowestFare(watch: IFareWatch): Promise<LowestFare | { error: string }> {
+    const { airlines, ...searchParams } = watch.toObject().searchParams;
+
+    const result = await this.getPlanner().searchFlights({
+      ...searchParams,
+      airlines: airlines && airlines.length > 0 ? airlines : undefined,
+      travelClass: searchParams.travelClass as FlightSearchParams["travelClass"],
+      currency: watch.currency,
+    });
+
+    if (!result.success) {
+      return { error: result.error || "Unknown error" };
+    }
+
+    const cheapest = (result.data?.flights || [])
+      .filter(flight => flight.price.amount > 0)
+      .sort((a, b) => a.price.amount - b.price.amount)[0];
+
+    if (!cheapest) {
+      return { error: "No fares found" };
+    }
+
+    return {
+      price: cheapest.price.amount,
+      airline: cheapest.airline,
+      googleFlightsUrl: result.data?.googleFlightsUrl,
+    };
+  }
+
+  private getPlanner(): FlightPlanner {
+    if (!this.flightPlanner) {
+      this.flightPlanner = new FlightPlanner();
+    }
+    return this.flightPlanner;
+  }
+}
+
+export class FareWatchScheduler {
+  private service: FareWatchService;
+  private timer?: NodeJS.Timeout;
+  private running: boolean;
+
+  constructor(service: FareWatchService = new FareWatchService()) {
+    this.service = service;
+    this.running = false;
+  }
+
+  start(intervalMs: number = config.fareWatch.pollIntervalMs): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    this.timer.unref();
+    console.log(`Fare watch scheduler started (polling every ${intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running || mongoose.connection.readyState !== 1) return;
+
+    this.running = true;
+    try {
+      const checked = await this.service.checkDueWatches();
+      if (checked > 0) {
+        console.log(`Fare watch scheduler checked ${checked} watch(es)`);
+      }
+    } catch (error) {
+      console.error("Fare watch scheduler error:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -1,5 +1,29 @@
-import { GoogleGenAI } from "@google/genai";
-import { FlightPlanner, FlightSearchParams } from "../utils/flightPlanner.utils.js";
+import mongoose from "mongoose";
+import {
+  FlightPlanner,
+  FlightSearchParams,
+  FlightSearchOptions,
+  FlightLeg,
+  FlightOption,
+  FareCalendarResult,
+} from "../utils/flightPlanner.utils.js";
+import { FlightCacheStatus } from "../utils/flightSearchCache.utils.js";
+import {
+  FlightRefinement,
+  REFINEMENT_PAGE_SIZE,
+  applyFlightRefinement,
+  extractFlightRefinement,
+  mergeFlightRefinement,
+} from "../utils/flightRefinement.utils.js";
+import { DateParseOptions, describePastDates, extractDates, parseTravelDates } from "../utils/dateParser.utils.js";
+import { getAirportResolver } from "../utils/airportResolver.utils.js";
+import { LlmProvider, createLlmProvider } from "./llmProvider.service.js";
+import { conversationContextFor } from "./conversationSummary.service.js";
+import { FareWatchError, FareWatchService } from "./fareWatch.service.js";
+import { ChatSessionService } from "./chatSession.service.js";
+import { FlightSlotExtraction, FlightSlotExtractor, FlightSlotName, describeFlightSlot } from "./flightSlotExtractor.service.js";
+import { Agent, AgentContext, AgentResult, ConversationTurn } from "./agentRegistry.service.js";
+import Message from "../models/message.model.js";
 
 export interface FlightAgentResponse {
   message: string;
@@ -8,54 +32,217 @@ export interface FlightAgentResponse {
   tripType?: string;
   requiresMoreInfo?: boolean;
   suggestedQuestions?: string[];
+  cache?: FlightCacheStatus & { hits?: number; misses?: number };
+  refinement?: FlightRefinement;
+  watch?: { id: string; threshold: number; currency: string; lastPrice?: number };
+  slots?: FlightSlotExtraction['slots'];
+  awaitingConfirmation?: boolean;
 }
 
-export class FlightAgentService {
-  private client: GoogleGenAI;
+export type FlightAgentState = Partial<FlightSearchParams> & { awaitingConfirmation?: boolean };
+
+interface LastFlightResults {
+  flights: FlightOption[];
+  searchParams: Partial<FlightSearchParams>;
+  googleFlightsUrl?: string;
+  refinement: FlightRefinement;
+}
+
+const WATCH_PATTERN = /\b(?:watch|track|monitor|keep an eye on)\b.*\b(?:price|fare|flight|ticket|route|it|this|that)s?\b|\b(?:(?:alert|notify|ping|email)\s+me|(?:tell|let)\s+me\s+know)\b.*\b(?:if|when|once)\b.*\b(?:drops?|falls?|goes? down|gets? cheaper|cheaper|below|under|less than)\b|\b(?:price|fare)\s+(?:alert|watch|drop alert)s?\b/i;
+
+const WATCH_TARGET_PATTERN = /\b(?:drops?|falls?|goes? down|gets?|hits?|reaches?)\s+(?:to|below|under)\s*([$€£₹])?\s*(\d[\d,]*(?:\.\d+)?)\s*(k)?\b/i;
+
+const CONFIRM_PATTERN = /^\s*(?:yes|yeah|yep|yup|sure|ok(?:ay)?|correct|right|that'?s (?:right|correct)|looks good|go ahead|search|do it|confirm(?:ed)?)\b/i;
+
+const REJECT_PATTERN = /^\s*(?:no|nope|nah|not quite|wrong|that'?s (?:wrong|not right))\b/i;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '₹': 'INR' };
+
+export class FlightAgentService implements Agent {
+  readonly name = "Flight Assistant";
+  readonly type = "flight";
+  readonly description = "searching, comparing or booking flights, airports, routes, travel dates, or answering a question the assistant asked about a flight search";
+  readonly threshold = 0.3;
+  private llm: LlmProvider;
   private flightPlanner: FlightPlanner;
   private conversationContext: Partial<FlightSearchParams>;
+  private dateOptions: DateParseOptions;
+  private conversationText: string;
+  private lastResults?: LastFlightResults;
+  private fareWatchService: FareWatchService;
+  private chatSessionService: ChatSessionService;
+  private slotExtractor: FlightSlotExtractor;
+  private awaitingConfirmation: boolean;
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY environment variable is required");
-    }
-    this.client = new GoogleGenAI({ apiKey });
+  constructor(llm?: LlmProvider) {
+    this.llm = llm ?? createLlmProvider("flight");
     this.flightPlanner = new FlightPlanner();
+    this.slotExtractor = new FlightSlotExtractor(this.llm);
+    this.awaitingConfirmation = false;
+    this.fareWatchService = new FareWatchService(this.flightPlanner);
+    this.chatSessionService = new ChatSessionService();
     this.conversationContext = {};
+    this.dateOptions = {};
+    this.conversationText = "";
+  }
+
+  scoreConfidence(message: string, history: ConversationTurn[]): number {
+    let score = this.calculateFlightConfidence(message);
+
+    if (this.isOngoingFlightConversation(history)) {
+      console.log('🛫 Continuing flight conversation - boosting flight score');
+      score = Math.max(score, 0.7);
+    }
+
+    return score;
   }
 
-  async processFlightQuery(message: string, conversationHistory?: Array<{ role: string; message: string }>): Promise<FlightAgentResponse> {
+  async handle(message: string, ctx: AgentContext): Promise<AgentResult> {
+    this.dateOptions = ctx.dateOptions || {};
+    this.conversationText = conversationContextFor(ctx);
+    const result = await this.processFlightQuery(message, ctx.onDelta, ctx.sessionId, ctx.userId);
+
+    return {
+      message: result.message,
+      flightData: result.flightData,
+      metadata: {
+        tripType: result.tripType,
+        requiresMoreInfo: result.requiresMoreInfo,
+        suggestedQuestions: result.suggestedQuestions,
+        searchParams: result.searchParams,
+        cache: result.cache,
+        refinement: result.refinement,
+        watch: result.watch,
+        slots: result.slots,
+        awaitingConfirmation: result.awaitingConfirmation,
+      },
+    };
+  }
+
+  async processFlightQuery(
+    message: string,
+    onDelta?: (delta: string) => void,
+    sessionId?: mongoose.Types.ObjectId,
+    userId?: string
+  ): Promise<FlightAgentResponse> {
+    // Only the reply straight after a confirmation question can confirm it.
+    const wasAwaitingConfirmation = this.awaitingConfirmation;
+    this.awaitingConfirmation = false;
+
     try {
-      if (this.hasMultipleFlightQueries(message)) {
+      if (WATCH_PATTERN.test(message)) {
+        return await this.processWatchRequest(message, sessionId, userId);
+      }
+
+      const { pastDates } = parseTravelDates(message, this.dateOptions);
+      if (pastDates.length > 0) {
+        const { outboundDate, returnDate, flexibleDates, ...otherParams } = this.flightPlanner.extractFlightParams(message, this.dateOptions) || {};
+        this.conversationContext = { ...this.conversationContext, ...otherParams };
+
         return {
-          message: "I noticed you're asking about multiple flight searches at once! 😊\n\nTo give you the most accurate results, I'd like to help you with each search one at a time.\n\n**Which flight would you like me to search for first?**\n\nPlease provide:\n- Departure city/airport\n- Arrival city/airport\n- Travel dates\n\nOnce I find those flights for you, we can move on to the next search!",
+          message: `${describePastDates(pastDates, this.dateOptions)}. Which date would you like to fly instead?`,
+          searchParams: this.conversationContext,
           requiresMoreInfo: true,
           suggestedQuestions: [
-            "Search Mumbai to Dubai first",
-            "Find Delhi to London flights",
-            "Show Bangalore to Singapore options"
+            "Tomorrow",
+            "This Friday",
+            "In 2 weeks"
           ]
         };
       }
 
-      let fullContext = message;
-      if (conversationHistory && conversationHistory.length > 0) {
-        const recentHistory = conversationHistory.slice(-4);
-        const historyText = recentHistory.map(h => `${h.role}: ${h.message}`).join('\n');
-        fullContext = `Previous conversation:\n${historyText}\n\nCurrent message: ${message}`;
+      const messageLegs = this.flightPlanner.extractFlightLegs(message, this.dateOptions);
+      if (messageLegs) {
+        this.lastResults = undefined;
+        const currentParams = this.flightPlanner.extractFlightParams(message, this.dateOptions);
+        this.conversationContext = {
+          ...this.getSearchOptions(currentParams || {}),
+          legs: messageLegs,
+        };
+        return await this.processMultiLegQuery(message, messageLegs, onDelta);
+      }
+
+      const pendingLegs = this.conversationContext.legs;
+      const currentParams = this.flightPlanner.extractFlightParams(message, this.dateOptions);
+      if (pendingLegs && !currentParams?.departureId) {
+        const dates = extractDates(message, this.dateOptions);
+        const options = this.getSearchOptions(currentParams || {});
+        const fillsDates = dates.length > 0 && pendingLegs.some(leg => !leg.date);
+
+        if (fillsDates || Object.keys(options).length > 0) {
+          const filledLegs = pendingLegs.map(leg => ({ ...leg }));
+          filledLegs.filter(leg => !leg.date).forEach((leg, index) => {
+            leg.date = dates[index];
+          });
+          this.conversationContext = { ...this.conversationContext, ...options, legs: filledLegs };
+          return await this.processMultiLegQuery(message, filledLegs, onDelta);
+        }
+      }
+
+      const changesSearch = !!currentParams && !!(
+        currentParams.departureId || currentParams.arrivalId || currentParams.outboundDate ||
+        currentParams.returnDate || currentParams.flexibleDates || currentParams.travelClass || currentParams.adults ||
+        currentParams.children || currentParams.infants || currentParams.currency
+      );
+      const refinement = changesSearch
+        ? null
+        : extractFlightRefinement(message, this.getSearchOptions(currentParams || {}));
+
+      if (refinement) {
+        const lastResults = await this.loadLastResults(sessionId);
+        if (lastResults) {
+          const refinedResponse = await this.processRefinement(message, refinement, lastResults, onDelta);
+          if (refinedResponse) {
+            return refinedResponse;
+          }
+        }
+      }
+
+      const fullContext = this.conversationText
+        ? `${this.conversationText}\n\nCurrent message: ${message}`
+        : `Current message: ${message}`;
+
+      // A yes to "shall I search these details?" searches what's in the
+      // context; anything else is read as a new or corrected request.
+      const confirmed = wasAwaitingConfirmation && !changesSearch && CONFIRM_PATTERN.test(message);
+
+      const extraction = confirmed
+        ? null
+        : await this.slotExtractor.extract(currentParams, {
+            conversationText: fullContext,
+            context: this.conversationContext,
+            dateOptions: this.dateOptions,
+          });
+      const messageParams = extraction ? extraction.params : null;
+
+      if (wasAwaitingConfirmation && !messageParams && REJECT_PATTERN.test(message)) {
+        this.awaitingConfirmation = true;
+        return {
+          message: "No problem. What should I change: the route, the dates, the passengers or the cabin?",
+          searchParams: this.conversationContext,
+          requiresMoreInfo: true,
+          awaitingConfirmation: true,
+        };
       }
 
-      const currentParams = this.flightPlanner.extractFlightParams(message);
+      if (messageParams?.departureId || messageParams?.arrivalId) {
+        delete this.conversationContext.legs;
+      }
       
-      const extractedParams = this.mergeFlightParams(currentParams, this.conversationContext);
+      const extractedParams = this.mergeFlightParams(messageParams, this.conversationContext);
       
-      if (currentParams) {
-        this.conversationContext = { ...this.conversationContext, ...currentParams };
+      if (messageParams) {
+        this.conversationContext = { ...this.conversationContext, ...messageParams };
+        if (messageParams.outboundDate) {
+          delete this.conversationContext.flexibleDates;
+        } else if (messageParams.flexibleDates) {
+          delete this.conversationContext.outboundDate;
+          delete this.conversationContext.returnDate;
+        }
       }
 
       if (!extractedParams) {
-        const clarificationMessage = await this.getAIFlightHelp(message);
+        const clarificationMessage = await this.getAIFlightHelp(message, onDelta);
         
         return {
           message: clarificationMessage,
@@ -71,18 +258,29 @@ export class FlightAgentService {
       const missingInfo: string[] = [];
       if (!extractedParams.departureId) missingInfo.push('departure city/airport');
       if (!extractedParams.arrivalId) missingInfo.push('arrival city/airport');
-      if (!extractedParams.outboundDate) missingInfo.push('departure date');
+      if (!extractedParams.outboundDate && !extractedParams.flexibleDates) missingInfo.push('departure date');
 
       if (missingInfo.length > 0) {
-        const contextualResponse = await this.getContextualClarification(message, extractedParams, missingInfo);
+        const contextualResponse = await this.getContextualClarification(message, extractedParams, missingInfo, onDelta);
         
         return {
           message: contextualResponse,
           searchParams: extractedParams,
-          requiresMoreInfo: true
+          requiresMoreInfo: true,
+          slots: extraction?.slots,
         };
       }
 
+      const uncertainSlots = extraction ? this.slotExtractor.lowConfidenceSlots(extraction) : [];
+      if (uncertainSlots.length > 0) {
+        this.awaitingConfirmation = true;
+        return this.confirmSearchDetails(extractedParams, uncertainSlots, extraction!.slots);
+      }
+
+      if (extractedParams.flexibleDates) {
+        return await this.processFlexibleDateQuery(message, extractedParams, onDelta);
+      }
+
       const tripType = extractedParams.returnDate ? "round-trip" : "one-way";
 
       const searchResult = await this.flightPlanner.searchFlights(extractedParams as FlightSearchParams);
@@ -92,28 +290,41 @@ export class FlightAgentService {
           message,
           extractedParams,
           searchResult.error || 'Unknown error',
-          tripType
+          tripType,
+          onDelta
         );
 
         return {
           message: errorMessage,
           searchParams: extractedParams,
           tripType: tripType,
-          requiresMoreInfo: true
+          requiresMoreInfo: true,
+          cache: searchResult.cache,
+          slots: extraction?.slots,
         };
       }
 
       if (!searchResult.data?.flights || searchResult.data.flights.length === 0) {
+        this.lastResults = undefined;
         return {
-          message: `I searched for flights from ${extractedParams.departureId} to ${extractedParams.arrivalId} on ${extractedParams.outboundDate}${extractedParams.returnDate ? ` returning ${extractedParams.returnDate}` : ''}, but no flights were available. You may want to try different dates or nearby airports.`,
+          message: `I searched for flights from ${extractedParams.departureId} to ${extractedParams.arrivalId} on ${extractedParams.outboundDate}${extractedParams.returnDate ? ` returning ${extractedParams.returnDate}` : ''}, but no flights were available. ${this.describeNearbyAirports(extractedParams)}`,
           searchParams: extractedParams,
           tripType: tripType,
-          flightData: { flights: [], totalResults: 0 }
+          flightData: { flights: [], totalResults: 0 },
+          cache: searchResult.cache,
+          slots: extraction?.slots,
         };
       }
 
+      this.lastResults = {
+        flights: searchResult.data.flights,
+        searchParams: extractedParams,
+        googleFlightsUrl: searchResult.data.googleFlightsUrl,
+        refinement: {},
+      };
+
       const flightSummary = this.formatFlightResults(searchResult.data.flights);
-      const aiResponse = await this.generateFlightResponse(message, flightSummary, extractedParams, tripType);
+      const aiResponse = await this.generateFlightResponse(message, flightSummary, extractedParams, tripType, onDelta);
 
       return {
         message: aiResponse,
@@ -126,7 +337,9 @@ export class FlightAgentService {
         },
         searchParams: extractedParams,
         tripType: tripType,
-        requiresMoreInfo: false
+        requiresMoreInfo: false,
+        cache: searchResult.cache,
+        slots: extraction?.slots,
       };
 
     } catch (error) {
@@ -138,7 +351,480 @@ export class FlightAgentService {
     }
   }
 
-  private async getAIFlightHelp(userPrompt: string): Promise<string> {
+  private async processMultiLegQuery(
+    message: string,
+    legs: FlightLeg[],
+    onDelta?: (delta: string) => void
+  ): Promise<FlightAgentResponse> {
+    const tripType = "multi-city";
+    const searchOptions = this.getSearchOptions(this.conversationContext);
+    const searchParams: Partial<FlightSearchParams> = { ...searchOptions, legs: legs };
+
+    const missingDates = legs
+      .map((leg, index) => (leg.date ? null : `date for leg ${index + 1} (${leg.departureId} → ${leg.arrivalId})`))
+      .filter((item): item is string => item !== null);
+
+    if (missingDates.length > 0) {
+      const contextualResponse = await this.getContextualClarification(message, searchParams, missingDates, onDelta);
+
+      return {
+        message: contextualResponse,
+        searchParams: searchParams,
+        tripType: tripType,
+        requiresMoreInfo: true
+      };
+    }
+
+    const searchResult = await this.flightPlanner.searchLegs(legs, searchOptions);
+    const multiLegCache = this.summarizeCache(searchResult.legs.map(leg => leg.cache));
+
+    if (!searchResult.success) {
+      const errorMessage = await this.handleFlightSearchError(
+        message,
+        searchParams,
+        searchResult.error || 'Unknown error',
+        tripType,
+        onDelta
+      );
+
+      return {
+        message: errorMessage,
+        searchParams: searchParams,
+        tripType: tripType,
+        requiresMoreInfo: true,
+        cache: multiLegCache
+      };
+    }
+
+    const flightSummary = searchResult.legs.map(leg => {
+      const header = `Leg ${leg.leg}: ${leg.departureId} → ${leg.arrivalId} on ${leg.date}`;
+      if (!leg.success) return `${header}\nSearch failed: ${leg.error}`;
+      if (leg.flights.length === 0) return `${header}\nNo flights available`;
+      return `${header}\n${this.formatFlightResults(leg.flights)}`;
+    }).join('\n\n');
+
+    const aiResponse = await this.generateFlightResponse(message, flightSummary, searchParams, tripType, onDelta);
+
+    return {
+      message: aiResponse,
+      flightData: {
+        legs: searchResult.legs,
+        searchParams: searchParams,
+        totalResults: searchResult.legs.reduce((total, leg) => total + leg.totalResults, 0),
+        tripType: tripType
+      },
+      searchParams: searchParams,
+      tripType: tripType,
+      requiresMoreInfo: false,
+      cache: multiLegCache
+    };
+  }
+
+  private async processFlexibleDateQuery(
+    message: string,
+    searchParams: Partial<FlightSearchParams>,
+    onDelta?: (delta: string) => void
+  ): Promise<FlightAgentResponse> {
+    const window = searchParams.flexibleDates!;
+    const tripType = window.tripLength !== undefined ? "round-trip" : "one-way";
+
+    const calendar = await this.flightPlanner.searchDateRange(searchParams as FlightSearchParams, window);
+    const cache = this.summarizeCache(calendar.days.map(day => day.cache));
+
+    if (!calendar.success) {
+      const errorMessage = await this.handleFlightSearchError(
+        message,
+        searchParams,
+        calendar.error || 'Unknown error',
+        tripType,
+        onDelta
+      );
+
+      return {
+        message: errorMessage,
+        searchParams: searchParams,
+        tripType: tripType,
+        requiresMoreInfo: true,
+        cache: cache
+      };
+    }
+
+    const fareCalendar = {
+      startDate: window.startDate,
+      endDate: window.endDate,
+      tripLength: window.tripLength,
+      days: calendar.days.map(({ cache, ...day }) => day),
+      cheapestDates: calendar.cheapestDates,
+    };
+
+    if (!calendar.bestDay) {
+      this.lastResults = undefined;
+      return {
+        message: `I checked every day from ${window.startDate} to ${window.endDate} for flights from ${searchParams.departureId} to ${searchParams.arrivalId}, but found no fares. You may want to try a different window or nearby airports.`,
+        searchParams: searchParams,
+        tripType: tripType,
+        flightData: { flights: [], totalResults: 0, fareCalendar: fareCalendar },
+        cache: cache
+      };
+    }
+
+    const { flexibleDates, ...fixedParams } = searchParams;
+    const bestParams: Partial<FlightSearchParams> = {
+      ...fixedParams,
+      outboundDate: calendar.bestDay.date,
+      returnDate: calendar.bestDay.returnDate,
+    };
+
+    this.lastResults = {
+      flights: calendar.bestDay.flights,
+      searchParams: bestParams,
+      googleFlightsUrl: calendar.bestDay.googleFlightsUrl,
+      refinement: {},
+    };
+
+    const flightSummary = this.formatFlightResults(calendar.bestDay.flights);
+    const aiResponse = await this.generateFlightResponse(message, flightSummary, searchParams, tripType, onDelta, calendar);
+
+    return {
+      message: aiResponse,
+      flightData: {
+        flights: calendar.bestDay.flights,
+        searchParams: bestParams,
+        totalResults: calendar.bestDay.flights.length,
+        tripType: tripType,
+        googleFlightsUrl: calendar.bestDay.googleFlightsUrl,
+        fareCalendar: fareCalendar
+      },
+      searchParams: searchParams,
+      tripType: tripType,
+      requiresMoreInfo: false,
+      cache: cache
+    };
+  }
+
+  private async processWatchRequest(
+    message: string,
+    sessionId?: mongoose.Types.ObjectId,
+    userId?: string
+  ): Promise<FlightAgentResponse> {
+    if (!userId) {
+      return {
+        message: "You need to be signed in for me to set up a fare alert.",
+        requiresMoreInfo: false
+      };
+    }
+
+    const currentParams = this.flightPlanner.extractFlightParams(message, this.dateOptions);
+    const lastResults = await this.loadLastResults(sessionId);
+    const baseParams = currentParams?.departureId || currentParams?.arrivalId
+      ? this.conversationContext
+      : lastResults?.searchParams || this.conversationContext;
+    const { maxPrice, ...params } = this.mergeFlightParams(currentParams, baseParams) || {};
+
+    if (params.legs?.length || (params.flexibleDates && !params.outboundDate)) {
+      return {
+        message: "I can only watch fares for a single route on a fixed date. Tell me the route and the exact date you'd like me to track.",
+        searchParams: params,
+        requiresMoreInfo: true
+      };
+    }
+
+    const missingInfo: string[] = [];
+    if (!params.departureId) missingInfo.push('departure airport');
+    if (!params.arrivalId) missingInfo.push('arrival airport');
+    if (!params.outboundDate) missingInfo.push('departure date');
+
+    if (missingInfo.length > 0) {
+      return {
+        message: `I can set up a fare alert - I just need the ${missingInfo.join(', ')} for the flight you want me to watch.`,
+        searchParams: params,
+        requiresMoreInfo: true
+      };
+    }
+
+    const targetMatch = message.match(WATCH_TARGET_PATTERN);
+    const threshold = currentParams?.maxPrice ?? (targetMatch
+      ? Math.round(parseFloat(targetMatch[2].replace(/,/g, '')) * (targetMatch[3] ? 1000 : 1))
+      : undefined);
+    const symbol = message.match(/[$€£₹]/)?.[0];
+    const currency = currentParams?.currency || (symbol ? CURRENCY_SYMBOLS[symbol] : params.currency);
+
+    try {
+      const watch = await this.fareWatchService.createWatch({
+        userId: userId,
+        searchParams: params,
+        threshold: threshold,
+        currency: currency,
+        sessionId: sessionId,
+      });
+
+      const route = `${watch.searchParams.departureId} → ${watch.searchParams.arrivalId} on ${watch.searchParams.outboundDate}${watch.searchParams.returnDate ? ` (returning ${watch.searchParams.returnDate})` : ''}`;
+      const target = threshold === undefined
+        ? `as soon as the lowest fare drops below today's ${watch.currency} ${watch.lastPrice}`
+        : `when the lowest fare drops to ${watch.currency} ${watch.threshold} or less`;
+
+      return {
+        message: `Done! I'm watching fares for ${route} and will notify you ${target}.`,
+        searchParams: params,
+        requiresMoreInfo: false,
+        watch: {
+          id: String(watch._id),
+          threshold: watch.threshold,
+          currency: watch.currency,
+          lastPrice: watch.lastPrice,
+        }
+      };
+    } catch (error) {
+      if (error instanceof FareWatchError) {
+        return {
+          message: `I couldn't set up that fare alert: ${error.message}`,
+          searchParams: params,
+          requiresMoreInfo: error.status === 400 || error.status === 422
+        };
+      }
+      throw error;
+    }
+  }
+
+  private summarizeCache(statuses: Array<FlightCacheStatus | undefined>): FlightAgentResponse['cache'] {
+    const hits = statuses.filter(status => status?.hit).length;
+
+    return {
+      backend: statuses.find(status => status)?.backend || 'none',
+      hit: statuses.length > 0 && hits === statuses.length,
+      hits: hits,
+      misses: statuses.length - hits,
+    };
+  }
+
+  private async processRefinement(
+    message: string,
+    refinement: FlightRefinement,
+    lastResults: LastFlightResults,
+    onDelta?: (delta: string) => void
+  ): Promise<FlightAgentResponse | null> {
+    const merged = mergeFlightRefinement(lastResults.refinement, refinement);
+    const flights = applyFlightRefinement(lastResults.flights, merged);
+    const tripType = lastResults.searchParams.returnDate ? "round-trip" : "one-way";
+
+    if (flights.length === 0) {
+      const searchable = refinement.maxStops !== undefined || !!refinement.airlines || !!refinement.maxPrice;
+      if (searchable) {
+        console.log("No stored flights match the refinement - running a new search with the filters");
+        return null;
+      }
+
+      return {
+        message: `None of the ${lastResults.flights.length} flights from your last search match that. Want me to loosen the filter or search again?`,
+        searchParams: lastResults.searchParams,
+        tripType: tripType,
+        refinement: lastResults.refinement,
+        requiresMoreInfo: false
+      };
+    }
+
+    const offset = merged.offset || 0;
+    if (offset >= flights.length) {
+      return {
+        message: `That's all of them - you've seen all ${flights.length} matching flights from your last search.`,
+        searchParams: lastResults.searchParams,
+        tripType: tripType,
+        refinement: lastResults.refinement,
+        requiresMoreInfo: false
+      };
+    }
+
+    lastResults.refinement = merged;
+
+    const flightSummary = this.formatFlightResults(flights.slice(offset, offset + REFINEMENT_PAGE_SIZE), offset);
+    const aiResponse = await this.generateRefinementResponse(message, flightSummary, lastResults, merged, flights.length, onDelta);
+
+    return {
+      message: aiResponse,
+      flightData: {
+        flights: flights,
+        searchParams: lastResults.searchParams,
+        totalResults: flights.length,
+        tripType: tripType,
+        googleFlightsUrl: lastResults.googleFlightsUrl,
+        refinement: merged
+      },
+      searchParams: lastResults.searchParams,
+      tripType: tripType,
+      refinement: merged,
+      requiresMoreInfo: false
+    };
+  }
+
+  private async loadLastResults(sessionId?: mongoose.Types.ObjectId): Promise<LastFlightResults | undefined> {
+    if (this.lastResults || !sessionId) {
+      return this.lastResults;
+    }
+
+    try {
+      // Only results the user can see count: after an edit or a branch
+      // switch, other branches' searches are not what "only nonstop" means.
+      const branchIds = await this.chatSessionService.getActiveBranchIds(sessionId);
+      const branchOrder = new Map(branchIds.map((id, index) => [id.toString(), index]));
+      const newestOnBranch = (messages: { _id: unknown }[]) =>
+        messages
+          .map(message => message._id as mongoose.Types.ObjectId)
+          .sort((a, b) => branchOrder.get(b.toString())! - branchOrder.get(a.toString())!)[0];
+
+      const [withResults, originals] = await Promise.all([
+        Message.find({
+          _id: { $in: branchIds },
+          is_user_message: false,
+          'flightData.searchParams': { $exists: true },
+        }).select('_id').lean(),
+        Message.find({
+          _id: { $in: branchIds },
+          is_user_message: false,
+          'flightData.flights.0': { $exists: true },
+          'flightData.refinement': { $exists: false },
+        }).select('_id').lean(),
+      ]);
+
+      const latestId = newestOnBranch(withResults);
+      const latest = latestId ? await Message.findById(latestId).select('flightData') : null;
+      const latestData = latest?.flightData;
+      if (!latestData?.refinement && !latestData?.flights?.length) {
+        return undefined;
+      }
+
+      let baseData = latestData;
+      if (latestData.refinement) {
+        const originalId = newestOnBranch(originals);
+        const original = originalId ? await Message.findById(originalId).select('flightData') : null;
+
+        if (!original?.flightData) {
+          return undefined;
+        }
+        baseData = original.flightData;
+      }
+
+      this.lastResults = {
+        flights: baseData.flights,
+        searchParams: baseData.searchParams,
+        googleFlightsUrl: baseData.googleFlightsUrl,
+        refinement: latestData.refinement || {},
+      };
+
+      console.log(`Loaded ${baseData.flights.length} stored flights for refinement`);
+      return this.lastResults;
+    } catch (error) {
+      console.error("Error loading last flight results:", error);
+      return undefined;
+    }
+  }
+
+  private describeRefinement(refinement: FlightRefinement): string[] {
+    const formatTime = (minutes: number) =>
+      `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+    const details = [];
+    if (refinement.sortBy) details.push(`Sorted by ${refinement.sortBy} (${refinement.sortOrder === 'desc' ? 'highest first' : 'lowest first'})`);
+    if (refinement.maxStops !== undefined) details.push(refinement.maxStops === 0 ? 'Nonstop only' : `At most ${refinement.maxStops} stop(s)`);
+    if (refinement.airlines?.length) details.push(`Airlines: ${refinement.airlines.join(', ')}`);
+    if (refinement.maxPrice) details.push(`Max price: ${refinement.maxPrice}`);
+    if (refinement.departAfter !== undefined) details.push(`Departing after ${formatTime(refinement.departAfter)}`);
+    if (refinement.departBefore !== undefined) details.push(`Departing before ${formatTime(refinement.departBefore)}`);
+    return details;
+  }
+
+  private async generateRefinementResponse(
+    userPrompt: string,
+    flightSummary: string,
+    lastResults: LastFlightResults,
+    refinement: FlightRefinement,
+    matchCount: number,
+    onDelta?: (delta: string) => void
+  ): Promise<string> {
+    try {
+      const applied = this.describeRefinement(refinement);
+      const offset = refinement.offset || 0;
+
+      const aiPrompt = `User asked: "${userPrompt}"
+
+This is a follow-up on their last flight search:
+${this.describeSearch(lastResults.searchParams).join('\n')}
+
+${matchCount} of the ${lastResults.flights.length} flights found match${applied.length > 0 ? ` (${applied.join('; ')})` : ''}. Showing ${offset + 1}-${Math.min(offset + REFINEMENT_PAGE_SIZE, matchCount)}:
+
+${flightSummary}
+
+Answer their question directly from these results:
+1. Lead with the flights that best fit what they asked
+2. Mention how many options match
+3. Don't suggest a new search unless nothing fits
+
+Keep it brief and friendly!`;
+
+      const responseText = await this.generateText(aiPrompt, onDelta);
+
+      return responseText || flightSummary;
+    } catch (error) {
+      console.error("Generate refinement response error:", error);
+      return flightSummary;
+    }
+  }
+
+  private describeSearch(params: Partial<FlightSearchParams>): string[] {
+    const details = [];
+
+    if (params.legs && params.legs.length > 0) {
+      params.legs.forEach((leg, index) => {
+        details.push(`Leg ${index + 1}: ${leg.departureId} → ${leg.arrivalId}${leg.date ? ` on ${leg.date}` : ''}`);
+      });
+    } else {
+      if (params.departureId) details.push(`From: ${params.departureId}`);
+      if (params.arrivalId) details.push(`To: ${params.arrivalId}`);
+      if (params.outboundDate) details.push(`Departure: ${params.outboundDate}`);
+      if (params.returnDate) details.push(`Return: ${params.returnDate}`);
+      if (params.flexibleDates) {
+        details.push(`Dates: flexible, any day from ${params.flexibleDates.startDate} to ${params.flexibleDates.endDate}`);
+        if (params.flexibleDates.tripLength !== undefined) details.push(`Trip length: ${params.flexibleDates.tripLength} days`);
+      }
+    }
+
+    const passengers = [`${params.adults || 1} adult(s)`];
+    if (params.children) passengers.push(`${params.children} child(ren)`);
+    if (params.infants) passengers.push(`${params.infants} infant(s)`);
+    details.push(`Passengers: ${passengers.join(', ')}`);
+
+    if (params.travelClass) details.push(`Cabin: ${params.travelClass.replace('_', ' ')}`);
+    if (params.maxStops !== undefined) details.push(`Stops: ${params.maxStops === 0 ? 'nonstop only' : `at most ${params.maxStops}`}`);
+    if (params.airlines?.length) details.push(`Airlines: ${params.airlines.join(', ')}`);
+    if (params.maxPrice) details.push(`Max price: ${params.maxPrice} ${params.currency || 'USD'}`);
+
+    return details;
+  }
+
+  private describeNearbyAirports(params: Partial<FlightSearchParams>): string {
+    const resolver = getAirportResolver();
+    const suggestions = [params.departureId, params.arrivalId]
+      .filter((code): code is string => !!code)
+      .map(code => {
+        const nearby = resolver.nearbyAirports(code)
+          .map(airport => `${airport.iata} (${airport.city}, ${airport.distanceKm} km)`);
+        return nearby.length > 0 ? `near ${resolver.describe(code)}: ${nearby.join(', ')}` : null;
+      })
+      .filter((suggestion): suggestion is string => suggestion !== null);
+
+    return suggestions.length > 0
+      ? `You may want to try different dates or nearby airports - ${suggestions.join('; ')}.`
+      : 'You may want to try different dates or nearby airports.';
+  }
+
+  private getSearchOptions(params: Partial<FlightSearchParams>): FlightSearchOptions {
+    const { departureId, arrivalId, outboundDate, returnDate, legs, flexibleDates, ...options } = params;
+
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as FlightSearchOptions;
+  }
+
+  private async getAIFlightHelp(userPrompt: string, onDelta?: (delta: string) => void): Promise<string> {
     try {
       const aiPrompt = `The user said: "${userPrompt}"
 
@@ -152,34 +838,44 @@ Provide a friendly, conversational response that:
 
 Be natural and friendly!`;
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: aiPrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
+      const responseText = await this.generateText(aiPrompt, onDelta);
 
-      return response.text || "I'd love to help you find flights! Could you tell me where you'd like to fly from, where to, and when?";
+      return responseText || "I'd love to help you find flights! Could you tell me where you'd like to fly from, where to, and when?";
     } catch (error) {
       console.error("AI flight help error:", error);
       return "I'd love to help you find flights! Could you tell me:\n- Where you're flying from\n- Your destination\n- Your travel dates";
     }
   }
 
+  private confirmSearchDetails(
+    params: Partial<FlightSearchParams>,
+    uncertainSlots: FlightSlotName[],
+    slots: FlightSlotExtraction['slots']
+  ): FlightAgentResponse {
+    const details = this.describeSearch(params).map(detail => `• ${detail}`).join('\n');
+    const unsure = uncertainSlots.map(describeFlightSlot).join(', ');
+
+    return {
+      message: `Before I search, can you check these details? I wasn't sure about the ${unsure}.\n\n${details}\n\nReply "yes" to search, or tell me what to change.`,
+      searchParams: params,
+      requiresMoreInfo: true,
+      awaitingConfirmation: true,
+      slots: slots,
+      suggestedQuestions: [
+        "Yes, search",
+        "No, change something"
+      ]
+    };
+  }
+
   private async getContextualClarification(
     userPrompt: string,
     extractedInfo: Partial<FlightSearchParams>,
-    missingInfo: string[]
+    missingInfo: string[],
+    onDelta?: (delta: string) => void
   ): Promise<string> {
     try {
-      const extractedDetails = [];
-      if (extractedInfo.departureId) extractedDetails.push(`From: ${extractedInfo.departureId}`);
-      if (extractedInfo.arrivalId) extractedDetails.push(`To: ${extractedInfo.arrivalId}`);
-      if (extractedInfo.outboundDate) extractedDetails.push(`Departure: ${extractedInfo.outboundDate}`);
-      if (extractedInfo.returnDate) extractedDetails.push(`Return: ${extractedInfo.returnDate}`);
+      const extractedDetails = this.describeSearch(extractedInfo);
 
       const aiPrompt = `User said: "${userPrompt}"
 
@@ -195,17 +891,9 @@ Provide a friendly, conversational response that:
 
 Be encouraging and natural!`;
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: aiPrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
+      const responseText = await this.generateText(aiPrompt, onDelta);
 
-      return response.text || `Great! I got some details, but I still need ${missingInfo.join(' and ')}. Could you provide that?`;
+      return responseText || `Great! I got some details, but I still need ${missingInfo.join(' and ')}. Could you provide that?`;
     } catch (error) {
       console.error("Contextual clarification error:", error);
       return `I need a bit more information: ${missingInfo.join(' and ')}. Could you provide that?`;
@@ -216,14 +904,11 @@ Be encouraging and natural!`;
     userPrompt: string,
     searchParams: Partial<FlightSearchParams>,
     apiError: string,
-    tripType: string
+    tripType: string,
+    onDelta?: (delta: string) => void
   ): Promise<string> {
     try {
-      const searchDetails = [];
-      if (searchParams.departureId) searchDetails.push(`From: ${searchParams.departureId}`);
-      if (searchParams.arrivalId) searchDetails.push(`To: ${searchParams.arrivalId}`);
-      if (searchParams.outboundDate) searchDetails.push(`Departure: ${searchParams.outboundDate}`);
-      if (searchParams.returnDate) searchDetails.push(`Return: ${searchParams.returnDate}`);
+      const searchDetails = this.describeSearch(searchParams);
 
       const aiPrompt = `A user asked: "${userPrompt}"
 
@@ -240,30 +925,38 @@ Provide a friendly response that:
 
 Keep it conversational!`;
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: aiPrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
+      const responseText = await this.generateText(aiPrompt, onDelta);
 
-      return response.text || `I had trouble finding flights. Try different dates or nearby airports?`;
+      return responseText || `I had trouble finding flights. Try different dates or nearby airports?`;
     } catch (error) {
       console.error("Error handling failed:", error);
       return "I encountered an issue with the flight search. Could you try different dates or airports?";
     }
   }
 
-  private formatFlightResults(flights: any[]): string {
+  private async generateText(instructions: string, onDelta?: (delta: string) => void): Promise<string> {
+    const prompt = this.conversationText ? `${this.conversationText}\n\n${instructions}` : instructions;
+    if (!onDelta) {
+      return this.llm.generate(prompt);
+    }
+
+    let text = "";
+    for await (const delta of this.llm.stream(prompt)) {
+      text += delta;
+      onDelta(delta);
+    }
+
+    return text;
+  }
+
+  private formatFlightResults(flights: any[], offset = 0): string {
     return flights.slice(0, 5).map((flight, index) => {
       const price = flight.price?.amount ? `$${flight.price.amount}` : 'Price N/A';
       const duration = flight.duration ? `${flight.duration} min` : 'Duration N/A';
-      const stops = flight.stops === 0 ? 'Nonstop' : `${flight.stops} stop(s)`;
+      const stopCount = Array.isArray(flight.stops) ? flight.stops.length : flight.stops;
+      const stops = stopCount === 0 ? 'Nonstop' : `${stopCount} stop(s)`;
       
-      return `Flight ${index + 1}: ${flight.airline} - ${price}, ${duration}, ${stops}`;
+      return `Flight ${offset + index + 1}: ${flight.airline} - ${price}, ${duration}, ${stops}`;
     }).join('\n');
   }
 
@@ -271,37 +964,42 @@ Keep it conversational!`;
     userPrompt: string,
     flightSummary: string,
     searchParams: Partial<FlightSearchParams>,
-    tripType: string
+    tripType: string,
+    onDelta?: (delta: string) => void,
+    fareCalendar?: FareCalendarResult
   ): Promise<string> {
     try {
+      const calendarSection = fareCalendar
+        ? `Lowest fare for each day searched:
+${fareCalendar.days.map(day => `${day.date}${day.returnDate ? ` (return ${day.returnDate})` : ''}: ${day.lowestPrice !== undefined ? `${day.currency} ${day.lowestPrice} (${day.airline})` : 'no fares'}`).join('\n')}
+
+Cheapest days: ${fareCalendar.cheapestDates.join(', ')}. The flights below are for ${fareCalendar.bestDay?.date}.
+
+`
+        : '';
+
       const aiPrompt = `User asked: "${userPrompt}"
 
-Here are the ${tripType} flight options found:
+${calendarSection}Here are the ${tripType} flight options found:
 
 ${flightSummary}
 
-Search: ${searchParams.departureId} → ${searchParams.arrivalId}
-Departure: ${searchParams.outboundDate}${searchParams.returnDate ? `\nReturn: ${searchParams.returnDate}` : ' (One-way)'}
+${this.describeSearch(searchParams).join('\n')}${tripType === 'one-way' ? ' (One-way)' : ''}
 
 Provide a helpful, concise summary with:
-1. Best value options
+${fareCalendar ? `1. The cheapest days to fly and how much they save compared to other days
+2. Best value options on the cheapest day
+3. Any notable differences
+4. Practical booking advice` : `1. Best value options
 2. Quickest options
 3. Any notable differences
-4. Practical booking advice
+4. Practical booking advice`}
 
 Keep it friendly and actionable!`;
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: aiPrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
+      const responseText = await this.generateText(aiPrompt, onDelta);
 
-      return response.text || flightSummary;
+      return responseText || flightSummary;
     } catch (error) {
       console.error("Generate response error:", error);
       return flightSummary;
@@ -316,68 +1014,152 @@ Keep it friendly and actionable!`;
       return null;
     }
 
-    const merged: Partial<FlightSearchParams> = { ...contextParams };
+    const { legs, ...singleRouteParams } = contextParams;
+    const merged: Partial<FlightSearchParams> = { ...singleRouteParams };
 
     if (currentParams) {
       if (currentParams.departureId) merged.departureId = currentParams.departureId;
       if (currentParams.arrivalId) merged.arrivalId = currentParams.arrivalId;
       if (currentParams.outboundDate) merged.outboundDate = currentParams.outboundDate;
       if (currentParams.returnDate) merged.returnDate = currentParams.returnDate;
-      if (currentParams.currency) merged.currency = currentParams.currency;
-      if (currentParams.hl) merged.hl = currentParams.hl;
+      if (currentParams.outboundDate) {
+        delete merged.flexibleDates;
+      } else if (currentParams.flexibleDates) {
+        merged.flexibleDates = currentParams.flexibleDates;
+        delete merged.outboundDate;
+        delete merged.returnDate;
+      }
+      Object.assign(merged, this.getSearchOptions(currentParams));
     }
 
-    if (!merged.departureId && !merged.arrivalId && !merged.outboundDate) {
+    if (!merged.departureId && !merged.arrivalId && !merged.outboundDate && !merged.flexibleDates) {
       return null;
     }
 
     return merged;
   }
 
-  private hasMultipleFlightQueries(message: string): boolean {
+  private calculateFlightConfidence(message: string): number {
     const lowerMessage = message.toLowerCase();
     
-    // Common patterns that indicate multiple queries
-    const multiQueryIndicators = [
-      /\b(also|and also|additionally|plus|another)\b.*?\b(flight|ticket|trip)\b/i,
-      /\b(first|second|third|1st|2nd|3rd)\b.*?\b(flight|ticket|trip)\b/i,
+    const flightKeywords = [
+      { keywords: ['flight', 'flights', 'fly', 'flying', 'plane', 'airplane', 'aircraft'], weight: 0.4 },
+      { keywords: ['airport', 'departure', 'arrival', 'layover', 'stopover', 'transit', 'connection'], weight: 0.35 },
+      { keywords: ['ticket', 'booking', 'book', 'reserve', 'reservation', 'schedule'], weight: 0.3 },
+      { keywords: ['airline', 'airways', 'air india', 'indigo', 'spicejet', 'vistara', 'go air', 'air asia', 'emirates', 'lufthansa', 'british airways', 'qatar airways'], weight: 0.35 },
+      { keywords: ['round trip', 'one way', 'return flight', 'direct flight', 'non-stop', 'connecting flight', 'multi-city'], weight: 0.4 },
+      { keywords: ['travel', 'trip', 'journey', 'tour', 'vacation', 'holiday', 'visit'], weight: 0.2 },
+      { keywords: ['destination', 'going to', 'want to go', 'traveling to', 'heading to', 'visiting'], weight: 0.25 },
+      { keywords: ['check-in', 'boarding', 'baggage', 'luggage', 'carry-on', 'checked bag'], weight: 0.35 },
+      { keywords: ['economy', 'business class', 'first class', 'premium economy', 'cabin'], weight: 0.3 },
+      { keywords: ['takeoff', 'landing', 'gate', 'terminal', 'runway'], weight: 0.35 },
+      { keywords: ['itinerary', 'route', 'schedule', 'timetable', 'flight time'], weight: 0.3 },
+      { keywords: ['passenger', 'traveler', 'adult', 'child', 'infant', 'seat'], weight: 0.25 },
+      { keywords: ['price alert', 'fare alert', 'price drop', 'fare drop', 'track the price', 'watch the price', 'gets cheaper'], weight: 0.35 },
+      { keywords: ['delay', 'cancelled', 'postponed', 'rescheduled', 'on time'], weight: 0.3 },
+      { keywords: ['jet', 'boeing', 'airbus', '737', '747', 'a320', 'a380'], weight: 0.35 },
+      { keywords: ['domestic', 'international', 'overseas', 'abroad'], weight: 0.25 },
     ];
-    
-    // Count how many times key route indicators appear
-    const routePatterns = [
-      /\bfrom\s+\w+\s+to\s+\w+/gi,  // "from X to Y"
-      /\b\w+\s+to\s+\w+\b/gi,       // "X to Y"
+
+    const cityPatterns = [
+      /\b(mumbai|delhi|bangalore|bengaluru|goa|chennai|kolkata|hyderabad|pune|ahmedabad|jaipur|lucknow|kochi|trivandrum|chandigarh|indore|nagpur|surat|vadodara|visakhapatnam|bhubaneswar|patna|ranchi|amritsar|srinagar|guwahati|varanasi)\b/i,
+      /\b(london|paris|new york|dubai|singapore|bangkok|tokyo|hong kong|sydney|los angeles|chicago|toronto|beijing|shanghai|frankfurt|amsterdam|rome|barcelona|istanbul|moscow|kuala lumpur|jakarta)\b/i,
+      /\b(from|to|via|through)\s+[A-Z][a-z]+/,
     ];
-    
-    let routeCount = 0;
-    routePatterns.forEach(pattern => {
-      const matches = lowerMessage.match(pattern);
-      if (matches) {
-        routeCount += matches.length;
+
+    const datePatterns = [
+      /\b(tomorrow|today|tonight|next week|next month|this weekend|next weekend)\b/i,
+      /\d{1,2}[-\/]\d{1,2}[-\/]?\d{0,4}/,
+      /\b(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sep|sept|october|oct|november|nov|december|dec)\b/i,
+      /\b(morning|afternoon|evening|night)\s+(flight|departure|arrival)\b/i,
+      /\b(early|late)\s+(morning|afternoon|evening)\b/i,
+    ];
+
+    let score = 0;
+
+    for (const group of flightKeywords) {
+      for (const keyword of group.keywords) {
+        if (lowerMessage.includes(keyword)) {
+          score += group.weight;
+          break;
+        }
       }
-    });
-    
-    // Check for multiple query indicators
-    const hasMultiIndicator = multiQueryIndicators.some(pattern => pattern.test(lowerMessage));
-    
-    // If more than 2 routes mentioned, or multi-query indicators present with multiple routes
-    if (routeCount >= 3 || (routeCount >= 2 && hasMultiIndicator)) {
-      return true;
     }
-    
-    // Also check if message contains multiple distinct city/airport pairs
-    const cityAirportPattern = /\b([A-Z]{3}|mumbai|delhi|bangalore|chennai|kolkata|hyderabad|pune|ahmedabad|jaipur|surat|london|dubai|singapore|bangkok|tokyo|new york|paris|sydney|hong kong|kuala lumpur|jakarta|manila|seoul|beijing|shanghai)\b/gi;
-    const cities = lowerMessage.match(cityAirportPattern);
-    
-    if (cities && cities.length >= 6) {
-      return true;
+
+    if (cityPatterns.some(pattern => pattern.test(message)) || getAirportResolver().findInText(message).length > 0) {
+      score += 0.3;
+    }
+
+    for (const pattern of datePatterns) {
+      if (pattern.test(message)) {
+        score += 0.2;
+        break;
+      }
+    }
+
+    if (/how (much|expensive|cheap)|price|cost|fare|rates|charges|fee/i.test(message)) {
+      score += 0.15;
+    }
+
+    if (/show|find|search|look|check|available|availability/i.test(message)) {
+      score += 0.1;
     }
+
+    return Math.min(score, 1.0);
+  }
+
+  private isOngoingFlightConversation(history: ConversationTurn[]): boolean {
+    if (history.length < 2) {
+      return false;
+    }
+
+    const lastAssistantTurn = [...history].reverse().find(m => m.role === 'assistant');
+    if (lastAssistantTurn?.agent && lastAssistantTurn.agent !== this.type) {
+      return false;
+    }
+
+    const recentMessages = history.slice(-4);
+    const recentText = recentMessages.map(m => m.message.toLowerCase()).join(' ');
+
+    const flightKeywords = [
+      'flight', 'fly', 'airport', 'departure', 'arrival', 'destination',
+      'return date', 'one-way', 'round-trip', 'booking', 'travel date',
+      'when would you like', 'where are you flying', 'provide a date',
+      'need to know', 'departure date', 'which date'
+    ];
     
-    return false;
+    const hasFlightKeywords = flightKeywords.some(keyword => recentText.includes(keyword));
+
+    const aiAskedForFlightInfo = recentMessages.some(m => 
+      m.role === 'assistant' && (
+        m.message.toLowerCase().includes('date') ||
+        m.message.toLowerCase().includes('when') ||
+        m.message.toLowerCase().includes('where') ||
+        m.message.toLowerCase().includes('destination') ||
+        m.message.toLowerCase().includes('return')
+      )
+    );
+
+    return hasFlightKeywords || aiAskedForFlightInfo;
+  }
+
+  getState(): FlightAgentState {
+    return this.awaitingConfirmation
+      ? { ...this.conversationContext, awaitingConfirmation: true }
+      : { ...this.conversationContext };
+  }
+
+  setState(state: FlightAgentState): void {
+    const { awaitingConfirmation, ...params } = state;
+    this.conversationContext = params;
+    this.awaitingConfirmation = !!awaitingConfirmation;
+    this.lastResults = undefined;
   }
 
   clearContext(): void {
     this.conversationContext = {};
+    this.awaitingConfirmation = false;
+    this.lastResults = undefined;
   }
 }
 
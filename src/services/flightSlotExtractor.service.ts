@@ -0,0 +1,247 @@
+import { LlmProvider, generateStructured } from "./llmProvider.service.js";
+import { FlightSearchParams, TravelClass } from "../utils/flightPlanner.utils.js";
+import { AirportResolver, getAirportResolver } from "../utils/airportResolver.utils.js";
+import { DateParseOptions, todayIn } from "../utils/dateParser.utils.js";
+import { FlightSlotsOutput, flightSlotsJsonSchema, flightSlotsSchema } from "../validations/llmOutput.validation.js";
+import config from "../config/index.js";
+
+// The regex pass only matches what it recognises, so what it finds is
+// trusted more than the LLM's reading. Agreement between the two is the
+// strongest signal; a disagreement drops below any sensible threshold so
+// the user is asked before searching.
+const REGEX_CONFIDENCE = 0.9;
+const AGREEMENT_CONFIDENCE = 0.98;
+const LLM_ONLY_MAX_CONFIDENCE = 0.85;
+const CONFLICT_CONFIDENCE = 0.4;
+// An LLM value this sure replaces a conflicting regex value, e.g. "the
+// Friday after next" which the date parser reads as this Friday.
+const LLM_OVERRIDE_CONFIDENCE = 0.8;
+
+export type FlightSlotName =
+  'departureId' | 'arrivalId' | 'outboundDate' | 'returnDate' | 'adults' | 'children' | 'infants' | 'travelClass';
+
+export interface FlightSlot {
+  value: string | number;
+  confidence: number;
+  source: 'regex' | 'llm' | 'both';
+}
+
+export interface FlightSlotConflict {
+  slot: FlightSlotName;
+  regex: string | number;
+  llm: string | number;
+}
+
+export interface FlightSlotExtraction {
+  // What the current message asks for, in the shape extractFlightParams
+  // returns, with LLM-filled or corrected slots applied.
+  params: Partial<FlightSearchParams> | null;
+  slots: Partial<Record<FlightSlotName, FlightSlot>>;
+  conflicts: FlightSlotConflict[];
+}
+
+export interface FlightSlotRequest {
+  // Earlier conversation followed by "Current message: ...".
+  conversationText: string;
+  // Search details already gathered in this conversation.
+  context: Partial<FlightSearchParams>;
+  dateOptions?: DateParseOptions;
+}
+
+const SLOT_NAMES: FlightSlotName[] = [
+  'departureId', 'arrivalId', 'outboundDate', 'returnDate', 'adults', 'children', 'infants', 'travelClass',
+];
+
+const SLOT_LABELS: Record<FlightSlotName, string> = {
+  departureId: 'departure airport',
+  arrivalId: 'destination',
+  outboundDate: 'departure date',
+  returnDate: 'return date',
+  adults: 'number of adults',
+  children: 'number of children',
+  infants: 'number of infants',
+  travelClass: 'cabin class',
+};
+
+export const describeFlightSlot = (slot: FlightSlotName): string => SLOT_LABELS[slot];
+
+/**
+ * Combines FlightPlanner's regex extraction of the current message with an
+ * LLM reading of the whole conversation, keeping a confidence for every
+ * slot.
+ */
+export class FlightSlotExtractor {
+  private llm: LlmProvider;
+  private airportResolver: AirportResolver;
+  private llmEnabled: boolean;
+  private confirmThreshold: number;
+
+  constructor(
+    llm: LlmProvider,
+    options: { llmEnabled?: boolean; confirmThreshold?: number } = {}
+  ) {
+    this.llm = llm;
+    this.airportResolver = getAirportResolver();
+    this.llmEnabled = options.llmEnabled ?? config.flightSlots.llmEnabled;
+    this.confirmThreshold = options.confirmThreshold ?? config.flightSlots.confirmThreshold;
+  }
+
+  async extract(
+    regexParams: Partial<FlightSearchParams> | null,
+    request: FlightSlotRequest
+  ): Promise<FlightSlotExtraction> {
+    const slots: Partial<Record<FlightSlotName, FlightSlot>> = {};
+    for (const name of SLOT_NAMES) {
+      const value = regexParams?.[name];
+      if (value !== undefined) {
+        slots[name] = { value, confidence: REGEX_CONFIDENCE, source: 'regex' };
+      }
+    }
+
+    if (!this.llmEnabled) {
+      return { params: regexParams, slots, conflicts: [] };
+    }
+
+    let llmSlots: Partial<Record<FlightSlotName, { value: string | number; confidence: number }>>;
+    try {
+      const output = await this.requestSlots(request);
+      llmSlots = this.normalizeSlots(output, request);
+    } catch (error) {
+      console.error("LLM flight slot extraction error:", error);
+      return { params: regexParams, slots, conflicts: [] };
+    }
+
+    // A flexible date window from the regex pass is more specific than any
+    // single date the LLM picks.
+    if (regexParams?.flexibleDates) {
+      delete llmSlots.outboundDate;
+      delete llmSlots.returnDate;
+    }
+
+    const conflicts: FlightSlotConflict[] = [];
+    for (const name of SLOT_NAMES) {
+      const llmSlot = llmSlots[name];
+      if (!llmSlot) continue;
+
+      const regexSlot = slots[name];
+      if (!regexSlot) {
+        // Values the conversation had already settled on aren't news; only
+        // slots the LLM fills or corrects count for this message.
+        if (request.context[name] !== llmSlot.value) {
+          slots[name] = {
+            value: llmSlot.value,
+            confidence: Math.min(llmSlot.confidence, LLM_ONLY_MAX_CONFIDENCE),
+            source: 'llm',
+          };
+        }
+      } else if (regexSlot.value === llmSlot.value) {
+        slots[name] = { value: regexSlot.value, confidence: AGREEMENT_CONFIDENCE, source: 'both' };
+      } else {
+        conflicts.push({ slot: name, regex: regexSlot.value, llm: llmSlot.value });
+        slots[name] = llmSlot.confidence >= LLM_OVERRIDE_CONFIDENCE
+          ? { value: llmSlot.value, confidence: CONFLICT_CONFIDENCE, source: 'llm' }
+          : { value: regexSlot.value, confidence: CONFLICT_CONFIDENCE, source: 'regex' };
+      }
+    }
+
+    return { params: this.toParams(regexParams, slots), slots, conflicts };
+  }
+
+  /**
+   * Slots too uncertain to search with before the user confirms them.
+   */
+  lowConfidenceSlots(extraction: FlightSlotExtraction): FlightSlotName[] {
+    return SLOT_NAMES.filter(name => {
+      const slot = extraction.slots[name];
+      return slot !== undefined && slot.confidence < this.confirmThreshold;
+    });
+  }
+
+  private async requestSlots(request: FlightSlotRequest): Promise<FlightSlotsOutput> {
+    const today = todayIn(request.dateOptions?.timezone, request.dateOptions?.now);
+    const weekday = new Date(`${today}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+    const { legs, ...known } = request.context;
+
+    const prompt = `You extract flight search details for a travel assistant.
+
+${request.conversationText}
+
+Today is ${weekday}, ${today}.
+Search details gathered so far: ${Object.keys(known).length > 0 ? JSON.stringify(known) : 'none'}
+
+Fill each slot the traveller gives or changes for the flight search they are asking about now. Use the earlier conversation only to resolve references such as "there", "same dates" or "the day after". Resolve relative dates ("next Friday", "the Friday after next", "in two weeks") against today's date. Use city names or IATA codes for places and YYYY-MM-DD for dates. Give each slot a confidence between 0 and 1, and use null for slots the traveller hasn't given.`;
+
+    return generateStructured(this.llm, prompt, {
+      schema: flightSlotsSchema,
+      responseSchema: flightSlotsJsonSchema,
+      retries: 1,
+    });
+  }
+
+  /**
+   * The LLM's slots in FlightSearchParams terms: places resolved to airport
+   * codes, dates that are past or out of order dropped.
+   */
+  private normalizeSlots(
+    output: FlightSlotsOutput,
+    request: FlightSlotRequest
+  ): Partial<Record<FlightSlotName, { value: string | number; confidence: number }>> {
+    const slots: Partial<Record<FlightSlotName, { value: string | number; confidence: number }>> = {};
+    const today = todayIn(request.dateOptions?.timezone, request.dateOptions?.now);
+
+    const departure = output.departure?.value ? this.airportResolver.resolve(output.departure.value) : undefined;
+    const arrival = output.arrival?.value ? this.airportResolver.resolve(output.arrival.value) : undefined;
+    if (departure && departure !== arrival) {
+      slots.departureId = { value: departure, confidence: output.departure!.confidence };
+    }
+    if (arrival && arrival !== departure) {
+      slots.arrivalId = { value: arrival, confidence: output.arrival!.confidence };
+    }
+
+    const outboundDate = output.outboundDate?.value;
+    if (outboundDate && this.isValidDate(outboundDate) && outboundDate >= today) {
+      slots.outboundDate = { value: outboundDate, confidence: output.outboundDate!.confidence };
+    }
+    const returnDate = output.returnDate?.value;
+    const earliestReturn = slots.outboundDate?.value || request.context.outboundDate || today;
+    if (returnDate && this.isValidDate(returnDate) && returnDate >= earliestReturn) {
+      slots.returnDate = { value: returnDate, confidence: output.returnDate!.confidence };
+    }
+
+    for (const name of ['adults', 'children', 'infants', 'travelClass'] as const) {
+      const slot = output[name];
+      if (slot && slot.value !== null) {
+        slots[name] = { value: slot.value, confidence: slot.confidence };
+      }
+    }
+
+    return slots;
+  }
+
+  private isValidDate(date: string): boolean {
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+  }
+
+  private toParams(
+    regexParams: Partial<FlightSearchParams> | null,
+    slots: Partial<Record<FlightSlotName, FlightSlot>>
+  ): Partial<FlightSearchParams> | null {
+    const params: Partial<FlightSearchParams> = { ...regexParams };
+
+    if (slots.departureId) params.departureId = slots.departureId.value as string;
+    if (slots.arrivalId) params.arrivalId = slots.arrivalId.value as string;
+    if (slots.outboundDate) params.outboundDate = slots.outboundDate.value as string;
+    if (slots.returnDate) params.returnDate = slots.returnDate.value as string;
+    if (slots.adults) params.adults = slots.adults.value as number;
+    if (slots.children) params.children = slots.children.value as number;
+    if (slots.infants) params.infants = slots.infants.value as number;
+    if (slots.travelClass) params.travelClass = slots.travelClass.value as TravelClass;
+
+    if (params.outboundDate) {
+      delete params.flexibleDates;
+    }
+
+    return Object.keys(params).length > 0 ? params : null;
+  }
+}
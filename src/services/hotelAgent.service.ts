@@ -0,0 +1,352 @@
+import mongoose from "mongoose";
+import { HotelPlanner, HotelSearchParams, HotelOption } from "../utils/hotelPlanner.utils.js";
+import { getAirportResolver } from "../utils/airportResolver.utils.js";
+import { DateParseOptions, describePastDates, parseTravelDates } from "../utils/dateParser.utils.js";
+import { LlmProvider, createLlmProvider } from "./llmProvider.service.js";
+import { conversationContextFor } from "./conversationSummary.service.js";
+import { Agent, AgentContext, AgentResult, ConversationTurn } from "./agentRegistry.service.js";
+import Message from "../models/message.model.js";
+
+export interface HotelAgentResponse {
+  message: string;
+  hotelData?: any;
+  searchParams?: Partial<HotelSearchParams>;
+  requiresMoreInfo?: boolean;
+  suggestedQuestions?: string[];
+  usedFlightContext?: boolean;
+}
+
+export class HotelAgentService implements Agent {
+  readonly name = "Hotel Assistant";
+  readonly type = "hotel";
+  readonly description = "finding hotels, accommodation or places to stay, including check-in/check-out dates and number of guests";
+  readonly threshold = 0.3;
+  private llm: LlmProvider;
+  private hotelPlanner: HotelPlanner;
+  private conversationContext: Partial<HotelSearchParams>;
+  private dateOptions: DateParseOptions;
+  private conversationText: string;
+
+  constructor(llm?: LlmProvider, hotelPlanner?: HotelPlanner) {
+    this.llm = llm ?? createLlmProvider("hotel");
+    this.hotelPlanner = hotelPlanner ?? new HotelPlanner();
+    this.conversationContext = {};
+    this.dateOptions = {};
+    this.conversationText = "";
+  }
+
+  scoreConfidence(message: string, history: ConversationTurn[]): number {
+    const lowerMessage = message.toLowerCase();
+
+    const hotelKeywords = [
+      { keywords: ['hotel', 'accommodation', 'place to stay', 'places to stay', 'resort', 'hostel', 'motel', 'airbnb', 'bnb', 'lodging', 'guest house', 'guesthouse'], weight: 0.8 },
+      { keywords: ['room', 'suite', 'stay', 'staying', 'night', 'check in', 'check-in', 'check out', 'check-out', 'checkout'], weight: 0.3 },
+      { keywords: ['guests', 'amenities', 'breakfast', 'pool', '5 star', '4 star', '3 star', 'five star'], weight: 0.2 },
+    ];
+
+    let score = 0;
+
+    for (const group of hotelKeywords) {
+      if (group.keywords.some(keyword => lowerMessage.includes(keyword))) {
+        score += group.weight;
+      }
+    }
+
+    if (/show|find|search|look|check|available|availability|book/i.test(message)) {
+      score += 0.1;
+    }
+
+    const lastAssistantTurn = [...history].reverse().find(turn => turn.role === 'assistant');
+    if (lastAssistantTurn?.agent === this.type && this.hasMissingSlots()) {
+      console.log('🏨 Continuing hotel conversation - boosting hotel score');
+      score = Math.max(score, 0.75);
+    }
+
+    return Math.min(score, 1.0);
+  }
+
+  async handle(message: string, ctx: AgentContext): Promise<AgentResult> {
+    this.dateOptions = ctx.dateOptions || {};
+    this.conversationText = conversationContextFor(ctx);
+    const result = await this.processHotelQuery(message, ctx.sessionId, ctx.onDelta);
+
+    return {
+      message: result.message,
+      hotelData: result.hotelData,
+      metadata: {
+        requiresMoreInfo: result.requiresMoreInfo,
+        suggestedQuestions: result.suggestedQuestions,
+        searchParams: result.searchParams,
+        usedFlightContext: result.usedFlightContext,
+      },
+    };
+  }
+
+  async processHotelQuery(
+    message: string,
+    sessionId?: mongoose.Types.ObjectId,
+    onDelta?: (delta: string) => void
+  ): Promise<HotelAgentResponse> {
+    try {
+      const currentParams = this.hotelPlanner.extractHotelParams(message, this.dateOptions) || {};
+
+      const { pastDates } = parseTravelDates(message, this.dateOptions);
+      if (pastDates.length > 0) {
+        const { checkInDate, checkOutDate, ...otherParams } = currentParams;
+        this.conversationContext = { ...this.conversationContext, ...otherParams };
+
+        return {
+          message: `${describePastDates(pastDates, this.dateOptions)}. Which dates would you like to stay instead?`,
+          searchParams: this.conversationContext,
+          requiresMoreInfo: true,
+          suggestedQuestions: [
+            "Check in tomorrow for 2 nights",
+            "This weekend",
+            "From the 20th for 3 nights"
+          ]
+        };
+      }
+
+      this.conversationContext = { ...this.conversationContext, ...currentParams };
+
+      let usedFlightContext = false;
+      if (this.hasMissingSlots() && sessionId) {
+        const flightContext = await this.loadFlightContext(sessionId);
+        if (!this.conversationContext.location && flightContext.location) {
+          this.conversationContext.location = flightContext.location;
+          usedFlightContext = true;
+        }
+        if (!this.conversationContext.checkInDate && flightContext.checkInDate) {
+          this.conversationContext.checkInDate = flightContext.checkInDate;
+          usedFlightContext = true;
+        }
+        if (!this.conversationContext.checkOutDate && flightContext.checkOutDate) {
+          this.conversationContext.checkOutDate = flightContext.checkOutDate;
+          usedFlightContext = true;
+        }
+      }
+
+      const searchParams = { ...this.conversationContext };
+
+      const missingInfo: string[] = [];
+      if (!searchParams.location) missingInfo.push('city or area');
+      if (!searchParams.checkInDate) missingInfo.push('check-in date');
+      if (!searchParams.checkOutDate) missingInfo.push('check-out date or number of nights');
+
+      if (missingInfo.length > 0) {
+        const clarification = await this.getContextualClarification(message, searchParams, missingInfo, onDelta);
+
+        return {
+          message: clarification,
+          searchParams: searchParams,
+          requiresMoreInfo: true,
+          usedFlightContext: usedFlightContext,
+          suggestedQuestions: [
+            "Hotels in Dubai for 3 nights from March 5",
+            "Find a hotel there for 2 guests",
+            "Use the same dates as my flight"
+          ]
+        };
+      }
+
+      const searchResult = await this.hotelPlanner.searchHotels(searchParams as HotelSearchParams);
+
+      if (!searchResult.success) {
+        return {
+          message: `I couldn't search hotels in ${searchParams.location} right now (${searchResult.error || 'Unknown error'}). You could try different dates or a nearby area.`,
+          searchParams: searchParams,
+          requiresMoreInfo: true,
+          usedFlightContext: usedFlightContext
+        };
+      }
+
+      const hotels = searchResult.data?.hotels || [];
+
+      if (hotels.length === 0) {
+        return {
+          message: `I searched for hotels in ${searchParams.location} from ${searchParams.checkInDate} to ${searchParams.checkOutDate}, but nothing was available. You may want to try different dates or a nearby area.`,
+          searchParams: searchParams,
+          usedFlightContext: usedFlightContext,
+          hotelData: { hotels: [], totalResults: 0, searchParams: searchParams }
+        };
+      }
+
+      const hotelSummary = this.formatHotelResults(hotels);
+      const aiResponse = await this.generateHotelResponse(message, hotelSummary, searchParams, usedFlightContext, onDelta);
+
+      return {
+        message: aiResponse,
+        hotelData: {
+          hotels: hotels,
+          searchParams: searchParams,
+          totalResults: hotels.length,
+          googleHotelsUrl: searchResult.data?.googleHotelsUrl
+        },
+        searchParams: searchParams,
+        requiresMoreInfo: false,
+        usedFlightContext: usedFlightContext
+      };
+
+    } catch (error) {
+      console.error("Hotel agent error:", error);
+      return {
+        message: "I encountered an error while searching for hotels. Please try again or rephrase your request.",
+        requiresMoreInfo: false
+      };
+    }
+  }
+
+  private async loadFlightContext(sessionId: mongoose.Types.ObjectId): Promise<Partial<HotelSearchParams>> {
+    try {
+      const lastFlightSearch = await Message.findOne({
+        chat_session_id: sessionId,
+        is_user_message: false,
+        'flightData.searchParams': { $exists: true },
+      })
+        .sort({ createdAt: -1 })
+        .select('flightData');
+
+      const flightData = lastFlightSearch?.flightData;
+      if (!flightData?.searchParams) {
+        return {};
+      }
+
+      const lastLeg = flightData.legs?.[flightData.legs.length - 1];
+      if (lastLeg) {
+        return {
+          location: getAirportResolver().getCityName(lastLeg.arrivalId) ||
+            this.toCityName(lastLeg.flights?.[0]?.arrival?.airport) || lastLeg.arrivalId,
+          checkInDate: lastLeg.date,
+        };
+      }
+
+      return {
+        location: getAirportResolver().getCityName(flightData.searchParams.arrivalId) ||
+          this.toCityName(flightData.flights?.[0]?.arrival?.airport) || flightData.searchParams.arrivalId,
+        checkInDate: flightData.searchParams.outboundDate,
+        checkOutDate: flightData.searchParams.returnDate,
+      };
+    } catch (error) {
+      console.error("Error loading flight context for hotel search:", error);
+      return {};
+    }
+  }
+
+  private toCityName(airportName?: string): string | undefined {
+    if (!airportName || airportName === 'Unknown') {
+      return undefined;
+    }
+    return airportName.replace(/\s+(international\s+)?airport.*$/i, '').trim();
+  }
+
+  private async getContextualClarification(
+    userPrompt: string,
+    extractedInfo: Partial<HotelSearchParams>,
+    missingInfo: string[],
+    onDelta?: (delta: string) => void
+  ): Promise<string> {
+    try {
+      const extractedDetails = [];
+      if (extractedInfo.location) extractedDetails.push(`Location: ${extractedInfo.location}`);
+      if (extractedInfo.checkInDate) extractedDetails.push(`Check-in: ${extractedInfo.checkInDate}`);
+      if (extractedInfo.checkOutDate) extractedDetails.push(`Check-out: ${extractedInfo.checkOutDate}`);
+      if (extractedInfo.adults) extractedDetails.push(`Guests: ${extractedInfo.adults}`);
+
+      const aiPrompt = `User said: "${userPrompt}"
+
+They want to find a hotel. I understood these details:
+${extractedDetails.length > 0 ? extractedDetails.join('\n') : '(nothing yet)'}
+
+But I still need: ${missingInfo.join(', ')}
+
+Provide a friendly, conversational response that:
+1. Confirms what I understood
+2. Asks for the missing information naturally
+3. Keeps it brief and helpful`;
+
+      const responseText = await this.generateText(aiPrompt, onDelta);
+
+      return responseText || `To find you a hotel I still need the ${missingInfo.join(' and ')}. Could you provide that?`;
+    } catch (error) {
+      console.error("Hotel clarification error:", error);
+      return `To find you a hotel I still need the ${missingInfo.join(' and ')}. Could you provide that?`;
+    }
+  }
+
+  private formatHotelResults(hotels: HotelOption[]): string {
+    return hotels.slice(0, 5).map((hotel, index) => {
+      const price = hotel.price.perNight ? `${hotel.price.currency} ${hotel.price.perNight}/night` : 'Price N/A';
+      const rating = hotel.rating ? `${hotel.rating}★ (${hotel.reviews || 0} reviews)` : 'No rating';
+      const hotelClass = hotel.hotelClass ? `${hotel.hotelClass}-star` : hotel.type || 'Hotel';
+
+      return `Hotel ${index + 1}: ${hotel.name} - ${hotelClass}, ${price}, ${rating}`;
+    }).join('\n');
+  }
+
+  private async generateHotelResponse(
+    userPrompt: string,
+    hotelSummary: string,
+    searchParams: Partial<HotelSearchParams>,
+    usedFlightContext: boolean,
+    onDelta?: (delta: string) => void
+  ): Promise<string> {
+    try {
+      const aiPrompt = `User asked: "${userPrompt}"
+
+Here are the hotel options found in ${searchParams.location}:
+
+${hotelSummary}
+
+Check-in: ${searchParams.checkInDate}
+Check-out: ${searchParams.checkOutDate}
+Guests: ${searchParams.adults || 1}${usedFlightContext ? '\n(Location and dates were taken from their flight search in this chat - mention this.)' : ''}
+
+Provide a helpful, concise summary with:
+1. Best value options
+2. Highest rated options
+3. Practical booking advice
+
+Keep it friendly and actionable!`;
+
+      const responseText = await this.generateText(aiPrompt, onDelta);
+
+      return responseText || hotelSummary;
+    } catch (error) {
+      console.error("Generate hotel response error:", error);
+      return hotelSummary;
+    }
+  }
+
+  private async generateText(instructions: string, onDelta?: (delta: string) => void): Promise<string> {
+    const prompt = this.conversationText ? `${this.conversationText}\n\n${instructions}` : instructions;
+    if (!onDelta) {
+      return this.llm.generate(prompt);
+    }
+
+    let text = "";
+    for await (const delta of this.llm.stream(prompt)) {
+      text += delta;
+      onDelta(delta);
+    }
+
+    return text;
+  }
+
+  private hasMissingSlots(): boolean {
+    return !this.conversationContext.location ||
+      !this.conversationContext.checkInDate ||
+      !this.conversationContext.checkOutDate;
+  }
+
+  getState(): Partial<HotelSearchParams> {
+    return { ...this.conversationContext };
+  }
+
+  setState(state: Partial<HotelSearchParams>): void {
+    this.conversationContext = { ...state };
+  }
+
+  clearContext(): void {
+    this.conversationContext = {};
+  }
+}
@@ -0,0 +1,151 @@
+import Joi from "joi";
+import { LlmProvider, generateStructured } from "./llmProvider.service.js";
+import { AgentRegistry, ConversationTurn } from "./agentRegistry.service.js";
+
+export interface IntentScore {
+  agent: string;
+  confidence: number;
+  strategy: string;
+}
+
+export type IntentSlots = Record<string, any>;
+
+export interface IntentResult {
+  strategy: string;
+  scores: Record<string, number>;
+  allScores: IntentScore[];
+  slots?: IntentSlots;
+  fallbackReason?: string;
+}
+
+export interface IntentClassifier {
+  readonly name: string;
+  classify(message: string, history: ConversationTurn[]): Promise<IntentResult>;
+}
+
+const toAllScores = (registry: AgentRegistry, scores: Record<string, number>, strategy: string): IntentScore[] =>
+  registry.list().map(agent => ({
+    agent: agent.name,
+    confidence: scores[agent.type] ?? 0,
+    strategy: strategy,
+  }));
+
+export class KeywordIntentClassifier implements IntentClassifier {
+  readonly name = "keyword";
+  private registry: AgentRegistry;
+
+  constructor(registry: AgentRegistry) {
+    this.registry = registry;
+  }
+
+  async classify(message: string, history: ConversationTurn[]): Promise<IntentResult> {
+    const scores: Record<string, number> = {};
+    for (const agent of this.registry.list()) {
+      scores[agent.type] = agent.scoreConfidence(message, history);
+    }
+
+    return {
+      strategy: this.name,
+      scores: scores,
+      allScores: toAllScores(this.registry, scores, this.name),
+    };
+  }
+}
+
+export class LlmIntentClassifier implements IntentClassifier {
+  readonly name = "llm";
+  private llm: LlmProvider;
+  private registry: AgentRegistry;
+  private fallback: IntentClassifier;
+  private timeoutMs: number;
+
+  constructor(llm: LlmProvider, registry: AgentRegistry, fallback: IntentClassifier, timeoutMs: number) {
+    this.llm = llm;
+    this.registry = registry;
+    this.fallback = fallback;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async classify(message: string, history: ConversationTurn[]): Promise<IntentResult> {
+    const keywordResult = await this.fallback.classify(message, history);
+
+    try {
+      const classification = await this.withTimeout(this.requestClassification(message, history));
+      const scores = this.parseScores(classification);
+
+      return {
+        strategy: this.name,
+        scores: scores,
+        allScores: [...toAllScores(this.registry, scores, this.name), ...keywordResult.allScores],
+        slots: classification.slots || undefined,
+      };
+    } catch (error: any) {
+      console.warn(`LLM intent classification failed, using ${this.fallback.name} scores:`, error?.message || error);
+      return {
+        ...keywordResult,
+        fallbackReason: error?.message || "LLM classification failed",
+      };
+    }
+  }
+
+  private async requestClassification(message: string, history: ConversationTurn[]): Promise<any> {
+    const agents = this.registry.list();
+    const agentList = agents.map(agent => `- ${agent.type}: ${agent.description}`).join('\n');
+    const agentTypes = agents.map(agent => `"${agent.type}"`).join(' | ');
+    const scoreTemplate = agents.map(agent => `"${agent.type}": 0.0`).join(', ');
+    const historyText = history.slice(-4).map(h => `${h.role}: ${h.message}`).join('\n');
+
+    const classifierPrompt = `You route messages in a travel chatbot to one of these agents:
+${agentList}
+
+${historyText ? `Recent conversation:\n${historyText}\n\n` : ''}Current message: "${message}"
+
+Score how well each agent fits the current message between 0 and 1, and extract any trip details it mentions.
+Respond in JSON format:
+{
+  "agent": ${agentTypes},
+  "scores": { ${scoreTemplate} },
+  "slots": { "departure": null, "arrival": null, "outboundDate": null, "returnDate": null }
+}
+
+Use city names or IATA codes for places and YYYY-MM-DD for dates (today is ${new Date().toISOString().split('T')[0]}). Use null for anything not mentioned.`;
+
+    // No retries: the classifier runs on a tight timeout and falls back to
+    // keyword scores instead.
+    return generateStructured(this.llm, classifierPrompt, {
+      schema: this.classificationSchema(agents.map(agent => agent.type)),
+      retries: 0,
+    });
+  }
+
+  private classificationSchema(agentTypes: string[]): Joi.ObjectSchema {
+    return Joi.object({
+      agent: Joi.string().valid(...agentTypes),
+      scores: Joi.object(Object.fromEntries(agentTypes.map(type => [type, Joi.number().required()]))).required(),
+      slots: Joi.object().unknown(true).allow(null),
+    });
+  }
+
+  private parseScores(classification: any): Record<string, number> {
+    const scores: Record<string, number> = {};
+
+    for (const agent of this.registry.list()) {
+      const score = Number(classification?.scores?.[agent.type]);
+      if (!Number.isFinite(score)) {
+        throw new Error(`LLM classification is missing a score for ${agent.type}`);
+      }
+      scores[agent.type] = Math.min(Math.max(score, 0), 1);
+    }
+
+    return scores;
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`LLM classification timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
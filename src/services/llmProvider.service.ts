@@ -0,0 +1,405 @@
+import { GoogleGenAI } from "@google/genai";
+import axios from "axios";
+import Joi from "joi";
+import config from "../config/index.js";
+import { recordTokenUsage } from "../utils/tokenUsage.utils.js";
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export type LlmPrompt = string | LlmMessage[];
+
+export interface LlmGenerateOptions {
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmJsonOptions extends LlmGenerateOptions {
+  // Standard JSON Schema, passed to providers that can constrain output to it.
+  responseSchema?: Record<string, any>;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: LlmPrompt, options?: LlmGenerateOptions): Promise<string>;
+  stream(prompt: LlmPrompt, options?: LlmGenerateOptions): AsyncGenerator<string>;
+  generateJson<T = any>(prompt: LlmPrompt, options?: LlmJsonOptions): Promise<T>;
+}
+
+export interface StructuredOutputOptions<T> extends LlmJsonOptions {
+  schema: Joi.Schema<T>;
+  retries?: number;
+}
+
+export type LlmAgentName = "personal" | "flight" | "hotel" | "title" | "router" | "summary";
+
+export class LlmProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "LlmProviderError";
+    this.status = status;
+  }
+}
+
+export class LlmOutputError extends LlmProviderError {
+  readonly output: string;
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = "LlmOutputError";
+    this.output = output;
+  }
+}
+
+export const toMessages = (prompt: LlmPrompt): LlmMessage[] =>
+  typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
+
+const parseJson = <T>(text: string, provider: string): T => {
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new LlmOutputError(`${provider} returned invalid JSON: ${text.substring(0, 200)}`, text);
+  }
+};
+
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name = "gemini";
+  readonly model: string;
+  private client: GoogleGenAI;
+
+  constructor(model: string) {
+    const apiKey = config.geminiApiKey;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable is required");
+    }
+    this.client = new GoogleGenAI({ apiKey, httpOptions: { timeout: config.llm.timeout } });
+    this.model = model;
+  }
+
+  async generate(prompt: LlmPrompt, options: LlmGenerateOptions = {}): Promise<string> {
+    const response = await this.client.models.generateContent(this.buildRequest(prompt, options));
+    this.recordUsage(response.usageMetadata);
+    return response.text || "";
+  }
+
+  async *stream(prompt: LlmPrompt, options: LlmGenerateOptions = {}): AsyncGenerator<string> {
+    const stream = await this.client.models.generateContentStream(this.buildRequest(prompt, options));
+    let usage;
+    for await (const chunk of stream) {
+      // Each chunk carries the running totals; only the last one counts.
+      usage = chunk.usageMetadata || usage;
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+    this.recordUsage(usage);
+  }
+
+  async generateJson<T = any>(prompt: LlmPrompt, options: LlmJsonOptions = {}): Promise<T> {
+    const request = this.buildRequest(prompt, options);
+    request.config.responseMimeType = "application/json";
+    if (options.responseSchema) {
+      request.config.responseJsonSchema = options.responseSchema;
+    }
+
+    const response = await this.client.models.generateContent(request);
+    this.recordUsage(response.usageMetadata);
+    return parseJson<T>(response.text || "", this.name);
+  }
+
+  private recordUsage(usage: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } | undefined): void {
+    if (usage) {
+      recordTokenUsage(usage.promptTokenCount, usage.candidatesTokenCount, usage.totalTokenCount);
+    }
+  }
+
+  private buildRequest(prompt: LlmPrompt, options: LlmGenerateOptions) {
+    const contents = typeof prompt === "string"
+      ? prompt
+      : prompt.map(m => ({
+          role: m.role === "assistant" ? "model" : "user",
+          parts: [{ text: m.content }],
+        }));
+
+    return {
+      model: this.model,
+      contents: contents,
+      config: {
+        thinkingConfig: {
+          thinkingBudget: 0,
+        },
+        systemInstruction: options.systemInstruction,
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      } as Record<string, any>,
+    };
+  }
+}
+
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private timeout: number;
+
+  constructor(model: string) {
+    this.apiKey = config.llm.openaiApiKey || "";
+    if (!this.apiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required");
+    }
+    this.baseUrl = config.llm.openaiBaseUrl.replace(/\/$/, "");
+    this.timeout = config.llm.timeout;
+    this.model = model;
+  }
+
+  async generate(prompt: LlmPrompt, options: LlmGenerateOptions = {}): Promise<string> {
+    const data = await this.post(this.buildBody(prompt, options));
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  async *stream(prompt: LlmPrompt, options: LlmGenerateOptions = {}): AsyncGenerator<string> {
+    let response;
+    try {
+      response = await axios.post<any>(
+        `${this.baseUrl}/chat/completions`,
+        { ...this.buildBody(prompt, options), stream: true, stream_options: { include_usage: true } },
+        { headers: this.headers(), responseType: "stream", timeout: this.timeout }
+      );
+    } catch (error: any) {
+      throw this.toProviderError(error);
+    }
+
+    let buffer = "";
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const payload = trimmed.substring(5).trim();
+        if (payload === "[DONE]") return;
+
+        const event = parseJson<any>(payload, this.name);
+        if (event.usage) {
+          this.recordUsage(event.usage);
+        }
+
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+
+  async generateJson<T = any>(prompt: LlmPrompt, options: LlmJsonOptions = {}): Promise<T> {
+    const body = this.buildBody(prompt, options);
+    body.response_format = options.responseSchema
+      ? { type: "json_schema", json_schema: { name: "response", schema: options.responseSchema } }
+      : { type: "json_object" };
+
+    const data = await this.post(body);
+    return parseJson<T>(data.choices?.[0]?.message?.content || "", this.name);
+  }
+
+  private buildBody(prompt: LlmPrompt, options: LlmGenerateOptions): Record<string, any> {
+    const messages: Array<{ role: string; content: string }> = [];
+    if (options.systemInstruction) {
+      messages.push({ role: "system", content: options.systemInstruction });
+    }
+    messages.push(...toMessages(prompt));
+
+    return {
+      model: this.model,
+      messages: messages,
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.apiKey}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  private async post(body: Record<string, any>): Promise<any> {
+    try {
+      const response = await axios.post<any>(`${this.baseUrl}/chat/completions`, body, {
+        headers: this.headers(),
+        timeout: this.timeout,
+      });
+      this.recordUsage(response.data?.usage);
+      return response.data;
+    } catch (error: any) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private recordUsage(usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined): void {
+    if (usage) {
+      recordTokenUsage(usage.prompt_tokens, usage.completion_tokens, usage.total_tokens);
+    }
+  }
+
+  private toProviderError(error: any): LlmProviderError {
+    if (error.response) {
+      const message = error.response.data?.error?.message || `HTTP ${error.response.status}: ${error.response.statusText}`;
+      return new LlmProviderError(message, error.response.status);
+    }
+    return new LlmProviderError(error.message || "Unknown LLM provider error");
+  }
+}
+
+export type FakeLlmResponder = (messages: LlmMessage[], options: LlmJsonOptions) => string;
+
+/**
+ * Deterministic in-process provider for tests and offline runs. Replies are
+ * taken from the queue in order, then from the responder, then echoed back.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly model: string;
+  readonly calls: Array<{ messages: LlmMessage[]; options: LlmJsonOptions }> = [];
+  private queue: string[];
+  private responder?: FakeLlmResponder;
+
+  constructor(model: string = "fake-model", responses: string[] = [], responder?: FakeLlmResponder) {
+    this.model = model;
+    this.queue = [...responses];
+    this.responder = responder;
+  }
+
+  enqueue(...responses: string[]): void {
+    this.queue.push(...responses);
+  }
+
+  async generate(prompt: LlmPrompt, options: LlmGenerateOptions = {}): Promise<string> {
+    return this.reply(prompt, options);
+  }
+
+  async *stream(prompt: LlmPrompt, options: LlmGenerateOptions = {}): AsyncGenerator<string> {
+    const text = this.reply(prompt, options);
+    for (const part of text.match(/\S+\s*/g) || []) {
+      yield part;
+    }
+  }
+
+  async generateJson<T = any>(prompt: LlmPrompt, options: LlmJsonOptions = {}): Promise<T> {
+    const text = this.reply(prompt, options, "{}");
+    return parseJson<T>(text, this.name);
+  }
+
+  private reply(prompt: LlmPrompt, options: LlmJsonOptions, fallback?: string): string {
+    const messages = toMessages(prompt);
+    this.calls.push({ messages, options });
+
+    if (this.queue.length > 0) {
+      return this.queue.shift()!;
+    }
+    if (this.responder) {
+      return this.responder(messages, options);
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+
+    const lastMessage = messages[messages.length - 1]?.content || "";
+    return `Fake response: ${lastMessage.substring(0, 80)}`;
+  }
+}
+
+const DEFAULT_MODELS: Record<string, string> = {
+  gemini: "gemini-2.5-flash-lite",
+  openai: "gpt-4o-mini",
+  fake: "fake-model",
+};
+
+export const createLlmProvider = (agent: LlmAgentName): LlmProvider => {
+  const agentConfig = config.llm.agents[agent];
+  const providerName = agentConfig.provider || config.llm.provider;
+  const model = agentConfig.model || config.llm.model || DEFAULT_MODELS[providerName];
+
+  switch (providerName) {
+    case "gemini":
+      return new GeminiLlmProvider(model);
+    case "openai":
+      return new OpenAiCompatibleLlmProvider(model);
+    case "fake":
+      return new FakeLlmProvider(model);
+    default:
+      throw new Error(`Unknown LLM provider "${providerName}" configured for ${agent} agent`);
+  }
+};
+
+export class StructuredOutputError extends LlmProviderError {
+  readonly attempts: number;
+  readonly errors: string[];
+
+  constructor(message: string, attempts: number, errors: string[]) {
+    super(message);
+    this.name = "StructuredOutputError";
+    this.attempts = attempts;
+    this.errors = errors;
+  }
+}
+
+const DEFAULT_STRUCTURED_RETRIES = 2;
+
+/**
+ * Asks for JSON (constrained by `responseSchema` where the provider supports
+ * it), validates it against `schema` and returns the validated value. Invalid
+ * JSON or a schema mismatch is sent back to the model with the errors and
+ * retried up to `retries` times.
+ */
+export const generateStructured = async <T>(
+  llm: LlmProvider,
+  prompt: LlmPrompt,
+  options: StructuredOutputOptions<T>
+): Promise<T> => {
+  const { schema, retries = DEFAULT_STRUCTURED_RETRIES, ...jsonOptions } = options;
+  const messages = [...toMessages(prompt)];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    let output: string;
+    let value: unknown;
+    try {
+      value = await llm.generateJson([...messages], jsonOptions);
+      output = JSON.stringify(value);
+    } catch (error) {
+      if (!(error instanceof LlmOutputError)) {
+        throw error;
+      }
+      output = error.output;
+      errors = ["the response was not valid JSON"];
+    }
+
+    if (value !== undefined) {
+      const validation = schema.validate(value, { abortEarly: false, stripUnknown: true });
+      if (!validation.error) {
+        return validation.value as T;
+      }
+      errors = validation.error.details.map((detail) => detail.message);
+    }
+
+    console.warn(`${llm.name} structured output attempt ${attempt} rejected: ${errors.join("; ")}`);
+    messages.push(
+      { role: "assistant", content: output },
+      { role: "user", content: `That response was rejected: ${errors.join("; ")}. Reply again with only the corrected JSON.` }
+    );
+  }
+
+  throw new StructuredOutputError(`${llm.name} returned invalid structured output: ${errors.join("; ")}`, retries + 1, errors);
+};
@@ -1,32 +1,82 @@
-import { GoogleGenAI } from "@google/genai";
+import { LlmMessage, LlmProvider, createLlmProvider, generateStructured } from "./llmProvider.service.js";
+import { Agent, AgentContext, AgentResult, ConversationTurn } from "./agentRegistry.service.js";
+import {
+  followUpQuestionsJsonSchema,
+  followUpQuestionsSchema,
+  personalContextJsonSchema,
+  personalContextSchema,
+} from "../validations/llmOutput.validation.js";
+import config from "../config/index.js";
+
+const DEFAULT_PERSONA = `You are a friendly, concise travel assistant in a chat app. You help people plan trips and can search flights and hotels for them; other parts of the assistant run those searches and their replies appear in this conversation as your own earlier messages. Remember what the user has told you, refer back to earlier turns naturally, and keep answers short unless asked for detail.`;
+
+export interface PersonalConversation {
+  history?: ConversationTurn[];
+  summary?: string;
+}
+
+export interface PersonalContextExtraction {
+  personalInfo: Record<string, string>;
+  topic?: string;
+  intent?: string;
+  sentiment?: "positive" | "neutral" | "negative";
+}
 
 export interface PersonalAgentResponse {
   message: string;
-  contextExtracted?: any;
+  contextExtracted?: PersonalContextExtraction;
   contextUpdates?: Map<string, any>;
   suggestedFollowUps?: string[];
 }
 
-export class PersonalAgentService {
-  private client: GoogleGenAI;
+export class PersonalAgentService implements Agent {
+  readonly name = "Personal Assistant";
+  readonly type = "personal";
+  readonly description = "greetings, small talk, questions about the assistant, or the user sharing or asking about their own details (name, age, location, job)";
+  readonly threshold = 0;
+  private llm: LlmProvider;
   private userContext: Map<string, any>;
+  private persona: string;
+  private historyTurns: number;
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY environment variable is required");
-    }
-    this.client = new GoogleGenAI({ apiKey });
+  constructor(llm?: LlmProvider, options: { persona?: string; historyTurns?: number } = {}) {
+    this.llm = llm ?? createLlmProvider("personal");
     this.userContext = new Map();
+    this.persona = options.persona || config.personalAgent.persona || DEFAULT_PERSONA;
+    this.historyTurns = options.historyTurns ?? config.personalAgent.historyTurns;
+  }
+
+  scoreConfidence(message: string): number {
+    return this.calculatePersonalConfidence(message);
+  }
+
+  async handle(message: string, ctx: AgentContext): Promise<AgentResult> {
+    // The router has already added the current message to the history.
+    const result = await this.processMessage(message, ctx.sessionContext, ctx.onDelta, {
+      history: ctx.history.slice(0, -1),
+      summary: ctx.conversationSummary,
+    });
+
+    return {
+      message: result.message,
+      contextUpdates: result.contextUpdates,
+      metadata: {
+        contextExtracted: result.contextExtracted,
+        suggestedFollowUps: result.suggestedFollowUps,
+      },
+    };
   }
 
-  async processMessage(message: string, existingContext?: Map<string, any>): Promise<PersonalAgentResponse> {
+  async processMessage(
+    message: string,
+    existingContext?: Map<string, any>,
+    onDelta?: (delta: string) => void,
+    conversation: PersonalConversation = {}
+  ): Promise<PersonalAgentResponse> {
     try {
-      if (existingContext) {
-        existingContext.forEach((value, key) => {
-          this.userContext.set(key, value);
-        });
-      }
+      // Rebuilt every turn so facts the user has since deleted from memory,
+      // or stopped sharing by opting out, don't linger in the prompt.
+      this.userContext = new Map(existingContext);
 
       const contextExtracted = await this.extractContextWithPersonalInfo(message);
       
@@ -40,23 +90,14 @@ export class PersonalAgentService {
         });
       }
 
-      const contextString = this.buildContextString();
-
-      const promptWithContext = contextString 
-        ? `Context about the user:\n${contextString}\n\nUser message: ${message}\n\nRespond naturally, using the context when relevant.`
-        : message;
+      const contents = this.buildContents(conversation.history || [], message);
+      const systemInstruction = this.buildSystemInstruction(conversation.summary);
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: promptWithContext,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
+      const responseText = onDelta
+        ? await this.streamResponse(contents, systemInstruction, onDelta)
+        : await this.llm.generate(contents, { systemInstruction });
 
-      const aiMessage = response.text || "I'm here to help! How can I assist you today?";
+      const aiMessage = responseText || "I'm here to help! How can I assist you today?";
 
       const followUps = await this.generateFollowUps(message, aiMessage);
 
@@ -80,6 +121,129 @@ export class PersonalAgentService {
     }
   }
 
+  private async streamResponse(contents: LlmMessage[], systemInstruction: string, onDelta: (delta: string) => void): Promise<string> {
+    let text = "";
+    for await (const delta of this.llm.stream(contents, { systemInstruction })) {
+      text += delta;
+      onDelta(delta);
+    }
+
+    return text;
+  }
+
+  private calculatePersonalConfidence(message: string): number {
+    const lowerMessage = message.toLowerCase();
+    
+    const personalKeywords = [
+      { keywords: ['hello', 'hi', 'hey', 'greetings'], weight: 0.5 },
+      { keywords: ['how are you', 'what\'s up', 'sup'], weight: 0.5 },
+      { keywords: ['help', 'assist', 'support'], weight: 0.3 },
+      { keywords: ['thank', 'thanks', 'appreciate'], weight: 0.4 },
+      { keywords: ['who are you', 'what can you do', 'your name'], weight: 0.5 },
+      { keywords: ['tell me about', 'explain', 'what is'], weight: 0.3 },
+    ];
+
+    const personalInfoPatterns = [
+      { patterns: ['my name is', 'i am', 'i\'m', 'call me'], weight: 0.7 },
+      { patterns: ['my age is', 'i am', 'years old'], weight: 0.6 },
+      { patterns: ['i live in', 'i\'m from', 'from'], weight: 0.6 },
+      { patterns: ['i work as', 'i am a', 'my job'], weight: 0.6 },
+      { patterns: ['my email', 'my phone', 'my number'], weight: 0.6 },
+    ];
+
+    const personalInfoQueries = [
+      { patterns: ['what is my name', 'what\'s my name', 'my name'], weight: 0.6 },
+      { patterns: ['who am i', 'what do you know about me'], weight: 0.6 },
+      { patterns: ['where am i from', 'where do i live'], weight: 0.6 },
+      { patterns: ['how old am i', 'what is my age'], weight: 0.6 },
+      { patterns: ['what do i do', 'my job', 'my work'], weight: 0.5 },
+    ];
+
+    let score = 0;
+
+    for (const group of personalInfoPatterns) {
+      for (const pattern of group.patterns) {
+        if (lowerMessage.includes(pattern)) {
+          score += group.weight;
+          break;
+        }
+      }
+    }
+
+    for (const group of personalInfoQueries) {
+      for (const pattern of group.patterns) {
+        if (lowerMessage.includes(pattern)) {
+          score += group.weight;
+          break;
+        }
+      }
+    }
+
+    for (const group of personalKeywords) {
+      for (const keyword of group.keywords) {
+        if (lowerMessage.includes(keyword)) {
+          score += group.weight;
+          break;
+        }
+      }
+    }
+
+    if (message.trim().split(' ').length <= 3 && !/flight|fly|book/i.test(message)) {
+      score += 0.3;
+    }
+
+    if (message.includes('?') && !/flight|fly|book|airport/i.test(message)) {
+      score += 0.2;
+    }
+
+    return Math.min(score, 1.0);
+  }
+
+  /**
+   * The last `historyTurns` turns from every agent as alternating user and
+   * assistant messages, ending with the current message. Providers expect
+   * the first message to be the user's and roles to alternate, so leading
+   * assistant turns are dropped and consecutive ones merged.
+   */
+  private buildContents(history: ConversationTurn[], message: string): LlmMessage[] {
+    const turns: LlmMessage[] = [
+      ...history.slice(-this.historyTurns).map((turn): LlmMessage => ({
+        role: turn.role === 'user' ? 'user' : 'assistant',
+        content: turn.message,
+      })),
+      { role: 'user', content: message },
+    ];
+
+    const contents: LlmMessage[] = [];
+    for (const turn of turns) {
+      const previous = contents[contents.length - 1];
+      if (!previous && turn.role === 'assistant') {
+        continue;
+      }
+      if (previous?.role === turn.role) {
+        previous.content += `\n\n${turn.content}`;
+      } else {
+        contents.push({ ...turn });
+      }
+    }
+
+    return contents;
+  }
+
+  private buildSystemInstruction(summary?: string): string {
+    const parts = [this.persona];
+
+    const contextString = this.buildContextString();
+    if (contextString) {
+      parts.push(`What you know about the user:\n${contextString}`);
+    }
+    if (summary) {
+      parts.push(`Summary of the earlier conversation:\n${summary}`);
+    }
+
+    return parts.join('\n\n');
+  }
+
   private buildContextString(): string {
     if (this.userContext.size === 0) return "";
     
@@ -94,7 +258,7 @@ export class PersonalAgentService {
     return contextParts.join('\n');
   }
 
-  private async extractContextWithPersonalInfo(message: string): Promise<any> {
+  private async extractContextWithPersonalInfo(message: string): Promise<PersonalContextExtraction> {
     try {
       const contextPrompt = `Analyze this message and extract information: "${message}"
 
@@ -106,56 +270,37 @@ Extract:
    - occupation: (if mentioned)
    - email: (if provided)
    - phone: (if provided)
-   - Any other personal details
+   - otherDetails: any other personal details, as key/value pairs
 
 2. **General Context**:
-   - Main topic/intent
-   - Sentiment (positive/neutral/negative)
-   - User's apparent goal
-
-Respond in JSON format:
-{
-  "personalInfo": {
-    "name": "...",
-    "age": "...",
-    "location": "...",
-    "occupation": "...",
-    // any other fields found
-  },
-  "topic": "...",
-  "intent": "...",
-  "sentiment": "..."
-}
+   - topic: main topic
+   - intent: the user's apparent goal
+   - sentiment: positive, neutral or negative
 
-If no personal info is found, leave personalInfo fields as null.`;
+Use null for anything that isn't mentioned.`;
 
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: contextPrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
+      const extraction = await generateStructured(this.llm, contextPrompt, {
+        schema: personalContextSchema,
+        responseSchema: personalContextJsonSchema,
       });
 
-      try {
-        const contextText = response.text || '{}';
-        const jsonMatch = contextText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          return JSON.parse(jsonMatch[0]);
+      const { otherDetails, ...fields } = extraction.personalInfo;
+      const personalInfo: Record<string, string> = {};
+      for (const detail of otherDetails || []) {
+        personalInfo[detail.key] = detail.value;
+      }
+      for (const [key, value] of Object.entries(fields)) {
+        if (value) {
+          personalInfo[key] = value;
         }
-      } catch (parseError) {
-        console.error("Context parsing error:", parseError);
       }
 
       return {
-        personalInfo: {},
-        topic: "general",
-        intent: "conversation",
-        sentiment: "neutral"
+        personalInfo: personalInfo,
+        topic: extraction.topic || undefined,
+        intent: extraction.intent || undefined,
+        sentiment: extraction.sentiment || undefined,
       };
-
     } catch (error) {
       console.error("Context extraction error:", error);
       return { personalInfo: {} };
@@ -168,32 +313,15 @@ If no personal info is found, leave personalInfo fields as null.`;
 User: "${userMessage}"
 Bot: "${botResponse}"
 
-Suggest 3 brief, natural follow-up questions the user might want to ask next. 
-Each should be a complete question, max 10 words.
-Respond with just the 3 questions, one per line.`;
-
-      const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: followUpPrompt,
-        config: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-          },
-        },
-      });
+Suggest 3 brief, natural follow-up questions the user might want to ask next.
+Each should be a complete question, max 10 words.`;
 
-      const text = response.text || '';
-      const questions = text.split('\n')
-        .map(q => q.trim())
-        .filter(q => q.length > 0 && q.length < 100)
-        .slice(0, 3);
-
-      return questions.length > 0 ? questions : [
-        "Can you tell me more?",
-        "What else should I know?",
-        "How can you help me?"
-      ];
+      const { questions } = await generateStructured(this.llm, followUpPrompt, {
+        schema: followUpQuestionsSchema,
+        responseSchema: followUpQuestionsJsonSchema,
+      });
 
+      return questions;
     } catch (error) {
       console.error("Follow-up generation error:", error);
       return [
@@ -0,0 +1,158 @@
+import mongoose from "mongoose";
+import UserMemory, { IMemoryFact, IUserMemory } from "../models/userMemory.model.js";
+import ChatSession from "../models/chatSession.model.js";
+import SessionContext from "../models/sessionContext.model.js";
+
+const SOURCE_EXCERPT_LENGTH = 300;
+
+export interface MemorySource {
+  sessionId?: mongoose.Types.ObjectId;
+  message?: string;
+}
+
+export interface UserMemoryView {
+  enabled: boolean;
+  facts: IMemoryFact[];
+  updatedAt?: Date;
+}
+
+export interface UpdateUserMemoryInput {
+  enabled?: boolean;
+  // A null value forgets that fact.
+  facts?: Record<string, any>;
+}
+
+export class UserMemoryService {
+  async getMemory(userId: string): Promise<UserMemoryView> {
+    const memory = await UserMemory.findOne({ userId }).lean<IUserMemory>();
+    return this.toView(memory);
+  }
+
+  /**
+   * The user's remembered facts as context entries, or undefined when they
+   * have none or have turned memory off.
+   */
+  async recall(userId: string): Promise<Map<string, any> | undefined> {
+    const memory = await UserMemory.findOne({ userId }).select("enabled facts").lean<IUserMemory>();
+    if (!memory || !memory.enabled || memory.facts.length === 0) {
+      return undefined;
+    }
+
+    return new Map(memory.facts.map((fact) => [fact.key, fact.value]));
+  }
+
+  /**
+   * Merges facts learned in a conversation into the user's memory. Newer
+   * values replace older ones; nothing is stored if the user opted out.
+   */
+  async remember(userId: string, facts: Map<string, any>, source: MemorySource = {}): Promise<void> {
+    const entries = [...facts].filter(([key, value]) => key && value !== null && value !== undefined && value !== "");
+    if (entries.length === 0) {
+      return;
+    }
+
+    const memory = await UserMemory.findOne({ userId }) || new UserMemory({ userId });
+    if (!memory.enabled) {
+      return;
+    }
+
+    const factSource = {
+      sessionId: source.sessionId,
+      message: source.message?.substring(0, SOURCE_EXCERPT_LENGTH),
+    };
+
+    for (const [key, value] of entries) {
+      const existing = memory.facts.find((fact) => fact.key === key);
+      if (!existing) {
+        memory.facts.push({ key, value, source: factSource });
+      } else if (JSON.stringify(existing.value) !== JSON.stringify(value)) {
+        existing.value = value;
+        existing.source = factSource;
+      }
+    }
+
+    await memory.save();
+  }
+
+  async updateMemory(userId: string, input: UpdateUserMemoryInput): Promise<UserMemoryView> {
+    const memory = await UserMemory.findOne({ userId }) || new UserMemory({ userId });
+
+    if (input.enabled !== undefined) {
+      memory.enabled = input.enabled;
+    }
+
+    const forgotten: string[] = [];
+    for (const [key, value] of Object.entries(input.facts || {})) {
+      const index = memory.facts.findIndex((fact) => fact.key === key);
+      if (value === null) {
+        forgotten.push(key);
+        if (index !== -1) {
+          memory.facts.splice(index, 1);
+        }
+      } else if (index === -1) {
+        memory.facts.push({ key, value });
+      } else {
+        memory.facts[index].value = value;
+        // A manual edit no longer comes from the original message.
+        memory.facts[index].source = undefined;
+      }
+    }
+
+    await memory.save();
+
+    if (input.enabled === false) {
+      await this.purgeSessionFacts(userId);
+    } else if (forgotten.length > 0) {
+      await this.purgeSessionFacts(userId, forgotten);
+    }
+
+    return this.toView(memory.toObject());
+  }
+
+  /**
+   * Forgets one fact, or every fact when no key is given. Returns false if
+   * the key wasn't remembered.
+   */
+  async forget(userId: string, key?: string): Promise<boolean> {
+    if (key === undefined) {
+      await UserMemory.updateOne({ userId }, { $set: { facts: [] } });
+      await this.purgeSessionFacts(userId);
+      return true;
+    }
+
+    const result = await UserMemory.updateOne({ userId }, { $pull: { facts: { key } } });
+    await this.purgeSessionFacts(userId, [key]);
+    return result.modifiedCount > 0;
+  }
+
+  // Chats used to keep their own copy of the facts learned in them; clear
+  // those too so a forgotten fact can't come back from an old chat.
+  private async purgeSessionFacts(userId: string, keys?: string[]): Promise<void> {
+    const sessionIds = await ChatSession.find({ userId }).distinct("_id");
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    // Map keys can't contain dots or start with "$", so such keys were
+    // never stored on a session.
+    const storedKeys = keys?.filter((key) => !key.includes(".") && !key.startsWith("$"));
+    if (storedKeys && storedKeys.length === 0) {
+      return;
+    }
+
+    await SessionContext.updateMany(
+      { chat_session_id: { $in: sessionIds } },
+      storedKeys
+        ? { $unset: Object.fromEntries(storedKeys.map((key) => [`contextData.${key}`, ""])) }
+        : { $set: { contextData: {} } }
+    );
+  }
+
+  private toView(memory: IUserMemory | null): UserMemoryView {
+    return {
+      enabled: memory?.enabled ?? true,
+      facts: memory?.facts || [],
+      updatedAt: memory?.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,466 @@
+import { AIRPORTS, CITY_ALIASES, GENERATED_AIRPORTS, METRO_AREAS, AirportRecord, MetroArea } from '../data/airports.data.js';
+
+export type PlaceAnchor = 'from' | 'to' | 'via';
+
+export interface PlaceMention {
+  code: string;
+  text: string;
+  start: number;
+  end: number;
+  anchor?: PlaceAnchor;
+  fuzzy?: boolean;
+}
+
+export interface AirportMatch {
+  code: string;
+  type: 'airport' | 'metro';
+  name: string;
+  city: string;
+  country: string;
+  airports: string[];
+  score: number;
+  matchedOn: 'code' | 'city' | 'name' | 'fuzzy';
+}
+
+export interface NearbyAirport extends AirportRecord {
+  distanceKm: number;
+}
+
+interface SearchEntry {
+  code: string;
+  cities: string[];
+  names: string[];
+  primary: boolean;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const MAX_NAME_TOKENS = 4;
+
+const ANCHORS: Record<string, PlaceAnchor> = {
+  from: 'from', leaving: 'from', departing: 'from',
+  to: 'to', into: 'to',
+  via: 'via', through: 'via',
+};
+
+// Codes that double as everyday words; in all-caps text they only count when
+// a from/to/via sits next to them. Codes only in the generated dataset are
+// treated the same way.
+const COMMON_WORD_CODES = new Set([
+  'ADD', 'BUD', 'CAN', 'DAL', 'DEN', 'FOR', 'GOT', 'HAN', 'KIN', 'LAS', 'LED', 'LOS', 'MAN',
+  'MED', 'MIL', 'MOW', 'PAR', 'PAT', 'PER', 'POS', 'ROM', 'SAL', 'SAN', 'SAT', 'SIN', 'WAS',
+]);
+
+// City names that are also ordinary words.
+const AMBIGUOUS_NAMES = new Set(['nice', 'split', 'male', 'cork', 'victoria', 'liberia', 'la']);
+
+const FUZZY_STOPWORDS = new Set([
+  'here', 'there', 'home', 'book', 'find', 'fly', 'flying', 'get', 'see', 'travel', 'visit', 'leave',
+  'return', 'come', 'know', 'make', 'the', 'my', 'me', 'it', 'this', 'that', 'back', 'and', 'on', 'at',
+  'in', 'for', 'with', 'by', 'next', 'today', 'tomorrow', 'tonight', 'weekend', 'week', 'month',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'returning', 'cheap', 'cheapest', 'flight', 'flights', 'ticket', 'tickets',
+]);
+
+const AIRPORT_NAME_WORDS = new Set([
+  'international', 'airport', 'intercontinental', 'national', 'regional', 'metropolitan', 'city',
+]);
+
+// Folds accents and case one UTF-16 unit at a time so offsets still line up
+// with the original text.
+const fold = (value: string): string =>
+  value
+    .split('')
+    .map(char => (char.normalize('NFD')[0] || char).toLowerCase()[0] || char)
+    .join('');
+
+const normalizeKey = (value: string): string => (fold(value).match(/[a-z0-9]+/g) || []).join(' ');
+
+const maxDistance = (length: number): number => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions,
+// so "dehli" is one edit from "delhi".
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+export class AirportResolver {
+  private airports: Map<string, AirportRecord>;
+  private metros: Map<string, MetroArea>;
+  private names: Map<string, string>;
+  // Names from the generated dataset, which includes towns called "Mobile"
+  // or "Page"; these only match free text right after from/to/via.
+  private anchoredNames: Map<string, string>;
+  private generatedCodes: Set<string>;
+  private entries: SearchEntry[];
+
+  constructor(
+    airports: AirportRecord[] = AIRPORTS,
+    metros: MetroArea[] = METRO_AREAS,
+    aliases: Record<string, string> = CITY_ALIASES,
+    generated: AirportRecord[] = GENERATED_AIRPORTS
+  ) {
+    this.airports = new Map([...airports, ...generated].map(airport => [airport.iata, airport]));
+    this.metros = new Map(metros.map(metro => [metro.code, metro]));
+    this.names = new Map();
+    this.anchoredNames = new Map();
+    this.generatedCodes = new Set(generated.map(airport => airport.iata));
+    this.entries = [];
+
+    const cityCodes = new Map<string, string>();
+    metros.forEach(metro => cityCodes.set(normalizeKey(metro.city), metro.code));
+    metros.forEach(metro => this.entries.push({ code: metro.code, cities: [normalizeKey(metro.city)], names: [], primary: true }));
+
+    airports.forEach(airport => {
+      const cityKey = normalizeKey(airport.city);
+      const primary = !cityCodes.has(cityKey);
+      if (primary) cityCodes.set(cityKey, airport.iata);
+
+      const names = [normalizeKey(airport.name)];
+      const shortName = this.shortAirportName(airport);
+      if (shortName) names.push(shortName);
+
+      this.entries.push({ code: airport.iata, cities: [cityKey], names: names, primary: primary });
+    });
+
+    cityCodes.forEach((code, cityKey) => this.names.set(cityKey, code));
+
+    Object.entries(aliases).forEach(([alias, target]) => {
+      const aliasKey = normalizeKey(alias);
+      const targetCode = this.isValidCode(target) ? target : cityCodes.get(normalizeKey(target));
+      if (!targetCode || this.names.has(aliasKey)) return;
+
+      this.names.set(aliasKey, targetCode);
+      this.entries
+        .filter(entry => entry.code === target || entry.cities[0] === normalizeKey(target))
+        .forEach(entry => entry.cities.push(aliasKey));
+    });
+
+    airports.forEach(airport => {
+      const shortName = this.shortAirportName(airport);
+      if (shortName && !this.names.has(shortName)) {
+        this.names.set(shortName, airport.iata);
+      }
+    });
+
+    generated.forEach(airport => {
+      const cityKey = normalizeKey(airport.city);
+      const primary = !cityCodes.has(cityKey) && !this.anchoredNames.has(cityKey);
+      if (primary && !this.names.has(cityKey)) this.anchoredNames.set(cityKey, airport.iata);
+
+      const names = [normalizeKey(airport.name)];
+      const shortName = this.shortAirportName(airport);
+      if (shortName) names.push(shortName);
+
+      this.entries.push({ code: airport.iata, cities: [cityKey], names: names, primary: primary });
+    });
+
+    generated.forEach(airport => {
+      const shortName = this.shortAirportName(airport);
+      if (shortName && !this.names.has(shortName) && !this.anchoredNames.has(shortName)) {
+        this.anchoredNames.set(shortName, airport.iata);
+      }
+    });
+  }
+
+  isValidCode(code: string): boolean {
+    const upper = code.toUpperCase();
+    return this.airports.has(upper) || this.metros.has(upper);
+  }
+
+  getAirport(code: string): AirportRecord | undefined {
+    return this.airports.get(code.toUpperCase());
+  }
+
+  getMetro(code: string): MetroArea | undefined {
+    return this.metros.get(code.toUpperCase());
+  }
+
+  getAirportsForCode(code: string): string[] {
+    const upper = code.toUpperCase();
+    const metro = this.metros.get(upper);
+    if (metro) return [...metro.airports];
+    return this.airports.has(upper) ? [upper] : [];
+  }
+
+  /**
+   * SerpAPI accepts comma-separated airport codes, so a metro code such as
+   * NYC is expanded to every airport it covers.
+   */
+  toSearchId(code: string): string {
+    const metro = this.metros.get(code.toUpperCase());
+    return metro ? metro.airports.join(',') : code;
+  }
+
+  getCityName(code: string): string | undefined {
+    const upper = code.toUpperCase();
+    return this.airports.get(upper)?.city || this.metros.get(upper)?.city;
+  }
+
+  describe(code: string): string {
+    const city = this.getCityName(code);
+    return city ? `${city} (${code.toUpperCase()})` : code.toUpperCase();
+  }
+
+  resolve(query: string): string | undefined {
+    return this.search(query, 1)[0]?.code;
+  }
+
+  search(query: string, limit: number = 10): AirportMatch[] {
+    const key = normalizeKey(query);
+    if (!key) return [];
+
+    const upper = key.toUpperCase();
+    const scores = new Map<string, { score: number; matchedOn: AirportMatch['matchedOn'] }>();
+    const consider = (code: string, score: number, matchedOn: AirportMatch['matchedOn']) => {
+      const existing = scores.get(code);
+      if (!existing || existing.score < score) {
+        scores.set(code, { score: score, matchedOn: matchedOn });
+      }
+    };
+
+    if (/^[A-Z]{3}$/.test(upper) && this.isValidCode(upper)) {
+      consider(upper, 100, 'code');
+    }
+
+    for (const entry of this.entries) {
+      if (/^[A-Z]{2}$/.test(upper) && entry.code.startsWith(upper)) {
+        consider(entry.code, 60, 'code');
+      }
+
+      const bonus = entry.primary ? 3 : 0;
+      const keys = [
+        ...entry.cities.map(name => ({ name: name, matchedOn: 'city' as const })),
+        ...entry.names.map(name => ({ name: name, matchedOn: 'name' as const })),
+      ];
+
+      keys.forEach(({ name, matchedOn }) => {
+        if (name === key) {
+          consider(entry.code, 90 + bonus, matchedOn);
+        } else if (name.startsWith(key)) {
+          consider(entry.code, 75 + bonus, matchedOn);
+        } else if (key.length >= 2 && name.split(' ').some(word => word.startsWith(key))) {
+          consider(entry.code, 65 + bonus, matchedOn);
+        } else if (key.length >= 3 && name.includes(key)) {
+          consider(entry.code, 55 + bonus, matchedOn);
+        } else if (key.length >= 4 && Math.abs(name.length - key.length) <= maxDistance(key.length)) {
+          const distance = editDistance(key, name);
+          if (distance <= maxDistance(key.length)) {
+            consider(entry.code, 50 - distance * 10 + bonus, 'fuzzy');
+          }
+        }
+      });
+    }
+
+    return [...scores.entries()]
+      .sort(([codeA, a], [codeB, b]) => b.score - a.score || codeA.localeCompare(codeB))
+      .slice(0, limit)
+      .map(([code, { score, matchedOn }]) => this.toMatch(code, score, matchedOn));
+  }
+
+  /**
+   * Finds airports mentioned in free text, in the order they appear. City
+   * names, aliases and airport names from the curated list match anywhere;
+   * names only in the generated dataset, and typos, are only accepted right
+   * after "from", "to" or "via" so ordinary words elsewhere in the sentence
+   * are never mistaken for a city.
+   */
+  findInText(text: string): PlaceMention[] {
+    const folded = fold(text);
+    const tokens: Token[] = [...folded.matchAll(/[a-z0-9]+/g)].map(match => ({
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+
+    const letters = text.replace(/[^A-Za-z]/g, '');
+    const shouting = letters.length >= 8 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.6;
+
+    const mentions: PlaceMention[] = [];
+    for (let index = 0; index < tokens.length; ) {
+      const anchor = index > 0 ? ANCHORS[tokens[index - 1].text] : undefined;
+      const match = this.matchAt(text, tokens, index, anchor, shouting);
+      if (match) {
+        mentions.push(match.mention);
+        index += match.length;
+      } else {
+        index++;
+      }
+    }
+
+    return mentions;
+  }
+
+  nearest(lat: number, lon: number, options: { limit?: number; maxKm?: number; exclude?: string[] } = {}): NearbyAirport[] {
+    const { limit = 5, maxKm = 500, exclude = [] } = options;
+
+    return [...this.airports.values()]
+      .filter(airport => !exclude.includes(airport.iata))
+      .map(airport => ({ ...airport, distanceKm: Math.round(distanceKm(lat, lon, airport.lat, airport.lon)) }))
+      .filter(airport => airport.distanceKm <= maxKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, limit);
+  }
+
+  nearbyAirports(code: string, limit: number = 3, maxKm: number = 300): NearbyAirport[] {
+    const covered = this.getAirportsForCode(code);
+    const origin = this.airports.get(covered[0]);
+    if (!origin) return [];
+
+    return this.nearest(origin.lat, origin.lon, { limit: limit, maxKm: maxKm, exclude: covered });
+  }
+
+  private matchAt(
+    text: string,
+    tokens: Token[],
+    index: number,
+    anchor: PlaceAnchor | undefined,
+    shouting: boolean
+  ): { mention: PlaceMention; length: number } | null {
+    const mention = (length: number, code: string, fuzzy?: boolean) => {
+      const start = tokens[index].start;
+      const end = tokens[index + length - 1].end;
+      return {
+        mention: { code: code, text: text.slice(start, end), start: start, end: end, anchor: anchor, fuzzy: fuzzy },
+        length: length,
+      };
+    };
+
+    for (let length = Math.min(MAX_NAME_TOKENS, tokens.length - index); length >= 1; length--) {
+      const window = tokens.slice(index, index + length);
+      const key = window.map(token => token.text).join(' ');
+      const code = this.names.get(key) ?? (anchor ? this.anchoredName(window) : undefined);
+      if (!code) continue;
+
+      const original = text.slice(window[0].start, window[length - 1].end);
+      if (key.length <= 2 && original !== original.toUpperCase()) continue;
+      if (AMBIGUOUS_NAMES.has(key) && !anchor) continue;
+
+      return mention(length, code);
+    }
+
+    const token = tokens[index];
+    const original = text.slice(token.start, token.end);
+    if (/^[A-Z]{3}$/.test(original)) {
+      const followedByTo = tokens[index + 1]?.text === 'to';
+      const wordLike = COMMON_WORD_CODES.has(original) || this.generatedCodes.has(original);
+      const accepted = this.isValidCode(original)
+        ? !(shouting && wordLike && !anchor && !followedByTo)
+        : !shouting && !!anchor;
+
+      if (accepted) return mention(1, original);
+    }
+
+    if (!anchor) return null;
+
+    for (let length = Math.min(3, tokens.length - index); length >= 1; length--) {
+      const window = tokens.slice(index, index + length);
+      if (window.some(part => FUZZY_STOPWORDS.has(part.text) || /\d/.test(part.text))) continue;
+
+      const key = window.map(part => part.text).join(' ');
+      if (key.length < 4) continue;
+
+      const code = this.closestName(key);
+      if (code) return mention(length, code, true);
+    }
+
+    return null;
+  }
+
+  private anchoredName(window: Token[]): string | undefined {
+    if (window.some(part => FUZZY_STOPWORDS.has(part.text))) return undefined;
+    return this.anchoredNames.get(window.map(part => part.text).join(' '));
+  }
+
+  private closestName(key: string): string | undefined {
+    const allowed = maxDistance(key.length);
+    let best: { code: string; distance: number } | undefined;
+
+    for (const [name, code] of this.names) {
+      if (name.length <= 2 || Math.abs(name.length - key.length) > allowed) continue;
+
+      const distance = editDistance(key, name);
+      if (distance <= allowed && (!best || distance < best.distance)) {
+        best = { code: code, distance: distance };
+      }
+    }
+
+    return best?.code;
+  }
+
+  private shortAirportName(airport: AirportRecord): string | undefined {
+    const cityWords = new Set(normalizeKey(airport.city).split(' '));
+    const words = normalizeKey(airport.name)
+      .split(' ')
+      .filter(word => !AIRPORT_NAME_WORDS.has(word) && !cityWords.has(word));
+
+    const shortName = words.join(' ');
+    return shortName.length >= 4 && !AMBIGUOUS_NAMES.has(shortName) ? shortName : undefined;
+  }
+
+  private toMatch(code: string, score: number, matchedOn: AirportMatch['matchedOn']): AirportMatch {
+    const metro = this.metros.get(code);
+    if (metro) {
+      const first = this.airports.get(metro.airports[0]);
+      return {
+        code: code,
+        type: 'metro',
+        name: `${metro.city} (all airports)`,
+        city: metro.city,
+        country: first?.country || '',
+        airports: [...metro.airports],
+        score: score,
+        matchedOn: matchedOn,
+      };
+    }
+
+    const airport = this.airports.get(code)!;
+    return {
+      code: code,
+      type: 'airport',
+      name: airport.name,
+      city: airport.city,
+      country: airport.country,
+      airports: [code],
+      score: score,
+      matchedOn: matchedOn,
+    };
+  }
+}
+
+let sharedResolver: AirportResolver | undefined;
+
+export const getAirportResolver = (): AirportResolver => {
+  if (!sharedResolver) {
+    sharedResolver = new AirportResolver();
+  }
+  return sharedResolver;
+};
@@ -0,0 +1,210 @@
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportFormat = 'md' | 'json' | 'html';
+
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  isUserMessage: boolean;
+  message: string;
+  agent?: string;
+  metadata?: Record<string, any>;
+  searchParams?: Record<string, any>;
+  suggestions?: string[];
+  tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; calls: number };
+  flightData?: any;
+  hotelData?: any;
+  createdAt: string;
+}
+
+export interface ChatExport {
+  version: number;
+  exportedAt: string;
+  session: {
+    title: string;
+    pinned?: boolean;
+    archived?: boolean;
+    createdAt: string;
+    updatedAt: string;
+  };
+  activeLeafId: string | null;
+  messages: ExportedMessage[];
+  context?: {
+    contextData?: Record<string, any>;
+    conversationSummary?: string;
+    summaryThroughMessageId?: string | null;
+    agentState?: Record<string, any>;
+  };
+}
+
+interface ResultTable {
+  heading?: string;
+  columns: string[];
+  rows: { cells: string[]; link?: string }[];
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ChatExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+const formatStops = (stops: number | any[] | undefined): string => {
+  const count = Array.isArray(stops) ? stops.length : stops ?? 0;
+  return count === 0 ? 'Nonstop' : `${count} stop${count > 1 ? 's' : ''}`;
+};
+
+const formatPrice = (amount: number | undefined, currency: string | undefined): string =>
+  amount ? `${currency || ''} ${amount.toLocaleString('en-US')}`.trim() : 'n/a';
+
+const formatEndpoint = (endpoint: { airport?: string; date?: string; time?: string } | undefined): string =>
+  [endpoint?.airport, endpoint?.date, endpoint?.time].filter(Boolean).join(' ');
+
+const isSafeLink = (link: unknown): link is string => typeof link === 'string' && /^https?:\/\//i.test(link);
+
+const flightTable = (flights: any[], heading?: string): ResultTable => ({
+  heading,
+  columns: ['Airline', 'Departure', 'Arrival', 'Duration', 'Stops', 'Price'],
+  rows: flights.map(flight => ({
+    cells: [
+      flight.airline || 'Unknown',
+      formatEndpoint(flight.departure),
+      formatEndpoint(flight.arrival),
+      flight.duration || '',
+      formatStops(flight.stops),
+      formatPrice(flight.price?.amount, flight.price?.currency),
+    ],
+    link: isSafeLink(flight.bookingLink) ? flight.bookingLink : undefined,
+  })),
+});
+
+/**
+ * Result tables for a message: one per flight list (one per leg for
+ * multi-city trips) and one for hotels.
+ */
+const resultTables = (message: ExportedMessage): ResultTable[] => {
+  const tables: ResultTable[] = [];
+  const { flightData, hotelData } = message;
+
+  if (Array.isArray(flightData?.legs)) {
+    for (const leg of flightData.legs) {
+      if (Array.isArray(leg.flights) && leg.flights.length > 0) {
+        tables.push(flightTable(leg.flights, `Leg ${leg.leg}: ${leg.departureId} → ${leg.arrivalId}${leg.date ? ` on ${leg.date}` : ''}`));
+      }
+    }
+  } else if (Array.isArray(flightData?.flights) && flightData.flights.length > 0) {
+    const params = flightData.searchParams || {};
+    const heading = params.departureId && params.arrivalId
+      ? `Flights ${params.departureId} → ${params.arrivalId}${params.outboundDate ? ` on ${params.outboundDate}` : ''}${params.returnDate ? `, returning ${params.returnDate}` : ''}`
+      : 'Flights';
+    tables.push(flightTable(flightData.flights, heading));
+  }
+
+  if (Array.isArray(hotelData?.hotels) && hotelData.hotels.length > 0) {
+    tables.push({
+      heading: hotelData.searchParams?.location ? `Hotels in ${hotelData.searchParams.location}` : 'Hotels',
+      columns: ['Hotel', 'Class', 'Rating', 'Per night', 'Total'],
+      rows: hotelData.hotels.map((hotel: any) => ({
+        cells: [
+          hotel.name || 'Unknown',
+          hotel.hotelClass ? `${hotel.hotelClass}-star` : '',
+          hotel.rating ? `${hotel.rating}${hotel.reviews ? ` (${hotel.reviews} reviews)` : ''}` : '',
+          formatPrice(hotel.price?.perNight, hotel.price?.currency),
+          hotel.price?.total ? formatPrice(hotel.price.total, hotel.price.currency) : '',
+        ],
+        link: isSafeLink(hotel.bookingLink) ? hotel.bookingLink : undefined,
+      })),
+    });
+  }
+
+  return tables;
+};
+
+const speaker = (message: ExportedMessage): string => message.isUserMessage ? 'You' : 'Assistant';
+
+const escapeMarkdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const markdownTable = (table: ResultTable): string => {
+  const columns = [...table.columns, 'Book'];
+  const lines = [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${[...row.cells.map(escapeMarkdownCell), row.link ? `[Book](${row.link.replace(/[()\s]/g, encodeURIComponent)})` : ''].join(' | ')} |`),
+  ];
+  return `${table.heading ? `**${table.heading}**\n\n` : ''}${lines.join('\n')}`;
+};
+
+export const renderMarkdown = (data: ChatExport, messages: ExportedMessage[]): string => {
+  const sections = messages.map(message => {
+    const tables = resultTables(message).map(markdownTable);
+    return [`### ${speaker(message)} · ${message.createdAt}`, message.message, ...tables].join('\n\n');
+  });
+
+  return [
+    `# ${data.session.title}`,
+    `_Exported ${data.exportedAt} · ${messages.length} messages_`,
+    ...sections,
+  ].join('\n\n') + '\n';
+};
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const htmlTable = (table: ResultTable): string => {
+  const header = [...table.columns, 'Book'].map(column => `<th>${escapeHtml(column)}</th>`).join('');
+  const rows = table.rows.map(row => {
+    const cells = row.cells.map(cell => `<td>${escapeHtml(cell)}</td>`).join('');
+    const link = row.link ? `<a href="${escapeHtml(row.link)}" target="_blank" rel="noopener noreferrer">Book</a>` : '';
+    return `<tr>${cells}<td>${link}</td></tr>`;
+  }).join('\n');
+
+  return `${table.heading ? `<h4>${escapeHtml(table.heading)}</h4>\n` : ''}<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+};
+
+/**
+ * A self-contained page (inline styles, no scripts) that prints cleanly.
+ */
+export const renderHtml = (data: ChatExport, messages: ExportedMessage[]): string => {
+  const body = messages.map(message => {
+    const text = escapeHtml(message.message).replace(/\n/g, '<br>');
+    const tables = resultTables(message).map(htmlTable).join('\n');
+    return `<section class="message ${message.isUserMessage ? 'user' : 'assistant'}">
+<div class="meta">${speaker(message)} · ${escapeHtml(message.createdAt)}</div>
+<div class="text">${text}</div>
+${tables}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.session.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 900px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 8px; }
+.user { background: #eef4ff; }
+.assistant { background: #f6f6f6; }
+.meta { font-size: 0.8rem; color: #666; margin-bottom: 0.5rem; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0; font-size: 0.9rem; }
+th, td { border: 1px solid #ddd; padding: 0.35rem 0.5rem; text-align: left; }
+th { background: #fafafa; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.session.title)}</h1>
+<p class="meta">Exported ${escapeHtml(data.exportedAt)} · ${messages.length} messages</p>
+${body}
+</body>
+</html>
+`;
+};
+
+export const exportFileName = (title: string, format: ChatExportFormat): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'chat';
+  return `${slug}.${format}`;
+};
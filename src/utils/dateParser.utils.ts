@@ -0,0 +1,485 @@
+import config from '../config/index.js';
+
+export type DateOrder = 'DMY' | 'MDY';
+
+export interface DateParseOptions {
+  locale?: string;
+  timezone?: string;
+  dateOrder?: DateOrder;
+  now?: Date;
+}
+
+export interface ParsedTravelDates {
+  dates: string[];
+  outboundDate?: string;
+  returnDate?: string;
+  durationDays?: number;
+  pastDates: string[];
+}
+
+interface DateContext {
+  today: string;
+  order: DateOrder;
+}
+
+interface DateMatch {
+  start: number;
+  end: number;
+  dates: string[];
+  durationDays?: number;
+  isReturn?: boolean;
+}
+
+type DateMatcher = (text: string, ctx: DateContext) => DateMatch[];
+
+const MONTH_NUMBERS: { [key: string]: number } = {
+  'january': 1, 'jan': 1, 'february': 2, 'feb': 2, 'march': 3, 'mar': 3,
+  'april': 4, 'apr': 4, 'may': 5, 'june': 6, 'jun': 6, 'july': 7, 'jul': 7,
+  'august': 8, 'aug': 8, 'september': 9, 'sep': 9, 'sept': 9,
+  'october': 10, 'oct': 10, 'november': 11, 'nov': 11, 'december': 12, 'dec': 12
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: { [key: string]: number } = {
+  'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6,
+  'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10, 'eleven': 11, 'twelve': 12, 'fourteen': 14
+};
+
+// Regions that write numeric dates month first (04/05 is April 5th).
+const MONTH_FIRST_REGIONS = new Set(['US', 'PH', 'PR', 'GU', 'AS', 'VI', 'MP', 'UM', 'FM', 'MH', 'PW', 'BZ']);
+
+// Month-name dates without a year that fell this recently are treated as a
+// mistake to clarify rather than rolled over to next year.
+const PAST_GRACE_DAYS = 90;
+
+const MONTH = '(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec)';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const ORDINAL_DAY = '(\\d{1,2})(?:st|nd|rd|th)';
+const RANGE_SEPARATOR = '\\s*(?:-|–|to|until|till|through|and)\\s*';
+const COUNT = '(\\d{1,3}|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fourteen)';
+const RETURN_CUE = /\b(?:return(?:ing)?|back|come back|coming back|fly back|flying back|check(?:ing)?[-\s]?out|until|till)\s*(?:date\s*)?(?:is\s+)?(?::\s*)?(?:on\s+|by\s+)?(?:the\s+)?$/;
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const formatDate = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+const parseCount = (value: string): number => NUMBER_WORDS[value] ?? parseInt(value, 10);
+
+const dayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const daysBetween = (startDate: string, endDate: string): number =>
+  Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86400000);
+
+export const addDays = (dateStr: string, days: number): string => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const addMonths = (dateStr: string, months: number): string => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return formatDate(target.getUTCFullYear(), target.getUTCMonth() + 1, Math.min(day, lastDay));
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Today's calendar date (YYYY-MM-DD) in the given IANA timezone, so "tomorrow"
+ * means the user's tomorrow rather than the server's.
+ */
+export const todayIn = (timezone?: string, now: Date = new Date()): string => {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : config.dates.defaultTimezone;
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: zone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+  } catch {
+    return now.toISOString().split('T')[0];
+  }
+};
+
+/**
+ * Day-first or month-first for ambiguous numeric dates: an explicit preference
+ * wins, then the locale's region, then the configured default.
+ */
+export const resolveDateOrder = (options: DateParseOptions = {}): DateOrder => {
+  if (options.dateOrder) {
+    return options.dateOrder;
+  }
+
+  if (options.locale) {
+    try {
+      const locale = new Intl.Locale(options.locale).maximize();
+      if (locale.region) {
+        return MONTH_FIRST_REGIONS.has(locale.region) ? 'MDY' : 'DMY';
+      }
+    } catch {
+      // Malformed locale tags fall through to the default.
+    }
+  }
+
+  return config.dates.defaultDateOrder === 'MDY' ? 'MDY' : 'DMY';
+};
+
+const createContext = (options: DateParseOptions): DateContext => ({
+  today: todayIn(options.timezone, options.now),
+  order: resolveDateOrder(options),
+});
+
+// A month/day with no year: this year if it's still ahead or only just passed
+// (so it can be flagged), otherwise next year.
+const resolveYearless = (ctx: DateContext, month: number, day: number): string | undefined => {
+  const year = parseInt(ctx.today.slice(0, 4), 10);
+  if (isValidDate(year, month, day)) {
+    const candidate = formatDate(year, month, day);
+    if (candidate >= ctx.today || daysBetween(candidate, ctx.today) <= PAST_GRACE_DAYS) {
+      return candidate;
+    }
+  }
+  return isValidDate(year + 1, month, day) ? formatDate(year + 1, month, day) : undefined;
+};
+
+const resolveWithYear = (year: number, month: number, day: number): string | undefined => {
+  const fullYear = year < 100 ? year + 2000 : year;
+  return isValidDate(fullYear, month, day) ? formatDate(fullYear, month, day) : undefined;
+};
+
+const resolveMonthDay = (ctx: DateContext, month: number, day: number, year?: string): string | undefined =>
+  year ? resolveWithYear(parseInt(year, 10), month, day) : resolveYearless(ctx, month, day);
+
+// A bare day of the month ("the 20th"): this month if still ahead, otherwise next month.
+const resolveDayOfMonth = (ctx: DateContext, day: number): string | undefined => {
+  const [year, month] = ctx.today.split('-').map(Number);
+  for (let offset = 0; offset < 3; offset++) {
+    const target = new Date(Date.UTC(year, month - 1 + offset, 1));
+    const targetYear = target.getUTCFullYear();
+    const targetMonth = target.getUTCMonth() + 1;
+    if (isValidDate(targetYear, targetMonth, day)) {
+      const candidate = formatDate(targetYear, targetMonth, day);
+      if (candidate >= ctx.today) return candidate;
+    }
+  }
+  return undefined;
+};
+
+const orderParts = (ctx: DateContext, first: number, second: number): { day: number; month: number } => {
+  if (first > 12) return { day: first, month: second };
+  if (second > 12) return { day: second, month: first };
+  return ctx.order === 'MDY' ? { day: second, month: first } : { day: first, month: second };
+};
+
+const matchAll = (text: string, pattern: RegExp, build: (match: RegExpExecArray) => Omit<DateMatch, 'start' | 'end'> | undefined): DateMatch[] => {
+  const matches: DateMatch[] = [];
+  for (const match of text.matchAll(new RegExp(pattern.source, 'g'))) {
+    const built = build(match as RegExpExecArray);
+    if (built) {
+      matches.push({ ...built, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return matches;
+};
+
+const compact = (dates: (string | undefined)[]): string[] => dates.filter((date): date is string => !!date);
+
+const nextWeekday = (ctx: DateContext, weekday: number, modifier?: string): string => {
+  const todayWeekday = dayOfWeek(ctx.today);
+  const ahead = (weekday - todayWeekday + 7) % 7;
+
+  if (modifier === 'last') {
+    return addDays(ctx.today, -(((todayWeekday - weekday + 7) % 7) || 7));
+  }
+  if (modifier === 'this') {
+    // "this Friday" on a Saturday can only mean the coming one.
+    return addDays(ctx.today, ahead);
+  }
+  if (modifier === 'next') {
+    // The given day in next (Monday-based) week.
+    const daysToNextMonday = ((8 - todayWeekday) % 7) || 7;
+    return addDays(addDays(ctx.today, daysToNextMonday), (weekday + 6) % 7);
+  }
+  return addDays(ctx.today, ahead || 7);
+};
+
+const saturdayOfWeekend = (date: string): string => {
+  const weekday = dayOfWeek(date);
+  if (weekday === 0) return addDays(date, -1);
+  return addDays(date, (6 - weekday + 7) % 7);
+};
+
+const DATE_MATCHERS: DateMatcher[] = [
+  // 2026-03-15, 2026/03/15
+  (text) => matchAll(text, /\b(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})\b/, (m) =>
+    ({ dates: compact([resolveWithYear(+m[1], +m[2], +m[3])]) })),
+
+  // 15/03/2026, 03-15-26
+  (text, ctx) => matchAll(text, /\b(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{4}|\d{2})\b/, (m) => {
+    const { day, month } = orderParts(ctx, +m[1], +m[2]);
+    return { dates: compact([resolveWithYear(+m[3], month, day)]) };
+  }),
+
+  // 15/03, 15-03 (but not "1-2 stops" or "3-4 nights")
+  (text, ctx) => matchAll(text, /\b(\d{1,2})[-\/](\d{1,2})\b(?![-\/.]?\d)(?!\s*(?:stops?|adults?|people|persons|passengers?|travell?ers|guests?|kids?|children|infants?|nights?|days?|weeks?|hours?|hrs?|am|pm|h)\b)/, (m) => {
+    const { day, month } = orderParts(ctx, +m[1], +m[2]);
+    return { dates: compact([resolveYearless(ctx, month, day)]) };
+  }),
+
+  // March 15, March 15th 2026, March 5-10, March 5 to April 2
+  (text, ctx) => matchAll(text, new RegExp(`\\b${MONTH}\\s+${DAY}\\b(?:${RANGE_SEPARATOR}(?:${MONTH}\\s+)?${DAY}\\b)?(?:,?\\s+(\\d{4})\\b)?`), (m) => {
+    const month = MONTH_NUMBERS[m[1]];
+    const start = resolveMonthDay(ctx, month, +m[2], m[5]);
+    if (!m[4]) return { dates: compact([start]) };
+    const endMonth = m[3] ? MONTH_NUMBERS[m[3]] : month;
+    return { dates: compact([start, resolveMonthDay(ctx, endMonth, +m[4], m[5])]) };
+  }),
+
+  // 15 March, 15th of March 2026, 5-10 March, 5th to the 10th of March
+  (text, ctx) => matchAll(text, new RegExp(`\\b(?:the\\s+)?${DAY}(?:${RANGE_SEPARATOR}(?:the\\s+)?${DAY})?\\s+(?:of\\s+)?${MONTH}\\b(?:,?\\s+(\\d{4})\\b)?`), (m) => {
+    const month = MONTH_NUMBERS[m[3]];
+    return { dates: compact([resolveMonthDay(ctx, month, +m[1], m[4]), m[2] ? resolveMonthDay(ctx, month, +m[2], m[4]) : undefined]) };
+  }),
+
+  // the 20th
+  (text, ctx) => matchAll(text, new RegExp(`\\bthe\\s+${ORDINAL_DAY}\\b`), (m) =>
+    ({ dates: compact([resolveDayOfMonth(ctx, +m[1])]) })),
+
+  // weekend of the 20th, weekend of March 20th
+  (text, ctx) => matchAll(text, new RegExp(`\\b(?:the\\s+)?weekend\\s+of\\s+(?:the\\s+)?(?:${MONTH}\\s+${DAY}|${DAY}(?:\\s+(?:of\\s+)?${MONTH})?)\\b`), (m) => {
+    const date = m[1]
+      ? resolveYearless(ctx, MONTH_NUMBERS[m[1]], +m[2])
+      : m[4] ? resolveYearless(ctx, MONTH_NUMBERS[m[4]], +m[3]) : resolveDayOfMonth(ctx, +m[3]);
+    return { dates: compact([date && saturdayOfWeekend(date)]) };
+  }),
+
+  // this weekend, next weekend
+  (text, ctx) => matchAll(text, /\b(?:(this|next|coming)\s+)?weekend\b/, (m) => {
+    const saturday = dayOfWeek(ctx.today) === 0 ? ctx.today : addDays(ctx.today, (6 - dayOfWeek(ctx.today) + 7) % 7);
+    return { dates: [m[1] === 'next' ? addDays(saturday, 7) : saturday] };
+  }),
+
+  // today, tomorrow, the day after tomorrow, yesterday
+  (text, ctx) => matchAll(text, /\b(?:today|tonight|tomorrow|day after tomorrow|yesterday)\b/, (m) => {
+    const offsets: { [key: string]: number } = { 'today': 0, 'tonight': 0, 'tomorrow': 1, 'day after tomorrow': 2, 'yesterday': -1 };
+    return { dates: [addDays(ctx.today, offsets[m[0]])] };
+  }),
+
+  // Friday, this Friday, next Friday, last Friday, Friday after next
+  (text, ctx) => matchAll(text, new RegExp(`\\b(?:(this|next|coming|last)\\s+)?(${WEEKDAYS.join('|')})\\b(\\s+after\\s+next)?`), (m) => {
+    const date = nextWeekday(ctx, WEEKDAYS.indexOf(m[2]), m[1] === 'coming' ? undefined : m[1]);
+    return { dates: [m[3] ? addDays(date, 7) : date] };
+  }),
+
+  // in 2 weeks, in a month, 3 days from now
+  (text, ctx) => matchAll(text, new RegExp(`\\b(?:in\\s+${COUNT}\\s+(days?|weeks?|months?)|${COUNT}\\s+(days?|weeks?|months?)\\s+from\\s+(?:now|today))\\b`), (m) => {
+    const count = parseCount(m[1] || m[3]);
+    const unit = m[2] || m[4];
+    if (unit.startsWith('month')) return { dates: [addMonths(ctx.today, count)] };
+    return { dates: [addDays(ctx.today, count * (unit.startsWith('week') ? 7 : 1))] };
+  }),
+
+  // next week, next month
+  (text, ctx) => matchAll(text, /\bnext\s+(week|month)\b/, (m) => {
+    if (m[1] === 'month') {
+      return { dates: [addMonths(ctx.today.slice(0, 8) + '01', 1)] };
+    }
+    return { dates: [addDays(ctx.today, ((8 - dayOfWeek(ctx.today)) % 7) || 7)] };
+  }),
+
+  // for 5 days, for a week, 3 nights, a 10-day trip
+  (text) => matchAll(text, new RegExp(`\\b(?:for\\s+${COUNT}\\s+(days?|weeks?|nights?)|${COUNT}\\s+(nights?)|${COUNT}[-\\s](day|week|night)\\s+(?:trip|stay|holiday|vacation))\\b`), (m) => {
+    const count = parseCount(m[1] || m[3] || m[5]);
+    const unit = m[2] || m[4] || m[6];
+    return { dates: [], durationDays: count * (unit.startsWith('week') ? 7 : 1) };
+  }),
+];
+
+const findDateMatches = (text: string, ctx: DateContext): DateMatch[] => {
+  const candidates = DATE_MATCHERS
+    .flatMap(matcher => matcher(text, ctx))
+    .sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  // Earliest, then longest match wins, so "2026-12-25" is never re-read as "25-12".
+  const matches: DateMatch[] = [];
+  let lastEnd = -1;
+  for (const candidate of candidates) {
+    if (candidate.start < lastEnd) continue;
+    candidate.isReturn = RETURN_CUE.test(text.slice(Math.max(0, candidate.start - 30), candidate.start));
+    matches.push(candidate);
+    lastEnd = candidate.end;
+  }
+
+  return matches;
+};
+
+/**
+ * Reads the travel dates out of a message: the outbound date, a return date
+ * (given directly, after "returning"/"back on", or as a stay length such as
+ * "for 5 days" or "3 nights") and any dates that have already passed, which
+ * callers should ask about instead of searching.
+ */
+export const parseTravelDates = (userInput: string, options: DateParseOptions = {}): ParsedTravelDates => {
+  const ctx = createContext(options);
+  const matches = findDateMatches(userInput.toLowerCase(), ctx);
+
+  const result: ParsedTravelDates = { dates: [], pastDates: [] };
+  let returnDate: string | undefined;
+
+  for (const match of matches) {
+    if (match.durationDays !== undefined) {
+      result.durationDays = result.durationDays ?? match.durationDays;
+      continue;
+    }
+
+    for (const [index, date] of match.dates.entries()) {
+      if (date < ctx.today) {
+        result.pastDates.push(date);
+        continue;
+      }
+      result.dates.push(date);
+      if (match.isReturn && index === 0 && !returnDate) {
+        returnDate = date;
+      }
+    }
+  }
+
+  result.outboundDate = result.dates.find(date => date !== returnDate);
+  if (!returnDate && result.outboundDate) {
+    returnDate = result.dates.find(date => date > result.outboundDate!);
+  }
+  if (!returnDate && result.outboundDate && result.durationDays) {
+    returnDate = addDays(result.outboundDate, result.durationDays);
+  }
+  if (returnDate && (!result.outboundDate || returnDate > result.outboundDate)) {
+    result.returnDate = returnDate;
+  }
+
+  if (matches.length > 0) {
+    console.log("Parsed travel dates:", result);
+  }
+
+  return result;
+};
+
+/**
+ * All upcoming dates mentioned in the text, in the order they appear.
+ */
+export const extractDates = (userInput: string, options: DateParseOptions = {}): string[] =>
+  parseTravelDates(userInput, options).dates;
+
+/**
+ * Normalizes a single numeric date ("15/03", "03-15-2026", "2026-03-15") to
+ * YYYY-MM-DD, resolving day/month order from the options.
+ */
+export const normalizeDate = (dateStr: string, options: DateParseOptions = {}): string => {
+  const ctx = createContext(options);
+  const [match] = findDateMatches(dateStr.trim().toLowerCase(), ctx);
+  return match?.dates[0] ?? dateStr;
+};
+
+/**
+ * Human-readable form of a YYYY-MM-DD date, e.g. "Fri, Mar 15, 2026".
+ */
+export const formatDisplayDate = (date: string, locale?: string): string => {
+  const options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' };
+  try {
+    return new Intl.DateTimeFormat(locale || 'en-US', options).format(new Date(`${date}T00:00:00Z`));
+  } catch {
+    return new Intl.DateTimeFormat('en-US', options).format(new Date(`${date}T00:00:00Z`));
+  }
+};
+
+/**
+ * Sentence naming dates that have already passed, for agents to ask about.
+ */
+export const describePastDates = (pastDates: string[], options: DateParseOptions = {}): string => {
+  const formatted = pastDates.map(date => formatDisplayDate(date, options.locale));
+  const subject = formatted.length > 1
+    ? `${formatted.slice(0, -1).join(', ')} and ${formatted[formatted.length - 1]}`
+    : formatted[0];
+  const today = formatDisplayDate(todayIn(options.timezone, options.now), options.locale);
+  return `${subject} ${formatted.length > 1 ? 'have' : 'has'} already passed (today is ${today})`;
+};
+
+export interface DateWindow {
+  startDate: string;
+  endDate: string;
+  tripLength?: number;
+}
+
+const FLEXIBLE_HINT = /\b(?:cheapest|best|lowest[-\s]fare)\s+(?:day|date|days|dates|time)s?\b|\b(?:sometime|some time|anytime|any time|any day|flexible|whole|entire|during|which day|what day)\b/i;
+
+const monthWindow = (year: number, month: number): DateWindow => {
+  const startDate = `${year}-${month.toString().padStart(2, '0')}-01`;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { startDate, endDate: `${year}-${month.toString().padStart(2, '0')}-${lastDay}` };
+};
+
+/**
+ * Detects a flexible travel window ("cheapest day next week", "sometime in
+ * December", "Dec 5 ± 2 days") rather than a single date. Windows are clipped
+ * to start no earlier than today and to at most `maxDays` days.
+ */
+export const extractDateWindow = (
+  userInput: string,
+  options: { maxDays?: number; defaultFlexDays?: number } & DateParseOptions = {}
+): DateWindow | undefined => {
+  const { maxDays = 31, defaultFlexDays = 3 } = options;
+  const lowerInput = userInput.toLowerCase();
+  const today = todayIn(options.timezone, options.now);
+  const isFlexible = FLEXIBLE_HINT.test(userInput);
+
+  let window: DateWindow | undefined;
+
+  const todayDate = new Date(`${today}T00:00:00Z`);
+  const monthMatch = lowerInput.match(/\b(?:in|during|throughout|for)\s+(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec)\b(?!\s*\d)/);
+  const plusMinusMatch = lowerInput.match(/(?:±|\+\/-|\+-|plus or minus|give or take|within)\s*(\d{1,2})\s*days?|(\d{1,2})\s*days?\s*(?:either side|each way|before or after)/);
+  const dates = extractDates(userInput, options);
+
+  if (isFlexible && lowerInput.includes('next week')) {
+    const daysUntilMonday = ((8 - todayDate.getUTCDay()) % 7) || 7;
+    const startDate = addDays(today, daysUntilMonday);
+    window = { startDate, endDate: addDays(startDate, 6) };
+  } else if (isFlexible && lowerInput.includes('this week')) {
+    const daysUntilSunday = (7 - todayDate.getUTCDay()) % 7;
+    window = { startDate: today, endDate: addDays(today, daysUntilSunday) };
+  } else if (isFlexible && lowerInput.includes('next month')) {
+    const nextMonth = new Date(Date.UTC(todayDate.getUTCFullYear(), todayDate.getUTCMonth() + 1, 1));
+    window = monthWindow(nextMonth.getUTCFullYear(), nextMonth.getUTCMonth() + 1);
+  } else if (monthMatch && dates.length === 0) {
+    const month = MONTH_NUMBERS[monthMatch[1]];
+    const currentMonth = todayDate.getUTCMonth() + 1;
+    const year = month < currentMonth ? todayDate.getUTCFullYear() + 1 : todayDate.getUTCFullYear();
+    window = monthWindow(year, month);
+  } else if (dates.length > 0 && (plusMinusMatch || isFlexible || /\baround\b/.test(lowerInput))) {
+    const flexDays = plusMinusMatch ? parseInt(plusMinusMatch[1] || plusMinusMatch[2]) : defaultFlexDays;
+    window = { startDate: addDays(dates[0], -flexDays), endDate: addDays(dates[0], flexDays) };
+    if (dates[1] && dates[1] > dates[0]) {
+      window.tripLength = daysBetween(dates[0], dates[1]);
+    }
+  }
+
+  if (!window) {
+    return undefined;
+  }
+
+  if (window.startDate < today) {
+    window.startDate = today;
+  }
+  if (daysBetween(window.startDate, window.endDate) >= maxDays) {
+    window.endDate = addDays(window.startDate, maxDays - 1);
+  }
+
+  return window.endDate >= window.startDate ? window : undefined;
+};
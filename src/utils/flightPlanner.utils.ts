@@ -1,12 +1,36 @@
 import axios from 'axios';
+import { DateParseOptions, DateWindow, addDays, extractDateWindow, extractDates, parseTravelDates } from './dateParser.utils.js';
+import { FlightCacheStatus, FlightSearchCache, getFlightSearchCache } from './flightSearchCache.utils.js';
+import { AirportResolver, PlaceMention, getAirportResolver } from './airportResolver.utils.js';
+import config from '../config/index.js';
 
-export interface FlightSearchParams {
+export interface FlightLeg {
   departureId: string;
   arrivalId: string;
-  outboundDate: string;
-  returnDate?: string;
+  date?: string;
+}
+
+export type TravelClass = 'economy' | 'premium_economy' | 'business' | 'first';
+
+export interface FlightSearchOptions {
   currency?: string;
   hl?: string;
+  adults?: number;
+  children?: number;
+  infants?: number;
+  travelClass?: TravelClass;
+  maxStops?: number;
+  airlines?: string[];
+  maxPrice?: number;
+}
+
+export interface FlightSearchParams extends FlightSearchOptions {
+  departureId: string;
+  arrivalId: string;
+  outboundDate: string;
+  returnDate?: string;
+  legs?: FlightLeg[];
+  flexibleDates?: DateWindow;
 }
 
 export interface FlightOption {
@@ -44,20 +68,165 @@ export interface FlightSearchResult {
     googleFlightsUrl?: string;
   };
   error?: string;
+  cache?: FlightCacheStatus;
+}
+
+const TRAVEL_CLASS_CODES: Record<TravelClass, number> = {
+  economy: 1,
+  premium_economy: 2,
+  business: 3,
+  first: 4,
+};
+
+const AIRLINE_PATTERNS: Array<{ pattern: RegExp; code: string; name: string }> = [
+  { pattern: /\bair india\b/i, code: 'AI', name: 'Air India' },
+  { pattern: /\bindigo\b/i, code: '6E', name: 'IndiGo' },
+  { pattern: /\bspicejet\b/i, code: 'SG', name: 'SpiceJet' },
+  { pattern: /\bvistara\b/i, code: 'UK', name: 'Vistara' },
+  { pattern: /\bair ?asia\b/i, code: 'AK', name: 'AirAsia' },
+  { pattern: /\bakasa\b/i, code: 'QP', name: 'Akasa Air' },
+  { pattern: /(?<!arab )\bemirates\b/i, code: 'EK', name: 'Emirates' },
+  { pattern: /\betihad\b/i, code: 'EY', name: 'Etihad' },
+  { pattern: /\bqatar airways\b/i, code: 'QR', name: 'Qatar Airways' },
+  { pattern: /\blufthansa\b/i, code: 'LH', name: 'Lufthansa' },
+  { pattern: /\bbritish airways\b/i, code: 'BA', name: 'British Airways' },
+  { pattern: /\bair france\b/i, code: 'AF', name: 'Air France' },
+  { pattern: /\bklm\b/i, code: 'KL', name: 'KLM' },
+  { pattern: /\bturkish airlines\b/i, code: 'TK', name: 'Turkish Airlines' },
+  { pattern: /\bvirgin atlantic\b/i, code: 'VS', name: 'Virgin Atlantic' },
+  { pattern: /\bsingapore airlines\b/i, code: 'SQ', name: 'Singapore Airlines' },
+  { pattern: /\bcathay pacific\b/i, code: 'CX', name: 'Cathay Pacific' },
+  { pattern: /\bjapan airlines\b/i, code: 'JL', name: 'Japan Airlines' },
+  { pattern: /\bqantas\b/i, code: 'QF', name: 'Qantas' },
+  { pattern: /\bunited airlines\b/i, code: 'UA', name: 'United' },
+  { pattern: /\bdelta\b/i, code: 'DL', name: 'Delta' },
+  { pattern: /\bamerican airlines\b/i, code: 'AA', name: 'American' },
+  { pattern: /\bair canada\b/i, code: 'AC', name: 'Air Canada' },
+  { pattern: /\bsouthwest\b/i, code: 'WN', name: 'Southwest' },
+  { pattern: /\bjetblue\b/i, code: 'B6', name: 'JetBlue' },
+  { pattern: /\bryanair\b/i, code: 'FR', name: 'Ryanair' },
+  { pattern: /\beasyjet\b/i, code: 'U2', name: 'easyJet' },
+  { pattern: /\bstar alliance\b/i, code: 'STAR_ALLIANCE', name: 'Star Alliance' },
+  { pattern: /\bone ?world\b/i, code: 'ONEWORLD', name: 'Oneworld' },
+  { pattern: /\bsky ?team\b/i, code: 'SKYTEAM', name: 'SkyTeam' },
+];
+
+export const getAirlineName = (code: string): string | undefined =>
+  AIRLINE_PATTERNS.find(airline => airline.code === code)?.name;
+
+const NUMBER_WORDS: { [key: string]: number } = {
+  'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5,
+  'six': 6, 'seven': 7, 'eight': 8, 'nine': 9,
+};
+
+const COUNT = '(\\d{1,2}|a|an|one|two|three|four|five|six|seven|eight|nine)';
+
+const parseCount = (value: string): number => NUMBER_WORDS[value.toLowerCase()] ?? parseInt(value);
+
+export interface FlightLegResult {
+  leg: number;
+  departureId: string;
+  arrivalId: string;
+  date: string;
+  success: boolean;
+  flights: FlightOption[];
+  totalResults: number;
+  googleFlightsUrl?: string;
+  error?: string;
+  cache?: FlightCacheStatus;
+}
+
+export interface MultiLegSearchResult {
+  success: boolean;
+  legs: FlightLegResult[];
+  error?: string;
 }
 
+export interface FareCalendarDay {
+  date: string;
+  returnDate?: string;
+  lowestPrice?: number;
+  currency: string;
+  airline?: string;
+  totalResults: number;
+  error?: string;
+  cache?: FlightCacheStatus;
+}
+
+export interface FareCalendarResult {
+  success: boolean;
+  days: FareCalendarDay[];
+  cheapestDates: string[];
+  bestDay?: {
+    date: string;
+    returnDate?: string;
+    flights: FlightOption[];
+    googleFlightsUrl?: string;
+  };
+  error?: string;
+}
+
+const MAX_LEGS = 6;
+
+// "stopping in Dubai", "with a layover at DXB": a connection, not a stop of
+// the trip.
+const LAYOVER_PREFIX = /\b(?:stopping|stop(?:ping)?\s+over|stopover|layover|connecting)\s+(?:in|at)\s*$/i;
+
+const isLayover = (text: string, place: PlaceMention): boolean =>
+  place.anchor === 'via' || LAYOVER_PREFIX.test(text.slice(0, place.start));
+
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+};
+
 export class FlightPlanner {
   private apiKey: string;
   private baseUrl: string = 'https://serpapi.com/search.json';
+  private cache: FlightSearchCache;
+  private airportResolver: AirportResolver;
 
-  constructor() {
+  constructor(cache: FlightSearchCache = getFlightSearchCache(), airportResolver: AirportResolver = getAirportResolver()) {
     this.apiKey = process.env.SERP_API_KEY || '';
     if (!this.apiKey) {
       throw new Error('SERP_API_KEY environment variable is required');
     }
+    this.cache = cache;
+    this.airportResolver = airportResolver;
   }
 
   async searchFlights(params: FlightSearchParams): Promise<FlightSearchResult> {
+    const cached = await this.cache.get(params);
+    if (cached?.data) {
+      console.log(`Flight cache hit (${this.cache.backendName}): ${params.departureId} → ${params.arrivalId} on ${params.outboundDate}`);
+      return {
+        ...cached,
+        data: { ...cached.data, searchParams: params },
+        cache: { backend: this.cache.backendName, hit: true }
+      };
+    }
+
+    const result = await this.fetchFlights(params);
+    await this.cache.set(params, result);
+
+    return { ...result, cache: { backend: this.cache.backendName, hit: false } };
+  }
+
+  private async fetchFlights(params: FlightSearchParams): Promise<FlightSearchResult> {
     try {
       console.log("=== FLIGHT SEARCH DEBUG ===");
       console.log("Input params:", JSON.stringify(params, null, 2));
@@ -65,12 +234,18 @@ export class FlightPlanner {
       
       const searchParams: any = {
         engine: 'google_flights',
-        departure_id: params.departureId,
-        arrival_id: params.arrivalId,
+        departure_id: this.airportResolver.toSearchId(params.departureId),
+        arrival_id: this.airportResolver.toSearchId(params.arrivalId),
         outbound_date: params.outboundDate,
         currency: params.currency || 'USD',
         hl: params.hl || 'en',
-        adults: 1,
+        adults: params.adults || 1,
+        children: params.children || undefined,
+        infants_on_lap: params.infants || undefined,
+        travel_class: params.travelClass ? TRAVEL_CLASS_CODES[params.travelClass] : undefined,
+        stops: params.maxStops !== undefined && params.maxStops <= 2 ? params.maxStops + 1 : undefined,
+        include_airlines: params.airlines && params.airlines.length > 0 ? params.airlines.join(',') : undefined,
+        max_price: params.maxPrice || undefined,
         api_key: this.apiKey,
       };
 
@@ -203,6 +378,111 @@ export class FlightPlanner {
     }
   }
 
+  async searchLegs(legs: FlightLeg[], options: FlightSearchOptions = {}): Promise<MultiLegSearchResult> {
+    if (legs.length > MAX_LEGS) {
+      return {
+        success: false,
+        legs: [],
+        error: `Multi-city searches support at most ${MAX_LEGS} legs`
+      };
+    }
+
+    const missingDate = legs.findIndex(leg => !leg.date);
+    if (missingDate !== -1) {
+      return {
+        success: false,
+        legs: [],
+        error: `Leg ${missingDate + 1} is missing a date`
+      };
+    }
+
+    const results = await Promise.all(legs.map(async (leg, index): Promise<FlightLegResult> => {
+      const result = await this.searchFlights({
+        ...options,
+        departureId: leg.departureId,
+        arrivalId: leg.arrivalId,
+        outboundDate: leg.date!,
+      });
+
+      return {
+        leg: index + 1,
+        departureId: leg.departureId,
+        arrivalId: leg.arrivalId,
+        date: leg.date!,
+        success: result.success,
+        flights: result.data?.flights || [],
+        totalResults: result.data?.flights.length || 0,
+        googleFlightsUrl: result.data?.googleFlightsUrl,
+        error: result.error,
+        cache: result.cache
+      };
+    }));
+
+    const failed = results.filter(result => !result.success);
+
+    return {
+      success: failed.length < results.length,
+      legs: results,
+      error: failed.length > 0
+        ? failed.map(result => `Leg ${result.leg} (${result.departureId} → ${result.arrivalId}): ${result.error}`).join('; ')
+        : undefined
+    };
+  }
+
+  async searchDateRange(
+    params: FlightSearchParams,
+    window: DateWindow,
+    concurrency: number = config.flexibleSearch.concurrency
+  ): Promise<FareCalendarResult> {
+    const dates: string[] = [];
+    for (let date = window.startDate; date <= window.endDate; date = addDays(date, 1)) {
+      dates.push(date);
+    }
+
+    const { flexibleDates, legs, ...baseParams } = params;
+
+    const results = await mapWithConcurrency(dates, concurrency, async (date) => {
+      const returnDate = window.tripLength !== undefined ? addDays(date, window.tripLength) : undefined;
+      const result = await this.searchFlights({ ...baseParams, outboundDate: date, returnDate });
+      const flights = result.data?.flights || [];
+      const cheapest = flights
+        .filter(flight => flight.price.amount > 0)
+        .reduce<FlightOption | undefined>((best, flight) => (!best || flight.price.amount < best.price.amount ? flight : best), undefined);
+
+      const day: FareCalendarDay = {
+        date,
+        returnDate,
+        lowestPrice: cheapest?.price.amount,
+        currency: cheapest?.price.currency || params.currency || 'USD',
+        airline: cheapest?.airline,
+        totalResults: flights.length,
+        error: result.error,
+        cache: result.cache
+      };
+
+      return { day, flights, googleFlightsUrl: result.data?.googleFlightsUrl };
+    });
+
+    const priced = results
+      .filter(result => result.day.lowestPrice !== undefined)
+      .sort((a, b) => a.day.lowestPrice! - b.day.lowestPrice!);
+    const best = priced[0];
+    const failed = results.filter(result => result.day.error);
+
+    return {
+      success: failed.length < results.length,
+      days: results.map(result => result.day),
+      cheapestDates: priced.slice(0, 3).map(result => result.day.date),
+      bestDay: best ? {
+        date: best.day.date,
+        returnDate: best.day.returnDate,
+        flights: best.flights,
+        googleFlightsUrl: best.googleFlightsUrl
+      } : undefined,
+      error: failed.length > 0 ? failed.map(result => `${result.day.date}: ${result.day.error}`).join('; ') : undefined
+    };
+  }
+
   private parseFlightData(apiResponse: any): FlightOption[] {
     try {
       const flights: FlightOption[] = [];
@@ -532,101 +812,29 @@ export class FlightPlanner {
   }
 
 
-  extractFlightParams(userInput: string): Partial<FlightSearchParams> | null {
+  extractFlightParams(userInput: string, dateOptions: DateParseOptions = {}): Partial<FlightSearchParams> | null {
     const params: Partial<FlightSearchParams> = {};
-    const lowerInput = userInput.toLowerCase();
     
     console.log("Extracting flight parameters from:", userInput);
     
-    const returnDatePatterns = [
-      /return(?:ing)?\s*(?:date|on)?[:\s]+(?:is\s+)?(\d{1,2}[-\/]\d{1,2}(?:[-\/]\d{2,4})?)/i,
-      /return(?:ing)?\s*(?:date)?[:\s]+(?:on\s+)?(\d{1,2}[-\/]\d{1,2}(?:[-\/]\d{2,4})?)/i,
-      /come\s*back\s*(?:on)?[:\s]*(?:is\s+)?(\d{1,2}[-\/]\d{1,2}(?:[-\/]\d{2,4})?)/i,
-      /returning\s*(?:on)?[:\s]*(?:is\s+)?(\d{1,2}[-\/]\d{1,2}(?:[-\/]\d{2,4})?)/i,
-      /(?:back|return)\s+(?:on\s+)?(\d{1,2}[-\/]\d{1,2}(?:[-\/]\d{2,4})?)/i,
-    ];
-    
-    let returnDateMatch: string | null = null;
-    for (const pattern of returnDatePatterns) {
-      const match = userInput.match(pattern);
-      if (match && match[1]) {
-        returnDateMatch = match[1];
-        console.log("Found return date keyword match:", returnDateMatch);
-        break;
-      }
+    const { outboundDate, returnDate } = parseTravelDates(userInput, dateOptions);
+    if (outboundDate) {
+      params.outboundDate = outboundDate;
     }
-    
-    const datePatterns = [
-      /(\d{4}-\d{2}-\d{2})/g,
-      /(\d{1,2}\/\d{1,2}\/\d{4})/g,
-      /(\d{1,2}-\d{1,2}-\d{4})/g,
-      /(\d{1,2}-\d{1,2})/g,
-    ];
-    
-    let dates: string[] = [];
-    
-    const today = new Date();
-    const naturalDates = [
-      { patterns: ['tomorrow'], offset: 1 },
-      { patterns: ['day after tomorrow', 'day after'], offset: 2 },
-      { patterns: ['next week'], offset: 7 },
-      { patterns: ['next month'], offset: 30 },
-    ];
-    
-    let foundNaturalDate = false;
-    for (const nat of naturalDates) {
-      if (nat.patterns.some(p => lowerInput.includes(p))) {
-        const futureDate = new Date(today);
-        futureDate.setDate(today.getDate() + nat.offset);
-        dates.push(futureDate.toISOString().split('T')[0]);
-        foundNaturalDate = true;
-        console.log("Found natural date:", dates[0]);
-        break;
-      }
-    }
-    
-    if (!foundNaturalDate) {
-      const monthNameDates = this.extractMonthNameDates(userInput);
-      if (monthNameDates.length > 0) {
-        dates = monthNameDates;
-        foundNaturalDate = true;
-        console.log("Found month name dates:", dates);
-      }
-    }
-    
-    if (!foundNaturalDate) {
-      datePatterns.forEach(pattern => {
-        const matches = userInput.match(pattern);
-        if (matches) {
-          dates = dates.concat(matches);
-        }
-      });
-    }
-    
-    if (dates.length > 0) {
-      params.outboundDate = this.normalizeDate(dates[0]);
-      console.log("Outbound date:", params.outboundDate);
+    if (returnDate) {
+      params.returnDate = returnDate;
     }
-    
-    if (returnDateMatch) {
-      params.returnDate = this.normalizeDate(returnDateMatch);
-      console.log("Return date (from keyword):", params.returnDate);
-    } else if (dates.length > 1 && dates[1]) {
-      params.returnDate = this.normalizeDate(dates[1]);
-      console.log("Return date (from multiple dates):", params.returnDate);
-    }
-
-    const airportPattern = /\b([A-Z]{3})\b/g;
-    const airports = userInput.match(airportPattern);
-    if (airports && airports.length >= 2) {
-      params.departureId = airports[0];
-      params.arrivalId = airports[1];
-    } else {
-      const cityAirports = this.extractCityAirports(userInput);
-      if (cityAirports.departure && cityAirports.arrival) {
-        params.departureId = cityAirports.departure;
-        params.arrivalId = cityAirports.arrival;
-      }
+
+    const places = this.airportResolver.findInText(userInput)
+      .filter((place, index, all) => all.findIndex(other => other.code === place.code) === index);
+    const departure = places.find(place => place.anchor === 'from') ||
+      places.find(place => place.anchor !== 'to' && !isLayover(userInput, place));
+    const arrival = places.find(place => place !== departure && place.anchor === 'to') ||
+      places.find(place => place !== departure && !isLayover(userInput, place));
+    if (departure && arrival) {
+      params.departureId = departure.code;
+      params.arrivalId = arrival.code;
+      console.log(`Route: ${departure.text} (${departure.code}) → ${arrival.text} (${arrival.code})`);
     }
 
     const currencyMatch = userInput.match(/\b(USD|EUR|GBP|CAD|AUD|JPY|CHF)\b/i);
@@ -634,11 +842,25 @@ export class FlightPlanner {
       params.currency = currencyMatch[0].toUpperCase();
     }
 
-    const languageMatch = userInput.match(/\b(en|es|fr|de|it|pt|ru|zh|ja|ko)\b/i);
+    const languageMatch = userInput.match(/\b(?:language|lang|hl)\s*[:=]?\s*(en|es|fr|de|it|pt|ru|zh|ja|ko)\b/i);
     if (languageMatch) {
-      params.hl = languageMatch[0].toLowerCase();
+      params.hl = languageMatch[1].toLowerCase();
+    }
+
+    const dateWindow = extractDateWindow(userInput, {
+      ...dateOptions,
+      maxDays: config.flexibleSearch.maxDays,
+      defaultFlexDays: config.flexibleSearch.defaultFlexDays,
+    });
+    if (dateWindow) {
+      params.flexibleDates = dateWindow;
+      delete params.outboundDate;
+      delete params.returnDate;
+      console.log("Flexible date window:", dateWindow);
     }
 
+    Object.assign(params, this.extractSearchOptions(userInput));
+
     console.log("Extracted parameters:", params);
 
     if (Object.keys(params).length > 0) {
@@ -648,193 +870,122 @@ export class FlightPlanner {
     return null;
   }
 
-  private extractMonthNameDates(userInput: string): string[] {
-    const dates: string[] = [];
-    const today = new Date();
-    const currentYear = today.getFullYear();
-    
-    const monthMap: { [key: string]: number } = {
-      'january': 1, 'jan': 1,
-      'february': 2, 'feb': 2,
-      'march': 3, 'mar': 3,
-      'april': 4, 'apr': 4,
-      'may': 5,
-      'june': 6, 'jun': 6,
-      'july': 7, 'jul': 7,
-      'august': 8, 'aug': 8,
-      'september': 9, 'sep': 9, 'sept': 9,
-      'october': 10, 'oct': 10,
-      'november': 11, 'nov': 11,
-      'december': 12, 'dec': 12
-    };
-    
-    const monthNamePattern = /\b(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sep|sept|october|oct|november|nov|december|dec)\s+(\d{1,2})(?:st|nd|rd|th)?\b/gi;
-    
-    let match;
-    while ((match = monthNamePattern.exec(userInput)) !== null) {
-      const monthName = match[1].toLowerCase();
-      const day = parseInt(match[2]);
-      const month = monthMap[monthName];
-      
-      if (month && day >= 1 && day <= 31) {
-        const testDate = new Date(currentYear, month - 1, day);
-        const year = testDate < today ? currentYear + 1 : currentYear;
-        
-        const formattedDate = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-        dates.push(formattedDate);
-        console.log(`Extracted month name date: ${match[0]} -> ${formattedDate}`);
-      }
+  extractSearchOptions(userInput: string): FlightSearchOptions {
+    const options: FlightSearchOptions = {};
+
+    const adultsMatch = userInput.match(new RegExp(`\\b${COUNT}\\s+(?:adults?|passengers?|people|persons|travell?ers|pax)\\b`, 'i'));
+    if (adultsMatch) {
+      options.adults = parseCount(adultsMatch[1]);
     }
-    
-    return dates;
-  }
 
-  private normalizeDate(dateStr: string): string {
-    console.log("Normalizing date:", dateStr);
-    
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      return dateStr;
+    const childrenMatch = userInput.match(new RegExp(`\\b${COUNT}\\s+(?:children|child|kids?)\\b`, 'i'));
+    if (childrenMatch) {
+      options.children = parseCount(childrenMatch[1]);
     }
-    
-    const parts = dateStr.split(/[\/\-]/);
-    const today = new Date();
-    const currentYear = today.getFullYear();
-    
-    if (parts.length === 2) {
-      const [first, second] = parts.map(p => parseInt(p));
-      
-      let day: number, month: number;
-      if (first > 12) {
-        day = first;
-        month = second;
-      } else if (second > 12) {
-        month = first;
-        day = second;
-      } else {
-        day = first;
-        month = second;
-      }
-      
-      const testDate = new Date(currentYear, month - 1, day);
-      const year = testDate < today ? currentYear + 1 : currentYear;
-      
-      const normalized = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-      console.log("Normalized short date to:", normalized);
-      return normalized;
+
+    const infantsMatch = userInput.match(new RegExp(`\\b${COUNT}\\s+(?:infants?|babies|baby|toddlers?)\\b`, 'i'));
+    if (infantsMatch) {
+      options.infants = parseCount(infantsMatch[1]);
     }
-    
-    if (parts.length === 3) {
-      let [first, second, year] = parts;
-      const firstNum = parseInt(first);
-      const secondNum = parseInt(second);
-      let yearNum = parseInt(year);
-      
-      if (yearNum < 100) {
-        yearNum += 2000;
-      }
-      
-      let day: number, month: number;
-      if (firstNum > 12) {
-        day = firstNum;
-        month = secondNum;
-      } else if (secondNum > 12) {
-        month = firstNum;
-        day = secondNum;
-      } else {
-        day = firstNum;
-        month = secondNum;
+
+    if (/\bpremium\s+economy\b/i.test(userInput)) {
+      options.travelClass = 'premium_economy';
+    } else if (/\b(?:business\s+(?:class|cabin)|(?:fly(?:ing)?|in)\s+business)\b/i.test(userInput)) {
+      options.travelClass = 'business';
+    } else if (/\b(?:first\s+(?:class|cabin)|(?:fly(?:ing)?|in)\s+first)\b/i.test(userInput)) {
+      options.travelClass = 'first';
+    } else if (/\b(?:economy|coach)\b/i.test(userInput)) {
+      options.travelClass = 'economy';
+    }
+
+    const stopsMatch = userInput.match(/\b(?:at\s+most|max(?:imum)?|up\s+to|no\s+more\s+than)?\s*(\d|one|two)\s+stops?\b/i);
+    if (/\b(?:non[-\s]?stop|direct)\b/i.test(userInput)) {
+      options.maxStops = 0;
+    } else if (stopsMatch) {
+      options.maxStops = parseCount(stopsMatch[1]);
+    }
+
+    const airlines = AIRLINE_PATTERNS
+      .filter(({ pattern }) => pattern.test(userInput))
+      .map(({ code }) => code);
+    if (airlines.length > 0) {
+      options.airlines = [...new Set(airlines)];
+    }
+
+    const priceMatch = userInput.match(
+      /\b(?:under|below|less\s+than|cheaper\s+than|max(?:imum)?(?:\s+price)?(?:\s+of)?|up\s+to|within|budget(?:\s+(?:is|of))?)\s*(?:[$€£₹]|usd|eur|gbp|inr|rs\.?)?\s*(\d[\d,]*(?:\.\d+)?)\s*(k)?\b(?!\s*(?:stops?|hours?|hrs?|minutes?|mins?|nights?|days?|adults?|passengers?|people|travell?ers|children|kids?))/i
+    );
+    if (priceMatch) {
+      const amount = parseFloat(priceMatch[1].replace(/,/g, '')) * (priceMatch[2] ? 1000 : 1);
+      if (amount > 0) {
+        options.maxPrice = Math.round(amount);
       }
-      
-      const normalized = `${yearNum}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-      console.log("Normalized full date to:", normalized);
-      return normalized;
     }
-    
-    console.log("Could not normalize, returning original:", dateStr);
-    return dateStr;
-  }
 
-  private extractCityAirports(userInput: string): { departure?: string; arrival?: string } {
-    const cityAirportMap: { [key: string]: string } = {
-      'mumbai': 'BOM', 'delhi': 'DEL', 'new delhi': 'DEL', 'bangalore': 'BLR', 
-      'bengaluru': 'BLR', 'kolkata': 'CCU', 'chennai': 'MAA', 'hyderabad': 'HYD',
-      'ahmedabad': 'AMD', 'pune': 'PNQ', 'goa': 'GOI', 'jaipur': 'JAI',
-      'lucknow': 'LKO', 'kochi': 'COK', 'cochin': 'COK', 'thiruvananthapuram': 'TRV',
-      'trivandrum': 'TRV', 'chandigarh': 'IXC', 'coimbatore': 'CJB', 
-      'vadodara': 'BDQ', 'baroda': 'BDQ', 'indore': 'IDR', 'nagpur': 'NAG',
-      'surat': 'STV', 'visakhapatnam': 'VTZ', 'bhubaneswar': 'BBI', 'patna': 'PAT',
-      'ranchi': 'IXR', 'udaipur': 'UDR', 'amritsar': 'ATQ', 'srinagar': 'SXR',
-      'guwahati': 'GAU', 'imphal': 'IMF', 'agartala': 'IXA', 'varanasi': 'VNS',
-      
-      'beijing': 'PEK', 'shanghai': 'PVG', 'guangzhou': 'CAN', 'shenzhen': 'SZX',
-      'chengdu': 'CTU', 'hangzhou': 'HGH', 'xi\'an': 'XIY', 'xian': 'XIY',
-      
-      'london': 'LHR', 'paris': 'CDG', 'frankfurt': 'FRA', 'amsterdam': 'AMS',
-      'madrid': 'MAD', 'rome': 'FCO', 'barcelona': 'BCN', 'berlin': 'BER',
-      'istanbul': 'IST', 'moscow': 'SVO', 'dublin': 'DUB', 'vienna': 'VIE',
-      'zurich': 'ZRH', 'geneva': 'GVA', 'brussels': 'BRU', 'copenhagen': 'CPH',
-      
-      'new york': 'JFK', 'los angeles': 'LAX', 'chicago': 'ORD', 'miami': 'MIA',
-      'austin': 'AUS', 'dallas': 'DFW', 'houston': 'IAH', 'atlanta': 'ATL',
-      'san francisco': 'SFO', 'seattle': 'SEA', 'boston': 'BOS', 'washington': 'IAD',
-      'las vegas': 'LAS', 'orlando': 'MCO', 'phoenix': 'PHX', 'denver': 'DEN',
-      
-      'toronto': 'YYZ', 'vancouver': 'YVR', 'montreal': 'YUL', 'calgary': 'YYC',
-      
-      'sydney': 'SYD', 'melbourne': 'MEL', 'brisbane': 'BNE', 'perth': 'PER',
-      
-      'tokyo': 'NRT', 'seoul': 'ICN', 'singapore': 'SIN', 'hong kong': 'HKG',
-      'dubai': 'DXB', 'bangkok': 'BKK', 'kuala lumpur': 'KUL', 'jakarta': 'CGK',
-      'manila': 'MNL', 'taipei': 'TPE', 'ho chi minh': 'SGN', 'saigon': 'SGN',
-      'hanoi': 'HAN', 'kathmandu': 'KTM', 'dhaka': 'DAC', 'colombo': 'CMB',
-      'karachi': 'KHI', 'lahore': 'LHE', 'islamabad': 'ISB'
-    };
+    return options;
+  }
 
-    const lowerInput = userInput.toLowerCase();
-    
-    const fromToPattern = /from\s+([a-z\s]+?)\s+to\s+([a-z\s]+?)(?:\s+on|\s+in|\s+at|$)/i;
-    const match = lowerInput.match(fromToPattern);
-    
-    if (match) {
-      const fromCity = match[1].trim();
-      const toCity = match[2].trim();
-      
-      let departureCode: string | undefined;
-      let arrivalCode: string | undefined;
-      
-      for (const [city, code] of Object.entries(cityAirportMap)) {
-        if (fromCity.includes(city) || city.includes(fromCity)) {
-          departureCode = code;
-        }
-        if (toCity.includes(city) || city.includes(toCity)) {
-          arrivalCode = code;
+  extractFlightLegs(userInput: string, dateOptions: DateParseOptions = {}): FlightLeg[] | null {
+    const legs: FlightLeg[] = [];
+    // Index of the segment each leg was read from.
+    const legSegments: number[] = [];
+
+    const segments = userInput
+      .split(/\s*(?:,?\s*\b(?:and then|then|after that|followed by|and also|also|plus)\b|;|\n)\s*/i)
+      .flatMap(segment => {
+        const parts = segment.split(/\s+and\s+/i);
+        return parts.length > 1 && parts.every(part => this.findPlaces(part).length >= 2) ? parts : [segment];
+      })
+      .filter(segment => segment.trim().length > 0);
+
+    segments.forEach((segment, segmentIndex) => {
+      const places = this.findPlaces(segment);
+      const dates = extractDates(segment, dateOptions);
+
+      if (places.length === 1 && legs.length > 0) {
+        const previous = legs[legs.length - 1];
+        if (previous.arrivalId !== places[0]) {
+          legs.push({ departureId: previous.arrivalId, arrivalId: places[0], date: dates[0] });
+          legSegments.push(segmentIndex);
         }
+        return;
       }
-      
-      if (departureCode && arrivalCode) {
-        return {
-          departure: departureCode,
-          arrival: arrivalCode
-        };
-      }
-    }
-    
-    const cities = Object.keys(cityAirportMap);
-    const foundCities: string[] = [];
 
-    cities.forEach(city => {
-      if (lowerInput.includes(city)) {
-        foundCities.push(cityAirportMap[city]);
+      for (let i = 0; i < places.length - 1; i++) {
+        legs.push({ departureId: places[i], arrivalId: places[i + 1], date: dates[i] });
+        legSegments.push(segmentIndex);
       }
     });
 
-    if (foundCities.length >= 2) {
-      return {
-        departure: foundCities[0],
-        arrival: foundCities[1]
-      };
+    // An undated last leg read from the same phrase as the one before it is
+    // more likely a misread place than a leg the user asked for; one given
+    // in its own "then ..." part is kept so the agent asks for its date.
+    const last = legs.length - 1;
+    if (legs.length >= 2 && !legs[last].date && legSegments[last] === legSegments[last - 1]) {
+      legs.pop();
     }
 
-    return {};
+    console.log("Extracted flight legs:", legs);
+
+    const isRoundTrip = legs.length === 2 &&
+      legs[0].departureId === legs[1].arrivalId &&
+      legs[0].arrivalId === legs[1].departureId;
+
+    // Every leg is returned, even past MAX_LEGS, so searchLegs can tell the
+    // user the itinerary is too long instead of silently dropping legs.
+    return legs.length >= 2 && !isRoundTrip ? legs : null;
+  }
+
+  private findPlaces(text: string): string[] {
+    const places: string[] = [];
+    for (const place of this.airportResolver.findInText(text)) {
+      if (isLayover(text, place)) {
+        continue;
+      }
+      if (places[places.length - 1] !== place.code) {
+        places.push(place.code);
+      }
+    }
+    return places;
   }
 }
@@ -0,0 +1,205 @@
+import { FlightOption, FlightSearchOptions, getAirlineName } from './flightPlanner.utils.js';
+
+export type FlightSortKey = 'price' | 'duration' | 'departure' | 'arrival';
+
+export interface FlightRefinement {
+  sortBy?: FlightSortKey;
+  sortOrder?: 'asc' | 'desc';
+  maxStops?: number;
+  airlines?: string[];
+  maxPrice?: number;
+  departAfter?: number;
+  departBefore?: number;
+  offset?: number;
+  showMore?: boolean;
+}
+
+export const REFINEMENT_PAGE_SIZE = 5;
+
+const SORT_PATTERNS: Array<{ pattern: RegExp; sortBy: FlightSortKey; sortOrder: 'asc' | 'desc' }> = [
+  { pattern: /\b(?:most expensive|highest price|priciest)\b/i, sortBy: 'price', sortOrder: 'desc' },
+  { pattern: /\b(?:cheapest|lowest (?:price|fare)|least expensive|sort(?:ed)? by (?:price|cost|fare))\b/i, sortBy: 'price', sortOrder: 'asc' },
+  { pattern: /\b(?:fastest|quickest|shortest|sort(?:ed)? by (?:duration|travel time|flight time))\b/i, sortBy: 'duration', sortOrder: 'asc' },
+  { pattern: /\b(?:sort(?:ed)? by arrival(?: time)?|arrives? (?:first|earliest))\b/i, sortBy: 'arrival', sortOrder: 'asc' },
+  { pattern: /\b(?:latest (?:departure|flight)|last flight)\b/i, sortBy: 'departure', sortOrder: 'desc' },
+  { pattern: /\b(?:earliest|first flight|sort(?:ed)? by (?:departure(?: time)?|time))\b/i, sortBy: 'departure', sortOrder: 'asc' },
+];
+
+const timeOfDayPattern = (period: string): RegExp =>
+  new RegExp(`\\b(?:${period})\\s+(?:flights?|departures?|options?|ones?)\\b|\\b(?:in the|leaving|departing|leave|depart)\\s+(?:${period})\\b`, 'i');
+
+const TIME_OF_DAY: Array<{ pattern: RegExp; after: number; before: number }> = [
+  { pattern: timeOfDayPattern('morning'), after: 5 * 60, before: 12 * 60 },
+  { pattern: timeOfDayPattern('afternoon'), after: 12 * 60, before: 17 * 60 },
+  { pattern: timeOfDayPattern('evening'), after: 17 * 60, before: 21 * 60 },
+  { pattern: timeOfDayPattern('night|overnight|red[-\\s]?eye'), after: 21 * 60, before: 5 * 60 },
+];
+
+const TIME = '(\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2}|noon|midnight)';
+
+const parseClockTime = (value: string): number | undefined => {
+  const text = value.trim().toLowerCase();
+  if (text === 'noon') return 12 * 60;
+  if (text === 'midnight') return 0;
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return undefined;
+
+  let hours = parseInt(match[1]);
+  const minutes = match[2] ? parseInt(match[2]) : 0;
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+};
+
+const getClockMinutes = (time: string): number | undefined => {
+  const match = time?.match(/(\d{1,2}):(\d{2})(?!.*\d{1,2}:\d{2})/);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : undefined;
+};
+
+const getTimestamp = (time: string): number => {
+  const timestamp = Date.parse(String(time).replace(' ', 'T'));
+  return isNaN(timestamp) ? getClockMinutes(time) ?? Infinity : timestamp;
+};
+
+const getStopCount = (flight: FlightOption): number =>
+  Array.isArray(flight.stops) ? flight.stops.length : flight.stops || 0;
+
+const getDurationMinutes = (flight: FlightOption): number => {
+  const minutes = parseInt(String(flight.duration));
+  return isNaN(minutes) ? Infinity : minutes;
+};
+
+const getPrice = (flight: FlightOption): number =>
+  flight.price?.amount ? flight.price.amount : Infinity;
+
+const normalizeAirline = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const extractFlightRefinement = (
+  userInput: string,
+  searchOptions: FlightSearchOptions = {}
+): FlightRefinement | null => {
+  const refinement: FlightRefinement = {};
+
+  const sort = SORT_PATTERNS.find(({ pattern }) => pattern.test(userInput));
+  if (sort) {
+    refinement.sortBy = sort.sortBy;
+    refinement.sortOrder = sort.sortOrder;
+  }
+
+  if (searchOptions.maxStops !== undefined) {
+    refinement.maxStops = searchOptions.maxStops;
+  }
+
+  const airlines = (searchOptions.airlines || [])
+    .map(code => getAirlineName(code))
+    .filter((name): name is string => !!name && !/alliance|oneworld|skyteam/i.test(name));
+  if (airlines.length > 0) {
+    refinement.airlines = airlines;
+  }
+
+  if (searchOptions.maxPrice) {
+    refinement.maxPrice = searchOptions.maxPrice;
+  }
+
+  const between = userInput.match(new RegExp(`\\bbetween\\s+${TIME}\\s+and\\s+${TIME}`, 'i'));
+  const after = userInput.match(new RegExp(`\\b(?:after|later than|from)\\s+${TIME}`, 'i'));
+  const before = userInput.match(new RegExp(`\\b(?:before|earlier than|by)\\s+${TIME}`, 'i'));
+  const timeOfDay = TIME_OF_DAY.find(({ pattern }) => pattern.test(userInput));
+
+  if (between) {
+    refinement.departAfter = parseClockTime(between[1]);
+    refinement.departBefore = parseClockTime(between[2]);
+  } else if (after || before) {
+    if (after) refinement.departAfter = parseClockTime(after[1]);
+    if (before) refinement.departBefore = parseClockTime(before[1]);
+  } else if (timeOfDay) {
+    refinement.departAfter = timeOfDay.after;
+    refinement.departBefore = timeOfDay.before;
+  }
+
+  if (/\b(?:show|see|give|list)\s+(?:me\s+)?(?:some\s+)?(?:more|others?|the rest|next)\b|\b(?:more|other) (?:options|flights|results)\b|\bnext (?:5|five|page)\b/i.test(userInput)) {
+    refinement.showMore = true;
+  }
+
+  Object.keys(refinement).forEach(key => {
+    if (refinement[key as keyof FlightRefinement] === undefined) {
+      delete refinement[key as keyof FlightRefinement];
+    }
+  });
+
+  return Object.keys(refinement).length > 0 ? refinement : null;
+};
+
+export const mergeFlightRefinement = (
+  previous: FlightRefinement,
+  next: FlightRefinement
+): FlightRefinement => {
+  const { showMore, ...changes } = next;
+  const merged: FlightRefinement = { ...previous, ...changes };
+
+  if (changes.departAfter !== undefined || changes.departBefore !== undefined) {
+    merged.departAfter = changes.departAfter;
+    merged.departBefore = changes.departBefore;
+  }
+
+  const onlyPaging = showMore && Object.keys(changes).length === 0;
+  merged.offset = onlyPaging ? (previous.offset || 0) + REFINEMENT_PAGE_SIZE : 0;
+
+  return merged;
+};
+
+export const applyFlightRefinement = (flights: FlightOption[], refinement: FlightRefinement): FlightOption[] => {
+  const { maxStops, airlines, maxPrice, departAfter, departBefore, sortBy, sortOrder } = refinement;
+
+  const filtered = flights.filter(flight => {
+    if (maxStops !== undefined && getStopCount(flight) > maxStops) return false;
+
+    if (airlines && airlines.length > 0) {
+      const flightAirline = normalizeAirline(flight.airline);
+      if (!airlines.some(name => flightAirline.includes(normalizeAirline(name)))) return false;
+    }
+
+    if (maxPrice && getPrice(flight) > maxPrice) return false;
+
+    if (departAfter !== undefined || departBefore !== undefined) {
+      const departure = getClockMinutes(flight.departure?.time);
+      if (departure === undefined) return false;
+
+      const afterStart = departAfter === undefined || departure >= departAfter;
+      const beforeEnd = departBefore === undefined || departure < departBefore;
+      const wrapsMidnight = departAfter !== undefined && departBefore !== undefined && departAfter > departBefore;
+      if (wrapsMidnight ? !(afterStart || beforeEnd) : !(afterStart && beforeEnd)) return false;
+    }
+
+    return true;
+  });
+
+  if (!sortBy) {
+    return filtered;
+  }
+
+  const sortValue = (flight: FlightOption): number => {
+    switch (sortBy) {
+      case 'price':
+        return getPrice(flight);
+      case 'duration':
+        return getDurationMinutes(flight);
+      case 'departure':
+        return getTimestamp(flight.departure?.time);
+      case 'arrival':
+        return getTimestamp(flight.arrival?.time);
+    }
+  };
+
+  const direction = sortOrder === 'desc' ? -1 : 1;
+  return [...filtered].sort((a, b) => {
+    const aValue = sortValue(a);
+    const bValue = sortValue(b);
+    if (aValue === bValue) return 0;
+    if (aValue === Infinity) return 1;
+    if (bValue === Infinity) return -1;
+    return (aValue - bValue) * direction;
+  });
+};
@@ -0,0 +1,128 @@
+import FlightSearchCacheModel from '../models/flightSearchCache.model.js';
+import { LruCache } from './lruCache.utils.js';
+import config from '../config/index.js';
+import type { FlightSearchParams, FlightSearchResult } from './flightPlanner.utils.js';
+
+export interface FlightCacheStatus {
+  backend: string;
+  hit: boolean;
+}
+
+export interface FlightCacheBackend {
+  readonly name: string;
+  get(key: string): Promise<FlightSearchResult | undefined>;
+  set(key: string, result: FlightSearchResult, ttlMs: number): Promise<void>;
+}
+
+export class MemoryFlightCacheBackend implements FlightCacheBackend {
+  readonly name = 'memory';
+  private entries: LruCache<string, FlightSearchResult>;
+
+  constructor(maxSize: number, ttlMs: number) {
+    this.entries = new LruCache(maxSize, ttlMs);
+  }
+
+  async get(key: string): Promise<FlightSearchResult | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, result: FlightSearchResult): Promise<void> {
+    this.entries.set(key, result);
+  }
+}
+
+export class MongoFlightCacheBackend implements FlightCacheBackend {
+  readonly name = 'mongo';
+
+  async get(key: string): Promise<FlightSearchResult | undefined> {
+    // The TTL monitor only sweeps once a minute, so expiry is checked here too.
+    const entry = await FlightSearchCacheModel.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+    return entry?.result;
+  }
+
+  async set(key: string, result: FlightSearchResult, ttlMs: number): Promise<void> {
+    await FlightSearchCacheModel.updateOne(
+      { key },
+      { $set: { result, expiresAt: new Date(Date.now() + ttlMs) } },
+      { upsert: true }
+    );
+  }
+}
+
+export const buildFlightCacheKey = (params: FlightSearchParams): string => {
+  const normalized = {
+    from: params.departureId.trim().toUpperCase(),
+    to: params.arrivalId.trim().toUpperCase(),
+    out: params.outboundDate,
+    ret: params.returnDate || null,
+    currency: (params.currency || 'USD').toUpperCase(),
+    hl: (params.hl || 'en').toLowerCase(),
+    adults: params.adults || 1,
+    children: params.children || 0,
+    infants: params.infants || 0,
+    travelClass: params.travelClass || null,
+    maxStops: params.maxStops ?? null,
+    airlines: params.airlines ? [...params.airlines].map(code => code.toUpperCase()).sort() : [],
+    maxPrice: params.maxPrice || null,
+  };
+
+  return `flights:${JSON.stringify(normalized)}`;
+};
+
+export class FlightSearchCache {
+  private backend?: FlightCacheBackend;
+  private ttlMs: number;
+
+  constructor(backend: FlightCacheBackend | undefined, ttlMs: number) {
+    this.backend = backend;
+    this.ttlMs = ttlMs;
+  }
+
+  get backendName(): string {
+    return this.backend?.name || 'none';
+  }
+
+  async get(params: FlightSearchParams): Promise<FlightSearchResult | undefined> {
+    if (!this.backend) return undefined;
+
+    try {
+      return await this.backend.get(buildFlightCacheKey(params));
+    } catch (error) {
+      console.error(`Flight cache (${this.backend.name}) read error:`, error);
+      return undefined;
+    }
+  }
+
+  async set(params: FlightSearchParams, result: FlightSearchResult): Promise<void> {
+    if (!this.backend || !result.success) return;
+
+    try {
+      await this.backend.set(buildFlightCacheKey(params), result, this.ttlMs);
+    } catch (error) {
+      console.error(`Flight cache (${this.backend.name}) write error:`, error);
+    }
+  }
+}
+
+export const createFlightSearchCache = (): FlightSearchCache => {
+  const { backend, ttlMs, maxSize } = config.flightCache;
+
+  if (ttlMs <= 0 || backend === 'none') {
+    return new FlightSearchCache(undefined, ttlMs);
+  }
+
+  if (backend === 'mongo') {
+    return new FlightSearchCache(new MongoFlightCacheBackend(), ttlMs);
+  }
+
+  return new FlightSearchCache(new MemoryFlightCacheBackend(maxSize, ttlMs), ttlMs);
+};
+
+let sharedCache: FlightSearchCache | undefined;
+
+export const getFlightSearchCache = (): FlightSearchCache => {
+  if (!sharedCache) {
+    sharedCache = createFlightSearchCache();
+  }
+  return sharedCache;
+};
@@ -0,0 +1,224 @@
+import axios from 'axios';
+import { DateParseOptions, parseTravelDates } from './dateParser.utils.js';
+
+export interface HotelSearchParams {
+  location: string;
+  checkInDate: string;
+  checkOutDate: string;
+  adults?: number;
+  children?: number;
+  currency?: string;
+  hl?: string;
+}
+
+export interface HotelOption {
+  name: string;
+  type?: string;
+  description?: string;
+  hotelClass?: number;
+  rating?: number;
+  reviews?: number;
+  price: {
+    perNight: number;
+    total?: number;
+    currency: string;
+  };
+  amenities: string[];
+  checkInTime?: string;
+  checkOutTime?: string;
+  bookingLink?: string;
+  thumbnail?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export interface HotelSearchResult {
+  success: boolean;
+  data?: {
+    hotels: HotelOption[];
+    searchParams: HotelSearchParams;
+    googleHotelsUrl?: string;
+  };
+  error?: string;
+}
+
+export interface HotelHttpClient {
+  get(url: string, params: Record<string, any>): Promise<any>;
+}
+
+const axiosHttpClient: HotelHttpClient = {
+  get: async (url, params) => {
+    const response = await axios.get<any>(url, { params });
+    return response.data;
+  },
+};
+
+export class HotelPlanner {
+  private apiKey: string;
+  private baseUrl: string = 'https://serpapi.com/search.json';
+  private httpClient: HotelHttpClient;
+
+  constructor(httpClient: HotelHttpClient = axiosHttpClient) {
+    this.apiKey = process.env.SERP_API_KEY || '';
+    if (!this.apiKey) {
+      throw new Error('SERP_API_KEY environment variable is required');
+    }
+    this.httpClient = httpClient;
+  }
+
+  async searchHotels(params: HotelSearchParams): Promise<HotelSearchResult> {
+    try {
+      const searchParams: Record<string, any> = {
+        engine: 'google_hotels',
+        q: params.location,
+        check_in_date: params.checkInDate,
+        check_out_date: params.checkOutDate,
+        adults: params.adults || 1,
+        children: params.children || undefined,
+        currency: params.currency || 'USD',
+        hl: params.hl || 'en',
+        api_key: this.apiKey,
+      };
+
+      Object.keys(searchParams).forEach(key => {
+        if (searchParams[key] === undefined || searchParams[key] === null || searchParams[key] === '') {
+          delete searchParams[key];
+        }
+      });
+
+      console.log("Hotel search params:", JSON.stringify({ ...searchParams, api_key: undefined }));
+
+      const data = await this.httpClient.get(this.baseUrl, searchParams);
+
+      if (data?.error) {
+        console.error("SerpAPI Error:", data.error);
+        return {
+          success: false,
+          error: data.error
+        };
+      }
+
+      const hotels = this.parseHotelData(data, params.currency || 'USD');
+
+      return {
+        success: true,
+        data: {
+          hotels,
+          searchParams: params,
+          googleHotelsUrl: this.generateGoogleHotelsUrl(params)
+        }
+      };
+    } catch (error: any) {
+      console.error('Hotel search error:', error);
+
+      if (error.response) {
+        return {
+          success: false,
+          error: error.response.data?.error || `HTTP ${error.response.status}: ${error.response.statusText}`
+        };
+      } else if (error.request) {
+        return {
+          success: false,
+          error: 'Network error: Unable to reach SerpAPI'
+        };
+      }
+
+      return {
+        success: false,
+        error: error.message || 'Unknown error occurred'
+      };
+    }
+  }
+
+  private parseHotelData(apiResponse: any, currency: string): HotelOption[] {
+    const properties = Array.isArray(apiResponse?.properties) ? apiResponse.properties : [];
+
+    const hotels = properties
+      .filter((property: any) => property.name)
+      .map((property: any): HotelOption => ({
+        name: property.name,
+        type: property.type,
+        description: property.description,
+        hotelClass: property.extracted_hotel_class,
+        rating: property.overall_rating,
+        reviews: property.reviews,
+        price: {
+          perNight: property.rate_per_night?.extracted_lowest || 0,
+          total: property.total_rate?.extracted_lowest,
+          currency: currency,
+        },
+        amenities: Array.isArray(property.amenities) ? property.amenities : [],
+        checkInTime: property.check_in_time,
+        checkOutTime: property.check_out_time,
+        bookingLink: property.link,
+        thumbnail: property.images?.[0]?.thumbnail,
+        coordinates: property.gps_coordinates,
+      }));
+
+    console.log(`Parsed ${hotels.length} hotels`);
+    return hotels;
+  }
+
+  private generateGoogleHotelsUrl(params: HotelSearchParams): string {
+    const query = encodeURIComponent(`Hotels in ${params.location} from ${params.checkInDate} to ${params.checkOutDate}`);
+    return `https://www.google.com/travel/hotels?q=${query}`;
+  }
+
+  extractHotelParams(userInput: string, dateOptions: DateParseOptions = {}): Partial<HotelSearchParams> | null {
+    const params: Partial<HotelSearchParams> = {};
+
+    console.log("Extracting hotel parameters from:", userInput);
+
+    const location = this.extractLocation(userInput);
+    if (location) {
+      params.location = location;
+    }
+
+    const { outboundDate, returnDate } = parseTravelDates(userInput, dateOptions);
+    if (outboundDate) {
+      params.checkInDate = outboundDate;
+    }
+    if (returnDate) {
+      params.checkOutDate = returnDate;
+    }
+
+    const adultsMatch = userInput.match(/\b(\d{1,2})\s*(?:guests?|adults?|people|persons|travell?ers)\b/i);
+    if (adultsMatch) {
+      params.adults = parseInt(adultsMatch[1]);
+    }
+
+    const childrenMatch = userInput.match(/\b(\d{1,2})\s*(?:children|child|kids?)\b/i);
+    if (childrenMatch) {
+      params.children = parseInt(childrenMatch[1]);
+    }
+
+    const currencyMatch = userInput.match(/\b(USD|EUR|GBP|CAD|AUD|JPY|CHF|INR)\b/i);
+    if (currencyMatch) {
+      params.currency = currencyMatch[0].toUpperCase();
+    }
+
+    console.log("Extracted hotel parameters:", params);
+
+    return Object.keys(params).length > 0 ? params : null;
+  }
+
+  private extractLocation(userInput: string): string | undefined {
+    const stopWords = '(?:\\s+(?:from|for|on|between|check|with|starting|this|next|tomorrow|under|below)\\b|[,.!?]|$)';
+    const locationPatterns = [
+      new RegExp(`\\b(?:hotels?|stay|staying|accommodation|rooms?|resorts?|hostels?|places? to stay)\\s+(?:in|at|near|around)\\s+([a-z][a-z\\s'-]*?)${stopWords}`, 'i'),
+      new RegExp(`\\b(?:in|at|near)\\s+([A-Z][a-zA-Z'-]*(?:\\s+[A-Z][a-zA-Z'-]*)*)${stopWords}`),
+    ];
+
+    for (const pattern of locationPatterns) {
+      const match = userInput.match(pattern);
+      const location = match?.[1]?.trim();
+      if (location && !/^(there|the same place|that city)$/i.test(location)) {
+        return location;
+      }
+    }
+
+    return undefined;
+  }
+}
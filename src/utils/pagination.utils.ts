@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+
+export interface CursorPageOptions {
+  limit: number;
+  before?: string;
+  after?: string;
+}
+
+export interface PageInfo {
+  limit: number;
+  hasMore: boolean;
+  // Pass as `before` to get the page after this one in list order.
+  nextCursor?: string;
+  // Pass as `after` to get the page before this one in list order.
+  prevCursor?: string;
+}
+
+export interface CursorPosition {
+  sortValue: Date;
+  id: mongoose.Types.ObjectId;
+  pinned?: boolean;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify({
+    v: position.sortValue.toISOString(),
+    id: position.id.toString(),
+    ...(position.pinned !== undefined && { p: position.pinned }),
+  })).toString('base64url');
+
+export const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const { v, id, p } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const sortValue = new Date(v);
+    if (typeof v !== 'string' || isNaN(sortValue.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+      throw new InvalidCursorError();
+    }
+    return {
+      sortValue,
+      id: new mongoose.Types.ObjectId(id as string),
+      ...(typeof p === 'boolean' && { pinned: p }),
+    };
+  } catch {
+    throw new InvalidCursorError();
+  }
+};
+
+/**
+ * Mongo filter for the documents strictly past `position` in a
+ * (sortField, _id) ordering, optionally led by a boolean `pinnedField`.
+ * `forward` follows the list order (descending); otherwise it walks back.
+ */
+export const cursorFilter = (
+  position: CursorPosition,
+  sortField: string,
+  forward: boolean,
+  pinnedField?: string
+): Record<string, unknown> => {
+  const op = forward ? '$lt' : '$gt';
+  const sameSort = { [sortField]: position.sortValue };
+  const conditions: Record<string, unknown>[] = [
+    { [sortField]: { [op]: position.sortValue } },
+    { ...sameSort, _id: { [op]: position.id } },
+  ];
+
+  if (!pinnedField) {
+    return { $or: conditions };
+  }
+
+  const samePinned = { [pinnedField]: position.pinned ?? false };
+  return {
+    $or: [
+      { [pinnedField]: { [op]: position.pinned ?? false } },
+      ...conditions.map(condition => ({ ...samePinned, ...condition })),
+    ],
+  };
+};
+
+/**
+ * Trims the `limit + 1` rows fetched for a page, restores list order when
+ * paging backwards and builds the cursors for the neighbouring pages.
+ */
+export const buildPage = <T>(
+  rows: T[],
+  options: CursorPageOptions,
+  toPosition: (row: T) => CursorPosition
+): { items: T[]; pagination: PageInfo } => {
+  const items = rows.slice(0, options.limit);
+  if (options.after) {
+    items.reverse();
+  }
+
+  return {
+    items,
+    pagination: {
+      limit: options.limit,
+      hasMore: rows.length > options.limit,
+      nextCursor: items.length > 0 ? encodeCursor(toPosition(items[items.length - 1])) : undefined,
+      prevCursor: items.length > 0 ? encodeCursor(toPosition(items[0])) : undefined,
+    },
+  };
+};
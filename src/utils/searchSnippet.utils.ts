@@ -0,0 +1,80 @@
+export interface TextHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  snippet: string;
+  highlights: TextHighlight[];
+}
+
+const SNIPPET_LENGTH = 160;
+const LEADING_CONTEXT = 40;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// MongoDB stems words for $text ("flights" matches "flight"), so highlight
+// any word starting with the term's rough stem.
+const stem = (term: string): string => {
+  const stemmed = term.replace(/(?:ing|ed|es|s)$/, '');
+  return stemmed.length >= 3 ? stemmed : term;
+};
+
+/**
+ * Words and quoted phrases from a $text query, minus negated ones ("-hotel").
+ */
+export const extractSearchTerms = (query: string): string[] => {
+  const terms = new Set<string>();
+
+  for (const match of query.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+    if (match[1] || match[3]) continue;
+    const term = (match[2] ?? match[4]).toLowerCase().replace(/[^\p{L}\p{N}\s'-]/gu, '').trim();
+    if (term.length >= 2) {
+      terms.add(term);
+    }
+  }
+
+  return [...terms];
+};
+
+const buildTermPattern = (terms: string[]): RegExp | undefined => {
+  if (terms.length === 0) return undefined;
+
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.includes(' ') ? escapeRegExp(term).replace(/ +/g, '\\s+') : `${escapeRegExp(stem(term))}[\\p{L}\\p{N}]*`);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+};
+
+/**
+ * A window of `text` around the first matching term, with the character
+ * ranges of every match inside the snippet for the client to highlight.
+ */
+export const buildSnippet = (text: string, terms: string[], maxLength: number = SNIPPET_LENGTH): SearchSnippet => {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  const pattern = buildTermPattern(terms);
+  const matches = pattern ? [...flattened.matchAll(pattern)] : [];
+
+  let start = 0;
+  if (matches.length > 0 && flattened.length > maxLength) {
+    start = Math.max(0, Math.min(matches[0].index! - LEADING_CONTEXT, flattened.length - maxLength));
+    const wordStart = flattened.lastIndexOf(' ', start);
+    if (start > 0 && wordStart >= 0 && start - wordStart < 15) {
+      start = wordStart + 1;
+    }
+  }
+  const end = Math.min(flattened.length, start + maxLength);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flattened.length ? '…' : '';
+  const snippet = `${prefix}${flattened.slice(start, end)}${suffix}`;
+
+  const highlights = matches
+    .filter(match => match.index! >= start && match.index! + match[0].length <= end)
+    .map(match => ({
+      start: match.index! - start + prefix.length,
+      end: match.index! - start + prefix.length + match[0].length,
+    }));
+
+  return { snippet, highlights };
+};
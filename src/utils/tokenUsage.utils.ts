@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  calls: number;
+}
+
+const meters = new AsyncLocalStorage<TokenUsage>();
+
+/**
+ * Runs `fn` and adds up the tokens of every LLM call made while it runs,
+ * including calls made by nested agents. Concurrent requests are metered
+ * separately.
+ */
+export const measureTokenUsage = async <T>(fn: () => Promise<T>): Promise<{ result: T; usage: TokenUsage }> => {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, calls: 0 };
+  const result = await meters.run(usage, fn);
+  return { result, usage };
+};
+
+export const recordTokenUsage = (inputTokens: number | undefined, outputTokens: number | undefined, totalTokens?: number): void => {
+  const usage = meters.getStore();
+  if (!usage) {
+    return;
+  }
+
+  const input = inputTokens || 0;
+  const output = outputTokens || 0;
+  usage.inputTokens += input;
+  usage.outputTokens += output;
+  usage.totalTokens += totalTokens || input + output;
+  usage.calls += 1;
+};
+
+// Rough count for budgeting prompts before sending them (about 4 characters
+// per token for English text).
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
@@ -0,0 +1,27 @@
+import Joi from "joi";
+
+export const searchAirportsSchema = Joi.object({
+  q: Joi.string().trim().min(1).max(100).required().messages({
+    "string.empty": "Search query is required",
+    "any.required": "Search query is required",
+    "string.max": "Search query must be at most 100 characters",
+  }),
+  limit: Joi.number().integer().min(1).max(25).default(10),
+});
+
+export const nearbyAirportsSchema = Joi.object({
+  code: Joi.string().pattern(/^[A-Za-z]{3}$/).messages({
+    "string.pattern.base": "Code must be a 3-letter IATA code",
+  }),
+  lat: Joi.number().min(-90).max(90),
+  lon: Joi.number().min(-180).max(180),
+  limit: Joi.number().integer().min(1).max(25).default(5),
+  maxKm: Joi.number().min(1).max(2000).default(300),
+})
+  .xor("code", "lat")
+  .and("lat", "lon")
+  .messages({
+    "object.xor": "Provide either an airport code or lat/lon coordinates",
+    "object.missing": "Provide either an airport code or lat/lon coordinates",
+    "object.and": "lat and lon must be provided together",
+  });
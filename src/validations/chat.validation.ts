@@ -0,0 +1,118 @@
+import Joi from "joi";
+
+export const updateSessionSchema = Joi.object({
+  title: Joi.string().trim().min(1).max(200).messages({
+    "string.empty": "Title cannot be empty",
+    "string.max": "Title cannot exceed 200 characters",
+  }),
+  pinned: Joi.boolean(),
+  archived: Joi.boolean(),
+})
+  .min(1)
+  .messages({
+    "object.min": "Provide a title, pinned or archived to update",
+  });
+
+export const editMessageSchema = Joi.object({
+  prompt: Joi.string().trim().min(1).required().messages({
+    "string.empty": "Prompt cannot be empty",
+    "any.required": "Prompt is required",
+  }),
+});
+
+const cursor = Joi.string().max(512);
+
+const cursorMessages = {
+  "object.oxor": "Use either before or after, not both",
+  "number.max": "limit cannot exceed 100",
+};
+
+export const listSessionsSchema = Joi.object({
+  archived: Joi.string().valid("true", "false", "all").default("false").messages({
+    "any.only": "archived must be true, false or all",
+  }),
+  pinned: Joi.boolean(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  before: cursor,
+  after: cursor,
+})
+  .oxor("before", "after")
+  .messages(cursorMessages);
+
+export const listMessagesSchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  before: cursor,
+  after: cursor,
+})
+  .oxor("before", "after")
+  .messages(cursorMessages);
+
+export const searchChatsSchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required().messages({
+    "string.empty": "Search query is required",
+    "any.required": "Search query is required",
+    "string.max": "Search query must be at most 200 characters",
+  }),
+  from: Joi.date().iso().messages({
+    "date.format": "from must be an ISO date",
+  }),
+  to: Joi.date().iso().min(Joi.ref("from")).messages({
+    "date.format": "to must be an ISO date",
+    "date.min": "to must not be before from",
+  }),
+  agent: Joi.string().valid("personal", "flight", "hotel").messages({
+    "any.only": "agent must be personal, flight or hotel",
+  }),
+  hasFlightData: Joi.boolean(),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  offset: Joi.number().integer().min(0).max(1000).default(0),
+});
+
+export const exportSessionSchema = Joi.object({
+  format: Joi.string().valid("md", "json", "html").default("json").messages({
+    "any.only": "format must be md, json or html",
+  }),
+});
+
+const exportedMessageSchema = Joi.object({
+  id: Joi.string().max(64).required(),
+  parentId: Joi.string().max(64).allow(null).default(null),
+  isUserMessage: Joi.boolean().required(),
+  message: Joi.string().trim().min(1).required(),
+  agent: Joi.string().max(50),
+  metadata: Joi.object().unknown(true),
+  searchParams: Joi.object().unknown(true),
+  suggestions: Joi.array().items(Joi.string()),
+  tokenUsage: Joi.object({
+    inputTokens: Joi.number().integer().min(0),
+    outputTokens: Joi.number().integer().min(0),
+    totalTokens: Joi.number().integer().min(0),
+    calls: Joi.number().integer().min(0),
+  }),
+  flightData: Joi.object().unknown(true).allow(null),
+  hotelData: Joi.object().unknown(true).allow(null),
+  createdAt: Joi.date().iso().raw().required(),
+}).unknown(true);
+
+export const importSessionSchema = Joi.object({
+  version: Joi.number().valid(1).required().messages({
+    "any.only": "Unsupported export version",
+    "any.required": "Export version is required",
+  }),
+  exportedAt: Joi.date().iso().raw(),
+  session: Joi.object({
+    title: Joi.string().trim().min(1).max(200).required(),
+    pinned: Joi.boolean(),
+    archived: Joi.boolean(),
+    createdAt: Joi.date().iso().raw(),
+    updatedAt: Joi.date().iso().raw(),
+  }).unknown(true).required(),
+  activeLeafId: Joi.string().max(64).allow(null).default(null),
+  messages: Joi.array().items(exportedMessageSchema).max(5000).required(),
+  context: Joi.object({
+    contextData: Joi.object().unknown(true),
+    conversationSummary: Joi.string().allow(""),
+    summaryThroughMessageId: Joi.string().max(64).allow(null),
+    agentState: Joi.object().unknown(true),
+  }).unknown(true),
+});
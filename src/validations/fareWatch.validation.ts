@@ -0,0 +1,51 @@
+import Joi from "joi";
+
+const isoDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/);
+
+export const createFareWatchSchema = Joi.object({
+  departureId: Joi.string()
+    .pattern(/^[A-Za-z]{3}$/)
+    .required()
+    .messages({
+      "string.pattern.base": "Departure must be a 3-letter airport code",
+      "any.required": "Departure airport is required",
+    }),
+  arrivalId: Joi.string()
+    .pattern(/^[A-Za-z]{3}$/)
+    .required()
+    .messages({
+      "string.pattern.base": "Arrival must be a 3-letter airport code",
+      "any.required": "Arrival airport is required",
+    }),
+  outboundDate: isoDate.required().messages({
+    "string.pattern.base": "Departure date must be in YYYY-MM-DD format",
+    "any.required": "Departure date is required",
+  }),
+  returnDate: isoDate.messages({
+    "string.pattern.base": "Return date must be in YYYY-MM-DD format",
+  }),
+  adults: Joi.number().integer().min(1).max(9),
+  children: Joi.number().integer().min(0).max(8),
+  infants: Joi.number().integer().min(0).max(8),
+  travelClass: Joi.string().valid("economy", "premium_economy", "business", "first"),
+  maxStops: Joi.number().integer().min(0).max(2),
+  airlines: Joi.array().items(Joi.string().trim().uppercase()),
+  threshold: Joi.number().min(0).messages({
+    "number.min": "Threshold cannot be negative",
+  }),
+  currency: Joi.string().length(3).uppercase(),
+  sessionId: Joi.string().hex().length(24),
+});
+
+export const updateFareWatchSchema = Joi.object({
+  threshold: Joi.number().min(0).messages({
+    "number.min": "Threshold cannot be negative",
+  }),
+  status: Joi.string().valid("active", "paused").messages({
+    "any.only": "Status must be active or paused",
+  }),
+})
+  .min(1)
+  .messages({
+    "object.min": "Provide a threshold or status to update",
+  });
@@ -0,0 +1,174 @@
+import Joi from "joi";
+
+// Each structured LLM call has a JSON Schema that constrains the model's
+// output and a Joi schema that validates what actually comes back.
+
+export interface SessionTitleOutput {
+  title: string;
+}
+
+export const sessionTitleSchema = Joi.object<SessionTitleOutput>({
+  title: Joi.string().trim().min(1).max(100).required(),
+});
+
+export const sessionTitleJsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", description: "Short chat title, at most 50 characters" },
+  },
+  required: ["title"],
+};
+
+export interface PersonalContextOutput {
+  personalInfo: {
+    name?: string | null;
+    age?: string | null;
+    location?: string | null;
+    occupation?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    otherDetails?: { key: string; value: string }[];
+  };
+  topic?: string | null;
+  intent?: string | null;
+  sentiment?: "positive" | "neutral" | "negative" | null;
+}
+
+const personalField = Joi.alternatives()
+  .try(Joi.string().trim().max(200), Joi.number().custom((value) => String(value)))
+  .allow(null, "");
+
+export const personalContextSchema = Joi.object<PersonalContextOutput>({
+  personalInfo: Joi.object({
+    name: personalField,
+    age: personalField,
+    location: personalField,
+    occupation: personalField,
+    email: personalField,
+    phone: personalField,
+    otherDetails: Joi.array()
+      .items(Joi.object({
+        key: Joi.string().trim().min(1).max(50).required(),
+        value: Joi.string().trim().max(200).required(),
+      }))
+      .max(10),
+  }).default({}),
+  topic: Joi.string().allow(null, ""),
+  intent: Joi.string().allow(null, ""),
+  sentiment: Joi.string().valid("positive", "neutral", "negative").allow(null),
+});
+
+const nullableString = { type: ["string", "null"] };
+
+export const personalContextJsonSchema = {
+  type: "object",
+  properties: {
+    personalInfo: {
+      type: "object",
+      properties: {
+        name: nullableString,
+        age: nullableString,
+        location: { ...nullableString, description: "City or country the user lives in or is from" },
+        occupation: nullableString,
+        email: nullableString,
+        phone: nullableString,
+        otherDetails: {
+          type: "array",
+          description: "Any other personal details the user shared",
+          items: {
+            type: "object",
+            properties: { key: { type: "string" }, value: { type: "string" } },
+            required: ["key", "value"],
+          },
+        },
+      },
+    },
+    topic: nullableString,
+    intent: nullableString,
+    sentiment: { type: "string", enum: ["positive", "neutral", "negative"] },
+  },
+  required: ["personalInfo"],
+};
+
+export interface FollowUpQuestionsOutput {
+  questions: string[];
+}
+
+export const followUpQuestionsSchema = Joi.object<FollowUpQuestionsOutput>({
+  questions: Joi.array().items(Joi.string().trim().min(1).max(100)).min(1).max(3).required(),
+});
+
+export const followUpQuestionsJsonSchema = {
+  type: "object",
+  properties: {
+    questions: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+      maxItems: 3,
+    },
+  },
+  required: ["questions"],
+};
+
+export interface FlightSlotOutput<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface FlightSlotsOutput {
+  departure?: FlightSlotOutput<string> | null;
+  arrival?: FlightSlotOutput<string> | null;
+  outboundDate?: FlightSlotOutput<string> | null;
+  returnDate?: FlightSlotOutput<string> | null;
+  adults?: FlightSlotOutput<number> | null;
+  children?: FlightSlotOutput<number> | null;
+  infants?: FlightSlotOutput<number> | null;
+  travelClass?: FlightSlotOutput<string> | null;
+}
+
+const flightSlot = (value: Joi.Schema) => Joi.object({
+  value: value.allow(null).default(null),
+  confidence: Joi.number().min(0).max(1).default(0.5),
+}).allow(null);
+
+const isoDate = Joi.string().trim().pattern(/^\d{4}-\d{2}-\d{2}$/);
+const passengerCount = Joi.number().integer().min(0).max(9);
+const TRAVEL_CLASSES = ["economy", "premium_economy", "business", "first"];
+
+export const flightSlotsSchema = Joi.object<FlightSlotsOutput>({
+  departure: flightSlot(Joi.string().trim().max(100)),
+  arrival: flightSlot(Joi.string().trim().max(100)),
+  outboundDate: flightSlot(isoDate),
+  returnDate: flightSlot(isoDate),
+  adults: flightSlot(passengerCount.min(1)),
+  children: flightSlot(passengerCount),
+  infants: flightSlot(passengerCount),
+  travelClass: flightSlot(Joi.string().valid(...TRAVEL_CLASSES)),
+});
+
+const nullableInteger = { type: ["integer", "null"] };
+
+const flightSlotJsonSchema = (value: Record<string, any>, description: string) => ({
+  type: ["object", "null"],
+  description,
+  properties: {
+    value,
+    confidence: { type: "number", minimum: 0, maximum: 1, description: "How sure you are of this value, from 0 to 1" },
+  },
+  required: ["value", "confidence"],
+});
+
+export const flightSlotsJsonSchema = {
+  type: "object",
+  properties: {
+    departure: flightSlotJsonSchema(nullableString, "City name or IATA code the traveller flies from"),
+    arrival: flightSlotJsonSchema(nullableString, "City name or IATA code the traveller flies to"),
+    outboundDate: flightSlotJsonSchema(nullableString, "Departure date as YYYY-MM-DD"),
+    returnDate: flightSlotJsonSchema(nullableString, "Return date as YYYY-MM-DD, only for round trips"),
+    adults: flightSlotJsonSchema(nullableInteger, "Number of adult passengers"),
+    children: flightSlotJsonSchema(nullableInteger, "Number of child passengers"),
+    infants: flightSlotJsonSchema(nullableInteger, "Number of infant passengers"),
+    travelClass: flightSlotJsonSchema({ type: ["string", "null"], enum: [...TRAVEL_CLASSES, null] }, "Cabin class"),
+  },
+};
@@ -0,0 +1,41 @@
+import Joi from "joi";
+import { isValidTimezone } from "../utils/dateParser.utils.js";
+
+export const updatePreferencesSchema = Joi.object({
+  locale: Joi.string()
+    .pattern(/^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/)
+    .allow(null)
+    .messages({
+      "string.pattern.base": "Locale must be a language tag such as en-US or en-GB",
+    }),
+  timezone: Joi.string()
+    .custom((value, helpers) => (isValidTimezone(value) ? value : helpers.error("any.invalid")))
+    .allow(null)
+    .messages({
+      "any.invalid": "Timezone must be an IANA timezone such as Europe/London",
+    }),
+  dateOrder: Joi.string().valid("DMY", "MDY").allow(null).messages({
+    "any.only": "Date order must be DMY or MDY",
+  }),
+})
+  .min(1)
+  .messages({
+    "object.min": "Provide a locale, timezone or dateOrder to update",
+  });
+
+export const updateMemorySchema = Joi.object({
+  enabled: Joi.boolean(),
+  facts: Joi.object()
+    .pattern(
+      Joi.string().trim().min(1).max(50),
+      Joi.alternatives().try(Joi.string().trim().max(500), Joi.number(), Joi.boolean()).allow(null)
+    )
+    .min(1)
+    .messages({
+      "object.min": "facts must contain at least one entry",
+    }),
+})
+  .min(1)
+  .messages({
+    "object.min": "Provide enabled or facts to update",
+  });